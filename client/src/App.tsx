@@ -3,10 +3,13 @@ import { Suspense, useEffect, useState } from "react";
 import { KeyboardControls } from "@react-three/drei";
 import { useAudio } from "./lib/stores/useAudio";
 import { useGameState } from "./lib/stores/useGameState";
+import { useProfile } from "./lib/stores/useProfile";
 import Game from "./components/Game";
 import GameUI from "./components/GameUI";
 import ModelTestScene from "./components/ModelTestScene";
+import ReplayViewer from "./components/ReplayViewer";
 import { MODEL_ADJUSTMENT } from "./lib/constants";
+import { FEATURE_REGISTRY } from "./lib/featureRegistry";
 import { BrowserRouter as Router, Route, Routes } from "react-router-dom";
 import "@fontsource/inter";
 
@@ -17,7 +20,14 @@ export enum Controls {
   leftward = 'leftward',
   rightward = 'rightward',
   fire = 'fire',
-  // board control removed
+  firePort = 'firePort',
+  fireStarboard = 'fireStarboard',
+  raiseGuns = 'raiseGuns',
+  lowerGuns = 'lowerGuns',
+  repair = 'repair',
+  board = 'board',
+  raiseSails = 'raiseSails',
+  lowerSails = 'lowerSails',
 }
 
 // Map controls to keys
@@ -27,7 +37,14 @@ const controlsMap = [
   { name: Controls.leftward, keys: ["KeyA", "ArrowLeft"] },
   { name: Controls.rightward, keys: ["KeyD", "ArrowRight"] },
   { name: Controls.fire, keys: ["Space"] },
-  // boarding key mapping removed
+  { name: Controls.firePort, keys: ["KeyZ"] },
+  { name: Controls.fireStarboard, keys: ["KeyC"] },
+  { name: Controls.raiseGuns, keys: ["KeyR"] },
+  { name: Controls.lowerGuns, keys: ["KeyF"] },
+  { name: Controls.repair, keys: ["KeyT"] },
+  { name: Controls.board, keys: ["KeyG"] }, // B is the collision debug toggle
+  { name: Controls.raiseSails, keys: ["KeyQ"] },
+  { name: Controls.lowerSails, keys: ["KeyX"] },
 ];
 
 // Log the control map configuration
@@ -37,12 +54,16 @@ console.log("Control map configured:", controlsMap);
 function App() {
   const gameState = useGameState((state) => state.gameState);
   const loadSounds = useAudio((state) => state.loadSounds);
+  const initProfile = useProfile((state) => state.initProfile);
   const [isLoading, setIsLoading] = useState(true);
 
   useEffect(() => {
     // Load sounds
     loadSounds();
     
+    // Load or create the player profile and sync save slots
+    initProfile();
+    
     // Initialize game (simulate loading)
     const loadingTimeout = setTimeout(() => {
       setIsLoading(false);
@@ -51,7 +72,7 @@ function App() {
     return () => {
       clearTimeout(loadingTimeout);
     };
-  }, [loadSounds]);
+  }, [loadSounds, initProfile]);
 
   // Loading screen
   if (isLoading) {
@@ -84,20 +105,23 @@ function App() {
         <Route path="/model-test/advanced-ship" element={<ModelTestScene modelPath="/models/advanced_pirate_ship.glb" modelScale={1.0} modelAdjustment={MODEL_ADJUSTMENT.SHIP} modelHeightOffset={2.5} enableBob={true} bobHeight={0.03} bobSpeed={0.5} />} />
         
         {/* Original Island Types */}
-        <Route path="/model-test/tropical" element={<ModelTestScene modelPath="/models/tropical_island.glb" modelScale={3.0} modelAdjustment={MODEL_ADJUSTMENT.TROPICAL} modelHeightOffset={3.7} />} />
-        <Route path="/model-test/mountain" element={<ModelTestScene modelPath="/models/mountain_island.glb" modelScale={5.0} modelAdjustment={MODEL_ADJUSTMENT.MOUNTAIN} modelHeightOffset={0} />} />
+        <Route path="/model-test/tropical" element={<ModelTestScene modelPath="/models/tropical_island.glb" modelScale={3.0} modelAdjustment={FEATURE_REGISTRY.tropical.modelAdjustment} modelHeightOffset={3.7} />} />
+        <Route path="/model-test/mountain" element={<ModelTestScene modelPath="/models/mountain_island.glb" modelScale={5.0} modelAdjustment={FEATURE_REGISTRY.mountain.modelAdjustment} modelHeightOffset={0} />} />
         <Route path="/model-test/rock" element={<ModelTestScene modelPath="/models/rock_formation.glb" modelScale={7.7} modelAdjustment={3.19} modelHeightOffset={5} />} />
-        <Route path="/model-test/rocks" element={<ModelTestScene modelPath="/models/rock_formation.glb" modelScale={1.0} modelAdjustment={MODEL_ADJUSTMENT.ROCKS} modelHeightOffset={0} />} />
+        <Route path="/model-test/rocks" element={<ModelTestScene modelPath="/models/rock_formation.glb" modelScale={1.0} modelAdjustment={FEATURE_REGISTRY.rocks.modelAdjustment} modelHeightOffset={0} />} />
         
         {/* Environment Features */}
-        <Route path="/model-test/shipwreck" element={<ModelTestScene modelPath="/models/shipwreck.glb" modelScale={1.0} modelAdjustment={MODEL_ADJUSTMENT.SHIPWRECK} modelHeightOffset={0.5} />} />
-        <Route path="/model-test/port" element={<ModelTestScene modelPath="/models/port.glb" modelScale={1.0} modelAdjustment={MODEL_ADJUSTMENT.PORT} modelHeightOffset={1.0} />} />
-        <Route path="/model-test/lighthouse" element={<ModelTestScene modelPath="/models/lighthouse.glb" modelScale={1.0} modelAdjustment={MODEL_ADJUSTMENT.LIGHTHOUSE} modelHeightOffset={4.0} />} />
+        <Route path="/model-test/shipwreck" element={<ModelTestScene modelPath="/models/shipwreck.glb" modelScale={1.0} modelAdjustment={FEATURE_REGISTRY.shipwreck.modelAdjustment} modelHeightOffset={FEATURE_REGISTRY.shipwreck.heightOffset} />} />
+        <Route path="/model-test/port" element={<ModelTestScene modelPath="/models/port.glb" modelScale={1.0} modelAdjustment={FEATURE_REGISTRY.port.modelAdjustment} modelHeightOffset={FEATURE_REGISTRY.port.heightOffset} />} />
+        <Route path="/model-test/lighthouse" element={<ModelTestScene modelPath="/models/lighthouse.glb" modelScale={1.0} modelAdjustment={FEATURE_REGISTRY.lighthouse.modelAdjustment} modelHeightOffset={FEATURE_REGISTRY.lighthouse.heightOffset} />} />
         
         {/* New Island Types */}
-        <Route path="/model-test/volcanic" element={<ModelTestScene modelPath="/models/volcanic_island.glb" modelScale={1.0} modelAdjustment={MODEL_ADJUSTMENT.VOLCANIC} modelHeightOffset={7.0} />} />
-        <Route path="/model-test/atoll" element={<ModelTestScene modelPath="/models/atoll_island.glb" modelScale={1.0} modelAdjustment={MODEL_ADJUSTMENT.ATOLL} modelHeightOffset={3.0} />} />
-        <Route path="/model-test/ice" element={<ModelTestScene modelPath="/models/ice_island.glb" modelScale={1.0} modelAdjustment={MODEL_ADJUSTMENT.ICE} modelHeightOffset={5.5} />} />
+        <Route path="/model-test/volcanic" element={<ModelTestScene modelPath="/models/volcanic_island.glb" modelScale={1.0} modelAdjustment={FEATURE_REGISTRY.volcanic.modelAdjustment} modelHeightOffset={FEATURE_REGISTRY.volcanic.heightOffset} />} />
+        <Route path="/model-test/atoll" element={<ModelTestScene modelPath="/models/atoll_island.glb" modelScale={1.0} modelAdjustment={FEATURE_REGISTRY.atoll.modelAdjustment} modelHeightOffset={FEATURE_REGISTRY.atoll.heightOffset} />} />
+        <Route path="/model-test/ice" element={<ModelTestScene modelPath="/models/ice_island.glb" modelScale={1.0} modelAdjustment={FEATURE_REGISTRY.ice.modelAdjustment} modelHeightOffset={FEATURE_REGISTRY.ice.heightOffset} />} />
+        
+        {/* Recorded voyages */}
+        <Route path="/replay" element={<ReplayViewer />} />
         
         {/* Main Game Route */}
         <Route path="*" element={
@@ -135,8 +159,11 @@ function App() {
               )}
             </KeyboardControls>
             
-            {/* Model Test Navigation Button */}
-            <div className="absolute right-4 bottom-4 bg-blue-800 text-white rounded-lg overflow-hidden">
+            {/* Model Test and Replay Navigation Buttons */}
+            <div className="absolute right-4 bottom-4 bg-blue-800 text-white rounded-lg overflow-hidden flex">
+              <a href="/replay" className="block px-4 py-2 hover:bg-blue-700 transition-colors">
+                Replays
+              </a>
               <a href="/model-test" className="block px-4 py-2 hover:bg-blue-700 transition-colors">
                 Model Viewer
               </a>
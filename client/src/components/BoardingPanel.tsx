@@ -0,0 +1,59 @@
+import { useBoarding } from "../lib/stores/useBoarding";
+import { useCrew } from "../lib/stores/useCrew";
+import { CAPTURE_CHOICES, getCaptureChoice } from "../lib/simulation/boarding";
+import { getArchetype } from "../lib/simulation/enemyArchetypes";
+import { getCrewSize } from "../lib/simulation/crew";
+
+/**
+ * The boarding prompt when a crippled ship is alongside, the fight on deck while
+ * it lasts, and what to do with her once she has struck
+ */
+const BoardingPanel = () => {
+  const { targetId, phase, archetype, enemyCrew, resolveCapture } = useBoarding();
+  const roster = useCrew((state) => state.roster);
+
+  if (!archetype || (!phase && !targetId)) return null;
+  const ship = getArchetype(archetype);
+
+  return (
+    <div className="fixed top-44 left-1/2 -translate-x-1/2 bg-gray-900 bg-opacity-80 px-6 py-3 rounded-lg border border-[#8B4513] text-center">
+      {!phase && (
+        <div className="text-white pointer-events-none">
+          The {ship.name} is crippled - press <span className="text-[#FFD700] font-bold">G</span> to board her
+        </div>
+      )}
+
+      {phase === 'fighting' && (
+        <div className="pointer-events-none">
+          <div className="text-[#FFD700] font-['Pirata_One'] text-2xl">Boarding the {ship.name}</div>
+          <div className="text-white mt-1">Our crew {getCrewSize(roster)} · Theirs {enemyCrew}</div>
+        </div>
+      )}
+
+      {phase === 'won' && (
+        <>
+          <div className="text-[#FFD700] font-['Pirata_One'] text-2xl">The {ship.name} has struck her colours</div>
+          <div className="flex gap-2 mt-2">
+            {CAPTURE_CHOICES.map(choice => {
+              const { name, description } = getCaptureChoice(choice);
+              const disabled = choice === 'prize' && !ship.prize;
+              return (
+                <button
+                  key={choice}
+                  onClick={() => resolveCapture(choice)}
+                  disabled={disabled}
+                  title={disabled ? 'She would fall apart on the way home' : description}
+                  className="px-3 py-1 rounded bg-[#8B4513] text-white hover:bg-[#A0522D] disabled:opacity-40 disabled:cursor-not-allowed"
+                >
+                  {name}
+                </button>
+              );
+            })}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default BoardingPanel;
@@ -0,0 +1,96 @@
+import { useEffect, useState } from "react";
+import * as THREE from "three";
+import { GameSimulation, gameSimulation, PLAYER_SHIP_ID, SimCannonball, SimulationEvent } from "../lib/simulation/GameSimulation";
+import Cannonball from "./Cannonball";
+import CannonFireEffect from "./CannonFireEffect";
+import ExplosionEffect from "./ExplosionEffect";
+import ShipExplosionEffect from "./ShipExplosionEffect";
+import WaterSplashEffect from "./WaterSplashEffect";
+
+// A one-off effect left behind by a shot
+interface ShotEffect {
+  id: string;
+  kind: 'fire' | 'feature' | 'ship' | 'water';
+  position: THREE.Vector3;
+  direction: THREE.Vector3;
+}
+
+interface CannonballLayerProps {
+  simulation?: GameSimulation; // Defaults to the game's own - the replay viewer passes its copy
+}
+
+/**
+ * Every simulated cannonball in flight, plus muzzle flashes, explosions and splashes
+ * Balls are added and removed as the simulation reports them - remount the layer
+ * after restoring a snapshot so it starts over from the balls in flight
+ */
+const CannonballLayer = ({ simulation = gameSimulation }: CannonballLayerProps) => {
+  const [cannonballs, setCannonballs] = useState<SimCannonball[]>(() => [...simulation.getCannonballs()]);
+  const [effects, setEffects] = useState<ShotEffect[]>([]);
+
+  useEffect(() => simulation.subscribe((event: SimulationEvent) => {
+    if (event.type === 'cannonFired') {
+      setCannonballs(prev => [...prev, ...event.cannonballs]);
+
+      // Only the player's broadside gets muzzle flashes
+      if (event.shipId === PLAYER_SHIP_ID) {
+        setEffects(prev => [
+          ...prev,
+          ...event.cannonballs.map(ball => ({
+            id: `fire-${ball.id}`,
+            kind: 'fire' as const,
+            position: ball.origin.clone(),
+            direction: ball.velocity.clone().normalize(),
+          })),
+        ]);
+      }
+    } else if (event.type === 'cannonballRemoved') {
+      const { cannonball, impact } = event;
+      setCannonballs(prev => prev.filter(ball => ball !== cannonball));
+
+      if (impact) {
+        const position = cannonball.position.clone();
+        // Splashes sit on the water surface
+        if (impact === 'water') position.y = simulation.getOceanHeightAt(position.x, position.z);
+
+        setEffects(prev => [...prev, {
+          id: `impact-${cannonball.id}`,
+          kind: impact,
+          position,
+          direction: cannonball.velocity.clone().normalize(),
+        }]);
+      }
+    }
+  }), [simulation]);
+
+  const removeEffect = (id: string) => {
+    setEffects(prev => prev.filter(effect => effect.id !== id));
+  };
+
+  return (
+    <>
+      {cannonballs.map(ball => (
+        <Cannonball key={ball.id} cannonball={ball} />
+      ))}
+
+      {effects.map(effect => {
+        const onComplete = () => removeEffect(effect.id);
+
+        switch (effect.kind) {
+          case 'fire':
+            return <CannonFireEffect key={effect.id} position={effect.position} direction={effect.direction} onComplete={onComplete} />;
+          case 'feature':
+            // Explosion when a cannonball hits land
+            return <ExplosionEffect key={effect.id} position={effect.position} size={3.5} duration={0.8} onComplete={onComplete} />;
+          case 'ship':
+            // Fiery explosion when a cannonball hits a ship
+            return <ShipExplosionEffect key={effect.id} position={effect.position} size={4.0} duration={1.2} onComplete={onComplete} />;
+          case 'water':
+            return <WaterSplashEffect key={effect.id} position={effect.position} size={2.5} duration={1.2} onComplete={onComplete} simulation={simulation} />;
+        }
+      })}
+    </>
+  );
+};
+
+export default CannonballLayer;
@@ -2,96 +2,147 @@ import React, { useRef, useEffect } from 'react';
 import * as THREE from 'three';
 import { useFrame } from '@react-three/fiber';
 import { EnvironmentFeature } from './Environment';
-import { getFeatureRadius } from '../lib/collision';
+import { getFeatureShapes } from '../lib/featureRegistry';
+import { CollisionShape, Point2, createHullShape } from '../lib/helpers/collisionShapes';
+import { collisionHandler } from '../lib/services/CollisionHandler';
 
 interface CollisionBoundaryVisualizerProps {
   features: EnvironmentFeature[];
   visible?: boolean;
 }
 
+// Height of the outlines above the water
+const OUTLINE_HEIGHT = 0.05;
+
+// Get the outline of a shape as world-space points on the XZ plane
+const getOutline = (shape: CollisionShape): Point2[] => {
+  if (shape.kind === 'polygon') return shape.points;
+
+  const segments = 32;
+  const points: Point2[] = [];
+  for (let i = 0; i < segments; i++) {
+    const angle = (i / segments) * Math.PI * 2;
+    points.push({ x: shape.x + Math.cos(angle) * shape.radius, z: shape.z + Math.sin(angle) * shape.radius });
+  }
+  return points;
+};
+
+// Write an outline into a line loop's position buffer
+const setOutlinePositions = (geometry: THREE.BufferGeometry, outline: Point2[]) => {
+  const positions = new Float32Array(outline.length * 3);
+  outline.forEach((point, i) => {
+    positions[i * 3] = point.x;
+    positions[i * 3 + 1] = OUTLINE_HEIGHT;
+    positions[i * 3 + 2] = point.z;
+  });
+  geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+  geometry.computeBoundingSphere();
+};
+
+// Create a line loop for an outline
+const createOutline = (outline: Point2[], color: number): THREE.LineLoop => {
+  const geometry = new THREE.BufferGeometry();
+  setOutlinePositions(geometry, outline);
+
+  const material = new THREE.LineBasicMaterial({
+    color,
+    linewidth: 2,
+    transparent: true,
+    opacity: 0.7
+  });
+
+  return new THREE.LineLoop(geometry, material);
+};
+
+// Remove and dispose every outline in a group
+const clearGroup = (group: THREE.Group) => {
+  while (group.children.length > 0) {
+    const child = group.children[0];
+    if (child instanceof THREE.LineLoop) {
+      child.geometry.dispose();
+      (child.material as THREE.Material).dispose();
+    }
+    group.remove(child);
+  }
+};
+
 /**
  * Renders visual representations of collision boundaries for all environmental features
+ * and the hull boxes of every tracked ship
  * This is a debug component to help visualize where collisions will occur
  */
-const CollisionBoundaryVisualizer: React.FC<CollisionBoundaryVisualizerProps> = ({ 
-  features, 
-  visible = true 
+const CollisionBoundaryVisualizer: React.FC<CollisionBoundaryVisualizerProps> = ({
+  features,
+  visible = true
 }) => {
-  const circlesRef = useRef<THREE.Group>(null);
+  const featuresRef = useRef<THREE.Group>(null);
+  const hullsRef = useRef<THREE.Group>(null);
 
   // Update the visualizer when features change
   useEffect(() => {
-    const group = circlesRef.current;
+    const group = featuresRef.current;
     if (!group) return;
-    
-    // Clear existing circles
-    while (group.children.length > 0) {
-      group.remove(group.children[0]);
-    }
-    
-    // Create new circles for each feature
+
+    clearGroup(group);
+
+    // Create outlines for every shape of each feature's footprint
     features.forEach(feature => {
-      const radius = getFeatureRadius(feature.type, feature.scale);
-      
-      // Create a circle geometry
-      const segments = 32;
-      const geometry = new THREE.BufferGeometry();
-      const positions = new Float32Array((segments + 1) * 3);
-      
-      for (let i = 0; i <= segments; i++) {
-        const angle = (i / segments) * Math.PI * 2;
-        positions[i * 3] = Math.cos(angle) * radius;
-        positions[i * 3 + 1] = 0.05; // Slightly above ground
-        positions[i * 3 + 2] = Math.sin(angle) * radius;
-      }
-      
-      geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
-      
-      // Create line material based on feature type
-      const color = feature.type === 'mountain' ? 0xff0000 : 
-                    feature.type === 'tropical' ? 0x00ff00 : 
+      const color = feature.type === 'mountain' ? 0xff0000 :
+                    feature.type === 'tropical' ? 0x00ff00 :
                     0x0000ff;
-                    
-      const material = new THREE.LineBasicMaterial({ 
-        color, 
-        linewidth: 2,
-        transparent: true,
-        opacity: 0.7
-      });
-      
-      // Create line loop
-      const circle = new THREE.LineLoop(geometry, material);
-      circle.position.set(feature.x, 0, feature.z);
-      circle.rotation.x = Math.PI / 2; // Rotate to lay flat on the ground
-      
-      // Add to the group
-      group.add(circle);
+
+      getFeatureShapes(feature).forEach(shape => group.add(createOutline(getOutline(shape), color)));
     });
-    
-    console.log(`[COLLISION DEBUG] Created ${features.length} collision boundaries`);
+
+    console.log(`[COLLISION DEBUG] Created collision boundaries for ${features.length} features`);
   }, [features]);
-  
-  // Pulse the circles to make them more visible
+
+  // Clean up outlines on unmount
+  useEffect(() => () => {
+    if (featuresRef.current) clearGroup(featuresRef.current);
+    if (hullsRef.current) clearGroup(hullsRef.current);
+  }, []);
+
+  // Pulse the outlines to make them more visible and follow the ships
   useFrame(({ clock }) => {
-    if (!circlesRef.current || !visible) return;
-    
+    if (!featuresRef.current || !hullsRef.current || !visible) return;
+
+    // Ships move every frame, so their hull boxes are rebuilt in place
+    const hulls = hullsRef.current;
+    const ships = collisionHandler.getShips();
+    while (hulls.children.length < ships.length) {
+      hulls.add(createOutline([], 0xffff00));
+    }
+    while (hulls.children.length > ships.length) {
+      const child = hulls.children[hulls.children.length - 1] as THREE.LineLoop;
+      child.geometry.dispose();
+      (child.material as THREE.Material).dispose();
+      hulls.remove(child);
+    }
+    ships.forEach((ship, i) => {
+      const hull = createHullShape(ship.position, ship.rotationY, ship.hull);
+      setOutlinePositions((hulls.children[i] as THREE.LineLoop).geometry, getOutline(hull));
+    });
+
     const opacity = 0.4 + Math.sin(clock.getElapsedTime() * 2) * 0.3;
-    
+
     // Safely iterate through children
-    for (let i = 0; i < circlesRef.current.children.length; i++) {
-      const child = circlesRef.current.children[i];
+    [...featuresRef.current.children, ...hulls.children].forEach(child => {
       if (child instanceof THREE.LineLoop) {
         const material = child.material;
         if (material instanceof THREE.LineBasicMaterial) {
           material.opacity = opacity;
         }
       }
-    }
+    });
   });
-  
+
   return (
-    <group ref={circlesRef} visible={visible} />
+    <group visible={visible}>
+      <group ref={featuresRef} />
+      <group ref={hullsRef} />
+    </group>
   );
 };
 
-export default CollisionBoundaryVisualizer;
\ No newline at end of file
+export default CollisionBoundaryVisualizer;
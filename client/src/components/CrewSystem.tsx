@@ -3,6 +3,7 @@ import * as THREE from 'three';
 import CrewMember, { CrewMemberType, CrewAnimationState } from './CrewMember';
 import { usePlayer } from '../lib/stores/usePlayer';
 import { useEnemies } from '../lib/stores/useEnemies';
+import { CrewRoster } from '../lib/simulation/crew';
 
 // Position definitions for crew members on the ship
 interface CrewPosition {
@@ -30,10 +31,13 @@ interface CrewSystemProps {
   shipSize?: 'small' | 'medium' | 'large';
   isPlayerShip?: boolean;
   shipRef?: React.RefObject<THREE.Group>;
-  crewSize?: number;
+  roster?: CrewRoster; // Figures shown per role - the player's ship passes its real crew
   shipEvent?: ShipEvent;
 }
 
+// A skeleton crew for ships whose roster isn't tracked
+const DEFAULT_ROSTER: CrewRoster = { sailor: 4, gunner: 2, lookout: 1 };
+
 /**
  * Manages the crew members on a ship, their positions and animations
  * Responds to ship events with appropriate crew reactions
@@ -42,7 +46,7 @@ const CrewSystem: React.FC<CrewSystemProps> = ({
   shipSize = 'medium',
   isPlayerShip = true,
   shipRef,
-  crewSize = 8,
+  roster = DEFAULT_ROSTER,
   shipEvent = 'idle'
 }) => {
   // State for crew positions and animation states
@@ -68,40 +72,32 @@ const CrewSystem: React.FC<CrewSystemProps> = ({
     // Size multipliers for different ship sizes
     const sizeMultiplier = shipSize === 'small' ? 0.8 : shipSize === 'large' ? 1.2 : 1.0;
     
-    // Add gunners on both sides of the ship
-    const gunnerCount = Math.max(1, Math.floor(crewSize / 3)); // At least 1 gunner, up to 1/3 of crew
-    
-    for (let i = 0; i < gunnerCount; i++) {
-      // Port side gunners (left)
+    // Gunners split between the two batteries, port first
+    for (let i = 0; i < roster.gunner; i++) {
+      const port = i % 2 === 0;
+      const slot = Math.floor(i / 2);
       newPositions.push({
-        position: [-0.7 * sizeMultiplier, deckHeight, (-0.5 + i * 0.8) * sizeMultiplier], 
-        rotation: [0, -Math.PI/2, 0], // Facing left
+        position: [(port ? -0.7 : 0.7) * sizeMultiplier, deckHeight, (-0.5 + slot * 0.4) * sizeMultiplier],
+        rotation: [0, port ? -Math.PI/2 : Math.PI/2, 0], // Facing out over their side
         type: 'gunner',
         deck: true,
-        station: 'port'
+        station: port ? 'port' : 'starboard'
       });
-      
-      // Starboard side gunners (right)
+    }
+    
+    // Lookouts at the bow
+    for (let i = 0; i < roster.lookout; i++) {
       newPositions.push({
-        position: [0.7 * sizeMultiplier, deckHeight, (-0.5 + i * 0.8) * sizeMultiplier],
-        rotation: [0, Math.PI/2, 0], // Facing right
-        type: 'gunner',
+        position: [(i - (roster.lookout - 1) / 2) * 0.3 * sizeMultiplier, deckHeight, 1.2 * sizeMultiplier],
+        rotation: [0, 0, 0], // Facing forward
+        type: 'lookout',
         deck: true,
-        station: 'starboard'
+        station: 'bow'
       });
     }
     
-    // Add a lookout at the bow
-    newPositions.push({
-      position: [0, deckHeight, 1.2 * sizeMultiplier],
-      rotation: [0, 0, 0], // Facing forward
-      type: 'lookout',
-      deck: true,
-      station: 'bow'
-    });
-    
-    // Add remaining crew as sailors
-    const remainingCrew = Math.max(0, crewSize - (1 + gunnerCount * 2 + 1)); // Captain + gunners + lookout
+    // Sailors about the middle of the deck
+    const remainingCrew = roster.sailor;
     
     for (let i = 0; i < remainingCrew; i++) {
       // Distribute sailors around the ship centrally
@@ -122,7 +118,7 @@ const CrewSystem: React.FC<CrewSystemProps> = ({
     }
     
     setCrewPositions(newPositions);
-  }, [shipSize, crewSize]);
+  }, [shipSize, roster]);
   
   // Update crew animation states based on ship events
   useEffect(() => {
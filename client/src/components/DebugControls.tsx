@@ -50,12 +50,16 @@ interface DebugControlsProps {
   onUpdateShipScale: (scale: number) => void; // New prop for updating ship scale
   onToggleWaterVisibility: () => void; // Toggle water visibility
   onToggleOneShotKill: () => void;     // Toggle one-shot kill
+  onToggleAIDebug: () => void;         // Toggle the enemy AI overlay
+  onToggleEncounters: () => void;      // Toggle enemy waves
   initialShipHeight: number;
   initialWaveHeight: number;
   initialWaveSpeed: number;
   initialShipScale: number; // New prop for initial ship scale
   initialWaterVisible: boolean;
   initialOneShotKill: boolean;
+  initialAIDebug: boolean;
+  initialEncounters: boolean;
 }
 
 const DebugControls: React.FC<DebugControlsProps> = ({
@@ -64,12 +68,16 @@ const DebugControls: React.FC<DebugControlsProps> = ({
   onUpdateShipScale,
   onToggleWaterVisibility,
   onToggleOneShotKill,
+  onToggleAIDebug,
+  onToggleEncounters,
   initialShipHeight,
   initialWaveHeight,
   initialWaveSpeed,
   initialShipScale,
   initialWaterVisible,
   initialOneShotKill,
+  initialAIDebug,
+  initialEncounters,
 }) => {
   const [shipHeight, setShipHeight] = useState(initialShipHeight);
   const [waveHeight, setWaveHeight] = useState(initialWaveHeight);
@@ -77,6 +85,8 @@ const DebugControls: React.FC<DebugControlsProps> = ({
   const [shipScale, setShipScale] = useState(initialShipScale);
   const [waterVisible, setWaterVisible] = useState(initialWaterVisible);
   const [oneShotKill, setOneShotKill] = useState(initialOneShotKill);
+  const [aiDebug, setAIDebug] = useState(initialAIDebug);
+  const [encounters, setEncounters] = useState(initialEncounters);
 
   const handleShipHeightChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const newHeight = parseFloat(e.target.value);
@@ -114,6 +124,18 @@ const DebugControls: React.FC<DebugControlsProps> = ({
     setOneShotKill(!oneShotKill);
     onToggleOneShotKill();
   };
+  
+  // Handle enemy AI overlay toggle
+  const handleAIDebugToggle = () => {
+    setAIDebug(!aiDebug);
+    onToggleAIDebug();
+  };
+  
+  // Handle enemy waves toggle
+  const handleEncountersToggle = () => {
+    setEncounters(!encounters);
+    onToggleEncounters();
+  };
 
   return (
     <div style={panelStyle}>
@@ -220,6 +242,44 @@ const DebugControls: React.FC<DebugControlsProps> = ({
             {oneShotKill ? 'ON' : 'OFF'}
           </button>
         </div>
+        
+        {/* Enemy AI Overlay Toggle - each enemy's state and what it is steering for */}
+        <div style={{ marginBottom: '10px', display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+          <span>Enemy AI States</span>
+          <button 
+            onClick={handleAIDebugToggle}
+            style={{
+              padding: '5px 10px',
+              backgroundColor: aiDebug ? '#4CAF50' : '#F44336',
+              color: 'white',
+              border: 'none',
+              borderRadius: '4px',
+              cursor: 'pointer',
+              width: '60px'
+            }}
+          >
+            {aiDebug ? 'ON' : 'OFF'}
+          </button>
+        </div>
+        
+        {/* Enemy Waves Toggle - off leaves the sea quiet for testing */}
+        <div style={{ marginBottom: '10px', display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+          <span>Enemy Waves</span>
+          <button 
+            onClick={handleEncountersToggle}
+            style={{
+              padding: '5px 10px',
+              backgroundColor: encounters ? '#4CAF50' : '#F44336',
+              color: 'white',
+              border: 'none',
+              borderRadius: '4px',
+              cursor: 'pointer',
+              width: '60px'
+            }}
+          >
+            {encounters ? 'ON' : 'OFF'}
+          </button>
+        </div>
       </div>
       
       <p style={{ fontSize: '12px', marginTop: '15px', color: '#aaa' }}>
@@ -14,12 +14,16 @@ export const DebugControlsOverlay: React.FC<DebugControlsOverlayProps> = ({ cont
   const shipScale = useGameState((state) => state.shipScale);
   const waterVisible = useGameState((state) => state.waterVisible);
   const oneShotKill = useGameState((state) => state.oneShotKill);
+  const showAIDebug = useGameState((state) => state.showAIDebug);
+  const encountersEnabled = useGameState((state) => state.encountersEnabled);
   
   const setShipHeight = useGameState((state) => state.setShipHeight);
   const setWaveParameters = useGameState((state) => state.setWaveParameters);
   const setShipScale = useGameState((state) => state.setShipScale);
   const toggleWaterVisibility = useGameState((state) => state.toggleWaterVisibility);
   const toggleOneShotKill = useGameState((state) => state.toggleOneShotKill);
+  const toggleAIDebug = useGameState((state) => state.toggleAIDebug);
+  const toggleEncounters = useGameState((state) => state.toggleEncounters);
 
   const container = document.getElementById(containerId);
   
@@ -32,12 +36,16 @@ export const DebugControlsOverlay: React.FC<DebugControlsOverlayProps> = ({ cont
       onUpdateShipScale={setShipScale}
       onToggleWaterVisibility={toggleWaterVisibility}
       onToggleOneShotKill={toggleOneShotKill}
+      onToggleAIDebug={toggleAIDebug}
+      onToggleEncounters={toggleEncounters}
       initialShipHeight={shipHeight}
       initialWaveHeight={waveHeight}
       initialWaveSpeed={waveSpeed}
       initialShipScale={shipScale}
       initialWaterVisible={waterVisible}
       initialOneShotKill={oneShotKill}
+      initialAIDebug={showAIDebug}
+      initialEncounters={encountersEnabled}
     />,
     container
   );
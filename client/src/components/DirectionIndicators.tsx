@@ -3,26 +3,32 @@ import { useFrame } from '@react-three/fiber';
 import { Text } from '@react-three/drei';
 import * as THREE from 'three';
 import { usePlayer } from '../lib/stores/usePlayer';
+import { useWind } from '../lib/stores/useWind';
+import { getWindAt } from '../lib/simulation/wind';
 
 /**
  * Component that renders direction indicators around the ship
- * to visualize its forward/backward movement directions
+ * to visualize its forward/backward movement directions, and the wind above it
  */
 const DirectionIndicators = () => {
   // Get player position and rotation from store
   const { position, rotation } = usePlayer();
+  const windDirection = useWind((state) => state.direction);
+  const windStrength = useWind((state) => state.strength);
   
   // Refs for the arrow meshes
   const forwardArrowRef = useRef<THREE.Group>(null);
   const backwardArrowRef = useRef<THREE.Group>(null);
   const leftArrowRef = useRef<THREE.Group>(null);
   const rightArrowRef = useRef<THREE.Group>(null);
+  const windArrowRef = useRef<THREE.Group>(null);
   
   // Refs for the text holders that will face the camera
   const forwardTextRef = useRef<THREE.Group>(null);
   const backwardTextRef = useRef<THREE.Group>(null);
   const leftTextRef = useRef<THREE.Group>(null);
   const rightTextRef = useRef<THREE.Group>(null);
+  const windTextRef = useRef<THREE.Group>(null);
   
   // Update arrow positions to match ship position and rotation
   useFrame(({ camera }) => {
@@ -30,7 +36,8 @@ const DirectionIndicators = () => {
         !forwardArrowRef.current || !backwardArrowRef.current || 
         !leftArrowRef.current || !rightArrowRef.current ||
         !forwardTextRef.current || !backwardTextRef.current ||
-        !leftTextRef.current || !rightTextRef.current) {
+        !leftTextRef.current || !rightTextRef.current ||
+        !windArrowRef.current || !windTextRef.current) {
       return;
     }
     
@@ -70,6 +77,14 @@ const DirectionIndicators = () => {
     rightArrowRef.current.position.copy(position.clone().add(rightDir.clone().multiplyScalar(10)));
     rightArrowRef.current.lookAt(position.clone().add(rightDir.clone().multiplyScalar(20)));
     
+    // Wind arrow (white) - above the ship, its head pointing the way the wind blows there
+    const wind = getWindAt({ direction: windDirection, strength: windStrength }, position.x, position.z);
+    const downwindDir = new THREE.Vector3(Math.sin(wind.direction), 0, Math.cos(wind.direction));
+    const windPosition = position.clone().add(new THREE.Vector3(0, 8, 0));
+    windArrowRef.current.position.copy(windPosition);
+    windArrowRef.current.lookAt(windPosition.clone().sub(downwindDir)); // The arrow head is on the group's -Z
+    windArrowRef.current.scale.setScalar(0.6 + wind.strength * 0.8);
+    
     // Make all text elements face the camera
     const makeTextFaceCamera = (textRef: THREE.Group) => {
       // Calculate direction from text to camera
@@ -85,6 +100,7 @@ const DirectionIndicators = () => {
     makeTextFaceCamera(backwardTextRef.current);
     makeTextFaceCamera(leftTextRef.current);
     makeTextFaceCamera(rightTextRef.current);
+    makeTextFaceCamera(windTextRef.current);
   });
   
   // Create an arrow shape
@@ -147,6 +163,12 @@ const DirectionIndicators = () => {
         {createArrow("#ffcc00")}
         <DirectionText text="D - Right" color="#ffcc00" textRef={rightTextRef} />
       </group>
+      
+      {/* Wind - White */}
+      <group ref={windArrowRef} position={[0, 8, 0]}>
+        {createArrow("#ffffff")}
+        <DirectionText text="Wind" color="#888888" textRef={windTextRef} />
+      </group>
     </>
   );
 };
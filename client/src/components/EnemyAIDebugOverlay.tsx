@@ -0,0 +1,127 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useFrame } from "@react-three/fiber";
+import { Billboard, Text } from "@react-three/drei";
+import * as THREE from "three";
+import { GameSimulation, gameSimulation, PLAYER_SHIP_ID } from "../lib/simulation/GameSimulation";
+import { AIPoint, AIStateName } from "../lib/simulation/enemyAI";
+import { getArchetype } from "../lib/simulation/enemyArchetypes";
+
+const STATE_COLORS: Record<AIStateName, string> = {
+  patrol: '#8BC34A',
+  pursue: '#FF9800',
+  broadside: '#F44336',
+  flee: '#03A9F4',
+  search: '#FFEB3B',
+  regroup: '#BA68C8',
+};
+
+// Height of the label and the line above the water
+const LABEL_HEIGHT = 14;
+const LINE_HEIGHT = 3;
+
+// Where an enemy is headed in its current state, and a short name for it
+const getFocus = (simulation: GameSimulation, id: string): { point: AIPoint; name: string } | null => {
+  const enemy = simulation.getEnemy(id);
+  if (!enemy) return null;
+  const { ai } = enemy;
+
+  if (ai.state === 'search') {
+    return ai.lastKnown && { point: ai.lastKnown, name: 'last seen' };
+  }
+  if (ai.state === 'patrol') {
+    return ai.waypoint && { point: ai.waypoint, name: 'waypoint' };
+  }
+  if (ai.target === PLAYER_SHIP_ID) {
+    const { position } = simulation.getPlayer();
+    return { point: { x: position.x, z: position.z }, name: 'player' };
+  }
+
+  const other = ai.target ? simulation.getEnemy(ai.target) : undefined;
+  return other ? { point: { x: other.position.x, z: other.position.z }, name: other.id } : null;
+};
+
+interface EnemyAIMarkerProps {
+  id: string;
+  simulation: GameSimulation;
+}
+
+// State label over one enemy, plus a line to whatever it is steering for
+const EnemyAIMarker = ({ id, simulation }: EnemyAIMarkerProps) => {
+  const groupRef = useRef<THREE.Group>(null);
+  const [label, setLabel] = useState('');
+  const [state, setState] = useState<AIStateName>('patrol');
+
+  const line = useMemo(() => {
+    const geometry = new THREE.BufferGeometry().setFromPoints([new THREE.Vector3(), new THREE.Vector3()]);
+    return new THREE.Line(geometry, new THREE.LineBasicMaterial({ color: STATE_COLORS.patrol }));
+  }, []);
+
+  useEffect(() => () => {
+    line.geometry.dispose();
+    (line.material as THREE.Material).dispose();
+  }, [line]);
+
+  useFrame(() => {
+    const enemy = simulation.getEnemy(id);
+    if (!enemy || !groupRef.current) return;
+
+    groupRef.current.position.set(enemy.position.x, 0, enemy.position.z);
+
+    const focus = getFocus(simulation, id);
+    const name = getArchetype(enemy.archetype).name;
+    const nextLabel = focus ? `${name}: ${enemy.ai.state} → ${focus.name}` : `${name}: ${enemy.ai.state}`;
+    if (nextLabel !== label) setLabel(nextLabel);
+    if (enemy.ai.state !== state) {
+      setState(enemy.ai.state);
+      (line.material as THREE.LineBasicMaterial).color.set(STATE_COLORS[enemy.ai.state]);
+    }
+
+    // The line is drawn relative to the ship
+    const positions = line.geometry.attributes.position as THREE.BufferAttribute;
+    positions.setXYZ(0, 0, LINE_HEIGHT, 0);
+    if (focus) {
+      positions.setXYZ(1, focus.point.x - enemy.position.x, LINE_HEIGHT, focus.point.z - enemy.position.z);
+    } else {
+      positions.setXYZ(1, 0, LINE_HEIGHT, 0);
+    }
+    positions.needsUpdate = true;
+    line.geometry.computeBoundingSphere();
+  });
+
+  return (
+    <group ref={groupRef}>
+      <primitive object={line} />
+      <Billboard position={[0, LABEL_HEIGHT, 0]}>
+        <Text fontSize={2} color={STATE_COLORS[state]} outlineWidth={0.1} outlineColor="#000000" anchorX="center" anchorY="middle">
+          {label}
+        </Text>
+      </Billboard>
+    </group>
+  );
+};
+
+interface EnemyAIDebugOverlayProps {
+  simulation?: GameSimulation; // Defaults to the game's own - the replay viewer passes its copy
+}
+
+/**
+ * Debug view of the enemy AI - shows every enemy's archetype, state and what it is chasing, fleeing or searching for
+ */
+const EnemyAIDebugOverlay = ({ simulation = gameSimulation }: EnemyAIDebugOverlayProps) => {
+  const [enemyIds, setEnemyIds] = useState<string[]>([]);
+
+  useFrame(() => {
+    const ids = simulation.getEnemies().map(enemy => enemy.id);
+    if (ids.join() !== enemyIds.join()) setEnemyIds(ids);
+  });
+
+  return (
+    <>
+      {enemyIds.map(id => (
+        <EnemyAIMarker key={id} id={id} simulation={simulation} />
+      ))}
+    </>
+  );
+};
+
+export default EnemyAIDebugOverlay;
@@ -2,33 +2,25 @@ import { useRef, useState, useEffect, memo } from "react";
 import { useGLTF } from "@react-three/drei";
 import * as THREE from "three";
 import { GLTF } from "three-stdlib";
-import { SCALE, MODEL_ADJUSTMENT, STATIC } from "../lib/constants";
+import { STATIC } from "../lib/constants";
+import {
+  EnvironmentFeatureType,
+  FEATURE_REGISTRY,
+  getFeatureDefinition,
+  needsDerivedFootprint,
+  setDerivedFootprint
+} from "../lib/featureRegistry";
+import { computeModelFootprint } from "../lib/helpers/collisionShapes";
 import { environmentCollisions } from "../lib/collision";
+import { collisionHandler } from "../lib/services/CollisionHandler";
 import CollisionBoundaryVisualizer from "./CollisionBoundaryVisualizer";
+import LighthouseBeam from "./LighthouseBeam";
 
-// Preload all models once at module level
-useGLTF.preload('/models/tropical_island.glb');
-useGLTF.preload('/models/mountain_island.glb');
-useGLTF.preload('/models/rock_formation.glb');
-useGLTF.preload('/models/shipwreck.glb');
-useGLTF.preload('/models/port.glb');
-useGLTF.preload('/models/lighthouse.glb');
-// Preload new island type models
-useGLTF.preload('/models/volcanic_island.glb');
-useGLTF.preload('/models/atoll_island.glb');
-useGLTF.preload('/models/ice_island.glb');
+// Preload all feature models once at module level
+Object.values(FEATURE_REGISTRY).forEach(definition => useGLTF.preload(definition.modelPath));
 
-// Define feature types
-export type EnvironmentFeatureType = 
-  | 'tropical' 
-  | 'mountain' 
-  | 'rocks' 
-  | 'shipwreck' 
-  | 'port' 
-  | 'lighthouse'
-  | 'volcanic'  // New type: volcanic island 
-  | 'atoll'     // New type: coral atoll island
-  | 'ice';      // New type: ice island
+// Feature types are defined by the feature registry
+export type { EnvironmentFeatureType };
 
 export interface EnvironmentFeature {
   id: string; // Unique ID
@@ -46,26 +38,9 @@ const EnvironmentalFeature = memo(({ feature }: { feature: EnvironmentFeature })
   const [loaded, setLoaded] = useState(false);
   const [positioned, setPositioned] = useState(false);
   
-  // Get the proper model path based on feature type
-  const getModelPath = () => {
-    switch (type) {
-      case 'tropical': return '/models/tropical_island.glb';
-      case 'mountain': return '/models/mountain_island.glb';
-      case 'rocks': return '/models/rock_formation.glb';
-      case 'shipwreck': return '/models/shipwreck.glb';
-      case 'port': return '/models/port.glb';
-      case 'lighthouse': return '/models/lighthouse.glb';
-      // New island types
-      case 'volcanic': return '/models/volcanic_island.glb';
-      case 'atoll': return '/models/atoll_island.glb';
-      case 'ice': return '/models/ice_island.glb';
-      default: 
-        console.warn(`[ENV] Unknown feature type: ${type}, defaulting to rocks`);
-        return '/models/rock_formation.glb';
-    }
-  };
-  
-  const modelPath = getModelPath();
+  // Everything about how this type looks comes from the feature registry
+  const definition = getFeatureDefinition(type);
+  const modelPath = definition.modelPath;
   
   // Load the model - this will use the preloaded version
   const { scene: originalModel } = useGLTF(modelPath) as GLTF & {
@@ -80,45 +55,24 @@ const EnvironmentalFeature = memo(({ feature }: { feature: EnvironmentFeature })
       model.current = originalModel.clone();
       setLoaded(true);
       console.log(`[ENV] Model ${id} loaded from ${modelPath}`);
+      
+      // The first copy of a type with a model-derived footprint measures it for every feature of that type
+      if (needsDerivedFootprint(type)) {
+        const footprint = computeModelFootprint(model.current, definition.scale.BASE * definition.modelAdjustment);
+        if (footprint.length >= 3) {
+          setDerivedFootprint(type, footprint);
+          
+          // Feature bounds changed, so rebuild the collision indexes
+          environmentCollisions.setFeatures(environmentCollisions.getFeatures());
+          collisionHandler.setFeatures(collisionHandler.getFeatures());
+          console.log(`[ENV] Derived ${footprint.length}-point collision footprint for ${type}`);
+        }
+      }
     }
-  }, [originalModel, id, modelPath]);
-  
-  // Calculate base scale based on type
-  const getBaseScale = () => {
-    switch (type) {
-      case 'tropical': return SCALE.ISLAND.TROPICAL.BASE;
-      case 'mountain': return SCALE.ISLAND.MOUNTAIN.BASE;
-      case 'rocks': return SCALE.ISLAND.ROCKS.BASE;
-      case 'shipwreck': return SCALE.ISLAND.SHIPWRECK.BASE;
-      case 'port': return SCALE.ISLAND.PORT.BASE;
-      case 'lighthouse': return SCALE.ISLAND.LIGHTHOUSE.BASE;
-      // New island types
-      case 'volcanic': return SCALE.ISLAND.VOLCANIC.BASE;
-      case 'atoll': return SCALE.ISLAND.ATOLL.BASE;
-      case 'ice': return SCALE.ISLAND.ICE.BASE;
-      default: return 1;
-    }
-  };
-  
-  // Calculate model adjustment based on type
-  const getModelAdjustment = () => {
-    switch (type) {
-      case 'tropical': return MODEL_ADJUSTMENT.TROPICAL;
-      case 'mountain': return MODEL_ADJUSTMENT.MOUNTAIN;
-      case 'rocks': return MODEL_ADJUSTMENT.ROCKS;
-      case 'shipwreck': return MODEL_ADJUSTMENT.SHIPWRECK;
-      case 'port': return MODEL_ADJUSTMENT.PORT;
-      case 'lighthouse': return MODEL_ADJUSTMENT.LIGHTHOUSE;
-      // New island types
-      case 'volcanic': return MODEL_ADJUSTMENT.VOLCANIC;
-      case 'atoll': return MODEL_ADJUSTMENT.ATOLL;
-      case 'ice': return MODEL_ADJUSTMENT.ICE;
-      default: return 1;
-    }
-  };
+  }, [originalModel, id, modelPath, type, definition]);
   
   // Final scaling factor
-  const finalScale = scale * getBaseScale() * getModelAdjustment();
+  const finalScale = scale * definition.scale.BASE * definition.modelAdjustment;
   
   // Position the model ONCE only when first loaded
   useEffect(() => {
@@ -196,6 +150,7 @@ const EnvironmentalFeature = memo(({ feature }: { feature: EnvironmentFeature })
           />
         </group>
       )}
+      {definition.beacon && <LighthouseBeam height={definition.beacon.height} />}
       {/* Debug axis helper removed */}
     </group>
   );
@@ -223,9 +178,9 @@ const Environment = ({ features }: { features: EnvironmentFeature[] }) => {
     return () => window.removeEventListener('keydown', handleKeyDown);
   }, [showCollisionBoundaries]);
   
-  // Log once on mount and register features with collision system
+  // Register features with collision system whenever chunks stream in or out
   useEffect(() => {
-    console.log(`[ENV] Environment initialized with ${features.length} features`, features);
+    console.log(`[ENV] Environment updated with ${features.length} features`);
     
     // Register features with the collision system
     environmentCollisions.setFeatures(features);
@@ -235,9 +190,7 @@ const Environment = ({ features }: { features: EnvironmentFeature[] }) => {
       console.warn('[ENV] No features provided to Environment component!');
     } else {
       // Check validity of features
-      features.forEach((feature, index) => {
-        console.log(`[ENV] Feature ${index}: ${feature.id} type=${feature.type} at x=${feature.x}, z=${feature.z}`);
-        
+      features.forEach((feature) => {
         // Check for invalid rotation values
         if (!feature.rotation || feature.rotation.length !== 3) {
           console.error(`[ENV] Invalid rotation for feature ${feature.id}:`, feature.rotation);
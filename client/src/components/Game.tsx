@@ -1,4 +1,4 @@
-import { useEffect, useRef, useState, useMemo, memo } from "react";
+import { useEffect, useRef, useState } from "react";
 import { useFrame, useThree } from "@react-three/fiber";
 import { Environment as ThreeEnvironment, OrbitControls, Text, useGLTF } from "@react-three/drei";
 import * as THREE from "three";
@@ -7,63 +7,44 @@ import Ocean from "./Ocean"; // Using Ocean for water surface
 import Ship from "./Ship";
 import EnemyShip from "./EnemyShip"; // Added back enemy ship component
 import SkyWithClouds from "./SkyWithClouds"; // New enhanced sky with cloud system
+import Weather from "./Weather";
+import Sunlight from "./Sunlight";
 import EnvironmentComponent, { EnvironmentFeature, EnvironmentFeatureType } from "./Environment";
 import PowerUpManager from "./PowerUpManager"; // Power-up system for prizes
-import { SCALE, MODEL_ADJUSTMENT, POSITION, STATIC, WORLD } from "../lib/constants";
+import MultiplayerLayer from "./MultiplayerLayer"; // Other captains and their cannonballs in multiplayer
+import SimulationRunner from "./SimulationRunner"; // Steps the single-player simulation each frame
+import CannonballLayer from "./CannonballLayer"; // Simulated cannonballs and their impact effects
+import EnemyAIDebugOverlay from "./EnemyAIDebugOverlay"; // Enemy AI states, shown from the debug panel
+import TrajectoryPreview from "./TrajectoryPreview"; // Where each broadside would land, shown while aiming
+import { SCALE, MODEL_ADJUSTMENT, POSITION, STATIC } from "../lib/constants";
 
 import { usePlayer } from "../lib/stores/usePlayer";
 import { useEnemies } from "../lib/stores/useEnemies"; // Re-enabled enemies
 import { useGameState } from "../lib/stores/useGameState";
 import { useAudio } from "../lib/stores/useAudio";
-import { usePowerUps, PowerUpType } from "../lib/stores/usePowerUps"; // Power-up state management
+import { usePowerUps } from "../lib/stores/usePowerUps"; // Power-up state management
+import { useAmmo } from "../lib/stores/useAmmo"; // Shot in the magazine and the shot loaded
+import { useWorldChunks } from "../lib/stores/useWorldChunks"; // Chunked streaming of the infinite world
+import { useMultiplayer } from "../lib/stores/useMultiplayer";
 
 // Import services
 import { EnemyManager } from "../lib/services/EnemyManager";
-import { EnvironmentGenerator } from "../lib/services/EnvironmentGenerator";
 import { CollisionService } from "../lib/services/CollisionService";
 import { collisionHandler } from "../lib/services/CollisionHandler";
+import { gameSimulation } from "../lib/simulation/GameSimulation";
+import { replayRecorder } from "../lib/simulation/replay";
+import { AMMO_TYPES } from "../lib/simulation/ammunition";
+import { FLEET_COMMANDS } from "../lib/simulation/fleet";
+import { useFleet } from "../lib/stores/useFleet";
+import { usePort } from "../lib/stores/usePort";
 
-// Direction indicators removed - no longer needed after fixing ship orientation
+// Number keys for the ammo types, in AMMO_TYPES order
+const AMMO_KEYS = ['Digit1', 'Digit2', 'Digit3', 'Digit4'];
 
-// DirectPowerUpCollector component to handle collection logic
-// We separate this to avoid React hooks conditional calling issues
-const DirectPowerUpCollector = memo(() => {
-  const playerPosition = usePlayer((state) => state.position);
-  const directPowerUps = useEnemies((state) => state.directPowerUps);
-  const removeDirectPowerUp = useEnemies((state) => state.removeDirectPowerUp);
+// And for the orders to the escorts, in FLEET_COMMANDS order
+const FLEET_KEYS = ['Digit5', 'Digit6', 'Digit7', 'Digit8'];
 
-  useFrame(() => {
-    if (!playerPosition || directPowerUps.length === 0) return;
-    
-    // Check each power-up for collection
-    directPowerUps.forEach(powerUp => {
-      // Calculate distance to player
-      const dx = playerPosition.x - powerUp.position.x;
-      const dz = playerPosition.z - powerUp.position.z;
-      const distanceSquared = dx * dx + dz * dz;
-      
-      // If player is within 5 units, collect the power-up
-      if (distanceSquared < 25) { // 5 squared
-        console.log(`[DIRECT POWER-UP] Player collected power-up: ${powerUp.id} (${powerUp.type})`);
-        
-        // Add power-up to inventory (doesn't activate immediately)
-        const { collectPowerUp } = usePowerUps.getState();
-        if (collectPowerUp) {
-          collectPowerUp(powerUp.type as PowerUpType);
-          
-          // Play sound effect for collection
-          const { playSound } = useAudio.getState();
-          playSound('powerUp');
-        }
-        
-        // Remove from the state
-        removeDirectPowerUp(powerUp.id);
-      }
-    });
-  });
-  
-  return null; // This component doesn't render anything
-});
+// Direction indicators removed - no longer needed after fixing ship orientation
 
 // Main game component that sets up the 3D scene
 const Game = () => {
@@ -79,8 +60,6 @@ const Game = () => {
   // Enemy state and direct power-ups
   const enemies = useEnemies((state) => state.enemies);
   const directPowerUps = useEnemies((state) => state.directPowerUps);
-  const removeDirectPowerUp = useEnemies((state) => state.removeDirectPowerUp);
-  const spawnEnemies = useEnemies((state) => state.spawnEnemies);
   
   // Sound effects
   const playBackgroundMusic = useAudio((state) => state.playBackgroundMusic);
@@ -93,21 +72,41 @@ const Game = () => {
   const waveSpeed = useGameState((state) => state.waveSpeed);
   const setShipHeight = useGameState((state) => state.setShipHeight);
   const setWaveParameters = useGameState((state) => state.setWaveParameters);
+  const showAIDebug = useGameState((state) => state.showAIDebug);
   
-  // Environmental features are defined and managed by the EnvironmentGenerator service
+  // In a multiplayer room the server owns health, sinking and respawning
+  const inMultiplayer = useMultiplayer((state) => state.status === 'connected');
+  
+  // Environmental features are generated by the EnvironmentGenerator service and streamed by useWorldChunks
+  
+  // Island positions and other environment features are streamed in chunks around the player
+  // Each chunk is generated deterministically from the world seed, so revisiting waters finds the same islands
+  const worldSeed = useGameState((state) => state.worldSeed);
+  const environmentFeatures = useWorldChunks((state) => state.features);
   
-  // Island positions and other environment features (generated to avoid overlaps)
-  // Only create this data once and never update it
-  const environmentFeatures = useMemo(() => {
-    console.log("[GAME] Generating non-overlapping environment features using EnvironmentGenerator service");
-    
-    // Use our refactored service to generate environment features
-    return EnvironmentGenerator.generateEnvironment();
-  }, []);
-
   // Track if game was already initialized to prevent multiple initializations
   const initialized = useRef(false);
   
+  // Start streaming over whenever the seed changes
+  useEffect(() => {
+    console.log(`[GAME] Streaming environment chunks for seed ${worldSeed}`);
+    
+    const { resetChunks, updateChunks } = useWorldChunks.getState();
+    const { position } = usePlayer.getState();
+    resetChunks();
+    updateChunks(position?.x ?? 0, position?.z ?? 0);
+    
+    // The random streams were just reset, which a running recording can't follow
+    if (initialized.current) {
+      replayRecorder.startRecording(gameSimulation);
+    }
+  }, [worldSeed]);
+  
+  // Register environment features with collision handler whenever chunks load or unload
+  useEffect(() => {
+    collisionHandler.setFeatures(environmentFeatures);
+  }, [environmentFeatures]);
+
   // Initialize game on first load - only once
   useEffect(() => {
     // Skip if already initialized
@@ -122,14 +121,14 @@ const Game = () => {
       playerPosition
     });
     
-    // Register environment features with collision handler
-    collisionHandler.setFeatures(environmentFeatures);
-    
     // Initialize player
     initializePlayer();
     
-    // Spawn a test enemy ship directly in front of the player for debugging orientation
-    EnemyManager.spawnTestEnemyShip();
+    // Enemies arrive in waves from the simulation's encounter director - start from a quiet sea
+    EnemyManager.clearEnemies();
+    
+    // Record the voyage from here so it can be saved as a replay
+    replayRecorder.startRecording(gameSimulation);
     
     // Play background music
     playBackgroundMusic();
@@ -161,14 +160,37 @@ const Game = () => {
   
   // Check for game over condition
   useEffect(() => {
-    if (playerHealth <= 0) {
+    if (playerHealth <= 0 && !inMultiplayer) {
       setGameOver();
     }
-  }, [playerHealth, setGameOver]);
+  }, [playerHealth, setGameOver, inMultiplayer]);
   
-  // Effect to handle keyboard shortcuts for power-up activation
+  // Effect to handle keyboard shortcuts for power-up activation, loading shot, fleet orders and docking
   useEffect(() => {
     const handleKeyDown = (event: KeyboardEvent) => {
+      // Ashore the port screen has the ship's attention
+      if (usePort.getState().docked) return;
+      
+      // 1-4 load round, chain, grape or heated shot
+      const ammo = AMMO_TYPES[AMMO_KEYS.indexOf(event.code)];
+      if (ammo) {
+        useAmmo.getState().selectAmmo(ammo);
+        return;
+      }
+      
+      // 5-8 order the escorts to follow, attack, hold or flee
+      const command = FLEET_COMMANDS[FLEET_KEYS.indexOf(event.code)];
+      if (command) {
+        useFleet.getState().commandFleet(command);
+        return;
+      }
+      
+      // H puts in at the port in range
+      if (event.code === 'KeyH') {
+        usePort.getState().dock();
+        return;
+      }
+      
       // 'e' key to activate all power-ups in inventory
       if (event.code === 'KeyE') {
         const { activateAllPowerUps, inventoryPowerUps } = usePowerUps.getState();
@@ -209,36 +231,12 @@ const Game = () => {
   // Camera dynamics settings
   const [cameraSmoothing, setCameraSmoothing] = useState<number>(0.05);
   
-  // Health regeneration timer
-  const healthRegenTimer = useRef<number>(0);
-  const regenInterval = 2; // Regenerate health every 2 seconds
-  const regenAmount = 1; // Amount of health to regenerate each interval (slowed down)
-  
   // Camera follows player ship but preserves manual adjustments
   useFrame((state, delta) => {
     if (!playerPosition) return;
     
-    // Health regeneration system
-    const playerState = usePlayer.getState();
-    healthRegenTimer.current += delta;
-    
-    // Check if it's time to regenerate health
-    if (healthRegenTimer.current >= regenInterval) {
-      // Only regenerate if player health is below max and above 0 (not dead)
-      if (playerState.health > 0 && playerState.health < playerState.maxHealth) {
-        playerState.heal(regenAmount);
-        // Only log every 5th regeneration to reduce console spam (every 10 seconds)
-        if (Math.floor(playerState.health) % 5 === 0) {
-          console.log(`[PLAYER] Health: ${playerState.health}/${playerState.maxHealth} (slowly regenerating)`);
-        }
-      }
-      // Reset timer
-      healthRegenTimer.current = 0;
-    }
-    
-    // Update active power-ups
-    const powerUpsState = usePowerUps.getState();
-    powerUpsState.updatePowerUps(delta);
+    // Stream world chunks around the player (generates at most one chunk per frame)
+    useWorldChunks.getState().updateChunks(playerPosition.x, playerPosition.z);
     
     // Update target to always follow the player ship
     cameraTargetRef.current.set(
@@ -266,14 +264,8 @@ const Game = () => {
 
   return (
     <>
-      {/* Environment lighting */}
-      <ambientLight intensity={0.5} />
-      <directionalLight 
-        position={[100, 100, 50]} 
-        intensity={1} 
-        castShadow 
-        shadow-mapSize={[2048, 2048]} 
-      />
+      {/* Environment lighting - the sun by day and the moon by night */}
+      <Sunlight />
       
       {/* Enhanced sky with procedural clouds */}
       <SkyWithClouds
@@ -281,29 +273,43 @@ const Game = () => {
         cloudDensity={8}
         cloudHeight={60}
         dayNightCycle={true}
-        cycleSpeed={0.05}
         initialTimeOfDay={0.3}
       />
       <ThreeEnvironment preset="sunset" />
       
+      {/* Haze, rain and lightning from the weather where the player is */}
+      <Weather />
+      
       {/* Ocean water surface */}
       <Ocean />
       
       {/* Direction indicators removed - no longer needed after fixing ship orientation */}
       
+      {/* Ship movement, enemy AI, cannonballs, power-up timers and regeneration - runs before the views below */}
+      <SimulationRunner />
+      
       {/* Player ship */}
       <Ship />
       
+      {/* Cannonballs in flight, muzzle flashes, explosions and splashes */}
+      <CannonballLayer />
+      
+      {/* Predicted shots on the water while aiming - the server does its own aiming in multiplayer */}
+      {!inMultiplayer && <TrajectoryPreview />}
+      
+      {/* What each enemy's AI is doing and what it is steering for */}
+      {showAIDebug && <EnemyAIDebugOverlay />}
+      
+      {/* Other players' ships and the server's cannonballs */}
+      {inMultiplayer && <MultiplayerLayer />}
+      
       {/* Environmental features: Islands and rock formations using the new stable Environment component */}
-      {/* This component only loads and positions models once */}
+      {/* Features mount and unmount as their chunks stream in and out */}
       <EnvironmentComponent features={environmentFeatures} />
       
       {/* Power-up system to handle prizes from defeated enemy ships */}
       <PowerUpManager />
       
-      {/* Direct Power-Ups Collection Logic */}
-      <DirectPowerUpCollector />
-      
       {/* Render all direct power-ups from the global state */}
       {directPowerUps.map((powerUp) => {
         // Determine color based on power-up type
@@ -344,10 +350,10 @@ const Game = () => {
             geometry = <sphereGeometry args={[0.6, 12, 12]} />;
         }
         
-        // The position from the stored power-up as Three.js compatible array
+        // The position from the stored power-up as Three.js compatible array, floating on the waves
         const position: [number, number, number] = [
           powerUp.position.x,
-          powerUp.position.y, // Should already be at 1
+          powerUp.position.y + gameSimulation.getOceanHeightAt(powerUp.position.x, powerUp.position.z), // Should already be at 1
           powerUp.position.z
         ];
         
@@ -384,6 +390,7 @@ const Game = () => {
         <EnemyShip
           key={enemy.id}
           id={enemy.id}
+          archetype={enemy.archetype}
           initialPosition={enemy.position}
           initialRotation={enemy.rotation}
         />
@@ -3,11 +3,14 @@ import { useKeyboardControls } from "@react-three/drei";
 import { Controls } from "../App";
 import HUD from "./HUD";
 import DebugControls from "./DebugControls";
+import PortScreen from "./PortScreen";
 import { usePlayer } from "../lib/stores/usePlayer";
 // import { useEnemies } from "../lib/stores/useEnemies"; // Removed enemies import
 import { useGameState } from "../lib/stores/useGameState";
 import { useUpgrades } from "../lib/stores/useUpgrades";
 import { useAudio } from "../lib/stores/useAudio";
+import { replayRecorder } from "../lib/simulation/replay";
+import { ReplayService } from "../lib/services/ReplayService";
 
 const GameUI = () => {
   const [showControls, setShowControls] = useState(false);
@@ -24,12 +27,16 @@ const GameUI = () => {
   const shipScale = useGameState((state) => state.shipScale); // Add ship scale
   const waterVisible = useGameState((state) => state.waterVisible);
   const oneShotKill = useGameState((state) => state.oneShotKill);
+  const showAIDebug = useGameState((state) => state.showAIDebug);
+  const encountersEnabled = useGameState((state) => state.encountersEnabled);
   
   const setShipHeight = useGameState((state) => state.setShipHeight);
   const setWaveParameters = useGameState((state) => state.setWaveParameters);
   const setShipScale = useGameState((state) => state.setShipScale); // Add ship scale setter
   const toggleWaterVisibility = useGameState((state) => state.toggleWaterVisibility);
   const toggleOneShotKill = useGameState((state) => state.toggleOneShotKill);
+  const toggleAIDebug = useGameState((state) => state.toggleAIDebug);
+  const toggleEncounters = useGameState((state) => state.toggleEncounters);
   
   // Player state
   const playerHealth = usePlayer((state) => state.health);
@@ -92,6 +99,18 @@ const GameUI = () => {
     setShowVictory(false);
   };
   
+  // Save the voyage so far as a replay file (and keep it for the replay viewer)
+  const handleSaveReplay = () => {
+    const replay = replayRecorder.getReplay();
+    if (!replay) {
+      console.log('[REPLAY] Nothing recorded yet');
+      return;
+    }
+    
+    ReplayService.saveLatest(replay);
+    ReplayService.download(replay);
+  };
+  
   // Continue after victory
   const handleContinue = () => {
     // Reset game timer
@@ -101,17 +120,14 @@ const GameUI = () => {
     setShowVictory(false);
   };
   
-  // Go to upgrades menu
-  const handleUpgrades = () => {
-    setGameState('upgrade');
-    setShowVictory(false);
-  };
-  
   return (
     <div className="absolute inset-0 pointer-events-none">
       {/* HUD */}
       <HUD />
       
+      {/* Port screen while the ship lies in port */}
+      <PortScreen />
+      
       {/* Controls button */}
       <div className="absolute top-5 right-5 pointer-events-auto flex flex-col space-y-2">
         <div className="flex space-x-2">
@@ -129,6 +145,14 @@ const GameUI = () => {
             Debug
           </button>
           
+          <button
+            className="bg-gray-800 bg-opacity-70 hover:bg-opacity-90 text-white px-4 py-2 rounded-lg"
+            onClick={handleSaveReplay}
+            title="Save everything since the voyage started - attach the file to bug reports"
+          >
+            Save Replay
+          </button>
+          
           <button
             className="bg-gray-800 bg-opacity-70 hover:bg-opacity-90 text-white px-4 py-2 rounded-lg"
             onClick={toggleMute}
@@ -216,13 +240,6 @@ const GameUI = () => {
             </div>
             
             <div className="flex space-x-4">
-              <button
-                className="bg-[#8B4513] text-white px-4 py-2 rounded-lg hover:bg-[#a05a2c] flex-1"
-                onClick={handleUpgrades}
-              >
-                Upgrades
-              </button>
-              
               <button
                 className="bg-[#0A1C3B] text-white px-4 py-2 rounded-lg hover:bg-[#152d5b] flex-1"
                 onClick={handleContinue}
@@ -243,12 +260,16 @@ const GameUI = () => {
             onUpdateShipScale={setShipScale}
             onToggleWaterVisibility={toggleWaterVisibility}
             onToggleOneShotKill={toggleOneShotKill}
+            onToggleAIDebug={toggleAIDebug}
+            onToggleEncounters={toggleEncounters}
             initialShipHeight={shipHeight}
             initialWaveHeight={waveHeight}
             initialWaveSpeed={waveSpeed}
             initialShipScale={shipScale}
             initialWaterVisible={waterVisible}
             initialOneShotKill={oneShotKill}
+            initialAIDebug={showAIDebug}
+            initialEncounters={encountersEnabled}
           />
         </div>
       )}
@@ -1,20 +1,64 @@
 import { useEffect, useState } from "react";
 import { usePlayer } from "../lib/stores/usePlayer";
 import { useEnemies } from "../lib/stores/useEnemies"; // Re-added for mini-map
+import { getArchetype, getFactionColor, PLAYER_FACTION } from "../lib/simulation/enemyArchetypes";
+import { getFleetCommand } from "../lib/simulation/fleet";
+import { BATTERY_SIDES } from "../lib/simulation/GameSimulation";
+import { AMMO_TYPES, getAmmoDefinition, hasAmmo } from "../lib/simulation/ammunition";
+import { useAmmo } from "../lib/stores/useAmmo";
+import { useCrew } from "../lib/stores/useCrew";
+import { CREW_ROLES, getCrewRole, getDetectionRange } from "../lib/simulation/crew";
 import { useGameState } from "../lib/stores/useGameState";
+import { useEncounters } from "../lib/stores/useEncounters";
+import { useFleet } from "../lib/stores/useFleet";
+import { useWind } from "../lib/stores/useWind";
+import { useWeather } from "../lib/stores/useWeather";
+import { getWeatherDefinition } from "../lib/simulation/weather";
+import { useDayNight } from "../lib/stores/useDayNight";
+import { formatClock, getDaylightVisibility, getTimeOfDayDefinition } from "../lib/simulation/dayNight";
+import { getPointOfSail, getPointOfSailDefinition, getWindAt, getWindForceName } from "../lib/simulation/wind";
 import { usePowerUps, PowerUpType, ActivePowerUp, InventoryPowerUp } from "../lib/stores/usePowerUps";
 import { environmentCollisions } from "../lib/collision";
+import ShipDamageDiagram from "./ShipDamageDiagram";
+import BoardingPanel from "./BoardingPanel";
+import { usePort } from "../lib/stores/usePort";
+import { getPortName } from "../lib/simulation/ports";
 
 // HUD component - displays health, cannon status, mini-map, and active power-ups
 const HUD = () => {
   const health = usePlayer((state) => state.health);
-  const cannonReady = usePlayer((state) => state.cannonReady);
-  const cooldownPercent = usePlayer((state) => state.cooldownPercent);
+  const batteries = usePlayer((state) => state.batteries);
+  const gunElevation = usePlayer((state) => state.gunElevation);
+  const ammoStock = useAmmo((state) => state.stock);
+  const selectedAmmo = useAmmo((state) => state.selected);
+  const roster = useCrew((state) => state.roster);
+  const morale = useCrew((state) => state.morale);
   const playerPosition = usePlayer((state) => state.position);
   const playerRotation = usePlayer((state) => state.rotation);
   // Added back enemy state for the mini-map
   const enemies = useEnemies((state) => state.enemies);
+  const fleetCommand = useFleet((state) => state.command);
+  const sails = usePlayer((state) => state.sails);
+  const windDirection = useWind((state) => state.direction);
+  const windStrength = useWind((state) => state.strength);
+  const weatherType = useWeather((state) => state.type);
+  // Rounded so the chart isn't redrawn for every wisp of fog or minute of dusk
+  const weatherVisibility = useWeather((state) => Math.round(state.conditions.visibility * 20) / 20);
+  const daylightVisibility = useDayNight((state) => Math.round(getDaylightVisibility(state.clock) * 20) / 20);
+  const visibility = weatherVisibility * daylightVisibility;
+  const clockMinute = useDayNight((state) => Math.floor(state.clock * 24 * 60) / (24 * 60));
+  const timeOfDay = useDayNight((state) => state.timeOfDay);
   const gameState = useGameState((state) => state.gameState);
+  const worldSeed = useGameState((state) => state.worldSeed);
+  const nearbyPort = usePort((state) => state.nearby);
+  const dockedPort = usePort((state) => state.docked);
+  
+  // Wave progress and the banner announcing it
+  const wave = useEncounters((state) => state.wave);
+  const wavePhase = useEncounters((state) => state.phase);
+  const nextWaveIn = useEncounters((state) => state.nextWaveIn);
+  const announcement = useEncounters((state) => state.announcement);
+  const dismissAnnouncement = useEncounters((state) => state.dismissAnnouncement);
   
   // Get active power-ups and inventory
   const activePowerUps = usePowerUps((state) => state.activePowerUps);
@@ -121,8 +165,18 @@ const HUD = () => {
       ctx.fill();
     });
     
-    // Draw enemy ships
+    // Ships are only charted once the lookouts have spotted them - the ring shows how far they can see, weather and darkness allowing
+    const detectionRange = getDetectionRange({ roster, morale }) * visibility;
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.25)';
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    ctx.arc(centerX, centerY, detectionRange * scaleFactor, 0, Math.PI * 2);
+    ctx.stroke();
+    
+    // Draw enemy ships - and the escorts, who the lookouts never lose sight of
     enemies.forEach(enemy => {
+      if (!enemy.spotted) return;
+      
       // Calculate position on mini-map relative to player
       const mapX = centerX + (enemy.position.x - playerPosition.x) * scaleFactor;
       const mapY = centerY + (enemy.position.z - playerPosition.z) * scaleFactor;
@@ -135,8 +189,8 @@ const HUD = () => {
         return;
       }
       
-      // Draw enemy ship as a red triangle
-      ctx.fillStyle = '#F44336'; // Red
+      // Draw enemy ship as a triangle in its faction's colour
+      ctx.fillStyle = getFactionColor(enemy.faction);
       ctx.beginPath();
       
       // Calculate the direction in which the triangle should point
@@ -190,7 +244,36 @@ const HUD = () => {
     ctx.closePath();
     ctx.fill();
     
-  }, [playerPosition, playerRotation, enemies]);
+    // Wind arrow in the corner, pointing the way it blows where the ship is
+    const wind = getWindAt({ direction: windDirection, strength: windStrength }, playerPosition.x, playerPosition.z);
+    const windX = canvas.width - 18;
+    const windY = 18;
+    const windLength = 6 + wind.strength * 8;
+    const dx = Math.sin(wind.direction);
+    const dy = Math.cos(wind.direction);
+    ctx.strokeStyle = '#FFFFFF';
+    ctx.fillStyle = '#FFFFFF';
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    ctx.moveTo(windX - dx * windLength, windY - dy * windLength);
+    ctx.lineTo(windX + dx * windLength, windY + dy * windLength);
+    ctx.stroke();
+    ctx.beginPath();
+    ctx.moveTo(windX + dx * (windLength + 4), windY + dy * (windLength + 4));
+    ctx.lineTo(windX + dx * windLength - dy * 4, windY + dy * windLength + dx * 4);
+    ctx.lineTo(windX + dx * windLength + dy * 4, windY + dy * windLength - dx * 4);
+    ctx.closePath();
+    ctx.fill();
+    
+  }, [playerPosition, playerRotation, enemies, roster, morale, windDirection, windStrength, visibility]);
+
+  // Each wave banner stays up for a few seconds
+  useEffect(() => {
+    if (!announcement) return;
+    
+    const timeout = setTimeout(() => dismissAnnouncement(announcement.id), 4000);
+    return () => clearTimeout(timeout);
+  }, [announcement, dismissAnnouncement]);
 
   // Handle window resize
   useEffect(() => {
@@ -211,11 +294,38 @@ const HUD = () => {
     };
   }, []);
   
+  // The wind where the ship is, and how she lies to it
+  const localWind = playerPosition ? getWindAt({ direction: windDirection, strength: windStrength }, playerPosition.x, playerPosition.z) : null;
+  const pointOfSail = localWind && getPointOfSailDefinition(getPointOfSail(playerRotation.y + Math.PI, localWind)).name;
+  
+  // The escorts at sea, which sail with the enemies in the simulation
+  const escorts = enemies.filter(enemy => enemy.faction === PLAYER_FACTION);
+  
   // Calculate health color
   const healthColor = health > 70 ? "#4CAF50" : health > 30 ? "#FF9800" : "#F44336";
   
   return (
     <div className="absolute bottom-5 left-5 right-5 flex justify-between items-end">
+      {/* Wave announcement banner */}
+      {announcement && (
+        <div
+          key={announcement.id}
+          className="fixed top-24 left-1/2 -translate-x-1/2 bg-gray-900 bg-opacity-80 px-8 py-4 rounded-lg border border-[#8B4513] text-center pointer-events-none animate-pulse"
+        >
+          <div className="text-[#FFD700] font-['Pirata_One'] text-4xl">{announcement.title}</div>
+          <div className="text-white mt-1">{announcement.subtitle}</div>
+        </div>
+      )}
+      
+      <BoardingPanel />
+      
+      {/* Docking prompt while a port is in range */}
+      {nearbyPort && !dockedPort && (
+        <div className="fixed top-60 left-1/2 -translate-x-1/2 bg-gray-900 bg-opacity-80 px-6 py-3 rounded-lg border border-[#8B4513] text-white text-center pointer-events-none">
+          {getPortName(nearbyPort.id)} - press <span className="text-[#FFD700] font-bold">H</span> to put in
+        </div>
+      )}
+      
       {/* Left side - health display */}
       <div className="bg-gray-900 bg-opacity-70 p-3 rounded-lg border border-gray-700 pointer-events-none">
         <div className="text-white mb-2 font-['Pirata_One'] text-xl">Ship Health</div>
@@ -228,28 +338,73 @@ const HUD = () => {
             }}
           />
         </div>
-        <div className="text-white mt-1">{health}/100</div>
+        <div className="text-white mt-1">{Math.ceil(health)}/100</div>
+        <ShipDamageDiagram />
+        
+        {/* Hands aboard by role, and how they feel about it */}
+        <div className="text-white text-sm mt-2">
+          {CREW_ROLES.map(role => `${roster[role]} ${getCrewRole(role).plural}`).join(' · ')}
+        </div>
+        <div className="text-white text-sm">Morale {Math.round(morale * 100)}%</div>
+        
+        {/* Escorts and their orders */}
+        {escorts.length > 0 && (
+          <div className="text-white text-sm mt-2">
+            <div>Escorts: {getFleetCommand(fleetCommand).name}</div>
+            {escorts.map(escort => (
+              <div key={escort.id} className="text-xs text-gray-300">
+                {getArchetype(escort.archetype).name} {Math.ceil(escort.health / escort.maxHealth * 100)}%
+              </div>
+            ))}
+          </div>
+        )}
       </div>
       
       {/* Center - Reload status and test controls */}
       <div className="bg-gray-900 bg-opacity-70 p-3 rounded-lg border border-gray-700">
         <div className="text-white mb-2 font-['Pirata_One'] text-xl">Cannons</div>
-        <div className="flex items-center justify-center pointer-events-none">
-          {cannonReady ? (
-            <div className="text-green-500 text-lg font-bold">READY</div>
-          ) : (
-            <>
-              <div className="w-32 h-4 bg-gray-700 rounded-full overflow-hidden mr-2">
+        {BATTERY_SIDES.map(side => (
+          <div key={side} className="flex items-center justify-center pointer-events-none mb-1">
+            <div className="text-white w-20 text-left capitalize">{side}</div>
+            {batteries[side].ready ? (
+              <div className="text-green-500 font-bold w-32">READY</div>
+            ) : (
+              <div className="w-32 h-4 bg-gray-700 rounded-full overflow-hidden">
                 <div 
                   className="h-full bg-yellow-500"
-                  style={{ width: `${cooldownPercent}%` }}
+                  style={{ width: `${batteries[side].percent}%` }}
                 />
               </div>
-              <div className="text-yellow-500">Reloading</div>
-            </>
-          )}
+            )}
+          </div>
+        ))}
+        <div className="text-white mt-1 pointer-events-none">
+          Elevation {Math.round(gunElevation * 180 / Math.PI)}°
         </div>
-        <div className="text-white mt-2 text-sm pointer-events-none">SPACEBAR to fire</div>
+        
+        {/* Shot in the magazine - the loaded type is highlighted */}
+        <div className="flex justify-center gap-1 mt-2 pointer-events-none">
+          {AMMO_TYPES.map((type, index) => {
+            const { name, visual } = getAmmoDefinition(type);
+            const count = type === 'round' ? '∞' : ammoStock[type];
+            return (
+              <div
+                key={type}
+                className={`px-2 py-1 rounded text-xs border ${
+                  selectedAmmo === type ? 'border-yellow-400 bg-yellow-900 bg-opacity-50' : 'border-gray-600'
+                } ${hasAmmo(ammoStock, type) ? 'text-white' : 'text-gray-500'}`}
+                title={name}
+              >
+                <span className="inline-block w-2 h-2 rounded-full mr-1" style={{ backgroundColor: visual.trail }} />
+                {index + 1} {name.split(' ')[0]} {count}
+              </div>
+            );
+          })}
+        </div>
+        <div className="text-white mt-2 text-sm pointer-events-none">
+          SPACEBAR fires both sides, Z port, C starboard
+        </div>
+        <div className="text-white text-sm pointer-events-none">R / F to raise or lower the guns, 1-4 to load shot</div>
         
         {/* Enemy ship test controls removed */}
       </div>
@@ -355,6 +510,23 @@ const HUD = () => {
           height={canvasSize.height}
           className="border border-gray-600 rounded"
         />
+        {/* World seed - add ?seed=<value> to the URL to sail this exact world again */}
+        <div className="text-gray-300 mt-1 text-xs select-text pointer-events-auto">
+          Seed: {worldSeed}
+        </div>
+        <div className="text-white mt-1 text-sm">
+          {formatClock(clockMinute)} · {getTimeOfDayDefinition(timeOfDay).name}
+        </div>
+        {localWind && (
+          <div className="text-white mt-1 text-sm">
+            {getWeatherDefinition(weatherType).name} · {getWindForceName(localWind.strength)} · {pointOfSail} · Sails {Math.round(sails * 100)}%
+          </div>
+        )}
+        {wave > 0 || nextWaveIn > 0 ? (
+          <div className="text-white mt-1 text-sm">
+            {wavePhase === 'wave' ? `Wave ${wave}` : `Next wave in ${nextWaveIn}s`}
+          </div>
+        ) : null}
       </div>
     </div>
   );
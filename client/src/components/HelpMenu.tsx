@@ -42,43 +42,141 @@ const HelpMenu = () => {
               <div>D or →</div>
               <div>Turn Right</div>
               
+              <div>Q / X</div>
+              <div>Set / Take In Sail</div>
+              
               <div>SPACEBAR</div>
-              <div>Fire Cannons</div>
+              <div>Fire Both Broadsides</div>
+              
+              <div>Z / C</div>
+              <div>Fire Port / Starboard</div>
+              
+              <div>R / F</div>
+              <div>Raise / Lower the Guns</div>
+              
+              <div>1 - 4</div>
+              <div>Load Round, Chain, Grape or Heated Shot</div>
+              
+              <div>T (hold)</div>
+              <div>Repair the Ship</div>
               
-              {/* Boarding action removed */}
+              <div>G</div>
+              <div>Board a Crippled Ship</div>
+              
+              <div>5 - 8</div>
+              <div>Order Escorts to Follow, Attack, Hold or Flee</div>
+              
+              <div>H</div>
+              <div>Put In at a Port</div>
               
               <div>Mouse</div>
               <div>Click and drag to rotate camera</div>
             </div>
           </div>
           
+          {/* Sailing Section */}
+          <div className="bg-[#0D47A1] bg-opacity-30 p-4 rounded-lg">
+            <h2 className="text-2xl font-['Pirata_One'] text-[#FFD700] mb-2">Sailing</h2>
+            <p className="mb-2">
+              Your ship sails by the wind, shown by the arrow in the corner of the map. She is fastest with it on the
+              beam, a little slower running before it and slow close-hauled, and she barely moves with her bow into
+              it - to get upwind, sail across it in tacks. The wind shifts and freshens as the voyage goes on, and
+              blows a little differently in distant waters.
+            </p>
+            <p>
+              Hold Q to set more sail and X to take it in. Less canvas is slower but turns quicker, which can be worth
+              it in a close fight. Enemy ships have to reckon with the wind too.
+            </p>
+          </div>
+
+          {/* Weather Section */}
+          <div className="bg-[#0D47A1] bg-opacity-30 p-4 rounded-lg">
+            <h2 className="text-2xl font-['Pirata_One'] text-[#FFD700] mb-2">Weather</h2>
+            <p>
+              Overcast, fog, rain and storms blow in from upwind and drift across the sea with the wind. Fog and rain
+              hide ships until they are close - the ring on the map shrinks, and enemies struggle to find you too, so
+              a fog bank is a good place to slip away. The sea gets up in heavy weather, and a storm slowly batters
+              the hull of every ship caught in it.
+            </p>
+          </div>
+
+          {/* Day and Night Section */}
+          <div className="bg-[#0D47A1] bg-opacity-30 p-4 rounded-lg">
+            <h2 className="text-2xl font-['Pirata_One'] text-[#FFD700] mb-2">Day and Night</h2>
+            <p>
+              The sun rises and sets as you sail - the clock under the map shows the hour. After dark every lookout
+              sees only half as far, so ships on the map vanish until they come close or give themselves away by
+              firing, and lanterns and lighthouse beams are the only lights on the water. Ghost ships only rise at
+              night and sink back into the deep at dawn. Change the length of the day, or keep it light for good, in
+              the Settings.
+            </p>
+          </div>
+          
           {/* Cannon Usage Section */}
           <div className="bg-[#0D47A1] bg-opacity-30 p-4 rounded-lg">
             <h2 className="text-2xl font-['Pirata_One'] text-[#FFD700] mb-2">Cannon Usage</h2>
             <p className="mb-2">
-              Your ship is equipped with cannons on both sides. Press SPACEBAR to fire - your cannons will automatically 
-              fire from both sides of your ship.
+              Your ship is equipped with cannons on both sides, and each side reloads on its own. Press SPACEBAR to fire
+              both, or Z and C to fire just the port or starboard battery and keep the other loaded.
+            </p>
+            <p className="mb-2">
+              Raise the guns with R for a longer, higher shot and lower them with F for a short, flat one. While you
+              adjust them, the path of each side's shot is drawn on the water.
+            </p>
+            <p className="mb-2">
+              Round shot never runs out. Chain shot tears the rigging of the ship it hits and slows it down, grape
+              shot cuts down its crew at close range, and heated shot sets it on fire. Buy them in the Powder
+              Magazine or salvage them from the ships you sink.
             </p>
             <p className="mb-2">
               Monitor your ship's health and cannon reload status in the HUD at the bottom of the screen.
             </p>
+            <p className="mb-2">
+              The diagram under your health shows the damage to each part of the ship. Shot-away masts slow you down,
+              a broken rudder makes you turn slowly, and holes below the waterline let water into the hold, which
+              drains your health until it is pumped out. Hold T to put the crew to repairs - the guns don't reload
+              while they work, and they can only patch the ship so far at sea.
+            </p>
+            <p className="mb-2">
+              Your crew work the ship: gunners reload the broadsides, sailors turn her, and lookouts spot enemies on
+              the mini-map from further away. Hits kill crew, who stay missing until you hire more in a port's tavern.
+              They want paying from your loot every few minutes at sea - missed wages and lost shipmates hurt their
+              morale, and an unhappy crew works slower.
+            </p>
+            <p className="mb-2">
+              A ship with her hull nearly gone or her masts shot away can be boarded - lay alongside and press G. The
+              crews fight on deck until one side breaks, so thin out hers with grape shot first. Once she strikes, plunder
+              her hold for extra gold and shot, scuttle her and press some of her crew into yours, or put a prize crew
+              aboard and add her to your fleet.
+            </p>
+            <p className="mb-2">
+              Up to three ships of your fleet can sail with you as escorts - choose them, or buy new ones, at a
+              port's shipyard. They keep station astern and fire on anything that attacks you.
+              Press 6 to send them after the last ship you hit, 7 to hold where they are, 8 to run from danger and 5 to
+              call them back into formation. An escort that sinks is lost from the fleet for good.
+            </p>
             <p>
               Practice your aiming by firing at rock formations or empty ocean - it's a great way to get familiar
               with your ship's firepower!
             </p>
           </div>
           
-          {/* Upgrades Section */}
+          {/* Ports Section */}
           <div className="bg-[#0D47A1] bg-opacity-30 p-4 rounded-lg">
-            <h2 className="text-2xl font-['Pirata_One'] text-[#FFD700] mb-2">Ship Upgrades</h2>
+            <h2 className="text-2xl font-['Pirata_One'] text-[#FFD700] mb-2">Ports</h2>
             <p className="mb-2">
-              Explore the seas and discover treasures. Use your findings to upgrade your vessel:
+              Ports stand at the ends of the shipping routes. Sail close to one and press H to put in - while you lie
+              in port nothing at sea moves, so you can spend your loot in peace:
             </p>
             <ul className="list-disc pl-5 space-y-1">
-              <li><strong>Hull Strength:</strong> Increases your ship's health and durability</li>
-              <li><strong>Cannon Power:</strong> Improves damage and reduces reload time</li>
-              <li><strong>Ship Speed:</strong> Enhances maneuverability and top speed</li>
+              <li><strong>Shipyard:</strong> Repairs the hull and every damaged section, refits your ship's hull
+                strength, cannon power and speed, and sells new ships for your fleet</li>
+              <li><strong>Chandlery:</strong> Sells special shot for the magazine and stores that go into your
+                power-up inventory</li>
+              <li><strong>Tavern:</strong> Hires hands for the crew, and the talk at the bar tells of wrecks, other
+                ports and weather nearby</li>
             </ul>
+            <p className="mt-2">Cast off to put to sea again.</p>
           </div>
           
           {/* Tips Section */}
@@ -2,7 +2,8 @@ import { useRef, useState, useEffect } from "react";
 import { useGLTF } from "@react-three/drei";
 import * as THREE from "three";
 import { GLTF } from "three-stdlib";
-import { SCALE, MODEL_ADJUSTMENT, POSITION, STATIC } from "../lib/constants";
+import { POSITION, STATIC } from "../lib/constants";
+import { getFeatureDefinition } from "../lib/featureRegistry";
 import { useIslandPositions, getModelPositionId } from "../lib/stores/useIslandPositions";
 
 // Define island types
@@ -17,9 +18,9 @@ interface IslandProps {
 }
 
 // Preload all island models with correct paths
-useGLTF.preload('/models/tropical_island.glb');
-useGLTF.preload('/models/mountain_island.glb');
-useGLTF.preload('/models/rock_formation.glb');
+(['tropical', 'mountain', 'rocks'] as const).forEach(islandType => {
+  useGLTF.preload(getFeatureDefinition(islandType).modelPath);
+});
 
 const Island = ({ 
   xPosition, 
@@ -32,11 +33,7 @@ const Island = ({
   const [modelLoaded, setModelLoaded] = useState(false);
   
   // Get the proper model path based on island type - standardized to match other components
-  const modelPath = type === 'tropical' 
-    ? '/models/tropical_island.glb' 
-    : type === 'mountain' 
-      ? '/models/mountain_island.glb' 
-      : '/models/rock_formation.glb';
+  const modelPath = getFeatureDefinition(type).modelPath;
   
   // Load the specified model with error handling
   let model: THREE.Group | null = null;
@@ -156,31 +153,12 @@ const Island = ({
     };
   }, [modelId, xPosition, zPosition, islandModel, getIslandPosition, hasIslandPosition, setIslandPosition]);
   
-  // Calculate scale based on island type using our standardized scale system
+  // Calculate scale based on island type using the feature registry
   const getScaleFactor = () => {
-    let baseScale: number;
-    let modelAdjustment: number;
-    
-    switch (type) {
-      case 'tropical':
-        baseScale = SCALE.ISLAND.TROPICAL.BASE;
-        modelAdjustment = MODEL_ADJUSTMENT.TROPICAL;
-        break;
-      case 'mountain':
-        baseScale = SCALE.ISLAND.MOUNTAIN.BASE;
-        modelAdjustment = MODEL_ADJUSTMENT.MOUNTAIN;
-        break;
-      case 'rocks':
-        baseScale = SCALE.ISLAND.ROCKS.BASE;
-        modelAdjustment = MODEL_ADJUSTMENT.ROCKS;
-        break;
-      default:
-        baseScale = SCALE.ISLAND.TROPICAL.BASE;
-        modelAdjustment = MODEL_ADJUSTMENT.TROPICAL;
-    }
+    const { scale: typeScale, modelAdjustment } = getFeatureDefinition(type);
     
     // Calculate final scale: user-provided scale * base type scale * model adjustment
-    return scale * baseScale * modelAdjustment;
+    return scale * typeScale.BASE * modelAdjustment;
   };
   
   const finalScale = getScaleFactor();
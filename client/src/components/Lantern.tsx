@@ -0,0 +1,42 @@
+import { useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { useDayNight } from '../lib/stores/useDayNight';
+import { getLanternLight } from '../lib/simulation/dayNight';
+
+interface LanternProps {
+  position: [number, number, number];
+  color?: string;
+}
+
+const LANTERN = {
+  GLOW: 3,       // Emissive intensity of the lamp itself when fully lit
+  INTENSITY: 6,  // Light it throws on the deck and the water
+  DISTANCE: 30,
+};
+
+/**
+ * A ship's stern lantern - dark by day, lit as the light goes
+ */
+const Lantern = ({ position, color = '#ffcc66' }: LanternProps) => {
+  const materialRef = useRef<THREE.MeshStandardMaterial>(null);
+  const lightRef = useRef<THREE.PointLight>(null);
+
+  useFrame(() => {
+    const lit = getLanternLight(useDayNight.getState().daylight);
+    if (materialRef.current) materialRef.current.emissiveIntensity = lit * LANTERN.GLOW;
+    if (lightRef.current) lightRef.current.intensity = lit * LANTERN.INTENSITY;
+  });
+
+  return (
+    <group position={position}>
+      <mesh>
+        <sphereGeometry args={[0.4, 8, 8]} />
+        <meshStandardMaterial ref={materialRef} color="#332211" emissive={color} emissiveIntensity={0} />
+      </mesh>
+      <pointLight ref={lightRef} color={color} intensity={0} distance={LANTERN.DISTANCE} />
+    </group>
+  );
+};
+
+export default Lantern;
@@ -0,0 +1,67 @@
+import { useEffect, useMemo, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { useDayNight } from '../lib/stores/useDayNight';
+import { getLanternLight } from '../lib/simulation/dayNight';
+
+interface LighthouseBeamProps {
+  height: number; // Height of the lamp above the feature's base
+}
+
+const BEAM = {
+  LENGTH: 120,
+  RADIUS: 10,       // At the far end
+  OPACITY: 0.25,    // Of the beam in full dark
+  SPEED: 0.8,       // Radians per second the lamp turns
+  COLOR: '#fff2c0',
+  LAMP_INTENSITY: 8,
+  LAMP_DISTANCE: 60,
+};
+
+/**
+ * The lamp at the top of a lighthouse - by night it sweeps two beams across the
+ * water, by day it is dark
+ */
+const LighthouseBeam = ({ height }: LighthouseBeamProps) => {
+  const lampRef = useRef<THREE.Group>(null);
+  const lightRef = useRef<THREE.PointLight>(null);
+
+  // Both beams share one material, so they fade together
+  const material = useMemo(() => new THREE.MeshBasicMaterial({
+    color: BEAM.COLOR,
+    transparent: true,
+    opacity: 0,
+    depthWrite: false,
+    blending: THREE.AdditiveBlending,
+    side: THREE.DoubleSide,
+  }), []);
+  useEffect(() => () => material.dispose(), [material]);
+
+  useFrame((_, delta) => {
+    const lit = getLanternLight(useDayNight.getState().daylight);
+    if (lampRef.current) {
+      lampRef.current.rotation.y += BEAM.SPEED * delta;
+      lampRef.current.visible = lit > 0.01;
+    }
+    material.opacity = lit * BEAM.OPACITY;
+    if (lightRef.current) lightRef.current.intensity = lit * BEAM.LAMP_INTENSITY;
+  });
+
+  return (
+    <group position={[0, height, 0]}>
+      <pointLight ref={lightRef} color={BEAM.COLOR} intensity={0} distance={BEAM.LAMP_DISTANCE} />
+      <group ref={lampRef}>
+        {/* Each beam is an open cone lying on its side with its point at the lamp */}
+        {[0, Math.PI].map(angle => (
+          <group key={angle} rotation={[0, angle, 0]}>
+            <mesh position={[BEAM.LENGTH / 2, 0, 0]} rotation={[0, 0, Math.PI / 2]} material={material}>
+              <coneGeometry args={[BEAM.RADIUS, BEAM.LENGTH, 24, 1, true]} />
+            </mesh>
+          </group>
+        ))}
+      </group>
+    </group>
+  );
+};
+
+export default LighthouseBeam;
@@ -0,0 +1,279 @@
+import { useState, useEffect } from "react";
+import { GAME_MODES, MULTIPLAYER, type GameMode } from "@shared/multiplayer";
+import { useLobby } from "../lib/stores/useLobby";
+import { useProfile } from "../lib/stores/useProfile";
+
+// How often the lobby checks for new rooms and for changes to the room we are in (ms)
+const ROOM_LIST_POLL = 3000;
+const ROOM_POLL = 1500;
+
+const MODE_LABELS: Record<GameMode, string> = {
+  free_for_all: 'Free for All',
+  teams: 'Team Battle',
+};
+
+const TEAM_LABELS = ['Red Crew', 'Blue Crew'];
+
+// The room we are waiting in - players, ready states and the host's start button
+const RoomView = () => {
+  const room = useLobby((state) => state.room)!;
+  const busy = useLobby((state) => state.busy);
+  const setReady = useLobby((state) => state.setReady);
+  const startMatch = useLobby((state) => state.startMatch);
+  const leaveRoom = useLobby((state) => state.leaveRoom);
+  const refreshRoom = useLobby((state) => state.refreshRoom);
+  const memberId = useLobby((state) => state.membership?.memberId);
+
+  useEffect(() => {
+    const interval = setInterval(refreshRoom, ROOM_POLL);
+    return () => clearInterval(interval);
+  }, [refreshRoom]);
+
+  const isHost = room.hostMemberId === memberId;
+  const self = room.players.find(player => player.memberId === memberId);
+  const canStart = room.players.length >= MULTIPLAYER.MIN_PLAYERS &&
+    room.players.every(player => player.memberId === room.hostMemberId || player.ready);
+
+  return (
+    <div className="flex flex-col space-y-4">
+      <div className="text-center text-white">
+        <h2 className="text-3xl font-['Pirata_One'] text-[#FFD700]">{room.name}</h2>
+        <p className="text-sm text-gray-300">
+          Room code <span className="font-mono text-white">{room.id}</span>
+          {' · '}{MODE_LABELS[room.mode]}
+          {' · '}{room.players.length}/{room.maxPlayers} captains
+          {room.hasPassword && <i className="fas fa-lock ml-2"></i>}
+        </p>
+      </div>
+
+      <ul className="bg-[#0A1C3B] border border-[#8B4513] rounded-lg divide-y divide-[#8B4513]/40">
+        {room.players.map(player => (
+          <li key={player.memberId} className="flex items-center justify-between px-4 py-2 text-white">
+            <span>
+              {player.memberId === room.hostMemberId && <i className="fas fa-crown text-[#FFD700] mr-2"></i>}
+              {player.name}
+              {player.memberId === memberId && <span className="text-gray-400"> (you)</span>}
+              {player.team !== null && <span className="text-gray-400 text-sm ml-2">{TEAM_LABELS[player.team]}</span>}
+            </span>
+            <span className={player.ready || player.memberId === room.hostMemberId ? 'text-green-400' : 'text-gray-400'}>
+              {player.memberId === room.hostMemberId ? 'Host' : player.ready ? 'Ready' : 'Not ready'}
+            </span>
+          </li>
+        ))}
+      </ul>
+
+      {isHost ? (
+        <button
+          className="bg-[#8B4513] hover:bg-[#9c6b30] disabled:opacity-50 text-white px-8 py-3 rounded-lg font-['Pirata_One'] text-xl transition-all"
+          disabled={!canStart || busy}
+          onClick={startMatch}
+        >
+          {canStart ? 'Set Sail' : 'Waiting for captains...'}
+        </button>
+      ) : (
+        <button
+          className="bg-[#0D47A1] hover:bg-[#1565C0] disabled:opacity-50 text-white px-8 py-3 rounded-lg font-['Pirata_One'] text-xl transition-all"
+          disabled={busy}
+          onClick={() => setReady(!self?.ready)}
+        >
+          {self?.ready ? 'Not Ready' : 'Ready'}
+        </button>
+      )}
+
+      <button
+        className="bg-gray-700 hover:bg-gray-600 text-white px-8 py-3 rounded-lg font-['Pirata_One'] text-xl transition-all"
+        disabled={busy}
+        onClick={leaveRoom}
+      >
+        Leave Room
+      </button>
+    </div>
+  );
+};
+
+// Open rooms to join, and a form to host a new one
+const RoomBrowser = ({ onBack }: { onBack: () => void }) => {
+  const rooms = useLobby((state) => state.rooms);
+  const busy = useLobby((state) => state.busy);
+  const refreshRooms = useLobby((state) => state.refreshRooms);
+  const createRoom = useLobby((state) => state.createRoom);
+  const joinRoom = useLobby((state) => state.joinRoom);
+  const profileName = useProfile((state) => state.profile?.name);
+
+  // Create form
+  const [name, setName] = useState('');
+  const [mode, setMode] = useState<GameMode>('free_for_all');
+  const [maxPlayers, setMaxPlayers] = useState(MULTIPLAYER.MAX_PLAYERS);
+  const [seed, setSeed] = useState('');
+  const [password, setPassword] = useState('');
+
+  // Password prompt for the locked room being joined
+  const [lockedRoomId, setLockedRoomId] = useState<string | null>(null);
+  const [joinPassword, setJoinPassword] = useState('');
+
+  useEffect(() => {
+    refreshRooms();
+    const interval = setInterval(refreshRooms, ROOM_LIST_POLL);
+    return () => clearInterval(interval);
+  }, [refreshRooms]);
+
+  const handleCreate = () => {
+    const parsedSeed = Number.parseInt(seed, 10);
+    createRoom({
+      name: name.trim() || `${profileName ?? 'Captain'}'s Waters`,
+      mode,
+      maxPlayers,
+      seed: Number.isNaN(parsedSeed) ? undefined : parsedSeed,
+      password: password || undefined,
+    });
+  };
+
+  const playerCounts = Array.from(
+    { length: MULTIPLAYER.MAX_PLAYERS - MULTIPLAYER.MIN_PLAYERS + 1 },
+    (_, i) => MULTIPLAYER.MIN_PLAYERS + i
+  );
+
+  return (
+    <div className="flex flex-col space-y-4">
+      <h2 className="text-3xl font-['Pirata_One'] text-[#FFD700] text-center">Open Waters</h2>
+
+      {/* Room list */}
+      <div className="bg-[#0A1C3B] border border-[#8B4513] rounded-lg max-h-56 overflow-y-auto">
+        {rooms.length === 0 && (
+          <p className="text-gray-400 text-center py-4">No rooms yet - host one below</p>
+        )}
+        {rooms.map(room => (
+          <div key={room.id} className="px-4 py-2 text-white border-b border-[#8B4513]/40 last:border-b-0">
+            <div className="flex items-center justify-between">
+              <div>
+                <div>
+                  {room.name}
+                  {room.hasPassword && <i className="fas fa-lock text-gray-400 ml-2"></i>}
+                </div>
+                <div className="text-sm text-gray-400">
+                  {MODE_LABELS[room.mode]} · {room.hostName} · {room.playerCount}/{room.maxPlayers}
+                </div>
+              </div>
+              <button
+                className="bg-[#0D47A1] hover:bg-[#1565C0] disabled:opacity-50 text-white px-4 py-2 rounded-lg"
+                disabled={busy || room.playerCount >= room.maxPlayers}
+                onClick={() => room.hasPassword ? setLockedRoomId(room.id) : joinRoom(room.id)}
+              >
+                Join
+              </button>
+            </div>
+            {lockedRoomId === room.id && (
+              <div className="flex items-center space-x-2 mt-2">
+                <input
+                  type="password"
+                  className="flex-1 bg-[#152d5b] text-white border border-[#8B4513] rounded-lg px-3 py-1"
+                  placeholder="Password"
+                  value={joinPassword}
+                  onChange={(e) => setJoinPassword(e.target.value)}
+                />
+                <button
+                  className="bg-[#8B4513] hover:bg-[#9c6b30] text-white px-4 py-1 rounded-lg"
+                  disabled={busy}
+                  onClick={() => joinRoom(room.id, joinPassword)}
+                >
+                  Board
+                </button>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {/* Host a room */}
+      <div className="grid grid-cols-2 gap-2">
+        <input
+          className="col-span-2 bg-[#0A1C3B] text-white border border-[#8B4513] rounded-lg px-3 py-2"
+          placeholder="Room name"
+          maxLength={32}
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+        />
+        <select
+          className="bg-[#0A1C3B] text-white border border-[#8B4513] rounded-lg px-3 py-2"
+          value={mode}
+          onChange={(e) => setMode(e.target.value as GameMode)}
+        >
+          {GAME_MODES.map(gameMode => (
+            <option key={gameMode} value={gameMode}>{MODE_LABELS[gameMode]}</option>
+          ))}
+        </select>
+        <select
+          className="bg-[#0A1C3B] text-white border border-[#8B4513] rounded-lg px-3 py-2"
+          value={maxPlayers}
+          onChange={(e) => setMaxPlayers(Number(e.target.value))}
+        >
+          {playerCounts.map(count => (
+            <option key={count} value={count}>{count} captains</option>
+          ))}
+        </select>
+        <input
+          className="bg-[#0A1C3B] text-white border border-[#8B4513] rounded-lg px-3 py-2"
+          placeholder="World seed (random)"
+          inputMode="numeric"
+          value={seed}
+          onChange={(e) => setSeed(e.target.value.replace(/\D/g, ''))}
+        />
+        <input
+          type="password"
+          className="bg-[#0A1C3B] text-white border border-[#8B4513] rounded-lg px-3 py-2"
+          placeholder="Password (optional)"
+          maxLength={64}
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+        />
+      </div>
+      <button
+        className="bg-[#8B4513] hover:bg-[#9c6b30] disabled:opacity-50 text-white px-8 py-3 rounded-lg font-['Pirata_One'] text-xl transition-all"
+        disabled={busy}
+        onClick={handleCreate}
+      >
+        Host Room
+      </button>
+
+      <button
+        className="bg-gray-700 hover:bg-gray-600 text-white px-8 py-3 rounded-lg font-['Pirata_One'] text-xl transition-all"
+        onClick={onBack}
+      >
+        Back
+      </button>
+    </div>
+  );
+};
+
+/**
+ * Multiplayer lobby - browse and host rooms, then wait in one until the host starts
+ */
+const Lobby = ({ onBack }: { onBack: () => void }) => {
+  const inRoom = useLobby((state) => state.room !== null);
+  const error = useLobby((state) => state.error);
+  const hasProfile = useProfile((state) => state.profile !== null);
+
+  return (
+    <div className="flex flex-col space-y-4">
+      {!hasProfile ? (
+        <>
+          <p className="text-gray-300 text-center">Connect to the server to sail with other captains</p>
+          <button
+            className="bg-gray-700 hover:bg-gray-600 text-white px-8 py-3 rounded-lg font-['Pirata_One'] text-xl transition-all"
+            onClick={onBack}
+          >
+            Back
+          </button>
+        </>
+      ) : inRoom ? (
+        <RoomView />
+      ) : (
+        <RoomBrowser onBack={onBack} />
+      )}
+
+      {error && <div className="text-sm text-red-300 text-center">{error}</div>}
+    </div>
+  );
+};
+
+export default Lobby;
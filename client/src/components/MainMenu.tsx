@@ -3,19 +3,28 @@ import { useGameState } from "../lib/stores/useGameState";
 import { useUpgrades } from "../lib/stores/useUpgrades";
 import { usePlayer } from "../lib/stores/usePlayer";
 import { useEnemies } from "../lib/stores/useEnemies";
-import { getLocalStorage } from "../lib/utils";
+import { useProfile } from "../lib/stores/useProfile";
 import { useAudio } from "../lib/stores/useAudio";
+import Lobby from "./Lobby";
 
 const MainMenu = () => {
   const [hasProgress, setHasProgress] = useState(false);
   const [showProgressBar, setShowProgressBar] = useState(false);
   const [progress, setProgress] = useState(0);
+  const [showLobby, setShowLobby] = useState(false);
   
   const setGameState = useGameState((state) => state.setGameState);
   const resetPlayer = usePlayer((state) => state.resetPlayer);
   const resetEnemies = useEnemies((state) => state.resetEnemies);
   const loadUpgrades = useUpgrades((state) => state.loadUpgrades);
   
+  // Save slots
+  const activeSlot = useProfile((state) => state.activeSlot);
+  const slots = useProfile((state) => state.slots);
+  const syncStatus = useProfile((state) => state.syncStatus);
+  const selectSlot = useProfile((state) => state.selectSlot);
+  const quarantined = useProfile((state) => state.quarantined);
+  
   // Audio functions (extracted individually to avoid unnecessary re-renders)
   const isMuted = useAudio((state) => state.isMuted);
   const toggleMute = useAudio((state) => state.toggleMute);
@@ -33,11 +42,17 @@ const MainMenu = () => {
     console.log("Audio system initialized");
   }, [loadSounds, playBackgroundMusic]);
   
-  // Check for saved progress
+  // Check for saved progress in the active slot
   useEffect(() => {
-    const savedLoot = getLocalStorage('pirateGame_loot');
-    setHasProgress(savedLoot !== null);
-  }, []);
+    setHasProgress(useProfile.getState().loadSlot(activeSlot) !== null);
+  }, [activeSlot, slots]);
+  
+  // Pick the next unused slot name for a new save
+  const createSlot = () => {
+    let index = slots.length + 1;
+    while (slots.includes(`slot-${index}`)) index++;
+    selectSlot(`slot-${index}`);
+  };
   
   // Handle start game
   const startNewGame = () => {
@@ -110,6 +125,9 @@ const MainMenu = () => {
           Pirates of the Three Seas
         </h1>
         
+        {showLobby ? (
+          <Lobby onBack={() => setShowLobby(false)} />
+        ) : (
         <div className="flex flex-col space-y-4">
           <button
             className="bg-[#8B4513] hover:bg-[#9c6b30] text-white px-8 py-3 rounded-lg font-['Pirata_One'] text-xl transition-all"
@@ -118,6 +136,35 @@ const MainMenu = () => {
             New Voyage
           </button>
           
+          {/* Save slot picker */}
+          <div className="flex items-center space-x-2">
+            <select
+              className="flex-1 bg-[#0A1C3B] text-white border border-[#8B4513] rounded-lg px-3 py-2"
+              value={activeSlot}
+              onChange={(e) => selectSlot(e.target.value)}
+            >
+              {(slots.includes(activeSlot) ? slots : [...slots, activeSlot]).map((slot) => (
+                <option key={slot} value={slot}>{slot}</option>
+              ))}
+            </select>
+            <button
+              className="bg-[#0D47A1] hover:bg-[#1565C0] text-white px-4 py-2 rounded-lg"
+              onClick={createSlot}
+            >
+              New Slot
+            </button>
+          </div>
+          <div className="text-sm text-gray-300 text-center">
+            {syncStatus === 'offline' && 'Offline - progress is saved on this device'}
+            {syncStatus === 'syncing' && 'Syncing with the harbour master...'}
+            {syncStatus === 'error' && 'Could not reach the server - will retry'}
+          </div>
+          {quarantined.length > 0 && (
+            <div className="text-sm text-red-300 text-center">
+              {quarantined.length} damaged save{quarantined.length > 1 ? 's were' : ' was'} set aside and not loaded
+            </div>
+          )}
+          
           {hasProgress && (
             <button
               className="bg-[#0D47A1] hover:bg-[#1565C0] text-white px-8 py-3 rounded-lg font-['Pirata_One'] text-xl transition-all"
@@ -129,9 +176,9 @@ const MainMenu = () => {
           
           <button
             className="bg-[#0D47A1] hover:bg-[#1565C0] text-white px-8 py-3 rounded-lg font-['Pirata_One'] text-xl transition-all"
-            onClick={() => setGameState('upgrade')}
+            onClick={() => setShowLobby(true)}
           >
-            Ship Upgrades
+            Multiplayer
           </button>
           
           <button
@@ -155,6 +202,7 @@ const MainMenu = () => {
             Back
           </button>
         </div>
+        )}
         
         {/* Ship decoration */}
         <div className="absolute -top-16 -right-16 text-[#8B4513] opacity-20 transform rotate-12">
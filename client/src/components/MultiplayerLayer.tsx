@@ -0,0 +1,130 @@
+import { useRef, useState, memo, MutableRefObject } from "react";
+import { useFrame } from "@react-three/fiber";
+import { useKeyboardControls, Html } from "@react-three/drei";
+import * as THREE from "three";
+import { Controls } from "../App";
+import { SCALE, MODEL_ADJUSTMENT, STATIC } from "../lib/constants";
+import { ModelService } from "../lib/services/ModelService";
+import { InterpolatedWorld } from "../lib/services/MultiplayerClient";
+import { multiplayerClient, useMultiplayer } from "../lib/stores/useMultiplayer";
+import { usePlayer } from "../lib/stores/usePlayer";
+import { useGameState } from "../lib/stores/useGameState";
+import CustomModel from "./CustomModel";
+
+// Enough instances for every player's broadsides in flight at once
+const MAX_CANNONBALLS = 256;
+
+// Another captain's ship, placed from the interpolated snapshots
+const RemoteShip = memo(({ id, worldRef }: { id: string; worldRef: MutableRefObject<InterpolatedWorld | null> }) => {
+  const groupRef = useRef<THREE.Group>(null);
+  const name = useMultiplayer((state) => state.players[id]);
+
+  useFrame(() => {
+    const ship = worldRef.current?.ships.find(s => s.id === id);
+    if (!groupRef.current || !ship) return;
+
+    groupRef.current.visible = ship.alive;
+    groupRef.current.position.set(ship.x, 0, ship.z);
+    groupRef.current.rotation.set(0, ship.rotationY, 0);
+  });
+
+  return (
+    <group ref={groupRef}>
+      {/* Same model and orientation as the player's own ship */}
+      <CustomModel
+        path={ModelService.getShipModelPath('base')}
+        rotation={[0, -Math.PI / 3 + Math.PI / 12 + Math.PI / 45, 0]}
+        scale={useGameState.getState().shipScale * SCALE.PLAYER_SHIP}
+        modelAdjustment={MODEL_ADJUSTMENT.SHIP}
+        modelHeightOffset={STATIC.SHIP_OFFSET}
+        castShadow
+        receiveShadow
+      />
+      <Html position={[0, 14, 0]} center distanceFactor={60}>
+        <div className="text-white text-sm font-bold whitespace-nowrap drop-shadow">{name}</div>
+      </Html>
+    </group>
+  );
+});
+
+/**
+ * Everything a multiplayer match adds to the scene
+ * Sends this player's controls to the server, copies the server's view of the
+ * player's own ship into the player store, and draws the other ships and every
+ * cannonball in flight
+ */
+const MultiplayerLayer = () => {
+  const [, getKeys] = useKeyboardControls<Controls>();
+  const playerId = useMultiplayer((state) => state.playerId);
+
+  const worldRef = useRef<InterpolatedWorld | null>(null);
+  const cannonballsRef = useRef<THREE.InstancedMesh>(null);
+  const [remoteIds, setRemoteIds] = useState<string[]>([]);
+  const matrix = useRef(new THREE.Matrix4());
+
+  useFrame(() => {
+    const keys = getKeys();
+    multiplayerClient.sendControls({
+      forward: keys.forward,
+      backward: keys.backward,
+      leftward: keys.leftward,
+      rightward: keys.rightward,
+      fire: keys.fire,
+      firePort: keys.firePort,
+      fireStarboard: keys.fireStarboard,
+      raiseGuns: keys.raiseGuns,
+      lowerGuns: keys.lowerGuns,
+      repair: keys.repair,
+      board: keys.board,
+      raiseSails: keys.raiseSails,
+      lowerSails: keys.lowerSails
+    });
+
+    const world = multiplayerClient.getInterpolatedWorld();
+    worldRef.current = world;
+    if (!world) return;
+
+    // The server decides where our ship is - the Ship component just renders it
+    const self = world.ships.find(ship => ship.id === playerId);
+    if (self) {
+      usePlayer.setState({
+        position: new THREE.Vector3(self.x, 0, self.z),
+        rotation: new THREE.Euler(0, self.rotationY, 0),
+        health: self.health,
+        maxHealth: self.maxHealth,
+        sails: self.sails
+      });
+    }
+
+    // Mount and unmount remote ships only when someone joins or leaves
+    const ids = world.ships.filter(ship => ship.id !== playerId).map(ship => ship.id);
+    if (ids.join() !== remoteIds.join()) setRemoteIds(ids);
+
+    // Cannonballs are drawn as one instanced mesh
+    const mesh = cannonballsRef.current;
+    if (mesh) {
+      const count = Math.min(world.cannonballs.length, MAX_CANNONBALLS);
+      for (let i = 0; i < count; i++) {
+        const ball = world.cannonballs[i];
+        mesh.setMatrixAt(i, matrix.current.makeTranslation(ball.x, ball.y, ball.z));
+      }
+      mesh.count = count;
+      mesh.instanceMatrix.needsUpdate = true;
+    }
+  });
+
+  return (
+    <>
+      {remoteIds.map(id => (
+        <RemoteShip key={id} id={id} worldRef={worldRef} />
+      ))}
+
+      <instancedMesh ref={cannonballsRef} args={[undefined, undefined, MAX_CANNONBALLS]} frustumCulled={false}>
+        <sphereGeometry args={[0.5, 12, 12]} />
+        <meshStandardMaterial color="#222222" metalness={0.7} roughness={0.3} />
+      </instancedMesh>
+    </>
+  );
+};
+
+export default MultiplayerLayer;
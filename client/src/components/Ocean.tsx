@@ -3,14 +3,20 @@ import { useFrame } from "@react-three/fiber";
 import { MeshStandardMaterial } from "three";
 import * as THREE from "three";
 import { useGameState } from "../lib/stores/useGameState";
+import { usePlayer } from "../lib/stores/usePlayer";
+import { useDayNight } from "../lib/stores/useDayNight";
 import { STATIC } from "../lib/constants";
+import { GameSimulation, gameSimulation } from "../lib/simulation/GameSimulation";
+import { sampleOceanHeight } from "../lib/simulation/ocean";
+
+const DAY_WATER_COLOR = new THREE.Color("#1E65AA");
+const NIGHT_WATER_COLOR = new THREE.Color("#061A33");
 
 interface OceanProps {
-  // The Ocean component doesn't need props currently, 
-  // but having the interface makes it future-proof
+  simulation?: GameSimulation; // Whose waves are drawn - defaults to the game's own, the replay viewer passes its copy
 }
 
-const Ocean: React.FC<OceanProps> = () => {
+const Ocean: React.FC<OceanProps> = ({ simulation = gameSimulation }) => {
   const meshRef = useRef<THREE.Mesh>(null);
   
   // Check if water should be visible from game state
@@ -19,6 +25,10 @@ const Ocean: React.FC<OceanProps> = () => {
   // Calculate the size to cover a large area
   const oceanSize = 1000;
   
+  // The world is infinite, so the ocean follows the player in whole grid steps
+  // Waves are computed in world space, so snapping keeps the surface seamless
+  const groupRef = useRef<THREE.Group>(null);
+  
   // Caustic effect - light patterns that show below water
   const causticRef = useRef<THREE.Mesh>(null);
   const segmentCount = 128;
@@ -169,38 +179,26 @@ const Ocean: React.FC<OceanProps> = () => {
   useFrame((_, delta) => {
     if (!meshRef.current) return;
     
-    // Get wave parameters from game state
-    const { waveHeight, waveSpeed } = useGameState.getState();
+    // The simulation moves the waves, so hulls and cannonballs meet the same surface that's drawn
+    const { phase, height } = simulation.getSeaSurface();
     
     timeRef.current += delta * 0.5;
     
+    // Snap the ocean under the player to a multiple of the vertex spacing
+    const playerPosition = usePlayer.getState().position;
+    const snapStep = (oceanSize / segmentCount) * 8;
+    const offsetX = playerPosition ? Math.round(playerPosition.x / snapStep) * snapStep : 0;
+    const offsetZ = playerPosition ? Math.round(playerPosition.z / snapStep) * snapStep : 0;
+    if (groupRef.current) {
+      groupRef.current.position.set(offsetX, 0, offsetZ);
+    }
+    
     // Animate the wave displacement with complex wave patterns
     const positionAttr = meshRef.current.geometry.attributes.position;
     const vertices = positionAttr.array;
     
-    // Different time frequencies for more natural motion
-    const time1 = timeRef.current * (waveSpeed * 0.8);
-    const time2 = timeRef.current * (waveSpeed * 1.2);
-    const time3 = timeRef.current * (waveSpeed * 0.5);
-    
     for (let i = 0; i < vertices.length; i += 3) {
-      const x = vertices[i];
-      const z = vertices[i + 2];
-      
-      // Create complex wave effect with configurable height and multiple wave patterns
-      vertices[i + 1] = (
-        // Primary wave pattern
-        Math.sin(x / 20 + time1) * Math.cos(z / 20 + time1) * (waveHeight * 3) +
-        // Secondary faster waves
-        Math.sin(x / 10 + z / 15 + time2) * (waveHeight * 1.5) +
-        // Long period slow waves
-        Math.cos(x / 40 - z / 30 + time3) * (waveHeight * 2.5)
-      );
-      
-      // Apply distance-based amplitude damping for calmer water in center
-      const distanceFromCenter = Math.sqrt(x * x + z * z);
-      const distanceFactor = Math.min(1.0, distanceFromCenter / 100); 
-      vertices[i + 1] *= distanceFactor;
+      vertices[i + 1] = sampleOceanHeight(vertices[i] + offsetX, vertices[i + 2] + offsetZ, phase, height);
     }
     
     positionAttr.needsUpdate = true;
@@ -211,12 +209,12 @@ const Ocean: React.FC<OceanProps> = () => {
       const causticVertices = causticPosAttr.array;
       
       // Faster time frequencies for caustics
-      const causticTime1 = timeRef.current * (waveSpeed * 1.5);
-      const causticTime2 = timeRef.current * (waveSpeed * 2.0);
+      const causticTime1 = phase * 1.5;
+      const causticTime2 = phase * 2.0;
       
       for (let i = 0; i < causticVertices.length; i += 3) {
-        const x = causticVertices[i];
-        const z = causticVertices[i + 2];
+        const x = causticVertices[i] + offsetX;
+        const z = causticVertices[i + 2] + offsetZ;
         
         // Create animated caustic pattern
         causticVertices[i + 1] = 
@@ -233,11 +231,11 @@ const Ocean: React.FC<OceanProps> = () => {
       }
     }
     
-    // Apply a subtle color shift based on time for a water shimmering effect
+    // Apply a subtle color shift based on time for a water shimmering effect - the sea goes dark with the sky at night
     if (materialRef.current) {
-      const baseColor = new THREE.Color("#1E65AA"); // Use the updated color
+      const { daylight } = useDayNight.getState();
       const shimmerAmount = (Math.sin(timeRef.current * 0.2) * 0.1) + 0.95;
-      materialRef.current.color.copy(baseColor).multiplyScalar(shimmerAmount);
+      materialRef.current.color.copy(NIGHT_WATER_COLOR).lerp(DAY_WATER_COLOR, daylight).multiplyScalar(shimmerAmount);
     }
   });
   
@@ -247,7 +245,7 @@ const Ocean: React.FC<OceanProps> = () => {
   }
 
   return (
-    <>
+    <group ref={groupRef}>
       {/* Main water surface */}
       <mesh
         ref={meshRef}
@@ -291,7 +289,7 @@ const Ocean: React.FC<OceanProps> = () => {
           metalness={0.1}
         />
       </mesh>
-    </>
+    </group>
   );
 };
 
@@ -0,0 +1,404 @@
+import { useState } from "react";
+import { usePort } from "../lib/stores/usePort";
+import { usePlayer } from "../lib/stores/usePlayer";
+import { useUpgrades } from "../lib/stores/useUpgrades";
+import { useAmmo } from "../lib/stores/useAmmo";
+import { AMMO_TYPES, getAmmoDefinition } from "../lib/simulation/ammunition";
+import { useCrew } from "../lib/stores/useCrew";
+import { CREW_ROLES, getCrewRole, getWages } from "../lib/simulation/crew";
+import { useFleet } from "../lib/stores/useFleet";
+import { FLEET, getEscorts, SHIPYARD_PRICES } from "../lib/simulation/fleet";
+import { EnemyArchetypeId, getArchetype } from "../lib/simulation/enemyArchetypes";
+import { usePowerUps } from "../lib/stores/usePowerUps";
+import { getPowerUpDefinition, PowerUpType } from "../lib/simulation/powerUps";
+import {
+  CHANDLERY_PRICES,
+  getPortName,
+  getPortServiceDefinition,
+  getRepairCost,
+  PORT_SERVICES,
+  PortService,
+} from "../lib/simulation/ports";
+import { SECTION_REGISTRY, SHIP_SECTIONS } from "../lib/simulation/shipDamage";
+
+// The ships the shipyard builds, in the order it lists them
+const SHIPYARD_SHIPS = Object.keys(SHIPYARD_PRICES) as EnemyArchetypeId[];
+
+// The stores the chandlery keeps, in the order it lists them
+const CHANDLERY_STORES = Object.keys(CHANDLERY_PRICES) as PowerUpType[];
+
+// The refits the shipyard offers on the ship herself
+const REFITS = [
+  { stat: 'hull', name: 'Hull Strength', icon: 'fa-shield-alt', bar: 'bg-green-500', description: "Increases your ship's durability in battle.", effect: '+10 HP per level' },
+  { stat: 'cannon', name: 'Cannon Power', icon: 'fa-bomb', bar: 'bg-red-500', description: 'Increases damage and reduces reload time.', effect: '+20% damage per level' },
+  { stat: 'speed', name: 'Ship Speed', icon: 'fa-wind', bar: 'bg-blue-500', description: 'Improves maneuverability and top speed.', effect: '+15% speed per level' },
+] as const;
+
+const CARD = "bg-[#0D47A1] bg-opacity-30 rounded-lg p-4 border border-[#0D47A1]";
+const HEADING = "text-2xl font-['Pirata_One'] text-[#FFD700] text-center";
+
+const buttonClass = (enabled: boolean) => enabled
+  ? 'bg-[#8B4513] hover:bg-[#9c6b30] text-white'
+  : 'bg-gray-600 text-gray-300 cursor-not-allowed';
+
+// Format numbers with commas
+const formatNumber = (num: number) => {
+  return num.toString().replace(/\B(?=(\d{3})+(?!\d))/g, ",");
+};
+
+/**
+ * The shipyard - repairs, refits for the ship herself, the fleet's escorts and
+ * new ships
+ */
+const Shipyard = () => {
+  const { loot, hullLevel, cannonLevel, speedLevel, upgradeCost, upgradeStat, buyShip, repairShip } = useUpgrades();
+  const health = usePlayer((state) => state.health);
+  const maxHealth = usePlayer((state) => state.maxHealth);
+  const damage = usePlayer((state) => state.damage);
+  const fleet = useFleet((state) => state.ships);
+  const setEscort = useFleet((state) => state.setEscort);
+  const escortCount = getEscorts(fleet).length;
+
+  const levels = { hull: hullLevel, cannon: cannonLevel, speed: speedLevel };
+  const repairCost = getRepairCost(health, maxHealth, damage);
+  const damagedSections = SHIP_SECTIONS.filter(section => damage.sections[section] < 1);
+
+  return (
+    <>
+      {/* Repairs - the hull, every damaged section and the hold, all at once */}
+      <div className={`${CARD} flex items-center justify-between gap-4`}>
+        <div className="text-white text-sm">
+          <h3 className="text-xl font-['Pirata_One'] text-white mb-1">Repairs</h3>
+          <p>Hull {Math.ceil(health)}/{maxHealth}</p>
+          <p>
+            {damagedSections.length > 0
+              ? `Damaged: ${damagedSections.map(section => SECTION_REGISTRY[section].name).join(', ')}`
+              : 'Every section sound'}
+            {damage.water > 0 && ' · Water in the hold'}
+          </p>
+        </div>
+
+        <button
+          className={`px-4 py-2 rounded-lg font-semibold whitespace-nowrap ${buttonClass(repairCost > 0 && loot >= repairCost)}`}
+          onClick={repairShip}
+          disabled={repairCost === 0 || loot < repairCost}
+        >
+          {repairCost === 0 ? 'Nothing to Repair' : `Repair - ${formatNumber(repairCost)} Gold`}
+        </button>
+      </div>
+
+      {/* Refits */}
+      <h2 className={`${HEADING} mt-8 mb-4`}>Refits</h2>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        {REFITS.map(({ stat, name, icon, bar, description, effect }) => {
+          const level = levels[stat];
+          const cost = upgradeCost(level);
+
+          return (
+            <div key={stat} className={CARD}>
+              <div className="flex items-center mb-2">
+                <i className={`fas ${icon} text-[#FFD700] text-2xl mr-2`}></i>
+                <h3 className="text-xl font-['Pirata_One'] text-white">{name}</h3>
+              </div>
+
+              <div className="mb-4">
+                <div className="flex justify-between text-white text-sm mb-1">
+                  <span>Current Level</span>
+                  <span>{level}</span>
+                </div>
+                <div className="w-full bg-gray-700 rounded-full h-2">
+                  <div className={`${bar} h-2 rounded-full`} style={{ width: `${Math.min(100, level * 10)}%` }} />
+                </div>
+              </div>
+
+              <div className="text-white text-sm mb-4">
+                <p>{description}</p>
+                <p className="mt-1">{effect}</p>
+              </div>
+
+              <button
+                className={`w-full px-4 py-2 rounded-lg font-semibold ${buttonClass(loot >= cost)}`}
+                onClick={() => upgradeStat(stat)}
+                disabled={loot < cost}
+              >
+                Upgrade - {formatNumber(cost)} Gold
+              </button>
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Fleet - prizes and bought ships, and which of them sail as escorts */}
+      <h2 className={`${HEADING} mt-8 mb-1`}>Fleet</h2>
+      <p className="text-white text-sm text-center mb-4">
+        {escortCount}/{FLEET.MAX_ESCORTS} escorts · Keys 5-8 order them to follow, attack, hold or flee
+      </p>
+      {fleet.length === 0 ? (
+        <p className="text-gray-300 text-sm text-center">No ships yet - take a prize or buy one below</p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          {fleet.map(ship => {
+            const { name, health, cannons } = getArchetype(ship.archetype);
+            const canEscort = ship.escort || escortCount < FLEET.MAX_ESCORTS;
+
+            return (
+              <div key={ship.id} className={CARD}>
+                <h3 className="text-xl font-['Pirata_One'] text-white mb-2">{name}</h3>
+
+                <div className="text-white text-sm mb-4">
+                  <p>Hull {health} · Guns {cannons}</p>
+                  <p>{ship.escort ? 'Sails as an escort' : 'Waiting in port'}</p>
+                </div>
+
+                <button
+                  className={`w-full px-4 py-2 rounded-lg font-semibold ${buttonClass(canEscort)}`}
+                  onClick={() => setEscort(ship.id, !ship.escort)}
+                  disabled={!canEscort}
+                >
+                  {ship.escort ? 'Leave in Port' : 'Sail as Escort'}
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* New ships join the fleet, as escorts while there's room */}
+      <h2 className={`${HEADING} mt-8 mb-4`}>Ships for Sale</h2>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        {SHIPYARD_SHIPS.map(archetype => {
+          const { name, health, speed, cannons } = getArchetype(archetype);
+          const price = SHIPYARD_PRICES[archetype] ?? 0;
+
+          return (
+            <div key={archetype} className={CARD}>
+              <h3 className="text-xl font-['Pirata_One'] text-white mb-2">{name}</h3>
+
+              <div className="text-white text-sm mb-4">
+                <p>Hull {health} · Speed {speed} · Guns {cannons}</p>
+              </div>
+
+              <button
+                className={`w-full px-4 py-2 rounded-lg font-semibold ${buttonClass(loot >= price)}`}
+                onClick={() => buyShip(archetype)}
+                disabled={loot < price}
+              >
+                Buy - {formatNumber(price)} Gold
+              </button>
+            </div>
+          );
+        })}
+      </div>
+    </>
+  );
+};
+
+/**
+ * The chandlery - special shot for the magazine in bundles, and stores that go
+ * into the inventory like power-ups found at sea
+ */
+const Chandlery = () => {
+  const { loot, buyAmmo, buyPowerUp } = useUpgrades();
+  const ammoStock = useAmmo((state) => state.stock);
+  const inventory = usePowerUps((state) => state.inventoryPowerUps);
+
+  return (
+    <>
+      <h2 className={`${HEADING} mb-4`}>Powder Magazine</h2>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        {AMMO_TYPES.map(type => {
+          const { name, description, shop, visual } = getAmmoDefinition(type);
+          if (!shop) return null;
+
+          return (
+            <div key={type} className={CARD}>
+              <div className="flex items-center mb-2">
+                <span className="inline-block w-4 h-4 rounded-full mr-2" style={{ backgroundColor: visual.color }} />
+                <h3 className="text-xl font-['Pirata_One'] text-white">{name}</h3>
+              </div>
+
+              <div className="text-white text-sm mb-4">
+                <p>{description}</p>
+                <p className="mt-1">In the magazine: {ammoStock[type]}</p>
+              </div>
+
+              <button
+                className={`w-full px-4 py-2 rounded-lg font-semibold ${buttonClass(loot >= shop.price)}`}
+                onClick={() => buyAmmo(type)}
+                disabled={loot < shop.price}
+              >
+                Buy {shop.amount} - {formatNumber(shop.price)} Gold
+              </button>
+            </div>
+          );
+        })}
+      </div>
+
+      <h2 className={`${HEADING} mt-8 mb-4`}>Stores</h2>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        {CHANDLERY_STORES.map(type => {
+          const definition = getPowerUpDefinition(type);
+          const price = CHANDLERY_PRICES[type] ?? 0;
+          if (!definition) return null;
+
+          return (
+            <div key={type} className={CARD}>
+              <div className="flex items-center mb-2">
+                <span className="inline-block w-4 h-4 rounded-full mr-2" style={{ backgroundColor: definition.color }} />
+                <h3 className="text-xl font-['Pirata_One'] text-white">{definition.name}</h3>
+              </div>
+
+              <div className="text-white text-sm mb-4">
+                <p>{definition.description}</p>
+                <p className="mt-1">In the hold: {inventory.filter(item => item.type === type).length}</p>
+              </div>
+
+              <button
+                className={`w-full px-4 py-2 rounded-lg font-semibold ${buttonClass(loot >= price)}`}
+                onClick={() => buyPowerUp(type)}
+                disabled={loot < price}
+              >
+                Buy - {formatNumber(price)} Gold
+              </button>
+            </div>
+          );
+        })}
+      </div>
+    </>
+  );
+};
+
+/**
+ * The tavern - hands are hired here and paid from the loot at sea, and there's
+ * always talk of what lies out on the water
+ */
+const Tavern = () => {
+  const { loot, hireCrew } = useUpgrades();
+  const roster = useCrew((state) => state.roster);
+  const morale = useCrew((state) => state.morale);
+  const dismissCrew = useCrew((state) => state.dismiss);
+  const rumours = usePort((state) => state.rumours);
+
+  return (
+    <>
+      <h2 className={`${HEADING} mb-1`}>Crew Roster</h2>
+      <p className="text-white text-sm text-center mb-4">
+        Morale {Math.round(morale * 100)}% · {formatNumber(getWages(roster))} Gold in wages every payday
+      </p>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        {CREW_ROLES.map(role => {
+          const { name, plural, description, berths, hireCost, wage } = getCrewRole(role);
+          const canHire = loot >= hireCost && roster[role] < berths;
+
+          return (
+            <div key={role} className={CARD}>
+              <h3 className="text-xl font-['Pirata_One'] text-white mb-2">{plural}</h3>
+
+              <div className="text-white text-sm mb-4">
+                <p>{description}</p>
+                <p className="mt-1">Aboard: {roster[role]}/{berths}</p>
+                <p>Wage: {wage} Gold each</p>
+              </div>
+
+              <div className="flex gap-2">
+                <button
+                  className={`flex-1 px-2 py-2 rounded-lg font-semibold ${buttonClass(canHire)}`}
+                  onClick={() => hireCrew(role)}
+                  disabled={!canHire}
+                >
+                  Hire - {formatNumber(hireCost)} Gold
+                </button>
+                <button
+                  className={`px-3 py-2 rounded-lg font-semibold ${
+                    roster[role] > 0
+                      ? 'bg-gray-700 hover:bg-gray-600 text-white'
+                      : 'bg-gray-600 text-gray-300 cursor-not-allowed'
+                  }`}
+                  onClick={() => dismissCrew(role)}
+                  disabled={roster[role] === 0}
+                  title={`Put a ${name.toLowerCase()} ashore`}
+                >
+                  Dismiss
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <h2 className={`${HEADING} mt-8 mb-4`}>Rumours</h2>
+      <div className={`${CARD} text-white text-sm space-y-2`}>
+        {rumours.map((rumour, index) => (
+          <p key={index} className="italic">"{rumour}"</p>
+        ))}
+      </div>
+    </>
+  );
+};
+
+const SERVICE_VIEWS: Record<PortService, () => JSX.Element> = {
+  shipyard: Shipyard,
+  chandlery: Chandlery,
+  tavern: Tavern,
+};
+
+/**
+ * Everything ashore while the ship lies in port - the world waits until she casts off
+ */
+const PortScreen = () => {
+  const docked = usePort((state) => state.docked);
+  const undock = usePort((state) => state.undock);
+  const loot = useUpgrades((state) => state.loot);
+  const [service, setService] = useState<PortService>('shipyard');
+
+  if (!docked) return null;
+  const ServiceView = SERVICE_VIEWS[service];
+
+  return (
+    <div className="absolute inset-0 bg-black bg-opacity-70 flex items-center justify-center pointer-events-auto">
+      <div className="bg-[#152d5b] border-2 border-[#8B4513] rounded-lg p-8 max-w-3xl w-full mx-4 max-h-[90vh] overflow-y-auto">
+        <h1 className="text-4xl font-['Pirata_One'] text-[#FFD700] mb-2 text-center">
+          {getPortName(docked.id)}
+        </h1>
+
+        <div className="text-center mb-6">
+          <div className="inline-block bg-[#0D47A1] px-4 py-2 rounded-lg">
+            <span className="text-[#FFD700] mr-2">
+              <i className="fas fa-coins"></i>
+            </span>
+            <span className="text-white font-bold">{formatNumber(loot)} Gold</span>
+          </div>
+        </div>
+
+        {/* One tab for each place ashore */}
+        <div className="flex gap-2 mb-2">
+          {PORT_SERVICES.map(id => (
+            <button
+              key={id}
+              className={`flex-1 px-4 py-2 rounded-lg font-['Pirata_One'] text-xl ${
+                id === service ? 'bg-[#8B4513] text-[#FFD700]' : 'bg-[#0D47A1] hover:bg-[#1565C0] text-white'
+              }`}
+              onClick={() => setService(id)}
+            >
+              {getPortServiceDefinition(id).name}
+            </button>
+          ))}
+        </div>
+        <p className="text-gray-300 text-sm text-center mb-6">{getPortServiceDefinition(service).description}</p>
+
+        <ServiceView />
+
+        <div className="flex justify-center mt-8">
+          <button
+            className="bg-[#0D47A1] hover:bg-[#1565C0] text-white px-8 py-3 rounded-lg font-['Pirata_One'] text-xl"
+            onClick={undock}
+          >
+            Cast Off
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PortScreen;
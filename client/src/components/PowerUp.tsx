@@ -6,15 +6,17 @@ import { Text } from '@react-three/drei';
 import { PowerUpType, usePowerUps } from '../lib/stores/usePowerUps';
 import { usePlayer } from '../lib/stores/usePlayer';
 import { useAudio } from '../lib/stores/useAudio';
+import { GameSimulation, gameSimulation } from '../lib/simulation/GameSimulation';
 
 interface PowerUpProps {
   position: THREE.Vector3;
   type: PowerUpType;
   id: string;
   onCollect: (id: string) => void;
+  simulation?: GameSimulation; // Whose sea it floats on - defaults to the game's own
 }
 
-const PowerUp: React.FC<PowerUpProps> = ({ position, type, id, onCollect }) => {
+const PowerUp: React.FC<PowerUpProps> = ({ position, type, id, onCollect, simulation = gameSimulation }) => {
   // Reference to the power-up mesh
   const meshRef = useRef<THREE.Mesh>(null);
   
@@ -62,10 +64,10 @@ const PowerUp: React.FC<PowerUpProps> = ({ position, type, id, onCollect }) => {
     // Update lifetime
     setLifetime(prev => prev - delta);
     
-    // Make the power-up bob up and down
+    // Make the power-up bob up and down, floating on the waves
     bobHeight.current += delta * 2;
-    const newY = Math.sin(bobHeight.current) * 0.3 + 0.5; // Bob from 0.2 to 0.8
-    meshRef.current.position.y = newY;
+    const newY = Math.sin(bobHeight.current) * 0.3 + 0.5; // Bob from 0.2 to 0.8 above the surface
+    meshRef.current.position.y = simulation.getOceanHeightAt(position.x, position.z) + newY;
     
     // Rotate the power-up
     meshRef.current.rotation.y += delta * rotationSpeed.current;
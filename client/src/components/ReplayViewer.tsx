@@ -0,0 +1,348 @@
+import { Suspense, useEffect, useRef, useState } from "react";
+import { Canvas, useFrame } from "@react-three/fiber";
+import { Environment as ThreeEnvironment, OrbitControls } from "@react-three/drei";
+import type { OrbitControls as OrbitControlsImpl } from "three-stdlib";
+
+import Ocean from "./Ocean";
+import Ship from "./Ship";
+import EnemyShip from "./EnemyShip";
+import CannonballLayer from "./CannonballLayer";
+import EnemyAIDebugOverlay from "./EnemyAIDebugOverlay";
+import SkyWithClouds from "./SkyWithClouds";
+import EnvironmentComponent, { EnvironmentFeature } from "./Environment";
+import { GameSimulation, SIMULATION, SimPowerUpDrop } from "../lib/simulation/GameSimulation";
+import { Replay, ReplayPlayer } from "../lib/simulation/replay";
+import { ReplayService } from "../lib/services/ReplayService";
+import { usePlayer } from "../lib/stores/usePlayer";
+import { useGameState } from "../lib/stores/useGameState";
+import { useWorldChunks } from "../lib/stores/useWorldChunks";
+
+const SPEEDS = [0.25, 0.5, 1, 2, 4];
+
+// Most steps a single frame may take, so fast playback on a slow machine drops time instead of freezing
+const MAX_STEPS_PER_FRAME = 40;
+
+// A replay being played on its own simulation - the game's simulation is never touched
+interface ReplaySession {
+  simulation: GameSimulation;
+  player: ReplayPlayer;
+}
+
+// Sets up a private simulation for a replay, with the replay's world loaded around the ship as it sails
+const createSession = (replay: Replay): ReplaySession => {
+  useGameState.getState().pinWorldSeed(replay.seed);
+  useWorldChunks.getState().resetChunks();
+
+  const simulation = new GameSimulation();
+  let features: EnvironmentFeature[] | null = null;
+
+  const player = new ReplayPlayer(simulation, replay, {
+    beforeStep: (sim) => {
+      const { position } = sim.getPlayer();
+      useWorldChunks.getState().loadChunks(position.x, position.z);
+
+      const loaded = useWorldChunks.getState().features;
+      if (loaded !== features) {
+        features = loaded;
+        sim.collisions.setFeatures(loaded);
+      }
+    },
+  });
+
+  return { simulation, player };
+};
+
+// A number of steps as m:ss
+const formatTicks = (ticks: number): string => {
+  const seconds = Math.floor(ticks * SIMULATION.STEP);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+interface ReplaySceneProps {
+  session: ReplaySession;
+  playing: boolean;
+  speed: number;
+  follow: boolean;
+  showAI: boolean;
+  generation: number; // Bumped after every seek so the cannonballs start over
+}
+
+// The 3D side of the viewer - plays the replay and draws its ships, cannonballs and islands
+const ReplayScene = ({ session, playing, speed, follow, showAI, generation }: ReplaySceneProps) => {
+  const { simulation, player } = session;
+  const accumulator = useRef(0);
+  const orbitControlsRef = useRef<OrbitControlsImpl>(null);
+  const [enemyIds, setEnemyIds] = useState<string[]>([]);
+  const [drops, setDrops] = useState<SimPowerUpDrop[]>([]);
+  const features = useWorldChunks((state) => state.features);
+
+  useFrame((_, delta) => {
+    if (playing) {
+      accumulator.current += delta * speed;
+      let steps = 0;
+      while (accumulator.current >= SIMULATION.STEP && steps < MAX_STEPS_PER_FRAME && player.stepForward()) {
+        accumulator.current -= SIMULATION.STEP;
+        steps++;
+      }
+      if (steps === MAX_STEPS_PER_FRAME) accumulator.current = 0;
+    }
+
+    // The Ship component draws whatever the player store holds, as in multiplayer
+    const ship = simulation.getPlayer();
+    usePlayer.setState({
+      position: ship.position.clone(),
+      rotation: ship.rotation.clone(),
+      velocity: ship.velocity.clone(),
+      health: ship.health,
+      maxHealth: ship.maxHealth
+    });
+
+    // Mount and unmount enemies and drops only when the lists change
+    const ids = simulation.getEnemies().map(enemy => enemy.id);
+    if (ids.join() !== enemyIds.join()) setEnemyIds(ids);
+    if (simulation.getPowerUpDrops() !== drops) setDrops(simulation.getPowerUpDrops());
+
+    if (follow && orbitControlsRef.current) {
+      orbitControlsRef.current.target.set(ship.position.x, 0, ship.position.z);
+    }
+  }, -1);
+
+  return (
+    <>
+      <ambientLight intensity={0.5} />
+      <directionalLight position={[100, 100, 50]} intensity={1} castShadow shadow-mapSize={[2048, 2048]} />
+      <SkyWithClouds cloudCount={35} cloudDensity={8} cloudHeight={60} dayNightCycle={false} initialTimeOfDay={0.3} />
+      <ThreeEnvironment preset="sunset" />
+      <Ocean simulation={simulation} />
+
+      <Ship simulation={simulation} />
+      <CannonballLayer key={generation} simulation={simulation} />
+      <EnvironmentComponent features={features} />
+      {showAI && <EnemyAIDebugOverlay simulation={simulation} />}
+
+      {enemyIds.map(id => {
+        const enemy = simulation.getEnemy(id);
+        return enemy && (
+          <EnemyShip
+            key={id}
+            id={id}
+            archetype={enemy.archetype}
+            initialPosition={enemy.position}
+            initialRotation={enemy.rotation}
+            simulation={simulation}
+          />
+        );
+      })}
+
+      {/* Floating power-ups, kept simple - the type is all a bug report needs */}
+      {drops.map(drop => (
+        <mesh key={drop.id} position={drop.position.toArray()}>
+          <sphereGeometry args={[0.8, 16, 16]} />
+          <meshStandardMaterial color="#FFD700" emissive="#FFD700" emissiveIntensity={0.7} />
+        </mesh>
+      ))}
+
+      {/* Free camera - drag to orbit, right-drag to pan, scroll to zoom */}
+      <OrbitControls
+        ref={orbitControlsRef}
+        enablePan={true}
+        enableZoom={true}
+        enableRotate={true}
+        minDistance={5}
+        maxDistance={800}
+        maxPolarAngle={Math.PI / 2 - 0.05}
+      />
+    </>
+  );
+};
+
+interface ReplayControlsProps {
+  session: ReplaySession;
+  playing: boolean;
+  speed: number;
+  follow: boolean;
+  showAI: boolean;
+  onPlayingChange: (playing: boolean) => void;
+  onSpeedChange: (speed: number) => void;
+  onFollowChange: (follow: boolean) => void;
+  onShowAIChange: (showAI: boolean) => void;
+  onSeek: (tick: number) => void;
+}
+
+// Play/pause, scrubbing and speed - reads the position on its own timer so the scene doesn't re-render
+const ReplayControls = ({ session, playing, speed, follow, showAI, onPlayingChange, onSpeedChange, onFollowChange, onShowAIChange, onSeek }: ReplayControlsProps) => {
+  const { player, simulation } = session;
+  const [tick, setTick] = useState(player.getTick());
+  const [health, setHealth] = useState(simulation.getPlayer().health);
+
+  useEffect(() => {
+    const interval = setInterval(() => {
+      setTick(player.getTick());
+      setHealth(simulation.getPlayer().health);
+      if (player.isFinished()) onPlayingChange(false);
+    }, 100);
+    return () => clearInterval(interval);
+  }, [player, simulation, onPlayingChange]);
+
+  const start = player.getStartTick();
+  const end = player.getEndTick();
+
+  return (
+    <div className="absolute bottom-4 left-4 right-4 bg-[#0A1C3B] bg-opacity-90 border border-[#8B4513] rounded-lg p-4 text-white flex items-center space-x-4">
+      <button
+        className="bg-[#8B4513] hover:bg-[#9c6b30] px-4 py-2 rounded-lg w-24"
+        onClick={() => {
+          if (!playing && player.isFinished()) onSeek(start);
+          onPlayingChange(!playing);
+        }}
+      >
+        {playing ? 'Pause' : 'Play'}
+      </button>
+
+      <span className="font-mono text-sm w-28 text-center">
+        {formatTicks(tick - start)} / {formatTicks(end - start)}
+      </span>
+
+      <input
+        type="range"
+        className="flex-1"
+        min={start}
+        max={end}
+        value={tick}
+        onChange={(event) => onSeek(Number(event.target.value))}
+      />
+
+      <select
+        className="bg-gray-800 rounded px-2 py-1"
+        value={speed}
+        onChange={(event) => onSpeedChange(Number(event.target.value))}
+      >
+        {SPEEDS.map(option => (
+          <option key={option} value={option}>{option}x</option>
+        ))}
+      </select>
+
+      <label className="flex items-center space-x-2 text-sm">
+        <input type="checkbox" checked={follow} onChange={(event) => onFollowChange(event.target.checked)} />
+        <span>Follow ship</span>
+      </label>
+
+      <label className="flex items-center space-x-2 text-sm">
+        <input type="checkbox" checked={showAI} onChange={(event) => onShowAIChange(event.target.checked)} />
+        <span>AI states</span>
+      </label>
+
+      <span className="text-sm w-24 text-right">
+        <i className="fas fa-heart text-red-500 mr-1"></i>{Math.ceil(health)}
+      </span>
+    </div>
+  );
+};
+
+/**
+ * /replay - plays back a recorded voyage with a free camera
+ * Opens the last saved replay, or any .replay.json file (e.g. one attached to a bug report)
+ */
+const ReplayViewer = () => {
+  const [replay, setReplay] = useState<Replay | null>(() => ReplayService.loadLatest());
+  const [session, setSession] = useState<ReplaySession | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+  const [follow, setFollow] = useState(true);
+  const [showAI, setShowAI] = useState(false);
+  const [generation, setGeneration] = useState(0);
+
+  useEffect(() => {
+    if (!replay) return;
+
+    console.log(`[REPLAY] Playing ${replay.endTick - replay.start.tick} ticks recorded with seed ${replay.seed}`);
+    setSession(createSession(replay));
+    setGeneration(value => value + 1);
+    setPlaying(true);
+  }, [replay]);
+
+  const openFile = async (file: File) => {
+    const result = ReplayService.deserialize(await file.text());
+    if (result.ok) {
+      setError(null);
+      setReplay(result.replay);
+    } else {
+      setError(result.error);
+    }
+  };
+
+  const seek = (tick: number) => {
+    if (!session) return;
+    session.player.seek(tick);
+    setGeneration(value => value + 1);
+  };
+
+  return (
+    <div className="h-screen w-screen overflow-hidden relative bg-[#0A1C3B]">
+      {session && (
+        <Canvas
+          shadows
+          camera={{ position: [0, 60, 90], fov: 60, near: 0.1, far: 1000 }}
+          gl={{ antialias: true, powerPreference: "default" }}
+        >
+          <color attach="background" args={["#89CFF0"]} />
+          <fog attach="fog" args={["#89CFF0", 100, 400]} />
+
+          <Suspense fallback={null}>
+            <ReplayScene session={session} playing={playing} speed={speed} follow={follow} showAI={showAI} generation={generation} />
+          </Suspense>
+        </Canvas>
+      )}
+
+      <div className="absolute top-4 left-4 right-4 flex items-start justify-between pointer-events-none">
+        <div className="bg-[#0A1C3B] bg-opacity-90 border border-[#8B4513] rounded-lg p-4 text-white pointer-events-auto">
+          <h1 className="text-2xl font-['Pirata_One'] text-[#FFD700]">Replay</h1>
+          {replay ? (
+            <p className="text-sm text-gray-300">
+              Seed <span className="font-mono text-white">{replay.seed}</span>
+              {' · '}recorded {new Date(replay.recordedAt).toLocaleString()}
+            </p>
+          ) : (
+            <p className="text-sm text-gray-300">No replay saved yet - use Save Replay in game, or open a file</p>
+          )}
+          <label className="inline-block mt-2 bg-[#8B4513] hover:bg-[#9c6b30] px-4 py-1 rounded-lg cursor-pointer text-sm">
+            Open replay file
+            <input
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={(event) => {
+                const file = event.target.files?.[0];
+                if (file) openFile(file);
+                event.target.value = '';
+              }}
+            />
+          </label>
+          {error && <p className="mt-2 text-sm text-red-400 max-w-md">{error}</p>}
+        </div>
+
+        <a href="/" className="bg-blue-800 hover:bg-blue-700 text-white px-4 py-2 rounded-lg pointer-events-auto">
+          Back to the game
+        </a>
+      </div>
+
+      {session && (
+        <ReplayControls
+          session={session}
+          playing={playing}
+          speed={speed}
+          follow={follow}
+          showAI={showAI}
+          onPlayingChange={setPlaying}
+          onSpeedChange={setSpeed}
+          onFollowChange={setFollow}
+          onShowAIChange={setShowAI}
+          onSeek={seek}
+        />
+      )}
+    </div>
+  );
+};
+
+export default ReplayViewer;
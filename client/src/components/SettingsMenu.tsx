@@ -1,11 +1,14 @@
 import { useState, useEffect } from "react";
 import { useGameState } from "../lib/stores/useGameState";
 import { useAudio, MusicTrack } from "../lib/stores/useAudio";
+import { DAY_LENGTH_OPTIONS } from "../lib/simulation/dayNight";
 
 const SettingsMenu = () => {
   const [sensitivity, setSensitivity] = useState(50);
   const [volumeLevel, setVolumeLevel] = useState(30);
   const setGameState = useGameState((state) => state.setGameState);
+  const dayLength = useGameState((state) => state.dayLength);
+  const setDayLength = useGameState((state) => state.setDayLength);
   
   // Audio state and functions
   const audioState = useAudio((state) => ({
@@ -158,12 +161,31 @@ const SettingsMenu = () => {
               </button>
             </div>
             
-            <div className="flex items-center justify-between">
+            <div className="flex items-center justify-between mb-4">
               <span className="text-white">Dynamic Waves</span>
               <button className="w-14 h-7 rounded-full bg-green-500 relative">
                 <span className="absolute top-1 left-8 w-5 h-5 rounded-full bg-white shadow-md" />
               </button>
             </div>
+            
+            <div>
+              <span className="text-white block mb-2">Length of Day</span>
+              <div className="flex flex-wrap gap-3">
+                {DAY_LENGTH_OPTIONS.map(option => (
+                  <button
+                    key={option.name}
+                    className={`px-4 py-2 rounded-md transition-colors ${
+                      dayLength === option.seconds
+                        ? 'bg-[#FFD700] text-[#0A1C3B] font-bold'
+                        : 'bg-[#1A3E80] text-white hover:bg-[#254d94]'
+                    }`}
+                    onClick={() => setDayLength(option.seconds)}
+                  >
+                    {option.name}
+                  </button>
+                ))}
+              </div>
+            </div>
           </div>
           
           {/* Back Button */}
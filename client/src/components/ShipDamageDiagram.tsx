@@ -0,0 +1,59 @@
+import { usePlayer } from "../lib/stores/usePlayer";
+import { SHIP_SECTIONS, ShipSection } from "../lib/simulation/shipDamage";
+
+// Same bands as the health bar
+const integrityColor = (integrity: number) =>
+  integrity > 0.7 ? "#4CAF50" : integrity > 0.3 ? "#FF9800" : integrity > 0 ? "#F44336" : "#424242";
+
+// Top-down outline of the ship with the bow up, so port is on the left
+const SECTION_SHAPES: Record<ShipSection, JSX.Element> = {
+  bow: <path d="M30 2 L52 34 L8 34 Z" />,
+  portHull: <rect x="8" y="36" width="12" height="56" />,
+  starboardHull: <rect x="40" y="36" width="12" height="56" />,
+  masts: (
+    <>
+      <circle cx="30" cy="48" r="5" />
+      <circle cx="30" cy="64" r="6" />
+      <circle cx="30" cy="80" r="5" />
+    </>
+  ),
+  stern: <rect x="8" y="94" width="44" height="16" />,
+  rudder: <rect x="26" y="112" width="8" height="8" />,
+};
+
+/**
+ * The player's ship section by section, with the water in the hold next to it
+ */
+const ShipDamageDiagram = () => {
+  const damage = usePlayer((state) => state.damage);
+  const repairing = usePlayer((state) => state.repairing);
+  const waterPercent = Math.round(damage.water * 100);
+
+  return (
+    <div className="flex items-end gap-3 mt-3">
+      <svg viewBox="0 0 60 122" className="w-12 h-24" stroke="#111" strokeWidth="1">
+        {SHIP_SECTIONS.map(section => (
+          <g key={section} fill={integrityColor(damage.sections[section])}>
+            {SECTION_SHAPES[section]}
+          </g>
+        ))}
+      </svg>
+
+      <div className="flex flex-col items-center">
+        <div className="w-3 h-20 bg-gray-700 rounded-full overflow-hidden flex flex-col justify-end">
+          <div className="w-full bg-blue-500" style={{ height: `${waterPercent}%` }} />
+        </div>
+        <div className="text-white text-xs mt-1">Hold</div>
+      </div>
+
+      <div className="text-sm">
+        {damage.leak > 0 && <div className="text-blue-300">Taking on water</div>}
+        {repairing
+          ? <div className="text-green-400 font-bold">Repairing...</div>
+          : <div className="text-gray-300">T to repair</div>}
+      </div>
+    </div>
+  );
+};
+
+export default ShipDamageDiagram;
@@ -0,0 +1,194 @@
+import { useEffect } from "react";
+import { useFrame } from "@react-three/fiber";
+import { useKeyboardControls } from "@react-three/drei";
+
+import { Controls } from "../App";
+import { gameSimulation, PLAYER_SHIP_ID, SimulationEvent } from "../lib/simulation/GameSimulation";
+import { replayRecorder } from "../lib/simulation/replay";
+import { usePlayer } from "../lib/stores/usePlayer";
+import { useEnemies } from "../lib/stores/useEnemies";
+import { usePowerUps } from "../lib/stores/usePowerUps";
+import { useUpgrades } from "../lib/stores/useUpgrades";
+import { useEncounters } from "../lib/stores/useEncounters";
+import { useAmmo } from "../lib/stores/useAmmo";
+import { getAmmoDefinition } from "../lib/simulation/ammunition";
+import { useCrew } from "../lib/stores/useCrew";
+import { useBoarding } from "../lib/stores/useBoarding";
+import { useFleet } from "../lib/stores/useFleet";
+import { useWind } from "../lib/stores/useWind";
+import { useWeather } from "../lib/stores/useWeather";
+import { useDayNight } from "../lib/stores/useDayNight";
+import { usePort } from "../lib/stores/usePort";
+import { CrewRole, getCrewRole } from "../lib/simulation/crew";
+import { getArchetype } from "../lib/simulation/enemyArchetypes";
+import { getFleetCommand } from "../lib/simulation/fleet";
+import { getWeatherDefinition } from "../lib/simulation/weather";
+import { getTimeOfDayDefinition } from "../lib/simulation/dayNight";
+import { useGameState } from "../lib/stores/useGameState";
+import { useShipEvents } from "../lib/stores/useShipEvents";
+import { useAudio } from "../lib/stores/useAudio";
+import { useMultiplayer } from "../lib/stores/useMultiplayer";
+
+// Sounds, crew reactions and loot for things that happened in the simulation
+const handleSimulationEvent = (event: SimulationEvent) => {
+  const shipEvents = useShipEvents.getState();
+
+  switch (event.type) {
+    case 'cannonFired':
+      if (event.shipId === PLAYER_SHIP_ID) {
+        shipEvents.firePlayerCannons();
+        useAudio.getState().playHit();
+      }
+      break;
+
+    case 'shipDamaged':
+      if (event.shipId === PLAYER_SHIP_ID) {
+        shipEvents.playerHit();
+      }
+      break;
+
+    case 'shipsCollided':
+      shipEvents.enemyHit(event.shipId);
+      break;
+
+    case 'nearCollision':
+      if (event.shipId === PLAYER_SHIP_ID) {
+        shipEvents.playerNearCollision();
+      } else {
+        shipEvents.enemyNearCollision(event.shipId);
+      }
+      break;
+
+    case 'lootGained':
+      useUpgrades.getState().addLoot(event.amount);
+      break;
+
+    case 'ammoGained':
+      console.log(`[AMMO] Salvaged ${event.amount} ${getAmmoDefinition(event.ammo).name}`);
+      break;
+
+    case 'crewLost': {
+      const lost = Object.entries(event.lost).map(([role, count]) => {
+        const { name, plural } = getCrewRole(role as CrewRole);
+        return `${count} ${(count > 1 ? plural : name).toLowerCase()}`;
+      });
+      console.log(`[CREW] Lost ${lost.join(', ')}`);
+      break;
+    }
+
+    case 'wagesDue':
+      useUpgrades.getState().payWages(event.amount);
+      break;
+
+    case 'boardingStarted':
+      console.log(`[BOARDING] Boarders away onto ${event.enemyId}`);
+      break;
+
+    case 'boardingRepelled':
+      console.log(`[BOARDING] Thrown back from ${event.enemyId}`);
+      break;
+
+    case 'boardingWon':
+      console.log(`[BOARDING] ${event.enemyId} has struck her colours`);
+      break;
+
+    case 'shipCaptured':
+      console.log(`[BOARDING] ${getArchetype(event.archetype).name} taken - ${event.choice}`);
+      break;
+
+    case 'escortLost':
+      console.log(`[FLEET] Lost the ${getArchetype(event.archetype).name} ${event.shipId}`);
+      break;
+
+    case 'fleetCommanded':
+      console.log(`[FLEET] Orders to the escorts: ${getFleetCommand(event.command).name}`);
+      break;
+
+    case 'weatherChanged':
+      console.log(`[WEATHER] ${getWeatherDefinition(event.weather).name}`);
+      break;
+
+    case 'timeOfDayChanged':
+      console.log(`[DAYNIGHT] ${getTimeOfDayDefinition(event.timeOfDay).name}`);
+      break;
+
+    case 'shipVanished':
+      console.log(`[DAYNIGHT] The ${getArchetype(event.archetype).name} ${event.shipId} fades away with the dawn`);
+      break;
+
+    case 'powerUpCollected':
+      useAudio.getState().playSound('powerUp');
+      break;
+
+    case 'waveStarted':
+      useEncounters.getState().announceWave(event.wave, event.ships);
+      break;
+
+    case 'waveCleared':
+      useEncounters.getState().announceWaveCleared(event.wave, event.duration);
+      break;
+  }
+};
+
+/**
+ * Drives the single-player simulation from the render loop
+ * Runs before every other frame callback, so the views always draw this frame's state
+ */
+const SimulationRunner = () => {
+  const [, getKeys] = useKeyboardControls<Controls>();
+
+  useEffect(() => gameSimulation.subscribe(handleSimulationEvent), []);
+
+  useFrame((_, delta) => {
+    // In multiplayer the server simulates everything but the waves the hulls and the ocean ride
+    if (useMultiplayer.getState().status === 'connected') {
+      const { waveHeight, waveSpeed } = useGameState.getState();
+      gameSimulation.configure({ waveHeight, waveSpeed });
+      gameSimulation.advanceSea(delta);
+      return;
+    }
+
+    // Before the player is initialized there is nothing to run
+    if (!usePlayer.getState().position) return;
+
+    // The voyage stands still while the ship lies in port
+    if (usePort.getState().docked) return;
+
+    const { forward, backward, leftward, rightward, fire, firePort, fireStarboard, raiseGuns, lowerGuns, repair, board, raiseSails, lowerSails } = getKeys();
+    const input = { forward, backward, leftward, rightward, fire, firePort, fireStarboard, raiseGuns, lowerGuns, repair, board, raiseSails, lowerSails };
+    const { hullLevel, cannonLevel, speedLevel } = useUpgrades.getState();
+    const config = {
+      cannonLevel,
+      upgradeLevel: hullLevel + cannonLevel + speedLevel - 3, // Every stat starts at level 1
+      oneShotKill: useGameState.getState().oneShotKill,
+      encounters: useGameState.getState().encountersEnabled,
+      dayLength: useGameState.getState().dayLength,
+      waveHeight: useGameState.getState().waveHeight,
+      waveSpeed: useGameState.getState().waveSpeed,
+    };
+    
+    replayRecorder.recordInput(input);
+    replayRecorder.recordConfig(config);
+    gameSimulation.setInput(input);
+    gameSimulation.configure(config);
+
+    if (gameSimulation.advance(delta) === 0) return;
+
+    usePlayer.getState().sync();
+    useEnemies.getState().sync();
+    usePowerUps.getState().sync();
+    useEncounters.getState().sync();
+    useAmmo.getState().sync();
+    useCrew.getState().sync();
+    useBoarding.getState().sync();
+    useFleet.getState().sync();
+    useWind.getState().sync();
+    useWeather.getState().sync();
+    useDayNight.getState().sync();
+    usePort.getState().sync();
+  }, -1);
+
+  return null;
+};
+
+export default SimulationRunner;
@@ -1,17 +1,21 @@
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect } from 'react';
 import { Sky } from '@react-three/drei';
-import { useFrame } from '@react-three/fiber';
 import * as THREE from 'three';
 import Clouds from './Clouds';
+import { useWeather } from '../lib/stores/useWeather';
+import { useDayNight } from '../lib/stores/useDayNight';
+import { getSunDirection, getTimeOfDay } from '../lib/simulation/dayNight';
+
+// Cloud colour under a full cover - a clear sky's clouds are white
+const STORM_CLOUD_COLOR = new THREE.Color('#50565e');
 
 interface SkyWithCloudsProps {
   sunPosition?: [number, number, number];
   cloudCount?: number;
   cloudDensity?: number;
   cloudHeight?: number;
-  dayNightCycle?: boolean;
-  cycleSpeed?: number;
-  initialTimeOfDay?: number; // 0-1 range, 0 = midnight, 0.5 = noon
+  dayNightCycle?: boolean;   // Follow the game's clock
+  initialTimeOfDay?: number; // 0-1 range, 0 = midnight, 0.5 = noon - the fixed time when not following the clock
 }
 
 const SkyWithClouds: React.FC<SkyWithCloudsProps> = ({
@@ -20,106 +24,84 @@ const SkyWithClouds: React.FC<SkyWithCloudsProps> = ({
   cloudDensity = 6,
   cloudHeight = 70,
   dayNightCycle = true,
-  cycleSpeed = 0.1,
   initialTimeOfDay = 0.3, // Mid-morning default
 }) => {
-  // Time of day tracking (0-1 range)
-  const [timeOfDay, setTimeOfDay] = useState<number>(initialTimeOfDay);
+  // Time of day (0-1 range) from the simulation's clock, rounded so the sky only re-renders every few game minutes
+  const clock = useDayNight((state) => Math.round(state.clock * 500) / 500);
+  const timeOfDay = dayNightCycle ? clock : initialTimeOfDay;
   const [distance, setDistance] = useState<number>(1800000); // Quadrupled for extended visibility when zoomed out
-  const [azimuth, setAzimuth] = useState<number>(0.25);
-  const [inclination, setInclination] = useState<number>(0.5);
   const [rayleigh, setRayleigh] = useState<number>(1);
   const [turbidity, setTurbidity] = useState<number>(10);
   const [mieCoefficient, setMieCoefficient] = useState<number>(0.005);
   const [mieDirectionalG, setMieDirectionalG] = useState<number>(0.7);
   
-  // Sun properties
-  const calculatedSunPosition = useRef<THREE.Vector3>(new THREE.Vector3(...sunPosition));
-  
-  // Handle day-night cycle - using a ref to avoid state updates each frame
-  const timeRef = useRef(initialTimeOfDay);
+  // Rounded so the sky only re-renders when the cover has visibly changed
+  const cloudCover = useWeather((state) => Math.round(state.conditions.cloudCover * 20) / 20);
   
-  useFrame((state, delta) => {
-    if (dayNightCycle) {
-      // Update time of day in ref
-      timeRef.current = (timeRef.current + delta * cycleSpeed / 60) % 1; // full cycle in ~10 minutes at default speed
-      
-      // Only update state every 2 seconds for better performance
-      if (Math.floor(state.clock.elapsedTime) % 2 === 0 && !state.clock.running) {
-        setTimeOfDay(timeRef.current);
-      }
-    }
-  });
+  // The sun stands where the clock puts it - below the horizon all night, which darkens the sky
+  const sun = getSunDirection(timeOfDay);
+  const period = getTimeOfDay(timeOfDay);
+  const night = period === 'night';
+  const twilight = period === 'dawn' || period === 'dusk';
   
   // Update sky properties based on time of day
   useEffect(() => {
-    // Calculate sun position based on time of day
-    if (dayNightCycle) {
-      // Calculate sun inclination (height in the sky)
-      // 0 = horizon, 0.5 = zenith (directly overhead), 1 = opposite horizon
-      const newInclination = Math.sin(timeOfDay * Math.PI) * 0.5;
-      
-      // Calculate sun azimuth (rotation around the sky)
-      // Full 360-degree circle as time passes
-      const newAzimuth = timeOfDay * 2 * Math.PI;
-      
-      // Update sky properties
-      setInclination(Math.max(0.05, newInclination)); // Keep sun slightly above horizon
-      setAzimuth(newAzimuth);
-      
-      // Update atmospheric scattering based on time of day
-      // More atmospheric scattering at sunrise/sunset (red/orange sky)
-      // Less at noon (blue sky) and night (dark blue)
-      
-      // Dawn/dusk conditions (sunrise & sunset)
-      if (timeOfDay < 0.2 || timeOfDay > 0.8) {
-        setRayleigh(3.0); // Stronger Rayleigh scattering for red sunrises/sunsets
-        setTurbidity(5); // Lower turbidity for clearer dawn/dusk
-        setMieCoefficient(0.01); // More mie scattering for hazier sunrise/sunset
-        setDistance(1500000); // Increased for better visibility when zoomed out
-      } 
-      // Midday
-      else if (timeOfDay > 0.4 && timeOfDay < 0.6) {
-        setRayleigh(1.0); // Normal Rayleigh for blue sky
-        setTurbidity(10); // Higher turbidity for bright day
-        setMieCoefficient(0.005); // Less mie scattering for clear day
-        setDistance(1800000); // Increased for better visibility when zoomed out
-      }
-      // Transitions (morning and afternoon)
-      else {
-        setRayleigh(2.0); // Moderate Rayleigh
-        setTurbidity(8); // Moderate turbidity
-        setMieCoefficient(0.008); // Moderate mie scattering
-        setDistance(1650000); // Increased for better visibility when zoomed out
-      }
-      
-      // Night adjustments
-      if (timeOfDay > 0.9 || timeOfDay < 0.1) {
-        setRayleigh(1.0);
-        setTurbidity(6); // Lower turbidity for more stars
-      }
+    // Update atmospheric scattering based on time of day
+    // More atmospheric scattering at sunrise/sunset (red/orange sky)
+    // Less at noon (blue sky) and night (dark blue)
+    
+    // Dawn/dusk conditions (sunrise & sunset)
+    if (twilight) {
+      setRayleigh(3.0); // Stronger Rayleigh scattering for red sunrises/sunsets
+      setTurbidity(5); // Lower turbidity for clearer dawn/dusk
+      setMieCoefficient(0.01); // More mie scattering for hazier sunrise/sunset
+      setDistance(1500000); // Increased for better visibility when zoomed out
+    } 
+    // Midday
+    else if (timeOfDay > 0.4 && timeOfDay < 0.6) {
+      setRayleigh(1.0); // Normal Rayleigh for blue sky
+      setTurbidity(10); // Higher turbidity for bright day
+      setMieCoefficient(0.005); // Less mie scattering for clear day
+      setDistance(1800000); // Increased for better visibility when zoomed out
     }
-  }, [timeOfDay, dayNightCycle]);
+    // Transitions (morning and afternoon)
+    else {
+      setRayleigh(2.0); // Moderate Rayleigh
+      setTurbidity(8); // Moderate turbidity
+      setMieCoefficient(0.008); // Moderate mie scattering
+      setDistance(1650000); // Increased for better visibility when zoomed out
+    }
+    
+    // Night adjustments
+    if (night) {
+      setRayleigh(1.0);
+      setTurbidity(6); // Lower turbidity for more stars
+    }
+  }, [timeOfDay, night, twilight]);
   
   // Determine cloud lighting based on time of day
-  const cloudLightColor = timeOfDay > 0.9 || timeOfDay < 0.1
+  const cloudLightColor = night
     ? "#3355aa" // Night (blue moonlight)
-    : timeOfDay < 0.2 || timeOfDay > 0.8
+    : twilight
       ? "#ff9955" // Sunrise/sunset (orange)
       : "#ffffff"; // Day (white)
   
-  const cloudLightIntensity = timeOfDay > 0.9 || timeOfDay < 0.1
+  const cloudLightIntensity = night
     ? 0.05 // Night (dim)
-    : timeOfDay < 0.2 || timeOfDay > 0.8
+    : twilight
       ? 0.5 // Sunrise/sunset (medium)
       : 0.8; // Day (bright)
 
+  // Heavy weather darkens the clouds, thickens them and greys out the sky
+  const cloudColor = `#${new THREE.Color('#ffffff').lerp(STORM_CLOUD_COLOR, cloudCover).getHexString()}`;
+  const cloudOpacity = 0.7 + 0.25 * cloudCover;
+  
   // Calculate performance-optimized cloud settings
   // Reduce cloud count at night and dawn/dusk to improve performance
   const optimizedCloudCount = 
-    timeOfDay > 0.9 || timeOfDay < 0.1 ? // Night time
+    night ? // Night time
       Math.floor(cloudCount * 0.6) : // 60% clouds at night
-    timeOfDay < 0.2 || timeOfDay > 0.8 ? // Dawn/dusk
+    twilight ? // Dawn/dusk
       Math.floor(cloudCount * 0.8) : // 80% clouds at dawn/dusk
       cloudCount; // Full clouds during day
   
@@ -128,15 +110,9 @@ const SkyWithClouds: React.FC<SkyWithCloudsProps> = ({
       {/* Sky backdrop */}
       <Sky 
         distance={distance}
-        sunPosition={[
-          Math.cos(azimuth) * 100,
-          Math.sin(inclination) * 100, 
-          Math.sin(azimuth) * 100
-        ]}
-        inclination={inclination}
-        azimuth={azimuth / (2 * Math.PI)}
-        rayleigh={rayleigh}
-        turbidity={turbidity}
+        sunPosition={[sun.x * 100, sun.y * 100, sun.z * 100]}
+        rayleigh={rayleigh * (1 - 0.7 * cloudCover)}
+        turbidity={turbidity + 10 * cloudCover}
         mieCoefficient={mieCoefficient}
         mieDirectionalG={mieDirectionalG}
       />
@@ -149,9 +125,9 @@ const SkyWithClouds: React.FC<SkyWithCloudsProps> = ({
         size={cloudDensity}
         scale={[1, 0.5, 1]}
         spread={200}
-        opacity={0.7}
+        opacity={cloudOpacity}
         speed={1}
-        color="#ffffff"
+        color={cloudColor}
         lightColor={cloudLightColor}
         lightIntensity={cloudLightIntensity}
         dynamicLighting={true}
@@ -1,14 +1,27 @@
+import { useRef } from "react";
 import { useTexture } from "@react-three/drei";
+import { useFrame } from "@react-three/fiber";
 import * as THREE from "three";
+import { useDayNight } from "../lib/stores/useDayNight";
+
+// The texture is a daytime sky - by night it is tinted down to this
+const NIGHT_TINT = new THREE.Color("#101830");
+const DAY_TINT = new THREE.Color("#ffffff");
 
 const Skybox = () => {
   const skyTexture = useTexture("/textures/sky.png");
+  const materialRef = useRef<THREE.MeshBasicMaterial>(null);
+  
+  useFrame(() => {
+    materialRef.current?.color.copy(NIGHT_TINT).lerp(DAY_TINT, useDayNight.getState().daylight);
+  });
   
   // Create a large sphere for the skybox
   return (
     <mesh>
       <sphereGeometry args={[500, 64, 64]} />
       <meshBasicMaterial
+        ref={materialRef}
         map={skyTexture}
         side={THREE.BackSide}
       />
@@ -0,0 +1,69 @@
+import { useRef } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import * as THREE from 'three';
+import { useDayNight } from '../lib/stores/useDayNight';
+import { usePlayer } from '../lib/stores/usePlayer';
+import { getSunDirection } from '../lib/simulation/dayNight';
+
+const SUN_DISTANCE = 120;
+const SUN_COLOR = new THREE.Color('#ffffff');
+const LOW_SUN_COLOR = new THREE.Color('#ffb070'); // Sunrise and sunset
+const MOON_COLOR = new THREE.Color('#8899cc');
+const AMBIENT_DAY = 0.5;
+const AMBIENT_NIGHT = 0.12;
+const MOONLIGHT = 0.15;
+const ENVIRONMENT_NIGHT = 0.15; // What's left of the environment map's reflected light in the dark
+
+/**
+ * The sun, or the moon once it has set, following the clock - it lights the
+ * player's surroundings from wherever it stands in the sky
+ */
+const Sunlight = () => {
+  const scene = useThree((state) => state.scene);
+  const ambientRef = useRef<THREE.AmbientLight>(null);
+  const sunRef = useRef<THREE.DirectionalLight>(null);
+
+  useFrame(() => {
+    const { clock, daylight } = useDayNight.getState();
+    const position = usePlayer.getState().position;
+    const sun = getSunDirection(clock);
+
+    if (ambientRef.current) {
+      ambientRef.current.intensity = AMBIENT_NIGHT + (AMBIENT_DAY - AMBIENT_NIGHT) * daylight;
+    }
+    scene.environmentIntensity = ENVIRONMENT_NIGHT + (1 - ENVIRONMENT_NIGHT) * daylight;
+
+    const light = sunRef.current;
+    if (!light) return;
+
+    // By night the moon stands where the sun would, on the other side of the sky
+    const up = sun.y >= 0 ? 1 : -1;
+    const x = position?.x ?? 0;
+    const z = position?.z ?? 0;
+    light.position.set(x + sun.x * up * SUN_DISTANCE, Math.abs(sun.y) * SUN_DISTANCE + 10, z + sun.z * SUN_DISTANCE);
+    light.target.position.set(x, 0, z);
+    light.target.updateMatrixWorld();
+
+    light.intensity = MOONLIGHT + (1 - MOONLIGHT) * daylight;
+    if (daylight < 0.5) {
+      light.color.copy(MOON_COLOR);
+    } else {
+      light.color.copy(LOW_SUN_COLOR).lerp(SUN_COLOR, Math.min(1, Math.abs(sun.y) * 3));
+    }
+  });
+
+  return (
+    <>
+      <ambientLight ref={ambientRef} intensity={AMBIENT_DAY} />
+      <directionalLight
+        ref={sunRef}
+        position={[100, 100, 50]}
+        intensity={1}
+        castShadow
+        shadow-mapSize={[2048, 2048]}
+      />
+    </>
+  );
+};
+
+export default Sunlight;
@@ -0,0 +1,104 @@
+import { useEffect, useMemo, useRef } from "react";
+import { useFrame } from "@react-three/fiber";
+import { useKeyboardControls } from "@react-three/drei";
+import * as THREE from "three";
+import { Controls } from "../App";
+import { BATTERY_SIDES, BatterySide, gameSimulation } from "../lib/simulation/GameSimulation";
+
+// How long the preview stays up after the last aiming key is let go
+const LINGER_TIME = 1.5;
+// Just above the water, so the line isn't swallowed by the waves
+const WATER_HEIGHT = 0.3;
+// Enough for the longest flight, long range power-up included
+const MAX_POINTS = 1024;
+
+const READY_COLOR = '#FFD700';
+const RELOADING_COLOR = '#9E9E9E';
+
+interface BatteryPreviewProps {
+  side: BatterySide;
+  visible: React.MutableRefObject<boolean>;
+}
+
+// The ground track of one side's middle cannon, with a ring where the ball comes down
+const BatteryPreview = ({ side, visible }: BatteryPreviewProps) => {
+  const ringRef = useRef<THREE.Mesh>(null);
+
+  const line = useMemo(() => {
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.BufferAttribute(new Float32Array(MAX_POINTS * 3), 3));
+    const material = new THREE.LineDashedMaterial({ color: READY_COLOR, dashSize: 2, gapSize: 1.5, transparent: true, opacity: 0.8 });
+    return new THREE.Line(geometry, material);
+  }, []);
+
+  useEffect(() => () => {
+    line.geometry.dispose();
+    (line.material as THREE.Material).dispose();
+  }, [line]);
+
+  useFrame(() => {
+    line.visible = visible.current;
+    if (ringRef.current) ringRef.current.visible = visible.current;
+    if (!visible.current) return;
+
+    const points = gameSimulation.predictBatteryShot(side);
+    const count = Math.min(points.length, MAX_POINTS);
+    const positions = line.geometry.attributes.position as THREE.BufferAttribute;
+    for (let i = 0; i < count; i++) {
+      positions.setXYZ(i, points[i].x, WATER_HEIGHT, points[i].z);
+    }
+    positions.needsUpdate = true;
+    line.geometry.setDrawRange(0, count);
+    line.geometry.computeBoundingSphere();
+    line.computeLineDistances();
+
+    const ready = gameSimulation.getPlayer().batteries[side].cooldown <= 0;
+    (line.material as THREE.LineDashedMaterial).color.set(ready ? READY_COLOR : RELOADING_COLOR);
+
+    if (ringRef.current) {
+      const landing = points[count - 1];
+      ringRef.current.position.set(landing.x, WATER_HEIGHT, landing.z);
+      (ringRef.current.material as THREE.MeshBasicMaterial).color.set(ready ? READY_COLOR : RELOADING_COLOR);
+    }
+  });
+
+  return (
+    <>
+      <primitive object={line} />
+      <mesh ref={ringRef} rotation={[-Math.PI / 2, 0, 0]}>
+        <ringGeometry args={[1.5, 2.2, 24]} />
+        <meshBasicMaterial color={READY_COLOR} transparent opacity={0.8} side={THREE.DoubleSide} />
+      </mesh>
+    </>
+  );
+};
+
+/**
+ * Predicted paths of the port and starboard shots, drawn on the water while the
+ * player aims - raising or lowering the guns, or holding a fire key
+ */
+const TrajectoryPreview = () => {
+  const [, getKeys] = useKeyboardControls<Controls>();
+  const visible = useRef(false);
+  const lingerTimer = useRef(0);
+
+  useFrame((_, delta) => {
+    const { fire, firePort, fireStarboard, raiseGuns, lowerGuns } = getKeys();
+    if (fire || firePort || fireStarboard || raiseGuns || lowerGuns) {
+      lingerTimer.current = LINGER_TIME;
+    } else {
+      lingerTimer.current = Math.max(0, lingerTimer.current - delta);
+    }
+    visible.current = lingerTimer.current > 0 && gameSimulation.getPlayer().health > 0;
+  });
+
+  return (
+    <>
+      {BATTERY_SIDES.map(side => (
+        <BatteryPreview key={side} side={side} visible={visible} />
+      ))}
+    </>
+  );
+};
+
+export default TrajectoryPreview;
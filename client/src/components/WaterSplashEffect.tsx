@@ -1,12 +1,14 @@
 import React, { useRef, useEffect, useState } from "react";
 import { useFrame } from "@react-three/fiber";
 import * as THREE from "three";
+import { GameSimulation, gameSimulation } from "../lib/simulation/GameSimulation";
 
 interface WaterSplashEffectProps {
   position: THREE.Vector3;
   size?: number;
   duration?: number;
   onComplete?: () => void;
+  simulation?: GameSimulation; // Whose sea the splash rides - defaults to the game's own
 }
 
 // Define particleData type for better type checking
@@ -30,7 +32,8 @@ const WaterSplashEffect: React.FC<WaterSplashEffectProps> = ({
   position,
   size = 2.5,
   duration = 1.2,
-  onComplete
+  onComplete,
+  simulation = gameSimulation
 }) => {
   const groupRef = useRef<THREE.Group>(null);
   const startTime = useRef(Date.now());
@@ -186,6 +189,9 @@ const WaterSplashEffect: React.FC<WaterSplashEffectProps> = ({
     const elapsedTime = (Date.now() - startTime.current) / 1000;
     const progress = Math.min(elapsedTime / duration, 1);
     
+    // Rise and fall with the waves under the splash
+    groupRef.current.position.y = simulation.getOceanHeightAt(position.x, position.z);
+    
     // If animation is complete, call onComplete callback
     if (progress >= 1 && onComplete) {
       onComplete();
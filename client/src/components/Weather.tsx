@@ -0,0 +1,128 @@
+import { useEffect, useMemo, useRef } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import * as THREE from 'three';
+import { useWeather } from '../lib/stores/useWeather';
+import { useWind } from '../lib/stores/useWind';
+
+// Rain falls in a box that follows the camera - drops leaving it come back in at the top
+const RAIN = {
+  DROPS: 2000,
+  AREA: 120,       // Width and depth of the box
+  HEIGHT: 60,
+  FALL_SPEED: 60,  // Units per second
+  STREAK: 1.5,     // Length of each drop
+  SLANT: 15,       // Sideways speed in a full gale
+};
+
+const FOG = {
+  CLEAR_FAR: 5000, // Where the haze is total with no fog at all...
+  THICK_FAR: 120,  // ...and in the thickest fog
+  NEAR: 0.1,       // Haze starts at this share of the far distance
+  LIGHT_COLOR: new THREE.Color('#c8d2dc'),
+  DARK_COLOR: new THREE.Color('#4a5058'),
+};
+
+const LIGHTNING = {
+  RATE: 0.15,      // Strikes per second at full lightning
+  INTENSITY: 4,
+  DECAY: 12,       // Flash intensity lost per second
+};
+
+const DARKENING = 0.4; // Exposure lost under a full cloud cover
+
+/**
+ * What the weather at the player looks like - haze closing in, rain, lightning
+ * and the light going out of the day under heavy cloud. The sky's clouds darken
+ * themselves; everything here only reads the weather store
+ */
+const Weather = () => {
+  const { scene, camera, gl } = useThree();
+  const rainRef = useRef<THREE.LineSegments>(null);
+  const flashRef = useRef<THREE.AmbientLight>(null);
+
+  // Each drop is a top and a bottom vertex, scattered through the box to start with
+  const rainGeometry = useMemo(() => {
+    const positions = new Float32Array(RAIN.DROPS * 6);
+    for (let i = 0; i < RAIN.DROPS; i++) {
+      const x = (Math.random() - 0.5) * RAIN.AREA;
+      const y = Math.random() * RAIN.HEIGHT;
+      const z = (Math.random() - 0.5) * RAIN.AREA;
+      positions.set([x, y + RAIN.STREAK, z, x, y, z], i * 6);
+    }
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+    geometry.setDrawRange(0, 0);
+    return geometry;
+  }, []);
+
+  // The scene's fog belongs to the weather - put it up once and adjust it every frame
+  useEffect(() => {
+    const fog = new THREE.Fog(FOG.LIGHT_COLOR.clone(), FOG.CLEAR_FAR * FOG.NEAR, FOG.CLEAR_FAR);
+    scene.fog = fog;
+    return () => {
+      if (scene.fog === fog) scene.fog = null;
+      gl.toneMappingExposure = 1;
+      rainGeometry.dispose();
+    };
+  }, [scene, gl, rainGeometry]);
+
+  useFrame((_, delta) => {
+    const { conditions } = useWeather.getState();
+    const { fog, rain, lightning, cloudCover } = conditions;
+
+    if (scene.fog instanceof THREE.Fog) {
+      scene.fog.far = FOG.CLEAR_FAR + (FOG.THICK_FAR - FOG.CLEAR_FAR) * fog;
+      scene.fog.near = scene.fog.far * FOG.NEAR;
+      scene.fog.color.copy(FOG.LIGHT_COLOR).lerp(FOG.DARK_COLOR, cloudCover);
+    }
+    gl.toneMappingExposure = 1 - DARKENING * cloudCover;
+
+    // Only as many drops fall as the rain is heavy
+    const drops = Math.round(RAIN.DROPS * rain);
+    rainGeometry.setDrawRange(0, drops * 2);
+    if (rainRef.current && drops > 0 && delta > 0) {
+      rainRef.current.position.set(camera.position.x, camera.position.y - RAIN.HEIGHT / 2, camera.position.z);
+
+      // Driven slantwise by the wind
+      const { direction, strength } = useWind.getState();
+      const driftX = Math.sin(direction) * strength * RAIN.SLANT * delta;
+      const driftZ = Math.cos(direction) * strength * RAIN.SLANT * delta;
+      const fall = RAIN.FALL_SPEED * delta;
+      const half = RAIN.AREA / 2;
+      const positions = rainGeometry.attributes.position.array as Float32Array;
+
+      // Each streak trails back up the way its drop came
+      const trailX = -driftX / fall * RAIN.STREAK;
+      const trailZ = -driftZ / fall * RAIN.STREAK;
+
+      for (let i = 0; i < drops; i++) {
+        const index = i * 6;
+        let x = positions[index + 3] + driftX;
+        let y = positions[index + 4] - fall;
+        let z = positions[index + 5] + driftZ;
+        if (y < 0) y += RAIN.HEIGHT;
+        if (x > half) x -= RAIN.AREA; else if (x < -half) x += RAIN.AREA;
+        if (z > half) z -= RAIN.AREA; else if (z < -half) z += RAIN.AREA;
+        positions.set([x + trailX, y + RAIN.STREAK, z + trailZ, x, y, z], index);
+      }
+      rainGeometry.attributes.position.needsUpdate = true;
+    }
+
+    // Lightning lights everything up for a moment, then fades
+    if (flashRef.current) {
+      const flash = Math.max(0, flashRef.current.intensity - LIGHTNING.DECAY * delta);
+      flashRef.current.intensity = Math.random() < lightning * LIGHTNING.RATE * delta ? LIGHTNING.INTENSITY : flash;
+    }
+  });
+
+  return (
+    <>
+      <lineSegments ref={rainRef} geometry={rainGeometry} frustumCulled={false}>
+        <lineBasicMaterial color="#aabbcc" transparent opacity={0.4} fog={false} />
+      </lineSegments>
+      <ambientLight ref={flashRef} intensity={0} color="#dde6ff" />
+    </>
+  );
+};
+
+export default Weather;
@@ -0,0 +1,124 @@
+import * as THREE from "three";
+import { EnvironmentFeature } from "../../components/Environment";
+import { EnvironmentGenerator } from "../services/EnvironmentGenerator";
+import { CollisionService } from "../services/CollisionService";
+import { SpatialGrid } from "../services/SpatialGrid";
+import { createRng } from "../helpers/random";
+import { getFeatureShapes } from "../featureRegistry";
+import { createCircle, getPenetration } from "../helpers/collisionShapes";
+
+/**
+ * Benchmark comparing the old linear feature scan with the spatial index
+ * The grid is built the same way CollisionHandler.setFeatures builds it; the handler itself
+ * isn't imported because its store dependencies need a browser
+ * Run with: npm run bench:collisions [chunkRadius] [projectiles] [frames]
+ */
+
+// Margin used by CollisionHandler - both sides must use it to compare results
+const COLLISION_MARGIN = 2;
+
+// Exact test of a body against a feature's footprint, as CollisionHandler.checkPointCollision does it
+function overlapsFeature(feature: EnvironmentFeature, point: THREE.Vector3, radius: number): boolean {
+  const circle = createCircle(point.x, point.z, radius + COLLISION_MARGIN);
+  return getFeatureShapes(feature).some(shape => getPenetration(circle, shape) !== null);
+}
+
+// The collision check without the spatial index - scan every feature
+function linearPointCollision(
+  features: EnvironmentFeature[],
+  point: THREE.Vector3,
+  radius: number
+): EnvironmentFeature | null {
+  return features.find(feature => overlapsFeature(feature, point, radius)) ?? null;
+}
+
+// Moving bodies - cannonballs fly straight, ships wander
+interface Body {
+  position: THREE.Vector3;
+  velocity: THREE.Vector3;
+  radius: number;
+}
+
+function createBodies(count: number, extent: number, speed: number, radius: number, random: () => number): Body[] {
+  return Array.from({ length: count }, () => {
+    const angle = random() * Math.PI * 2;
+    return {
+      position: new THREE.Vector3((random() * 2 - 1) * extent, 0, (random() * 2 - 1) * extent),
+      velocity: new THREE.Vector3(Math.cos(angle) * speed, 0, Math.sin(angle) * speed),
+      radius
+    };
+  });
+}
+
+function step(bodies: Body[], delta: number): void {
+  bodies.forEach(body => body.position.addScaledVector(body.velocity, delta));
+}
+
+function run(): void {
+  const [chunkRadius = 3, projectileCount = 60, frames = 600] = process.argv.slice(2).map(Number);
+  const chunkSize = 400;
+  const delta = 1 / 60;
+
+  // Generation is chatty - keep the report readable
+  const log = console.log;
+  console.log = () => {};
+  console.warn = () => {};
+
+  // Build a large world from deterministic chunks
+  const features: EnvironmentFeature[] = [];
+  for (let cx = -chunkRadius; cx < chunkRadius; cx++) {
+    for (let cz = -chunkRadius; cz < chunkRadius; cz++) {
+      features.push(...EnvironmentGenerator.generateChunk(cx, cz, chunkSize, createRng(cx * 7919 + cz * 104729)));
+    }
+  }
+  
+  const grid = new SpatialGrid<EnvironmentFeature>(50);
+  features.forEach(feature => {
+    const radius = CollisionService.getFeatureRadius(feature.type, feature.scale) + COLLISION_MARGIN;
+    grid.set(feature.id, feature, feature.x, feature.z, radius);
+  });
+
+  const extent = chunkRadius * chunkSize;
+  const random = createRng(1234);
+  const projectiles = createBodies(projectileCount, extent, 30, 2, random);
+  const ships = createBodies(Math.ceil(projectileCount / 4), extent, 8, 12, random);
+  const bodies = [...projectiles, ...ships];
+
+  // Same motion for both runs, so reset positions between them
+  const startPositions = bodies.map(body => body.position.clone());
+  const resetBodies = () => bodies.forEach((body, i) => body.position.copy(startPositions[i]));
+
+  const measure = (check: (body: Body) => EnvironmentFeature | null) => {
+    resetBodies();
+    let hits = 0;
+    const start = performance.now();
+    for (let frame = 0; frame < frames; frame++) {
+      step(bodies, delta);
+      for (const body of bodies) {
+        if (check(body)) hits++;
+      }
+    }
+    return { ms: performance.now() - start, hits };
+  };
+
+  const linear = measure(body => linearPointCollision(features, body.position, body.radius));
+  const indexed = measure(body => {
+    const hit = grid.queryRadius(body.position.x, body.position.z, body.radius)
+      .find(({ item }) => overlapsFeature(item, body.position, body.radius));
+    return hit ? hit.item : null;
+  });
+
+  console.log = log;
+  const queries = frames * bodies.length;
+  log(`[BENCH] ${features.length} features, ${projectiles.length} projectiles, ${ships.length} ships, ${frames} frames (${queries} queries)`);
+  log(`[BENCH] Linear scan:   ${linear.ms.toFixed(1)} ms (${linear.hits} hits)`);
+  log(`[BENCH] Spatial index: ${indexed.ms.toFixed(1)} ms (${indexed.hits} hits)`);
+  log(`[BENCH] Speedup: ${(linear.ms / indexed.ms).toFixed(1)}x`);
+
+  if (linear.hits !== indexed.hits) {
+    log('[BENCH] Hit counts differ - the spatial index disagrees with the linear scan');
+    process.exitCode = 1;
+  }
+}
+
+run();
@@ -1,50 +1,14 @@
 import * as THREE from "three";
 import { EnvironmentFeature, EnvironmentFeatureType } from "../components/Environment";
+import { SpatialGrid } from "./services/SpatialGrid";
+import { getFeatureRadius, getFeatureShapes } from "./featureRegistry";
+import { createCircle, getPenetration, segmentDistanceToShape } from "./helpers/collisionShapes";
 
 // Collision constants
 const COLLISION_MARGIN = 3; // Increased margin for more reliable collision detection
 
-// Get radius based on feature type and scale
-export function getFeatureRadius(type: EnvironmentFeatureType, scale: number): number {
-  // Base radius depends on feature type
-  let baseRadius = 0;
-  switch (type) {
-    case 'tropical':
-      baseRadius = 7.5; // Reduced by half for easier navigation
-      break;
-    case 'mountain':
-      baseRadius = 15; // Reduced by half for easier navigation
-      break;
-    case 'rocks':
-      baseRadius = 5; // Reduced by half for easier navigation
-      break;
-    case 'shipwreck':
-      baseRadius = 6; // Reduced by half for easier navigation
-      break;
-    case 'port':
-      baseRadius = 6; // Reduced by half for easier navigation
-      break;
-    case 'lighthouse':
-      baseRadius = 6; // Reduced by half for easier navigation
-      break;
-    // New island types with appropriate collision radii
-    case 'volcanic':
-      baseRadius = 10; // Larger collision for the dramatic volcanic island
-      break;
-    case 'atoll':
-      baseRadius = 8; // Wider but low profile atoll island
-      break;
-    case 'ice':
-      baseRadius = 7; // Standard ice island collision radius
-      break;
-    default:
-      baseRadius = 6; // Default collision radius
-  }
-  // Scale the radius based on the feature's scale
-  const scaledRadius = baseRadius * scale;
-  console.log(`[COLLISION RADIUS] ${type} with scale ${scale.toFixed(2)} has radius ${scaledRadius.toFixed(2)}`);
-  return scaledRadius;
-}
+// Feature radii come from the feature registry
+export { getFeatureRadius };
 
 // Check if a point collides with an environment feature
 export function checkPointFeatureCollision(
@@ -52,16 +16,10 @@ export function checkPointFeatureCollision(
   feature: EnvironmentFeature,
   collisionRadius: number = 0
 ): boolean {
-  // Calculate distance between point and feature (ignoring Y)
-  const dx = point.x - feature.x;
-  const dz = point.z - feature.z;
-  const distance = Math.sqrt(dx * dx + dz * dz);
-  
-  // Get feature radius
-  const featureRadius = getFeatureRadius(feature.type, feature.scale);
-  
-  // Check if point is inside feature radius (plus collision margin and any extra radius)
-  return distance < (featureRadius + COLLISION_MARGIN + collisionRadius);
+  // Test a circle around the point (ignoring Y) against the feature's footprint
+  // The circle covers the collision margin and any extra radius
+  const circle = createCircle(point.x, point.z, collisionRadius + COLLISION_MARGIN);
+  return getFeatureShapes(feature).some(shape => getPenetration(circle, shape) !== null);
 }
 
 // Check if a ship collides with any environment features
@@ -168,9 +126,18 @@ export function calculateSafePosition(
 export const environmentCollisions = {
   features: [] as EnvironmentFeature[],
   
-  // Set the environment features
+  // Spatial index of the features' bounding circles, with the collision margin included in each radius
+  grid: new SpatialGrid<EnvironmentFeature>(50),
+  
+  // Set the environment features and rebuild the spatial index
   setFeatures(features: EnvironmentFeature[]) {
     this.features = features;
+    
+    this.grid.clear();
+    features.forEach(feature => {
+      const radius = getFeatureRadius(feature.type, feature.scale) + COLLISION_MARGIN;
+      this.grid.set(feature.id, feature, feature.x, feature.z, radius);
+    });
   },
   
   // Get the environment features
@@ -185,12 +152,18 @@ export const environmentCollisions = {
   
   // Check if a point collides with any feature
   checkPointCollision(point: THREE.Vector3, radius: number = 0): EnvironmentFeature | null {
-    for (const feature of this.features) {
-      if (checkPointFeatureCollision(point, feature, radius)) {
-        return feature;
-      }
-    }
-    return null;
+    const hit = this.grid.queryRadius(point.x, point.z, radius)
+      .find(({ item }) => checkPointFeatureCollision(point, item, radius));
+    return hit ? hit.item : null;
+  },
+  
+  // Check if something moving from start to end hits a feature - returns the first one along the path
+  checkSegmentCollision(start: THREE.Vector3, end: THREE.Vector3, radius: number = 0): EnvironmentFeature | null {
+    const reach = radius + COLLISION_MARGIN;
+    const hit = this.grid.querySegment(start.x, start.z, end.x, end.z, radius).find(({ item }) =>
+      getFeatureShapes(item).some(shape => segmentDistanceToShape(start.x, start.z, end.x, end.z, shape) < reach)
+    );
+    return hit ? hit.item : null;
   },
   
   // Calculate a safe position when inside a feature
@@ -13,55 +13,7 @@ export const SCALE = {
   PLAYER_SHIP: 1.0, // Base reference (1.0 = standard size)
   // Enemy ship scaling removed
   
-  // Island scaling (as multiplier of base ship size) - increased to be notably larger than ships
-  ISLAND: {
-    TROPICAL: {
-      MIN: 5.0,   // Smaller tropical islands - much larger than ships
-      MAX: 8.0,   // Larger tropical islands
-      BASE: 6.0,  // Default size - substantially larger than before
-    },
-    MOUNTAIN: {
-      MIN: 6.0,   // Smaller mountain islands - larger than tropical
-      MAX: 10.0,  // Larger mountain islands
-      BASE: 8.0,  // Default size
-    },
-    ROCKS: {
-      MIN: 8.0,   // Smaller rock formations - largest environmental features
-      MAX: 12.0,  // Larger rock formations
-      BASE: 10.0, // Default size - significantly larger than before
-    },
-    SHIPWRECK: {
-      MIN: 3.0,   // Smaller shipwrecks
-      MAX: 5.0,   // Larger shipwrecks
-      BASE: 4.0,  // Default size
-    },
-    PORT: {
-      MIN: 4.0,   // Smaller ports
-      MAX: 6.0,   // Larger ports
-      BASE: 5.0,  // Default size
-    },
-    LIGHTHOUSE: {
-      MIN: 6.0,   // Smaller lighthouses
-      MAX: 8.0,   // Larger lighthouses
-      BASE: 7.0,  // Default size
-    },
-    // New island types
-    VOLCANIC: {
-      MIN: 7.0,   // Smaller volcanic islands
-      MAX: 11.0,  // Larger volcanic islands
-      BASE: 9.0,  // Default size - impressive volcanic mountains
-    },
-    ATOLL: {
-      MIN: 4.0,   // Smaller atoll islands
-      MAX: 7.0,   // Larger atoll islands
-      BASE: 5.5,  // Default size - wide but low profile
-    },
-    ICE: {
-      MIN: 5.0,   // Smaller ice islands
-      MAX: 9.0,   // Larger ice islands
-      BASE: 7.0,  // Default size - striking ice formations
-    }
-  },
+  // Island and environment feature scales, heights and model adjustments live in lib/featureRegistry.ts
   
   // Weapon scaling
   CANNON: 0.05,    // Cannon size (relative to BSU)
@@ -83,21 +35,6 @@ export const MODEL_ADJUSTMENT = {
   // Ships
   SHIP: 1.5,        // Standardized multiplier for all ship models
   
-  // Original island types
-  TROPICAL: 4.0,    // Multiplier for tropical island models
-  MOUNTAIN: 8.0,    // Multiplier for mountain island models
-  ROCKS: 3.0,       // Multiplier for rock formation models
-  
-  // Environment features
-  SHIPWRECK: 2.5,   // Multiplier for shipwreck models
-  PORT: 3.0,        // Multiplier for port models
-  LIGHTHOUSE: 4.0,  // Multiplier for lighthouse models
-  
-  // New island types
-  VOLCANIC: 5.0,    // Multiplier for volcanic island models - tall dramatic mountains with lava
-  ATOLL: 3.5,       // Multiplier for atoll island models - low ring-shaped sandy islands
-  ICE: 4.5,         // Multiplier for ice island models - beautiful crystalline formations
-  
   // Weapons
   CANNON: 20.0,     // Multiplier for cannon models
   CANNONBALL: 15.0  // Multiplier for cannonball models
@@ -112,29 +49,32 @@ export const STATIC = {
 // Position constants - all relative to STATIC.WATER_LEVEL
 export const POSITION = {
   WATER_LEVEL: STATIC.WATER_LEVEL, // Reference water level (always static)
-  SHIP_HEIGHT: STATIC.WATER_LEVEL + STATIC.SHIP_OFFSET, // Ship position = water level + offset
-  ISLAND: {
-    TROPICAL: STATIC.WATER_LEVEL + 5.0,  // Height adjustment for tropical islands
-    MOUNTAIN: STATIC.WATER_LEVEL + 8.0,  // Height adjustment for mountain islands
-    ROCKS: STATIC.WATER_LEVEL + 6.0,     // Height adjustment for rock formations
-    SHIPWRECK: STATIC.WATER_LEVEL + 0.5, // Height adjustment for shipwrecks (mostly submerged)
-    PORT: STATIC.WATER_LEVEL + 1.0,      // Height adjustment for ports (just above water)
-    LIGHTHOUSE: STATIC.WATER_LEVEL + 4.0, // Height adjustment for lighthouses (on elevated rocks)
-    VOLCANIC: STATIC.WATER_LEVEL + 7.0,  // Height adjustment for volcanic islands (tall with lava flows)
-    ATOLL: STATIC.WATER_LEVEL + 3.0,     // Height adjustment for atoll islands (low profile with sandy beaches)
-    ICE: STATIC.WATER_LEVEL + 5.5        // Height adjustment for ice islands (icy crystalline formations)
-  }
+  SHIP_HEIGHT: STATIC.WATER_LEVEL + STATIC.SHIP_OFFSET // Ship position = water level + offset
 };
 
 // Game world size constants
 export const WORLD = {
-  SIZE: 1000,     // World boundary size (square) - expanded for more exploration
-  ISLAND_COUNT: {
-    TROPICAL: 6,  // Number of tropical islands to generate
-    MOUNTAIN: 6,  // Number of mountain islands to generate
-    ROCKS: 12,    // Number of rock formations to generate
-    SHIPWRECK: 5, // Number of shipwrecks to generate
-    PORT: 4,      // Number of ports to generate
-    LIGHTHOUSE: 5 // Number of lighthouses to generate
+  // The world has no edge - it is streamed in square chunks around the player
+  CHUNK: {
+    SIZE: 400,         // Width of one chunk (square) in world units
+    LOAD_RADIUS: 1,    // Chunks within this many chunks of the player are loaded
+    UNLOAD_RADIUS: 2,  // Chunks further than this are unloaded (gap avoids thrashing at borders)
+    HOME_RADIUS: 400,  // Chunks inside this square around the origin use the hand-designed home waters
   }
-};
\ No newline at end of file
+};
+
+// Ship hull collision boxes - aligned with the ship's length (its local Z axis)
+// Player ship is approximately 30 BSU long (see header)
+export const HULL = {
+  PLAYER: { HALF_LENGTH: 15, HALF_WIDTH: 5, HEIGHT: 8 },
+  ENEMY: { HALF_LENGTH: 15, HALF_WIDTH: 5, HEIGHT: 8 }
+};
+
+// Gun elevation in radians above the horizon, shared by single player and the multiplayer server
+// Raising the guns sends shots further on a higher arc, up to where drag eats the gain
+export const GUN_ELEVATION = {
+  MIN: 0.02,
+  MAX: 0.6,
+  DEFAULT: Math.atan(0.15), // The fixed aim every broadside used to have
+  RATE: 0.3                 // Radians per second while raising or lowering
+};
@@ -0,0 +1,272 @@
+/**
+ * Environment Feature Registry
+ * ----------------------------
+ * Single source of truth for every environment feature type (islands, rocks, ports...)
+ * Rendering, collision and world generation all read from here, so adding a new
+ * island type means adding one entry below (plus its model file)
+ */
+
+import { CollisionShape, Point2, createCircle, rotateOffset } from "./helpers/collisionShapes";
+
+// Collision footprint of a feature on the XZ plane, in local units before the feature's scale and rotation
+// - circle:  a single circle around the feature center
+// - circles: several circles, for long or hollow shapes (e.g. a crescent atoll)
+// - polygon: a convex outline
+// - model:   a convex hull derived from the GLB when it loads, with a circle until then
+export type FeatureCollisionShape =
+  | { type: 'circle'; radius: number }
+  | { type: 'circles'; circles: { x: number; z: number; radius: number }[] }
+  | { type: 'polygon'; points: [number, number][] }
+  | { type: 'model'; radius: number };
+
+export interface FeatureDefinition {
+  modelPath: string;
+
+  // Scale range of the model relative to the player ship (BASE is what the game renders)
+  scale: { MIN: number; MAX: number; BASE: number };
+
+  // Multiplier correcting for the model file's own units
+  modelAdjustment: number;
+
+  // Height of the feature above the water level
+  heightOffset: number;
+
+  collision: FeatureCollisionShape;
+
+  // A lamp that sweeps its beams across the water after dark, this high above it
+  beacon?: { height: number };
+
+  spawn: {
+    archipelago: boolean; // Whether this type forms archipelago clusters
+    scale: number;        // Feature scale when placed on its own
+    home: { count: number; minDistance: number; maxDistance: number }; // Standalone copies in the home waters
+    perChunk: { min: number; max: number }; // Standalone copies in each open-ocean chunk
+  };
+}
+
+// Spawn settings for types that only appear as part of a larger formation
+const NO_STANDALONE = {
+  home: { count: 0, minDistance: 0, maxDistance: 0 },
+  perChunk: { min: 0, max: 0 }
+};
+
+export const FEATURE_REGISTRY = {
+  tropical: {
+    modelPath: '/models/tropical_island.glb',
+    scale: { MIN: 5.0, MAX: 8.0, BASE: 6.0 },
+    modelAdjustment: 4.0,
+    heightOffset: 5.0,
+    collision: { type: 'circle', radius: 7.5 },
+    spawn: { archipelago: true, scale: 1.5, ...NO_STANDALONE }
+  },
+  mountain: {
+    modelPath: '/models/mountain_island.glb',
+    scale: { MIN: 6.0, MAX: 10.0, BASE: 8.0 },
+    modelAdjustment: 8.0,
+    heightOffset: 8.0,
+    collision: { type: 'circle', radius: 15 },
+    // Large landmark features
+    spawn: {
+      archipelago: false,
+      scale: 1.8,
+      home: { count: 5, minDistance: 80, maxDistance: 350 },
+      perChunk: { min: 0, max: 1 }
+    }
+  },
+  rocks: {
+    modelPath: '/models/rock_formation.glb',
+    scale: { MIN: 8.0, MAX: 12.0, BASE: 10.0 },
+    modelAdjustment: 3.0,
+    heightOffset: 6.0,
+    collision: { type: 'circle', radius: 5 },
+    // Scattered throughout for navigation reference
+    spawn: {
+      archipelago: false,
+      scale: 1.9,
+      home: { count: 15, minDistance: 30, maxDistance: 380 },
+      perChunk: { min: 3, max: 6 }
+    }
+  },
+  shipwreck: {
+    modelPath: '/models/shipwreck.glb',
+    scale: { MIN: 3.0, MAX: 5.0, BASE: 4.0 },
+    modelAdjustment: 2.5,
+    heightOffset: 0.5, // Mostly submerged
+    // Long, narrow hull lying on its side
+    collision: { type: 'polygon', points: [[-3, -7], [3, -7], [3, 7], [-3, 7]] },
+    // Dangerous areas with potential rewards
+    spawn: {
+      archipelago: false,
+      scale: 1.5,
+      home: { count: 4, minDistance: 100, maxDistance: 300 },
+      perChunk: { min: 0, max: 1 }
+    }
+  },
+  port: {
+    modelPath: '/models/port.glb',
+    scale: { MIN: 4.0, MAX: 6.0, BASE: 5.0 },
+    modelAdjustment: 3.0,
+    heightOffset: 1.0,
+    // Rectangular pier
+    collision: { type: 'polygon', points: [[-8, -4], [8, -4], [8, 4], [-8, 4]] },
+    // Ports only appear at the ends of shipping routes
+    spawn: { archipelago: false, scale: 1.6, ...NO_STANDALONE }
+  },
+  lighthouse: {
+    modelPath: '/models/lighthouse.glb',
+    scale: { MIN: 6.0, MAX: 8.0, BASE: 7.0 },
+    modelAdjustment: 4.0,
+    heightOffset: 4.0, // On elevated rocks
+    collision: { type: 'circle', radius: 6 },
+    beacon: { height: 30 },
+    // Navigation aids
+    spawn: {
+      archipelago: false,
+      scale: 2.0,
+      home: { count: 3, minDistance: 200, maxDistance: 350 },
+      perChunk: { min: 0, max: 1 }
+    }
+  },
+  volcanic: {
+    modelPath: '/models/volcanic_island.glb',
+    scale: { MIN: 7.0, MAX: 11.0, BASE: 9.0 },
+    modelAdjustment: 5.0,
+    heightOffset: 7.0, // Tall with lava flows
+    collision: { type: 'circle', radius: 10 },
+    spawn: { archipelago: true, scale: 1.5, ...NO_STANDALONE }
+  },
+  atoll: {
+    modelPath: '/models/atoll_island.glb',
+    scale: { MIN: 4.0, MAX: 7.0, BASE: 5.5 },
+    modelAdjustment: 3.5,
+    heightOffset: 3.0, // Low profile with sandy beaches
+    // Crescent of reef around an open lagoon
+    collision: {
+      type: 'circles',
+      circles: [
+        { x: 0, z: -6, radius: 3 },
+        { x: 4.2, z: -4.2, radius: 3 },
+        { x: 6, z: 0, radius: 3 },
+        { x: 4.2, z: 4.2, radius: 3 },
+        { x: 0, z: 6, radius: 3 },
+        { x: -4.2, z: 4.2, radius: 3 }
+      ]
+    },
+    spawn: { archipelago: true, scale: 1.5, ...NO_STANDALONE }
+  },
+  ice: {
+    modelPath: '/models/ice_island.glb',
+    scale: { MIN: 5.0, MAX: 9.0, BASE: 7.0 },
+    modelAdjustment: 4.5,
+    heightOffset: 5.5, // Icy crystalline formations
+    // Jagged outline - measured from the model once it loads
+    collision: { type: 'model', radius: 7 },
+    spawn: { archipelago: true, scale: 1.5, ...NO_STANDALONE }
+  }
+} satisfies Record<string, FeatureDefinition>;
+
+// Every feature type is a key of the registry
+export type EnvironmentFeatureType = keyof typeof FEATURE_REGISTRY;
+
+// All registered feature types, in registry order
+export const FEATURE_TYPES = Object.keys(FEATURE_REGISTRY) as EnvironmentFeatureType[];
+
+// Get the definition for a feature type - falls back to rocks for unknown types (e.g. from old saves)
+export function getFeatureDefinition(type: EnvironmentFeatureType): FeatureDefinition {
+  const definition: FeatureDefinition | undefined = FEATURE_REGISTRY[type];
+  if (!definition) {
+    console.warn(`[ENV] Unknown feature type: ${type}, defaulting to rocks`);
+    return FEATURE_REGISTRY.rocks;
+  }
+  return definition;
+}
+
+// Footprints derived from model geometry, per unit of feature scale (filled in as models load)
+const derivedFootprints = new Map<EnvironmentFeatureType, Point2[]>();
+
+// Store the footprint derived from a feature type's model
+export function setDerivedFootprint(type: EnvironmentFeatureType, points: Point2[]): void {
+  derivedFootprints.set(type, points);
+  footprintCache = new WeakMap();
+}
+
+// Check if a feature type wants its footprint derived from its model and doesn't have it yet
+export function needsDerivedFootprint(type: EnvironmentFeatureType): boolean {
+  return getFeatureDefinition(type).collision.type === 'model' && !derivedFootprints.has(type);
+}
+
+// Local footprint of a type as shapes around the origin, at a feature scale of 1
+// Pass useDerived = false to ignore model-derived footprints (world generation must not depend on load order)
+function getLocalShapes(type: EnvironmentFeatureType, useDerived: boolean = true): CollisionShape[] {
+  const collision = getFeatureDefinition(type).collision;
+  switch (collision.type) {
+    case 'circle':
+      return [createCircle(0, 0, collision.radius)];
+    case 'circles':
+      return collision.circles.map(circle => createCircle(circle.x, circle.z, circle.radius));
+    case 'polygon':
+      return [{ kind: 'polygon', points: collision.points.map(([x, z]) => ({ x, z })) }];
+    case 'model': {
+      const points = useDerived ? derivedFootprints.get(type) : undefined;
+      return points ? [{ kind: 'polygon', points }] : [createCircle(0, 0, collision.radius)];
+    }
+  }
+}
+
+// World-space shapes are cached per feature object - features never move once generated
+let footprintCache = new WeakMap<object, CollisionShape[]>();
+
+// Get a feature's collision footprint in world space (scaled, rotated and positioned)
+export function getFeatureShapes(feature: {
+  type: EnvironmentFeatureType;
+  x: number;
+  z: number;
+  scale: number;
+  rotation: [number, number, number];
+}): CollisionShape[] {
+  const cached = footprintCache.get(feature);
+  if (cached) return cached;
+
+  const rotationY = feature.rotation[1];
+  const place = (x: number, z: number) => {
+    const offset = rotateOffset(x * feature.scale, z * feature.scale, rotationY);
+    return { x: feature.x + offset.x, z: feature.z + offset.z };
+  };
+
+  const shapes = getLocalShapes(feature.type).map((shape): CollisionShape => {
+    if (shape.kind === 'circle') {
+      const center = place(shape.x, shape.z);
+      return createCircle(center.x, center.z, shape.radius * feature.scale);
+    }
+    return { kind: 'polygon', points: shape.points.map(p => place(p.x, p.z)) };
+  });
+
+  footprintCache.set(feature, shapes);
+  return shapes;
+}
+
+// Get the bounding radius of a feature's footprint at the given feature scale
+// Used as the broad-phase radius in spatial indexes
+export function getFeatureRadius(type: EnvironmentFeatureType, scale: number): number {
+  return getBoundingRadius(getLocalShapes(type)) * scale;
+}
+
+// Get the radius used to space features apart during world generation
+// Only uses the declared footprint, so the same seed always produces the same world
+export function getFeatureSpacingRadius(type: EnvironmentFeatureType, scale: number): number {
+  return getBoundingRadius(getLocalShapes(type, false)) * scale;
+}
+
+// Radius of the smallest origin-centered circle containing every shape
+function getBoundingRadius(shapes: CollisionShape[]): number {
+  return Math.max(...shapes.map(shape =>
+    shape.kind === 'circle'
+      ? Math.hypot(shape.x, shape.z) + shape.radius
+      : Math.max(...shape.points.map(p => Math.hypot(p.x, p.z)))
+  ));
+}
+
+// Feature types that form archipelago clusters
+export function getArchipelagoTypes(): EnvironmentFeatureType[] {
+  return FEATURE_TYPES.filter(type => FEATURE_REGISTRY[type].spawn.archipelago);
+}
@@ -0,0 +1,304 @@
+import * as THREE from "three";
+
+// All collision shapes live on the XZ plane - height is handled separately where it matters
+
+// A point on the XZ plane
+export interface Point2 {
+  x: number;
+  z: number;
+}
+
+// Collision shapes in world space - polygons must be convex (either winding works)
+export type CollisionShape =
+  | { kind: 'circle'; x: number; z: number; radius: number }
+  | { kind: 'polygon'; points: Point2[] };
+
+// Size of a ship hull - a box aligned with the ship's length (its local Z axis)
+export interface HullDimensions {
+  HALF_LENGTH: number;
+  HALF_WIDTH: number;
+  HEIGHT: number; // Deck height above the water - cannonballs above it fly over
+}
+
+// Push needed to move one shape out of another: move along (x, z) by depth
+export interface Penetration {
+  x: number;
+  z: number;
+  depth: number;
+}
+
+// Rotate a local offset by a Y rotation, matching three.js (local +Z maps to (sin, cos))
+export function rotateOffset(x: number, z: number, rotationY: number): Point2 {
+  const cos = Math.cos(rotationY);
+  const sin = Math.sin(rotationY);
+  return { x: x * cos + z * sin, z: -x * sin + z * cos };
+}
+
+// Create a circle shape
+export function createCircle(x: number, z: number, radius: number): CollisionShape {
+  return { kind: 'circle', x, z, radius };
+}
+
+// Create an oriented box as a polygon, grown by margin on every side
+export function createOrientedBox(
+  x: number,
+  z: number,
+  rotationY: number,
+  halfLength: number,
+  halfWidth: number,
+  margin: number = 0
+): CollisionShape {
+  const l = halfLength + margin;
+  const w = halfWidth + margin;
+  const corners: [number, number][] = [[-w, -l], [w, -l], [w, l], [-w, l]];
+  return {
+    kind: 'polygon',
+    points: corners.map(([cx, cz]) => {
+      const offset = rotateOffset(cx, cz, rotationY);
+      return { x: x + offset.x, z: z + offset.z };
+    })
+  };
+}
+
+// Create the hull box of a ship at a position and heading
+export function createHullShape(
+  position: { x: number; z: number },
+  rotationY: number,
+  hull: HullDimensions,
+  margin: number = 0
+): CollisionShape {
+  return createOrientedBox(position.x, position.z, rotationY, hull.HALF_LENGTH, hull.HALF_WIDTH, margin);
+}
+
+// Bounding circle radius of a hull around its center
+export function getHullRadius(hull: HullDimensions): number {
+  return Math.hypot(hull.HALF_LENGTH, hull.HALF_WIDTH);
+}
+
+// Center of a shape (vertex average for polygons)
+export function getShapeCenter(shape: CollisionShape): Point2 {
+  if (shape.kind === 'circle') return { x: shape.x, z: shape.z };
+
+  const sum = shape.points.reduce((acc, p) => ({ x: acc.x + p.x, z: acc.z + p.z }), { x: 0, z: 0 });
+  return { x: sum.x / shape.points.length, z: sum.z / shape.points.length };
+}
+
+// Smallest circle around the shape's center that contains the whole shape
+export function getShapeBounds(shape: CollisionShape): { x: number; z: number; radius: number } {
+  if (shape.kind === 'circle') return { x: shape.x, z: shape.z, radius: shape.radius };
+
+  const center = getShapeCenter(shape);
+  const radius = Math.max(...shape.points.map(p => Math.hypot(p.x - center.x, p.z - center.z)));
+  return { ...center, radius };
+}
+
+// Project a shape onto an axis (axis must be normalized)
+function project(shape: CollisionShape, axisX: number, axisZ: number): [number, number] {
+  if (shape.kind === 'circle') {
+    const center = shape.x * axisX + shape.z * axisZ;
+    return [center - shape.radius, center + shape.radius];
+  }
+
+  let min = Infinity;
+  let max = -Infinity;
+  for (const p of shape.points) {
+    const d = p.x * axisX + p.z * axisZ;
+    if (d < min) min = d;
+    if (d > max) max = d;
+  }
+  return [min, max];
+}
+
+// Separating axes to test for a pair of shapes
+function getAxes(a: CollisionShape, b: CollisionShape): Point2[] {
+  const axes: Point2[] = [];
+
+  // Edge normals of every polygon
+  [a, b].forEach(shape => {
+    if (shape.kind !== 'polygon') return;
+    shape.points.forEach((p, i) => {
+      const next = shape.points[(i + 1) % shape.points.length];
+      const length = Math.hypot(next.x - p.x, next.z - p.z);
+      if (length > 0) axes.push({ x: -(next.z - p.z) / length, z: (next.x - p.x) / length });
+    });
+  });
+
+  // For a circle against a polygon, the axis from the circle to the polygon's nearest vertex
+  const pairs: [CollisionShape, CollisionShape][] = [[a, b], [b, a]];
+  pairs.forEach(([circle, polygon]) => {
+    if (circle.kind !== 'circle' || polygon.kind !== 'polygon') return;
+    let nearest = polygon.points[0];
+    let nearestDistance = Infinity;
+    for (const p of polygon.points) {
+      const d = Math.hypot(p.x - circle.x, p.z - circle.z);
+      if (d < nearestDistance) {
+        nearest = p;
+        nearestDistance = d;
+      }
+    }
+    if (nearestDistance > 0) {
+      axes.push({ x: (nearest.x - circle.x) / nearestDistance, z: (nearest.z - circle.z) / nearestDistance });
+    }
+  });
+
+  return axes;
+}
+
+/**
+ * Finds the smallest push that moves shape a out of shape b (separating axis test)
+ * Returns null if the shapes don't overlap
+ */
+export function getPenetration(a: CollisionShape, b: CollisionShape): Penetration | null {
+  // Two circles only need their center distance
+  if (a.kind === 'circle' && b.kind === 'circle') {
+    const dx = a.x - b.x;
+    const dz = a.z - b.z;
+    const distance = Math.hypot(dx, dz);
+    const depth = a.radius + b.radius - distance;
+    if (depth <= 0) return null;
+    return distance > 0 ? { x: dx / distance, z: dz / distance, depth } : { x: 1, z: 0, depth };
+  }
+
+  let best: Penetration | null = null;
+  for (const axis of getAxes(a, b)) {
+    const [minA, maxA] = project(a, axis.x, axis.z);
+    const [minB, maxB] = project(b, axis.x, axis.z);
+    const overlap = Math.min(maxA - minB, maxB - minA);
+
+    // Found a gap - the shapes are separate
+    if (overlap <= 0) return null;
+
+    if (!best || overlap < best.depth) {
+      best = { x: axis.x, z: axis.z, depth: overlap };
+    }
+  }
+  if (!best) return null;
+
+  // Make the push point away from b
+  const centerA = getShapeCenter(a);
+  const centerB = getShapeCenter(b);
+  if ((centerA.x - centerB.x) * best.x + (centerA.z - centerB.z) * best.z < 0) {
+    best.x = -best.x;
+    best.z = -best.z;
+  }
+  return best;
+}
+
+// Check if two shapes overlap
+export function shapesOverlap(a: CollisionShape, b: CollisionShape): boolean {
+  return getPenetration(a, b) !== null;
+}
+
+// Check if a point is inside a convex polygon
+function pointInPolygon(x: number, z: number, points: Point2[]): boolean {
+  let sign = 0;
+  for (let i = 0; i < points.length; i++) {
+    const p = points[i];
+    const next = points[(i + 1) % points.length];
+    const cross = (next.x - p.x) * (z - p.z) - (next.z - p.z) * (x - p.x);
+    if (cross !== 0) {
+      if (sign === 0) sign = Math.sign(cross);
+      else if (Math.sign(cross) !== sign) return false;
+    }
+  }
+  return true;
+}
+
+// Distance from a point to a segment
+function pointSegmentDistance(px: number, pz: number, x1: number, z1: number, x2: number, z2: number): number {
+  const dx = x2 - x1;
+  const dz = z2 - z1;
+  const lengthSquared = dx * dx + dz * dz;
+  const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, ((px - x1) * dx + (pz - z1) * dz) / lengthSquared));
+  return Math.hypot(x1 + dx * t - px, z1 + dz * t - pz);
+}
+
+// Check if two segments cross
+function segmentsIntersect(a1: Point2, a2: Point2, b1: Point2, b2: Point2): boolean {
+  const cross = (o: Point2, p: Point2, q: Point2) => (p.x - o.x) * (q.z - o.z) - (p.z - o.z) * (q.x - o.x);
+  const d1 = cross(b1, b2, a1);
+  const d2 = cross(b1, b2, a2);
+  const d3 = cross(a1, a2, b1);
+  const d4 = cross(a1, a2, b2);
+  return ((d1 > 0 && d2 < 0) || (d1 < 0 && d2 > 0)) && ((d3 > 0 && d4 < 0) || (d3 < 0 && d4 > 0));
+}
+
+/**
+ * Distance from a segment to a shape's outline - 0 if the segment touches or enters the shape
+ * Used for swept checks of fast objects like cannonballs
+ */
+export function segmentDistanceToShape(x1: number, z1: number, x2: number, z2: number, shape: CollisionShape): number {
+  if (shape.kind === 'circle') {
+    return Math.max(0, pointSegmentDistance(shape.x, shape.z, x1, z1, x2, z2) - shape.radius);
+  }
+
+  const { points } = shape;
+  if (pointInPolygon(x1, z1, points) || pointInPolygon(x2, z2, points)) return 0;
+
+  const start = { x: x1, z: z1 };
+  const end = { x: x2, z: z2 };
+  let distance = Infinity;
+  for (let i = 0; i < points.length; i++) {
+    const p = points[i];
+    const next = points[(i + 1) % points.length];
+    if (segmentsIntersect(start, end, p, next)) return 0;
+
+    distance = Math.min(
+      distance,
+      pointSegmentDistance(p.x, p.z, x1, z1, x2, z2),
+      pointSegmentDistance(next.x, next.z, x1, z1, x2, z2),
+      pointSegmentDistance(x1, z1, p.x, p.z, next.x, next.z),
+      pointSegmentDistance(x2, z2, p.x, p.z, next.x, next.z)
+    );
+  }
+  return distance;
+}
+
+// Convex hull of a set of points (monotone chain), counter-clockwise
+export function computeConvexHull(points: Point2[]): Point2[] {
+  const sorted = [...points].sort((a, b) => a.x - b.x || a.z - b.z);
+  if (sorted.length < 3) return sorted;
+
+  const cross = (o: Point2, a: Point2, b: Point2) => (a.x - o.x) * (b.z - o.z) - (a.z - o.z) * (b.x - o.x);
+  const lower: Point2[] = [];
+  for (const p of sorted) {
+    while (lower.length >= 2 && cross(lower[lower.length - 2], lower[lower.length - 1], p) <= 0) lower.pop();
+    lower.push(p);
+  }
+  const upper: Point2[] = [];
+  for (let i = sorted.length - 1; i >= 0; i--) {
+    const p = sorted[i];
+    while (upper.length >= 2 && cross(upper[upper.length - 2], upper[upper.length - 1], p) <= 0) upper.pop();
+    upper.push(p);
+  }
+
+  lower.pop();
+  upper.pop();
+  return lower.concat(upper);
+}
+
+/**
+ * Derives a convex footprint from a loaded model by projecting its vertices onto the XZ plane
+ * The result is in the model's own units multiplied by scale, centered on the model origin
+ */
+export function computeModelFootprint(model: THREE.Object3D, scale: number = 1): Point2[] {
+  const points: Point2[] = [];
+  const vertex = new THREE.Vector3();
+
+  // Measure in the model's local space, wherever it currently sits in the scene
+  model.updateMatrixWorld(true);
+  const toModelSpace = model.matrixWorld.clone().invert();
+
+  model.traverse(child => {
+    if (!(child instanceof THREE.Mesh)) return;
+
+    const position = child.geometry.attributes.position;
+    if (!position) return;
+    for (let i = 0; i < position.count; i++) {
+      vertex.fromBufferAttribute(position, i).applyMatrix4(child.matrixWorld).applyMatrix4(toModelSpace);
+      points.push({ x: vertex.x * scale, z: vertex.z * scale });
+    }
+  });
+
+  return computeConvexHull(points);
+}
@@ -1,8 +1,8 @@
 import * as THREE from "three";
-import { useKeyboardControls } from "@react-three/drei";
-import { Controls } from "../../App";
+import { getSailTurnFactor, getWindDrive, WindVector } from "../simulation/wind";
 
 // Calculate ship movement based on input
+// Given the wind, sailing ahead is driven by it and by the canvas set, as in single player
 export function calculateShipMovement(
   forward: boolean,
   backward: boolean,
@@ -11,15 +11,18 @@ export function calculateShipMovement(
   currentRotation: THREE.Euler,
   currentVelocity: THREE.Vector3,
   speedMultiplier: number = 1,
-  delta: number
+  delta: number,
+  wind: WindVector | null = null,
+  sails: number = 1
 ): {
   rotation: THREE.Euler;
   velocity: THREE.Vector3;
 } {
   // Calculate rotation change
+  const turnRate = wind ? getSailTurnFactor(sails) : 1;
   let rotationDelta = 0;
-  if (leftward) rotationDelta += 1 * delta;
-  if (rightward) rotationDelta -= 1 * delta;
+  if (leftward) rotationDelta += turnRate * delta;
+  if (rightward) rotationDelta -= turnRate * delta;
   
   // Update rotation
   const newRotation = new THREE.Euler(
@@ -37,7 +40,8 @@ export function calculateShipMovement(
   
   // Calculate acceleration from inputs
   const acceleration = new THREE.Vector3(0, 0, 0);
-  const forwardForce = 5 * speedMultiplier;
+  const windDrive = wind ? getWindDrive(newRotation.y, wind) * sails : 1;
+  const forwardForce = 5 * speedMultiplier * windDrive;
   const backwardForce = 2 * speedMultiplier;
   
   if (forward) acceleration.add(direction.clone().multiplyScalar(forwardForce * delta));
@@ -54,5 +58,3 @@ export function calculateShipMovement(
     velocity: newVelocity,
   };
 }
-
-// Boarding functions removed
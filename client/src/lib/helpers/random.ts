@@ -0,0 +1,68 @@
+// Seeded pseudo-random number generation
+// All gameplay randomness goes through a RandomFn so that the same world
+// seed always produces the same map, spawns and drops
+
+// Same contract as Math.random: returns a float in [0, 1)
+export type RandomFn = () => number;
+
+// Mulberry32 - small, fast and good enough for gameplay
+export function createRng(seed: number): RandomFn {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// FNV-1a hash - turns any string (e.g. a shared seed phrase) into a 32-bit seed
+export function hashSeed(value: string): number {
+  let hash = 0x811C9DC5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// Parse a seed typed by a player or passed in the URL
+// Plain integers are used as-is, anything else is hashed
+export function parseSeed(value: string | null | undefined): number | null {
+  if (value === null || value === undefined) return null;
+  
+  const trimmed = value.trim();
+  if (trimmed === '') return null;
+  
+  if (/^\d+$/.test(trimmed)) {
+    return Number(trimmed) >>> 0;
+  }
+  return hashSeed(trimmed);
+}
+
+// A fresh seed for a new voyage
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 4294967296) >>> 0;
+}
+
+// Random float in [min, max)
+export function randomRange(random: RandomFn, min: number, max: number): number {
+  return min + random() * (max - min);
+}
+
+// Random element of an array
+export function randomPick<T>(random: RandomFn, items: readonly T[]): T {
+  return items[Math.floor(random() * items.length)];
+}
+
+// Random element of an array, each chosen in proportion to its weight
+export function randomWeighted<T extends { weight: number }>(random: RandomFn, items: readonly T[]): T {
+  const total = items.reduce((sum, item) => sum + item.weight, 0);
+  let roll = random() * total;
+  for (const item of items) {
+    roll -= item.weight;
+    if (roll < 0) return item;
+  }
+  return items[items.length - 1];
+}
@@ -3,6 +3,10 @@ import { EnvironmentFeature } from "../../components/Environment";
 import { collisionHandler } from "./CollisionHandler";
 import { useEnemies } from "../stores/useEnemies";
 import { usePlayer } from "../stores/usePlayer";
+import { HULL } from "../constants";
+import { HullDimensions } from "../helpers/collisionShapes";
+import { CollisionService } from "./CollisionService";
+import { getArchetype } from "../simulation/enemyArchetypes";
 
 /**
  * Manages cannonball physics, collisions, and effects
@@ -20,17 +24,23 @@ export class CannonballService {
   }
   
   /**
-   * Checks if a cannonball hits a specific ship
+   * Checks if a cannonball hits a specific ship's hull
    * @returns true if hit
    */
   static checkShipCollision(
     cannonballPosition: THREE.Vector3,
     shipPosition: THREE.Vector3,
-    cannonballRadius: number = 1,
-    shipRadius: number = 5
+    shipRotationY: number,
+    hull: HullDimensions,
+    cannonballRadius: number = 1
   ): boolean {
-    const distance = cannonballPosition.distanceTo(shipPosition);
-    return distance < (cannonballRadius + shipRadius);
+    return CollisionService.checkCannonballShipCollision(
+      cannonballPosition,
+      shipPosition,
+      shipRotationY,
+      hull,
+      cannonballRadius
+    );
   }
   
   /**
@@ -49,6 +59,8 @@ export class CannonballService {
       if (this.checkShipCollision(
         cannonballPosition,
         enemy.position,
+        enemy.rotation.y,
+        getArchetype(enemy.archetype).hull,
         cannonballRadius
       )) {
         console.log(`[CANNON] Hit enemy ship ${enemy.id}`);
@@ -69,14 +81,15 @@ export class CannonballService {
     cannonballRadius: number = 1,
     damageAmount: number = 10
   ): boolean {
-    const playerPosition = usePlayer.getState().position;
-    const takeDamage = usePlayer.getState().takeDamage;
+    const { position: playerPosition, rotation: playerRotation, takeDamage } = usePlayer.getState();
     
     if (!playerPosition) return false;
     
     if (this.checkShipCollision(
       cannonballPosition,
       playerPosition,
+      playerRotation.y,
+      HULL.PLAYER,
       cannonballRadius
     )) {
       console.log(`[CANNON] Player ship hit!`);
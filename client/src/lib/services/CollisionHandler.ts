@@ -1,24 +1,63 @@
 import * as THREE from "three";
-import { EnvironmentFeature, EnvironmentFeatureType } from "../../components/Environment";
-import { CollisionService } from "./CollisionService";
-import { useShipEvents } from "../stores/useShipEvents";
+import type { EnvironmentFeature, EnvironmentFeatureType } from "../../components/Environment";
+import { SpatialEntry, SpatialGrid } from "./SpatialGrid";
+import { getFeatureRadius, getFeatureShapes } from "../featureRegistry";
+import {
+  CollisionShape,
+  HullDimensions,
+  createCircle,
+  createHullShape,
+  getHullRadius,
+  getPenetration,
+  segmentDistanceToShape
+} from "../helpers/collisionShapes";
+
+// A ship tracked for collision queries (the player is registered as 'player')
+export interface TrackedShip {
+  id: string;
+  position: THREE.Vector3;
+  rotationY: number;
+  hull: HullDimensions;
+}
+
+// A collectable power-up tracked for collision queries
+export interface TrackedPowerUp {
+  id: string;
+  position: THREE.Vector3;
+}
 
 /**
- * Singleton service for handling collisions within the game
- * Maintains a global collection of environment features for collision detection
+ * Service for handling collisions within the game
+ * Maintains spatial indexes of environment features, ships and power-ups so
+ * queries only look at nearby objects instead of scanning everything
+ * The app shares the singleton below - a headless GameSimulation can create its own
  */
-class CollisionHandler {
+export class CollisionHandler {
   // The collection of environment features in the game
   private features: EnvironmentFeature[] = [];
   
   // Constants for collision detection
   private readonly COLLISION_MARGIN = 2;
   
+  // Spatial indexes - features are rebuilt on setFeatures, ships and power-ups are updated as they move
+  private featureGrid = new SpatialGrid<EnvironmentFeature>(50);
+  private shipGrid = new SpatialGrid<TrackedShip>(50);
+  private powerUpGrid = new SpatialGrid<TrackedPowerUp>(25);
+  
   /**
-   * Sets the environment features to check against
+   * Sets the environment features to check against and rebuilds their spatial index
+   * The index stores each footprint's bounding circle (plus the collision margin) as a
+   * broad phase - exact checks then run against the feature's shapes
    */
   setFeatures(features: EnvironmentFeature[]): void {
     this.features = features;
+    
+    this.featureGrid.clear();
+    features.forEach(feature => {
+      const radius = this.getFeatureRadius(feature.type, feature.scale) + this.COLLISION_MARGIN;
+      this.featureGrid.set(feature.id, feature, feature.x, feature.z, radius);
+    });
+    
     console.log(`[COLLISION] Set ${features.length} environment features for collision detection`);
   }
   
@@ -33,33 +72,148 @@ class CollisionHandler {
    * Gets the radius of a feature based on its type and scale
    */
   getFeatureRadius(type: EnvironmentFeatureType, scale: number): number {
-    return CollisionService.getFeatureRadius(type, scale);
+    return getFeatureRadius(type, scale);
   }
   
   /**
-   * Checks if a point collides with any environment feature
+   * Checks if a point (or a circle of the given radius around it) collides with any environment feature
    */
   checkPointCollision(point: THREE.Vector3, radius: number = 0): EnvironmentFeature | null {
-    for (const feature of this.features) {
-      // Calculate distance between point and feature (ignoring Y)
-      const dx = point.x - feature.x;
-      const dz = point.z - feature.z;
-      const distance = Math.sqrt(dx * dx + dz * dz);
-      
-      // Get feature radius
-      const featureRadius = this.getFeatureRadius(feature.type, feature.scale);
-      
-      // Check if point is inside feature radius (plus collision margin and any extra radius)
-      if (distance < (featureRadius + this.COLLISION_MARGIN + radius)) {
+    return this.checkShapeCollision(createCircle(point.x, point.z, radius + this.COLLISION_MARGIN), point, radius);
+  }
+  
+  /**
+   * Checks if a ship hull at the given position and heading collides with any environment feature
+   * The hull box is grown by margin on every side (use it to look ahead for near misses)
+   */
+  checkHullCollision(
+    position: THREE.Vector3,
+    rotationY: number,
+    hull: HullDimensions,
+    margin: number = 0
+  ): EnvironmentFeature | null {
+    const shape = createHullShape(position, rotationY, hull, margin + this.COLLISION_MARGIN);
+    return this.checkShapeCollision(shape, position, getHullRadius(hull) + margin);
+  }
+  
+  // Broad phase through the feature grid, then an exact test against each candidate's footprint
+  private checkShapeCollision(shape: CollisionShape, center: THREE.Vector3, reach: number): EnvironmentFeature | null {
+    for (const { item: feature } of this.featureGrid.queryRadius(center.x, center.z, reach)) {
+      if (getFeatureShapes(feature).some(featureShape => getPenetration(shape, featureShape))) {
         return feature;
       }
     }
-    
     return null;
   }
   
+  /**
+   * Finds every environment feature within a radius of a point
+   */
+  queryFeatures(point: THREE.Vector3, radius: number): EnvironmentFeature[] {
+    return this.featureGrid.queryRadius(point.x, point.z, radius).map(entry => entry.item);
+  }
+  
+  /**
+   * Checks if something of the given radius moving from start to end hits a feature
+   * Returns the first feature along the path, so fast objects can't tunnel through islands
+   */
+  checkSegmentCollision(start: THREE.Vector3, end: THREE.Vector3, radius: number = 0): EnvironmentFeature | null {
+    const reach = radius + this.COLLISION_MARGIN;
+    const hit = this.featureGrid.querySegment(start.x, start.z, end.x, end.z, radius).find(({ item }) =>
+      getFeatureShapes(item).some(shape => segmentDistanceToShape(start.x, start.z, end.x, end.z, shape) < reach)
+    );
+    return hit ? hit.item : null;
+  }
+  
+  /**
+   * Registers or moves a ship in the ship index - call whenever the ship moves or turns
+   */
+  updateShip(id: string, position: THREE.Vector3, rotationY: number, hull: HullDimensions): void {
+    this.shipGrid.set(id, { id, position, rotationY, hull }, position.x, position.z, getHullRadius(hull));
+  }
+  
+  /**
+   * Removes a ship from the ship index (destroyed or unmounted)
+   */
+  removeShip(id: string): void {
+    this.shipGrid.remove(id);
+  }
+  
+  /**
+   * Gets a tracked ship by id
+   */
+  getShip(id: string): TrackedShip | undefined {
+    return this.shipGrid.get(id)?.item;
+  }
+  
+  /**
+   * Gets every tracked ship
+   */
+  getShips(): TrackedShip[] {
+    return this.shipGrid.values().map(entry => entry.item);
+  }
+  
+  /**
+   * Finds ships whose hull bounding circle overlaps a circle around the point
+   */
+  queryShips(point: THREE.Vector3, radius: number = 0): SpatialEntry<TrackedShip>[] {
+    return this.shipGrid.queryRadius(point.x, point.z, radius);
+  }
+  
+  /**
+   * Finds ships whose hull box is hit by a sphere (e.g. a cannonball) at the point
+   * Points above a hull's deck height miss it, so shots can arc over low ships
+   * @param filter Optional check to skip ships (e.g. the ship that fired)
+   */
+  checkShipHit(point: THREE.Vector3, radius: number, filter?: (ship: TrackedShip) => boolean): TrackedShip[] {
+    const hitShape = createCircle(point.x, point.z, radius);
+    return this.shipGrid.queryRadius(point.x, point.z, radius)
+      .map(entry => entry.item)
+      .filter(ship =>
+        (!filter || filter(ship)) &&
+        point.y - radius <= ship.position.y + ship.hull.HEIGHT &&
+        getPenetration(hitShape, createHullShape(ship.position, ship.rotationY, ship.hull)) !== null
+      );
+  }
+  
+  /**
+   * Finds ships touched by something of the given radius moving from start to end, nearest first
+   */
+  queryShipsAlongSegment(start: THREE.Vector3, end: THREE.Vector3, radius: number = 0): SpatialEntry<TrackedShip>[] {
+    return this.shipGrid.querySegment(start.x, start.z, end.x, end.z, radius);
+  }
+  
+  /**
+   * Registers a collectable power-up in the power-up index
+   */
+  addPowerUp(id: string, position: THREE.Vector3): void {
+    this.powerUpGrid.set(id, { id, position }, position.x, position.z);
+  }
+  
+  /**
+   * Removes a power-up from the power-up index (collected or expired)
+   */
+  removePowerUp(id: string): void {
+    this.powerUpGrid.remove(id);
+  }
+  
+  /**
+   * Removes every power-up from the power-up index
+   */
+  clearPowerUps(): void {
+    this.powerUpGrid.clear();
+  }
+  
+  /**
+   * Finds power-ups within a radius of a point
+   */
+  queryPowerUps(point: THREE.Vector3, radius: number): TrackedPowerUp[] {
+    return this.powerUpGrid.queryRadius(point.x, point.z, radius).map(entry => entry.item);
+  }
+  
   /**
    * Calculates an appropriate collision response position when a collision is detected
+   * Pushes the entity circle straight out of the feature's footprint along the shortest way
    */
   calculateSafePosition(
     currentPosition: THREE.Vector3,
@@ -67,23 +221,55 @@ class CollisionHandler {
     entityRadius: number = 6,
     safetyMargin: number = 1.5
   ): THREE.Vector3 {
-    // Calculate escape direction (away from the feature center)
-    const escapeDirection = new THREE.Vector3(
-      currentPosition.x - collidingFeature.x,
-      0,
-      currentPosition.z - collidingFeature.z
-    ).normalize();
+    return this.pushOutOfFeature(
+      currentPosition,
+      collidingFeature,
+      (position) => createCircle(position.x, position.z, entityRadius + safetyMargin)
+    );
+  }
+  
+  /**
+   * Calculates a safe position for a ship hull that overlaps a feature
+   * The heading is kept - only the position is moved
+   */
+  calculateSafeHullPosition(
+    currentPosition: THREE.Vector3,
+    rotationY: number,
+    collidingFeature: EnvironmentFeature,
+    hull: HullDimensions,
+    safetyMargin: number = 1.5
+  ): THREE.Vector3 {
+    return this.pushOutOfFeature(
+      currentPosition,
+      collidingFeature,
+      (position) => createHullShape(position, rotationY, hull, safetyMargin)
+    );
+  }
+  
+  // Repeatedly apply the smallest push out of each overlapping footprint shape
+  // Compound footprints (several circles) can need more than one push
+  private pushOutOfFeature(
+    currentPosition: THREE.Vector3,
+    feature: EnvironmentFeature,
+    getShape: (position: THREE.Vector3) => CollisionShape
+  ): THREE.Vector3 {
+    const position = currentPosition.clone();
+    const featureShapes = getFeatureShapes(feature);
     
-    // Push away with enough force to escape
-    const pushDistance = entityRadius + safetyMargin + 
-      this.getFeatureRadius(collidingFeature.type, collidingFeature.scale);
+    for (let attempt = 0; attempt < 4; attempt++) {
+      let pushed = false;
+      for (const featureShape of featureShapes) {
+        const penetration = getPenetration(getShape(position), featureShape);
+        if (penetration) {
+          position.x += penetration.x * penetration.depth;
+          position.z += penetration.z * penetration.depth;
+          pushed = true;
+        }
+      }
+      if (!pushed) break;
+    }
     
-    // Set new position directly outside the collision radius
-    return new THREE.Vector3(
-      collidingFeature.x, 
-      currentPosition.y,
-      collidingFeature.z
-    ).add(escapeDirection.multiplyScalar(pushDistance));
+    return position;
   }
   
   /**
@@ -98,45 +284,6 @@ class CollisionHandler {
     // Just delegate to the safer implementation
     return this.calculateSafePosition(position, feature);
   }
-  
-  /**
-   * Checks if there's a collision and returns a safe position if needed
-   * Returns null if no collision occurs, otherwise returns the safe position
-   * @param isPlayerShip Set to true when checking for the player's ship to trigger crew animations
-   * @param enemyId Optional enemy ID when checking for enemy ships
-   */
-  handleCollision(
-    position: THREE.Vector3,
-    entityRadius: number = 6,
-    isPlayerShip: boolean = false,
-    enemyId?: string
-  ): THREE.Vector3 | null {
-    const collision = this.checkPointCollision(position, entityRadius);
-    
-    if (collision) {
-      // Trigger crew animation if this is a player ship collision
-      if (isPlayerShip) {
-        try {
-          const { playerNearCollision } = useShipEvents.getState();
-          playerNearCollision();
-        } catch (error) {
-          // Silently handle if the module isn't available yet
-        }
-      } else if (enemyId) {
-        // Trigger enemy ship crew animation
-        try {
-          const { enemyNearCollision } = useShipEvents.getState();
-          enemyNearCollision(enemyId);
-        } catch (error) {
-          // Silently handle if the module isn't available yet
-        }
-      }
-      
-      return this.calculateSafePosition(position, collision, entityRadius);
-    }
-    
-    return null;
-  }
 }
 
 // Export a singleton instance for use throughout the application
@@ -1,52 +1,18 @@
 import * as THREE from "three";
 import { EnvironmentFeature, EnvironmentFeatureType } from "../../components/Environment";
 import { environmentCollisions } from "../collision";
+import { getFeatureRadius } from "../featureRegistry";
+import { HullDimensions, createCircle, createHullShape, getPenetration } from "../helpers/collisionShapes";
 
 /**
  * Service for handling various types of collisions in the game
  */
 export class CollisionService {
   /**
-   * Get radius for different feature types
+   * Get radius for different feature types (from the feature registry)
    */
   static getFeatureRadius(type: EnvironmentFeatureType, scale: number): number {
-    // Base radius depends on feature type (these are approximate values)
-    // All values reduced by half to allow easier navigation
-    let baseRadius = 0;
-    switch (type) {
-      case 'tropical':
-        baseRadius = 4; // Reduced by half for easier navigation
-        break;
-      case 'mountain':
-        baseRadius = 5; // Reduced by half for easier navigation
-        break;
-      case 'rocks':
-        baseRadius = 2.5; // Reduced by half for easier navigation
-        break;
-      case 'shipwreck':
-        baseRadius = 3; // Reduced by half for easier navigation
-        break;
-      case 'port':
-        baseRadius = 3; // Reduced by half for easier navigation
-        break;
-      case 'lighthouse':
-        baseRadius = 3; // Reduced by half for easier navigation
-        break;
-      // New island types with appropriate collision service radii
-      case 'volcanic':
-        baseRadius = 5; // Slightly larger radius for volcanic islands
-        break;
-      case 'atoll':
-        baseRadius = 4; // Standard radius for atoll islands
-        break;
-      case 'ice':
-        baseRadius = 3.5; // Standard radius for ice islands
-        break;
-      default:
-        baseRadius = 3; // Default radius
-    }
-    // Scale the radius based on the feature's scale
-    return baseRadius * scale;
+    return getFeatureRadius(type, scale);
   }
   
   /**
@@ -98,15 +64,19 @@ export class CollisionService {
   }
   
   /**
-   * Check if a cannonball hits a ship
+   * Check if a cannonball hits a ship's hull
    */
   static checkCannonballShipCollision(
     cannonballPosition: THREE.Vector3,
     shipPosition: THREE.Vector3,
-    hitRadius: number = 2,
-    shipRadius: number = 5
+    shipRotationY: number,
+    hull: HullDimensions,
+    hitRadius: number = 2
   ): boolean {
-    const distance = cannonballPosition.distanceTo(shipPosition);
-    return distance < (hitRadius + shipRadius);
+    // Cannonballs above the deck fly over
+    if (cannonballPosition.y - hitRadius > shipPosition.y + hull.HEIGHT) return false;
+    
+    const ball = createCircle(cannonballPosition.x, cannonballPosition.z, hitRadius);
+    return getPenetration(ball, createHullShape(shipPosition, shipRotationY, hull)) !== null;
   }
 }
\ No newline at end of file
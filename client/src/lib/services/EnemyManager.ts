@@ -1,6 +1,8 @@
 import * as THREE from "three";
 import { useEnemies } from "../stores/useEnemies";
+import { gameSimulation } from "../simulation/GameSimulation";
 import { POSITION } from "../constants";
+import { DEFAULT_ARCHETYPE, EnemyArchetypeId } from "../simulation/enemyArchetypes";
 
 /**
  * Service for managing enemy ships in the game
@@ -10,7 +12,7 @@ export class EnemyManager {
    * Spawns a single enemy at a fixed position
    * Used for testing and demo purposes
    */
-  static spawnSingleEnemy(x: number, z: number): void {
+  static spawnSingleEnemy(x: number, z: number, archetype: EnemyArchetypeId = DEFAULT_ARCHETYPE): void {
     // Clear existing enemies to ensure we only have one
     useEnemies.getState().resetEnemies();
     
@@ -19,19 +21,16 @@ export class EnemyManager {
     const fixedEnemyPosition = new THREE.Vector3(x, 0, z);
     const fixedEnemyRotation = new THREE.Euler(0, 0, 0);
     
-    // Add the enemy directly to the store
-    useEnemies.setState({
-      enemies: [{
-        id: 'fixed-enemy-ship',
-        position: fixedEnemyPosition,
-        rotation: fixedEnemyRotation,
-        velocity: new THREE.Vector3(0, 0, 0),
-        health: 100,
-        maxHealth: 100
-      }]
+    // Add the enemy to the simulation
+    gameSimulation.addEnemy({
+      id: 'fixed-enemy-ship',
+      archetype,
+      position: fixedEnemyPosition,
+      rotation: fixedEnemyRotation
     });
+    useEnemies.getState().sync();
     
-    console.log(`[ENEMY] Spawned single enemy ship at (${x}, 0, ${z})`);
+    console.log(`[ENEMY] Spawned single ${archetype} at (${x}, 0, ${z})`);
   }
   
   /**
@@ -52,28 +51,25 @@ export class EnemyManager {
     // Set rotation to face general direction but not directly at player
     const testRotation = new THREE.Euler(0, Math.PI * 0.75, 0);
     
-    // Add the test enemy to the store with peaceful start indicator
-    useEnemies.setState({
-      enemies: [{
-        id: 'test-enemy-ship',
-        position: testPosition,
-        rotation: testRotation,
-        velocity: new THREE.Vector3(0, 0, 0),
-        health: 100,
-        maxHealth: 100,
-        peacefulStartTimer: 10 // 10 second grace period before attacking
-      }]
+    // Add the test enemy to the simulation with peaceful start indicator
+    gameSimulation.addEnemy({
+      id: 'test-enemy-ship',
+      position: testPosition,
+      rotation: testRotation,
+      peacefulStartTimer: 10 // 10 second grace period before attacking
     });
+    useEnemies.getState().sync();
     
     console.log(`[ENEMY] Spawned test enemy ship at safe distance (40.0, 0.0, -40.0), with 10s peaceful start period`);
   }
   
   /**
    * Spawns multiple enemies at random positions around the player
+   * Archetypes are picked by spawn weight - from all of them unless a list is given
    */
-  static spawnEnemies(count: number, playerPosition?: THREE.Vector3): void {
+  static spawnEnemies(count: number, playerPosition?: THREE.Vector3, archetypes?: EnemyArchetypeId[]): void {
     // Use the store's built-in spawn function
-    useEnemies.getState().spawnEnemies(count);
+    useEnemies.getState().spawnEnemies(count, undefined, archetypes);
     
     console.log(`[ENEMY] Spawned ${count} enemy ships around player`);
   }
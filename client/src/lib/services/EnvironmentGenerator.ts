@@ -1,8 +1,12 @@
 import * as THREE from "three";
 import { EnvironmentFeature, EnvironmentFeatureType } from "../../components/Environment";
+import { RandomFn } from "../helpers/random";
+import { FEATURE_REGISTRY, FEATURE_TYPES, getArchipelagoTypes, getFeatureSpacingRadius } from "../featureRegistry";
+import { worldRandom } from "./WorldRandom";
 
 /**
  * Utility class for generating and managing environment features like islands and rocks
+ * All randomness comes from an injected RandomFn so a seed always yields the same world
  */
 export class EnvironmentGenerator {
   /**
@@ -12,55 +16,14 @@ export class EnvironmentGenerator {
     feature1: { x: number; z: number; type: EnvironmentFeatureType; scale: number },
     feature2: { x: number; z: number; type: EnvironmentFeatureType; scale: number }
   ): boolean {
-    // Calculate radius based on feature type and scale
-    const getRadius = (type: EnvironmentFeatureType, scale: number): number => {
-      // Base radius depends on feature type (these are approximate values)
-      // All values reduced by half for easier navigation between environment features
-      let baseRadius = 0;
-      switch (type) {
-        case 'tropical':
-          baseRadius = 10; // Reduced from 20
-          break;
-        case 'mountain':
-          baseRadius = 12.5; // Reduced from 25
-          break;
-        case 'rocks':
-          baseRadius = 5; // Reduced from 10
-          break;
-        case 'shipwreck':
-          baseRadius = 7.5; // Reduced from 15
-          break;
-        case 'port':
-          baseRadius = 9; // Reduced from 18
-          break;
-        case 'lighthouse':
-          baseRadius = 6; // Reduced from 12
-          break;
-        // New island types with appropriate generation spacing
-        case 'volcanic':
-          baseRadius = 12; // Large spacing for the dramatic volcanic islands
-          break;
-        case 'atoll':
-          baseRadius = 10; // Medium spacing for the wide atoll islands
-          break;
-        case 'ice':
-          baseRadius = 9; // Standard spacing for ice islands
-          break;
-        default:
-          baseRadius = 7.5; // Default spacing
-      }
-      // Scale the radius based on the feature's scale
-      return baseRadius * scale;
-    };
-
     // Calculate distance between features
     const dx = feature1.x - feature2.x;
     const dz = feature1.z - feature2.z;
     const distance = Math.sqrt(dx * dx + dz * dz);
     
     // Calculate minimum required distance
-    const radius1 = getRadius(feature1.type, feature1.scale);
-    const radius2 = getRadius(feature2.type, feature2.scale);
+    const radius1 = getFeatureSpacingRadius(feature1.type, feature1.scale);
+    const radius2 = getFeatureSpacingRadius(feature2.type, feature2.scale);
     const minDistance = radius1 + radius2 + 2; // 2 units of padding
     
     // Return true if overlapping
@@ -93,7 +56,8 @@ export class EnvironmentGenerator {
     maxZ: number,
     existingFeatures: EnvironmentFeature[],
     rotationFactor: number = 0.5, // Factor to multiply with PI for rotation
-    maxAttempts: number = 50 // Maximum attempts to find non-overlapping position
+    maxAttempts: number = 50, // Maximum attempts to find non-overlapping position
+    random: RandomFn = Math.random
   ): EnvironmentFeature | null {
     // Avoid spawning features too close to the player start position
     const playerProtectionRadius = 50; // Increased to provide more open water around player
@@ -101,7 +65,7 @@ export class EnvironmentGenerator {
     const playerStartZ = 0;
     
     // Jitter scale to add variety (±10%)
-    const scale = baseScale * (0.9 + Math.random() * 0.2);
+    const scale = baseScale * (0.9 + random() * 0.2);
     
     // Generate rotation
     const rotation: [number, number, number] = [
@@ -113,8 +77,8 @@ export class EnvironmentGenerator {
     // Try multiple locations to place this feature
     for (let attempt = 0; attempt < maxAttempts; attempt++) {
       // Generate random position within bounds
-      const x = minX + Math.random() * (maxX - minX);
-      const z = minZ + Math.random() * (maxZ - minZ);
+      const x = minX + random() * (maxX - minX);
+      const z = minZ + random() * (maxZ - minZ);
       
       // Check if too close to player start
       const dxToPlayer = x - playerStartX;
@@ -160,7 +124,8 @@ export class EnvironmentGenerator {
     centerZ: number, 
     radius: number, 
     openingDirection: number, // angle in radians for the opening
-    features: EnvironmentFeature[]
+    features: EnvironmentFeature[],
+    random: RandomFn = Math.random
   ): EnvironmentFeature[] {
     const arenaFeatures: EnvironmentFeature[] = [];
     const rockCount = 8; // Number of rocks to place in the semi-circle
@@ -174,18 +139,18 @@ export class EnvironmentGenerator {
     // Place rocks in a semi-circular pattern with an opening
     for (let i = 0; i < rockCount; i++) {
       const angle = startAngle + i * angleStep;
-      const distance = radius + (Math.random() * 5 - 2.5); // Slightly randomize distance
+      const distance = radius + (random() * 5 - 2.5); // Slightly randomize distance
       
       const x = centerX + Math.cos(angle) * distance;
       const z = centerZ + Math.sin(angle) * distance;
       
       // Add some variation to scale
       const baseScale = 2.0;
-      const scale = baseScale + Math.random() * 0.5;
+      const scale = baseScale + random() * 0.5;
       
       // Create a rock feature
       const id = `arena_rock_${i + 1}`;
-      const rotation = [0, Math.random() * Math.PI * 2, 0] as [number, number, number];
+      const rotation = [0, random() * Math.PI * 2, 0] as [number, number, number];
       
       const feature: EnvironmentFeature = {
         id,
@@ -218,24 +183,25 @@ export class EnvironmentGenerator {
     islandType: EnvironmentFeatureType,
     islandCount: number,
     baseScale: number,
-    features: EnvironmentFeature[]
+    features: EnvironmentFeature[],
+    random: RandomFn = Math.random
   ): EnvironmentFeature[] {
     const archipelagoFeatures: EnvironmentFeature[] = [];
     
     for (let i = 0; i < islandCount; i++) {
       // Calculate position in a cluster
-      const angle = Math.random() * Math.PI * 2;
-      const distance = Math.random() * radius;
+      const angle = random() * Math.PI * 2;
+      const distance = random() * radius;
       
       const x = centerX + Math.cos(angle) * distance;
       const z = centerZ + Math.sin(angle) * distance;
       
       // Add some variation to scale
-      const scale = baseScale + Math.random() * 0.3;
+      const scale = baseScale + random() * 0.3;
       
       // Create an island feature
       const id = `archipelago_${islandType}_${i + 1}`;
-      const rotation = [0, Math.random() * Math.PI * 2, 0] as [number, number, number];
+      const rotation = [0, random() * Math.PI * 2, 0] as [number, number, number];
       
       const feature: EnvironmentFeature = {
         id,
@@ -266,7 +232,8 @@ export class EnvironmentGenerator {
     startZ: number,
     endX: number,
     endZ: number,
-    features: EnvironmentFeature[]
+    features: EnvironmentFeature[],
+    random: RandomFn = Math.random
   ): EnvironmentFeature[] {
     const routeFeatures: EnvironmentFeature[] = [];
     
@@ -276,8 +243,8 @@ export class EnvironmentGenerator {
       type: 'port',
       x: startX,
       z: startZ,
-      scale: 1.6 + Math.random() * 0.2,
-      rotation: [0, Math.random() * Math.PI * 2, 0]
+      scale: FEATURE_REGISTRY.port.spawn.scale + random() * 0.2,
+      rotation: [0, random() * Math.PI * 2, 0]
     };
     
     const endPort: EnvironmentFeature = {
@@ -285,33 +252,33 @@ export class EnvironmentGenerator {
       type: 'port',
       x: endX,
       z: endZ,
-      scale: 1.6 + Math.random() * 0.2,
-      rotation: [0, Math.random() * Math.PI * 2, 0]
+      scale: FEATURE_REGISTRY.port.spawn.scale + random() * 0.2,
+      rotation: [0, random() * Math.PI * 2, 0]
     };
     
     // Create lighthouses near the ports
     const startLighthouse: EnvironmentFeature = {
       id: 'route_lighthouse_start',
       type: 'lighthouse',
-      x: startX + (Math.random() * 20 - 10),
-      z: startZ + (Math.random() * 20 - 10),
-      scale: 2.0,
-      rotation: [0, Math.random() * Math.PI * 2, 0]
+      x: startX + (random() * 20 - 10),
+      z: startZ + (random() * 20 - 10),
+      scale: FEATURE_REGISTRY.lighthouse.spawn.scale,
+      rotation: [0, random() * Math.PI * 2, 0]
     };
     
     const endLighthouse: EnvironmentFeature = {
       id: 'route_lighthouse_end',
       type: 'lighthouse',
-      x: endX + (Math.random() * 20 - 10),
-      z: endZ + (Math.random() * 20 - 10),
-      scale: 2.0,
-      rotation: [0, Math.random() * Math.PI * 2, 0]
+      x: endX + (random() * 20 - 10),
+      z: endZ + (random() * 20 - 10),
+      scale: FEATURE_REGISTRY.lighthouse.spawn.scale,
+      rotation: [0, random() * Math.PI * 2, 0]
     };
     
     // Create a shipwreck along the route (50% chance)
-    if (Math.random() > 0.5) {
+    if (random() > 0.5) {
       // Calculate a random position along the route
-      const t = Math.random() * 0.6 + 0.2; // Position 20-80% along the route
+      const t = random() * 0.6 + 0.2; // Position 20-80% along the route
       const shipwreckX = startX + (endX - startX) * t;
       const shipwreckZ = startZ + (endZ - startZ) * t;
       
@@ -320,8 +287,8 @@ export class EnvironmentGenerator {
         type: 'shipwreck',
         x: shipwreckX,
         z: shipwreckZ,
-        scale: 1.5,
-        rotation: [0, Math.random() * Math.PI * 2, 0]
+        scale: FEATURE_REGISTRY.shipwreck.spawn.scale,
+        rotation: [0, random() * Math.PI * 2, 0]
       };
       
       // Add the shipwreck if it doesn't overlap
@@ -353,8 +320,9 @@ export class EnvironmentGenerator {
   /**
    * Generates a complete set of environment features for the game world
    * Using an improved design pattern with meaningful gameplay areas
+   * @param random Generator to draw from - defaults to a fork of the world seed
    */
-  static generateEnvironment(): EnvironmentFeature[] {
+  static generateEnvironment(random: RandomFn = worldRandom.fork('environment')): EnvironmentFeature[] {
     console.log("[GAME] Generating structured environment with gameplay areas");
     
     const features: EnvironmentFeature[] = [];
@@ -367,21 +335,22 @@ export class EnvironmentGenerator {
     
     for (let i = 0; i < arenaCount; i++) {
       // Calculate a position away from the center
-      const angle = (i * (Math.PI * 2 / arenaCount)) + (Math.random() * 0.5 - 0.25);
-      const distance = arenaMinDistance + Math.random() * (arenaMaxDistance - arenaMinDistance);
+      const angle = (i * (Math.PI * 2 / arenaCount)) + (random() * 0.5 - 0.25);
+      const distance = arenaMinDistance + random() * (arenaMaxDistance - arenaMinDistance);
       
       const arenaX = Math.cos(angle) * distance;
       const arenaZ = Math.sin(angle) * distance;
       
       // Create an arena with the opening facing toward the center
       const openingDirection = Math.atan2(-arenaZ, -arenaX); // Point toward center
-      const arenaRadius = 30 + Math.random() * 10; // Arena size
+      const arenaRadius = 30 + random() * 10; // Arena size
       
       const arenaFeatures = EnvironmentGenerator.createBattleArena(
-        arenaX, arenaZ, arenaRadius, openingDirection, [...features]
+        arenaX, arenaZ, arenaRadius, openingDirection, [...features], random
       );
       
-      features.push(...arenaFeatures);
+      // Number the arena so its rock ids don't clash with the other arenas
+      features.push(...arenaFeatures.map(feature => ({ ...feature, id: `${feature.id}_${i + 1}` })));
     }
     
     // 2. Create island archipelagos
@@ -389,25 +358,25 @@ export class EnvironmentGenerator {
     const archipelagoMinDistance = 100;
     const archipelagoMaxDistance = 350;
     
-    const islandTypes: EnvironmentFeatureType[] = ['tropical', 'volcanic', 'ice', 'atoll'];
+    const islandTypes = getArchipelagoTypes();
     
     for (let i = 0; i < archipelagoCount; i++) {
       // Choose a random island type for this archipelago
       const islandType = islandTypes[i % islandTypes.length];
       
       // Calculate a position away from the center
-      const angle = (i * (Math.PI * 2 / archipelagoCount) + Math.PI / 4) + (Math.random() * 0.5 - 0.25);
-      const distance = archipelagoMinDistance + Math.random() * (archipelagoMaxDistance - archipelagoMinDistance);
+      const angle = (i * (Math.PI * 2 / archipelagoCount) + Math.PI / 4) + (random() * 0.5 - 0.25);
+      const distance = archipelagoMinDistance + random() * (archipelagoMaxDistance - archipelagoMinDistance);
       
       const archipelagoX = Math.cos(angle) * distance;
       const archipelagoZ = Math.sin(angle) * distance;
       
       // Create an archipelago
-      const islandCount = 3 + Math.floor(Math.random() * 3); // 3-5 islands
-      const baseScale = 1.3 + Math.random() * 0.5; // Base scale for the islands
+      const islandCount = 3 + Math.floor(random() * 3); // 3-5 islands
+      const baseScale = FEATURE_REGISTRY[islandType].spawn.scale - 0.2 + random() * 0.5; // Base scale for the islands
       
       const archipelagoFeatures = EnvironmentGenerator.createArchipelago(
-        archipelagoX, archipelagoZ, 50, islandType, islandCount, baseScale, [...features]
+        archipelagoX, archipelagoZ, 50, islandType, islandCount, baseScale, [...features], random
       );
       
       features.push(...archipelagoFeatures);
@@ -418,11 +387,11 @@ export class EnvironmentGenerator {
     
     for (let i = 0; i < routeCount; i++) {
       // Create a route between two random points
-      const startAngle = Math.random() * Math.PI * 2;
-      const endAngle = startAngle + Math.PI + (Math.random() * Math.PI / 2 - Math.PI / 4);
+      const startAngle = random() * Math.PI * 2;
+      const endAngle = startAngle + Math.PI + (random() * Math.PI / 2 - Math.PI / 4);
       
-      const startDistance = 250 + Math.random() * 100;
-      const endDistance = 250 + Math.random() * 100;
+      const startDistance = 250 + random() * 100;
+      const endDistance = 250 + random() * 100;
       
       const startX = Math.cos(startAngle) * startDistance;
       const startZ = Math.sin(startAngle) * startDistance;
@@ -431,58 +400,20 @@ export class EnvironmentGenerator {
       const endZ = Math.sin(endAngle) * endDistance;
       
       const routeFeatures = EnvironmentGenerator.createShippingRoute(
-        startX, startZ, endX, endZ, [...features]
+        startX, startZ, endX, endZ, [...features], random
       );
       
-      features.push(...routeFeatures);
+      // Number the route so its ids don't clash with the other route
+      features.push(...routeFeatures.map(feature => ({ ...feature, id: `${feature.id}_${i + 1}` })));
     }
     
-    // 4. Add standalone features across the map
-    const standaloneFeatures: {
-      type: EnvironmentFeatureType;
-      count: number;
-      scale: number;
-      minDistance: number;
-      maxDistance: number;
-      prefix: string;
-    }[] = [
-      // Mountain islands - large landmark features
-      {
-        type: 'mountain',
-        count: 5,
-        scale: 1.8,
-        minDistance: 80,
-        maxDistance: 350,
-        prefix: 'mountain'
-      },
-      // Rock formations - scattered throughout for navigation reference
-      {
-        type: 'rocks',
-        count: 15,
-        scale: 1.9,
-        minDistance: 30,
-        maxDistance: 380,
-        prefix: 'rocks'
-      },
-      // Additional shipwrecks - dangerous areas with potential rewards
-      {
-        type: 'shipwreck',
-        count: 4,
-        scale: 1.5,
-        minDistance: 100,
-        maxDistance: 300,
-        prefix: 'shipwreck'
-      },
-      // Additional lighthouses - navigation aids
-      {
-        type: 'lighthouse',
-        count: 3,
-        scale: 2.0,
-        minDistance: 200,
-        maxDistance: 350,
-        prefix: 'lighthouse'
-      }
-    ];
+    // 4. Add standalone features across the map - counts and distances come from the feature registry
+    const standaloneFeatures = FEATURE_TYPES
+      .filter(type => FEATURE_REGISTRY[type].spawn.home.count > 0)
+      .map(type => {
+        const { scale, home } = FEATURE_REGISTRY[type].spawn;
+        return { type, prefix: type, scale, ...home };
+      });
     
     // Place the standalone features
     standaloneFeatures.forEach((featureConfig) => {
@@ -495,18 +426,18 @@ export class EnvironmentGenerator {
         
         for (let attempt = 0; attempt < maxAttempts && !placed; attempt++) {
           // Generate a random position at a specific distance from center
-          const angle = Math.random() * Math.PI * 2;
+          const angle = random() * Math.PI * 2;
           const distance = featureConfig.minDistance + 
-                          Math.random() * (featureConfig.maxDistance - featureConfig.minDistance);
+                          random() * (featureConfig.maxDistance - featureConfig.minDistance);
           
           const x = Math.cos(angle) * distance;
           const z = Math.sin(angle) * distance;
           
           // Add some variation to scale
-          const scale = featureConfig.scale * (0.9 + Math.random() * 0.2);
+          const scale = featureConfig.scale * (0.9 + random() * 0.2);
           
           // Generate a random rotation
-          const rotation = [0, Math.random() * Math.PI * 2, 0] as [number, number, number];
+          const rotation = [0, random() * Math.PI * 2, 0] as [number, number, number];
           
           // Create the feature
           const feature: EnvironmentFeature = {
@@ -537,4 +468,87 @@ export class EnvironmentGenerator {
     console.log(`[ENV GEN] Generated ${features.length} environment features`);
     return features;
   }
-}
\ No newline at end of file
+
+  /**
+   * Generates the open-ocean features for one chunk of the streamed world
+   * Features stay clear of the chunk edges so neighbouring chunks never overlap,
+   * and ids are suffixed with the chunk key so they stay unique across chunks
+   * @param random Generator to draw from - defaults to a per-chunk fork of the world seed
+   */
+  static generateChunk(
+    cx: number,
+    cz: number,
+    chunkSize: number,
+    random: RandomFn = worldRandom.fork(`chunk:${cx},${cz}`)
+  ): EnvironmentFeature[] {
+    const features: EnvironmentFeature[] = [];
+    const minX = cx * chunkSize;
+    const minZ = cz * chunkSize;
+    
+    // Picks a coordinate inside the chunk, keeping the given margin from its edges
+    const pick = (min: number, margin: number) => min + margin + random() * (chunkSize - margin * 2);
+    
+    const islandTypes = getArchipelagoTypes();
+    
+    // 1. Most chunks get an archipelago as their landmark
+    if (random() < 0.7) {
+      const islandType = islandTypes[Math.floor(random() * islandTypes.length)];
+      const islandCount = 3 + Math.floor(random() * 3); // 3-5 islands
+      const baseScale = FEATURE_REGISTRY[islandType].spawn.scale - 0.2 + random() * 0.5;
+      
+      features.push(...EnvironmentGenerator.createArchipelago(
+        pick(minX, 100), pick(minZ, 100), 50, islandType, islandCount, baseScale, [...features], random
+      ));
+    }
+    
+    // 2. Some chunks hide a battle arena
+    if (random() < 0.35) {
+      const arenaRadius = 30 + random() * 10;
+      const openingDirection = random() * Math.PI * 2;
+      
+      features.push(...EnvironmentGenerator.createBattleArena(
+        pick(minX, 100), pick(minZ, 100), arenaRadius, openingDirection, [...features], random
+      ));
+    }
+    
+    // 3. Occasionally a short shipping route crosses the chunk
+    if (random() < 0.25) {
+      features.push(...EnvironmentGenerator.createShippingRoute(
+        pick(minX, 60), pick(minZ, 60), pick(minX, 60), pick(minZ, 60), [...features], random
+      ));
+    }
+    
+    // 4. Scatter standalone features across the rest of the chunk, as many as the feature registry allows
+    const standaloneFeatures = FEATURE_TYPES.map(type => {
+      const { scale, perChunk } = FEATURE_REGISTRY[type].spawn;
+      const count = perChunk.min + Math.floor(random() * (perChunk.max - perChunk.min + 1));
+      return { type, count, scale };
+    });
+    
+    const edgeMargin = 30;
+    standaloneFeatures.forEach((featureConfig) => {
+      for (let i = 1; i <= featureConfig.count; i++) {
+        const feature = EnvironmentGenerator.generateFeature(
+          `${featureConfig.type}_${i}`,
+          featureConfig.type,
+          featureConfig.scale,
+          minX + edgeMargin,
+          minX + chunkSize - edgeMargin,
+          minZ + edgeMargin,
+          minZ + chunkSize - edgeMargin,
+          features,
+          random(),
+          10,
+          random
+        );
+        
+        if (feature) {
+          features.push(feature);
+        }
+      }
+    });
+    
+    console.log(`[ENV GEN] Generated ${features.length} features for chunk ${cx},${cz}`);
+    return features.map(feature => ({ ...feature, id: `${feature.id}@${cx},${cz}` }));
+  }
+}
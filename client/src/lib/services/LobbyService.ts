@@ -0,0 +1,76 @@
+import type { CreateRoom, Profile, PublicRoom, RoomMembership, RoomSummary } from "@shared/schema";
+import { apiRequest } from "../queryClient";
+import { SaveService } from "./SaveService";
+
+/**
+ * Service for the multiplayer lobby routes
+ * Every call is made on behalf of a profile - the server knows players by profile
+ * id and checks the profile's token, but other players only ever see member ids
+ */
+export class LobbyService {
+  /**
+   * Lists the rooms that are still gathering players
+   */
+  static async listRooms(): Promise<RoomSummary[]> {
+    const res = await apiRequest('GET', '/api/rooms');
+    return await res.json();
+  }
+
+  /**
+   * Fetches a room with its players, or null if it has closed
+   */
+  static async fetchRoom(roomId: string): Promise<PublicRoom | null> {
+    const res = await fetch(`/api/rooms/${encodeURIComponent(roomId)}`, {
+      credentials: "include",
+    });
+    if (res.status === 404) return null;
+    if (!res.ok) throw new Error(`${res.status}: ${res.statusText}`);
+    return await res.json();
+  }
+
+  /**
+   * Creates a room hosted by the given profile
+   */
+  static async createRoom(profile: Profile, options: Omit<CreateRoom, 'profileId'>): Promise<RoomMembership> {
+    const res = await apiRequest('POST', '/api/rooms', { ...options, profileId: profile.id }, SaveService.authHeaders(profile));
+    return await res.json();
+  }
+
+  static async joinRoom(roomId: string, profile: Profile, password?: string): Promise<RoomMembership> {
+    const res = await apiRequest('POST', `/api/rooms/${encodeURIComponent(roomId)}/join`, { profileId: profile.id, password }, SaveService.authHeaders(profile));
+    return await res.json();
+  }
+
+  /**
+   * Leaves a room - the last player out closes it
+   */
+  static async leaveRoom(roomId: string, profile: Profile): Promise<void> {
+    await apiRequest('POST', `/api/rooms/${encodeURIComponent(roomId)}/leave`, { profileId: profile.id }, SaveService.authHeaders(profile));
+  }
+
+  static async setReady(roomId: string, profile: Profile, ready: boolean): Promise<PublicRoom> {
+    const res = await apiRequest('POST', `/api/rooms/${encodeURIComponent(roomId)}/ready`, { profileId: profile.id, ready }, SaveService.authHeaders(profile));
+    return await res.json();
+  }
+
+  /**
+   * Starts the match - only the host may do this
+   */
+  static async startRoom(roomId: string, profile: Profile): Promise<PublicRoom> {
+    const res = await apiRequest('POST', `/api/rooms/${encodeURIComponent(roomId)}/start`, { profileId: profile.id }, SaveService.authHeaders(profile));
+    return await res.json();
+  }
+
+  /**
+   * Turns an apiRequest error ("409: {"message":...}") into the server's message
+   */
+  static getErrorMessage(error: unknown): string {
+    const text = error instanceof Error ? error.message : String(error);
+    const body = text.slice(text.indexOf(':') + 1).trim();
+    try {
+      return JSON.parse(body).message ?? text;
+    } catch {
+      return body || text;
+    }
+  }
+}
@@ -1,4 +1,5 @@
 import { useGLTF } from "@react-three/drei";
+import { EnvironmentFeatureType, FEATURE_REGISTRY, getFeatureDefinition } from "../featureRegistry";
 
 /**
  * Service for handling model loading and preloading
@@ -8,9 +9,7 @@ export class ModelService {
   private static readonly PRELOAD_MODELS = [
     '/models/base_pirate_ship.glb',
     '/models/advanced_pirate_ship.glb',
-    '/models/tropical_island.glb',
-    '/models/mountain_island.glb',
-    '/models/rock_formation.glb'
+    ...Object.values(FEATURE_REGISTRY).map(definition => definition.modelPath)
   ];
   
   /**
@@ -26,18 +25,8 @@ export class ModelService {
   /**
    * Gets the model path for a specific environment type
    */
-  static getEnvironmentModelPath(type: string): string {
-    switch (type) {
-      case 'tropical':
-        return '/models/tropical_island.glb';
-      case 'mountain':
-        return '/models/mountain_island.glb';
-      case 'rocks':
-        return '/models/rock_formation.glb';
-      default:
-        console.warn(`[MODEL] Unknown environment type: ${type}, using rocks as fallback`);
-        return '/models/rock_formation.glb';
-    }
+  static getEnvironmentModelPath(type: EnvironmentFeatureType): string {
+    return getFeatureDefinition(type).modelPath;
   }
   
   /**
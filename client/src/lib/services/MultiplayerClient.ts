@@ -0,0 +1,191 @@
+import {
+  MULTIPLAYER,
+  type CannonballSnapshot,
+  type ClientMessage,
+  type ControlState,
+  type ServerMessage,
+  type ShipSnapshot,
+} from "@shared/multiplayer";
+
+// A snapshot kept for interpolation
+interface BufferedSnapshot {
+  serverTime: number;
+  ships: ShipSnapshot[];
+  cannonballs: CannonballSnapshot[];
+}
+
+// What the client should draw this frame
+export interface InterpolatedWorld {
+  ships: ShipSnapshot[];
+  cannonballs: CannonballSnapshot[];
+}
+
+// Keep about a second of snapshots - far more than the interpolation delay needs
+const MAX_BUFFERED_SNAPSHOTS = MULTIPLAYER.TICK_RATE / MULTIPLAYER.SNAPSHOT_INTERVAL;
+
+// Interpolate between two angles the short way round
+const lerpAngle = (a: number, b: number, t: number): number => {
+  const difference = Math.atan2(Math.sin(b - a), Math.cos(b - a));
+  return a + difference * t;
+};
+
+/**
+ * WebSocket connection to the multiplayer server
+ * Sends control inputs and buffers snapshots so the world can be drawn
+ * a little in the past, smoothly interpolated between server ticks
+ */
+export class MultiplayerClient {
+  private socket: WebSocket | null = null;
+  private snapshots: BufferedSnapshot[] = [];
+  private inputSeq = 0;
+  private lastControls = "";
+  private lastInputSentAt = 0;
+
+  // Server clock minus local clock, estimated from snapshot arrival times
+  private clockOffset: number | null = null;
+
+  constructor(
+    private readonly onMessage: (message: ServerMessage) => void,
+    private readonly onClose?: () => void // Called when the server drops the connection (not on disconnect())
+  ) {}
+
+  /**
+   * Opens the connection - resolves once the socket is ready to send
+   */
+  connect(url: string = MultiplayerClient.getDefaultUrl()): Promise<void> {
+    this.disconnect();
+
+    return new Promise((resolve, reject) => {
+      const socket = new WebSocket(url);
+      this.socket = socket;
+
+      socket.onopen = () => resolve();
+      socket.onerror = () => reject(new Error(`Could not connect to ${url}`));
+      socket.onclose = () => {
+        if (this.socket !== socket) return;
+        this.socket = null;
+        this.onClose?.();
+      };
+      socket.onmessage = (event) => {
+        const message = JSON.parse(event.data) as ServerMessage;
+        if (message.type === 'snapshot') this.bufferSnapshot(message);
+        this.onMessage(message);
+      };
+    });
+  }
+
+  /**
+   * Closes the connection and forgets every snapshot
+   */
+  disconnect(): void {
+    const socket = this.socket;
+    this.socket = null;
+    socket?.close();
+    this.snapshots = [];
+    this.clockOffset = null;
+    this.inputSeq = 0;
+    this.lastControls = "";
+  }
+
+  get isOpen(): boolean {
+    return this.socket?.readyState === WebSocket.OPEN;
+  }
+
+  join(roomId: string, name: string, joinToken?: string): void {
+    this.send({ type: 'join', roomId, name, joinToken });
+  }
+
+  leave(): void {
+    this.send({ type: 'leave' });
+    this.snapshots = [];
+  }
+
+  /**
+   * Sends the current controls - unchanged controls are only resent once per tick,
+   * so a dropped packet can't leave a key stuck on the server
+   */
+  sendControls(controls: ControlState): void {
+    const serialized = JSON.stringify(controls);
+    const now = performance.now();
+    if (serialized === this.lastControls && now - this.lastInputSentAt < 1000 / MULTIPLAYER.TICK_RATE) return;
+
+    this.lastControls = serialized;
+    this.lastInputSentAt = now;
+    this.send({ type: 'input', seq: ++this.inputSeq, controls });
+  }
+
+  /**
+   * Gets the world as it was MULTIPLAYER.INTERPOLATION_DELAY ago, blended between the two
+   * snapshots around that moment. Returns null until the first snapshot arrives
+   */
+  getInterpolatedWorld(now: number = performance.now()): InterpolatedWorld | null {
+    if (this.snapshots.length === 0 || this.clockOffset === null) return null;
+
+    const renderTime = now + this.clockOffset - MULTIPLAYER.INTERPOLATION_DELAY;
+
+    // Find the snapshots either side of the render time
+    let older = this.snapshots[0];
+    let newer = this.snapshots[0];
+    for (const snapshot of this.snapshots) {
+      if (snapshot.serverTime <= renderTime) older = snapshot;
+      if (snapshot.serverTime >= renderTime) {
+        newer = snapshot;
+        break;
+      }
+      newer = snapshot;
+    }
+
+    const span = newer.serverTime - older.serverTime;
+    const t = span > 0 ? Math.min(1, Math.max(0, (renderTime - older.serverTime) / span)) : 1;
+
+    // Ships and cannonballs that only exist in the newer snapshot pop in, ones that disappeared are gone
+    const olderShips = new Map(older.ships.map(ship => [ship.id, ship]));
+    const ships = newer.ships.map(ship => {
+      const from = olderShips.get(ship.id);
+      if (!from || !from.alive || !ship.alive) return ship;
+
+      return {
+        ...ship,
+        x: from.x + (ship.x - from.x) * t,
+        z: from.z + (ship.z - from.z) * t,
+        rotationY: lerpAngle(from.rotationY, ship.rotationY, t),
+      };
+    });
+
+    const olderBalls = new Map(older.cannonballs.map(ball => [ball.id, ball]));
+    const cannonballs = newer.cannonballs.map(ball => {
+      const from = olderBalls.get(ball.id);
+      if (!from) return ball;
+
+      return {
+        ...ball,
+        x: from.x + (ball.x - from.x) * t,
+        y: from.y + (ball.y - from.y) * t,
+        z: from.z + (ball.z - from.z) * t,
+      };
+    });
+
+    return { ships, cannonballs };
+  }
+
+  /**
+   * Websocket URL of the game server on the page's own host
+   */
+  static getDefaultUrl(): string {
+    const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+    return `${protocol}//${window.location.host}${MULTIPLAYER.PATH}`;
+  }
+
+  private bufferSnapshot(message: Extract<ServerMessage, { type: 'snapshot' }>): void {
+    // Keep the largest offset seen - it comes from the snapshot that arrived with the least network delay
+    const offset = message.serverTime - performance.now();
+    this.clockOffset = this.clockOffset === null ? offset : Math.max(this.clockOffset, offset);
+
+    this.snapshots.push({ serverTime: message.serverTime, ships: message.ships, cannonballs: message.cannonballs });
+    if (this.snapshots.length > MAX_BUFFERED_SNAPSHOTS) this.snapshots.shift();
+  }
+
+  private send(message: ClientMessage): void {
+    if (this.isOpen) this.socket!.send(JSON.stringify(message));
+  }
+}
@@ -0,0 +1,68 @@
+import { parseReplay, Replay, ReplayParseResult } from "../simulation/replay";
+import { getLocalStorage, setLocalStorage } from "../utils";
+
+/**
+ * Service for saving replays to files and keeping the latest one in localStorage
+ */
+export class ReplayService {
+  private static readonly LATEST_KEY = 'pirateGame_lastReplay';
+
+  /**
+   * Turns a replay into the text of a .replay.json file
+   */
+  static serialize(replay: Replay): string {
+    return JSON.stringify(replay);
+  }
+
+  /**
+   * Reads the text of a replay file
+   * Never throws - unreadable files are reported as an error
+   */
+  static deserialize(text: string): ReplayParseResult {
+    try {
+      return parseReplay(JSON.parse(text));
+    } catch (error) {
+      return { ok: false, error: `Not a replay file: ${error instanceof Error ? error.message : String(error)}` };
+    }
+  }
+
+  /**
+   * Keeps a replay so the /replay page can open it without a file
+   */
+  static saveLatest(replay: Replay): void {
+    try {
+      setLocalStorage(this.LATEST_KEY, replay);
+    } catch (error) {
+      // A very long voyage can outgrow the storage quota - the download still works
+      console.error('[REPLAY] Could not keep the replay in localStorage:', error);
+    }
+  }
+
+  /**
+   * The replay kept by saveLatest, or null if there is none or it can't be read
+   */
+  static loadLatest(): Replay | null {
+    try {
+      const result = parseReplay(getLocalStorage(this.LATEST_KEY));
+      return result.ok ? result.replay : null;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  /**
+   * Downloads a replay as a file - attach it to a bug report to show exactly what happened
+   */
+  static download(replay: Replay): void {
+    const blob = new Blob([this.serialize(replay)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `voyage-${replay.seed}-${new Date(replay.recordedAt).toISOString().replace(/[:.]/g, '-')}.replay.json`;
+    link.click();
+
+    URL.revokeObjectURL(url);
+    console.log(`[REPLAY] Saved ${replay.endTick - replay.start.tick} ticks to ${link.download}`);
+  }
+}
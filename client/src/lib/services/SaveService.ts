@@ -0,0 +1,256 @@
+import { PROFILE_TOKEN_HEADER, type Profile, type Save } from "@shared/schema";
+import type { SaveGame } from "@shared/saveGame";
+import { apiRequest } from "../queryClient";
+import { getLocalStorage, setLocalStorage } from "../utils";
+
+/**
+ * A save slot as cached in localStorage
+ * dirty = written locally but not yet confirmed by the server
+ */
+export interface LocalSaveRecord {
+  data: SaveGame;
+  updatedAt: number;
+  dirty: boolean;
+}
+
+/**
+ * A save that failed to load, kept aside so it can be inspected or recovered
+ */
+export interface QuarantinedSave {
+  key: string;
+  slot: string;
+  error: string;
+  quarantinedAt: number;
+  raw: unknown;
+}
+
+/**
+ * Result of pushing a save to the server
+ * conflict holds the server copy when it was newer than ours
+ */
+export interface PushResult {
+  ok: boolean;
+  conflict: Save | null;
+}
+
+/**
+ * Service for reading and writing save slots, locally and on the server
+ */
+export class SaveService {
+  private static readonly SLOT_PREFIX = 'pirateGame_save_';
+  private static readonly PROFILE_KEY = 'pirateGame_profile';
+  private static readonly ACTIVE_SLOT_KEY = 'pirateGame_activeSlot';
+  private static readonly QUARANTINE_PREFIX = 'pirateGame_quarantine_';
+  private static readonly LEGACY_KEYS = {
+    loot: 'pirateGame_loot',
+    hullLevel: 'pirateGame_hullLevel',
+    cannonLevel: 'pirateGame_cannonLevel',
+    speedLevel: 'pirateGame_speedLevel',
+  } as const;
+  
+  static readonly DEFAULT_SLOT = 'slot-1';
+  
+  /**
+   * Reads a cached save slot from localStorage without validating it
+   * The data may be from an older version or corrupt - see useProfile.loadSlot
+   */
+  static readLocal(slot: string): { data: unknown; updatedAt: number; dirty: boolean } | null {
+    try {
+      return getLocalStorage(`${this.SLOT_PREFIX}${slot}`);
+    } catch (error) {
+      // Unparseable JSON - hand back the raw string so it can be quarantined
+      return {
+        data: window.localStorage.getItem(`${this.SLOT_PREFIX}${slot}`),
+        updatedAt: 0,
+        dirty: false,
+      };
+    }
+  }
+  
+  /**
+   * Writes a save slot to localStorage
+   */
+  static writeLocal(slot: string, record: LocalSaveRecord): void {
+    setLocalStorage(`${this.SLOT_PREFIX}${slot}`, record);
+  }
+  
+  /**
+   * Removes a cached save slot from localStorage
+   */
+  static removeLocal(slot: string): void {
+    window.localStorage.removeItem(`${this.SLOT_PREFIX}${slot}`);
+  }
+  
+  /**
+   * Lists the names of all save slots cached in localStorage
+   */
+  static listLocalSlots(): string[] {
+    const slots: string[] = [];
+    for (let i = 0; i < window.localStorage.length; i++) {
+      const key = window.localStorage.key(i);
+      if (key && key.startsWith(this.SLOT_PREFIX)) {
+        slots.push(key.slice(this.SLOT_PREFIX.length));
+      }
+    }
+    return slots.sort();
+  }
+  
+  /**
+   * Moves a save that failed to load out of its slot so it isn't overwritten
+   */
+  static quarantine(slot: string, raw: unknown, error: string): QuarantinedSave {
+    const quarantinedAt = Date.now();
+    const entry: QuarantinedSave = {
+      key: `${this.QUARANTINE_PREFIX}${slot}_${quarantinedAt}`,
+      slot,
+      error,
+      quarantinedAt,
+      raw,
+    };
+    
+    setLocalStorage(entry.key, entry);
+    this.removeLocal(slot);
+    
+    console.error(`[SAVE] Quarantined save slot ${slot} as ${entry.key}: ${error}`);
+    return entry;
+  }
+  
+  /**
+   * Lists all quarantined saves on this device
+   */
+  static listQuarantined(): QuarantinedSave[] {
+    const entries: QuarantinedSave[] = [];
+    for (let i = 0; i < window.localStorage.length; i++) {
+      const key = window.localStorage.key(i);
+      if (key && key.startsWith(this.QUARANTINE_PREFIX)) {
+        try {
+          entries.push(getLocalStorage(key));
+        } catch (error) {
+          // Ignore - quarantine entries are only ever written by us
+        }
+      }
+    }
+    return entries.sort((a, b) => a.quarantinedAt - b.quarantinedAt);
+  }
+  
+  /**
+   * Reads the loose keys written before save slots existed (save version 0)
+   * Returns null if none of them are present
+   */
+  static readLegacy(): Record<keyof typeof SaveService.LEGACY_KEYS, unknown> | null {
+    const legacy = {
+      loot: this.readLegacyKey(this.LEGACY_KEYS.loot),
+      hullLevel: this.readLegacyKey(this.LEGACY_KEYS.hullLevel),
+      cannonLevel: this.readLegacyKey(this.LEGACY_KEYS.cannonLevel),
+      speedLevel: this.readLegacyKey(this.LEGACY_KEYS.speedLevel),
+    };
+    return Object.values(legacy).some(value => value !== null) ? legacy : null;
+  }
+  
+  // Unparseable JSON comes back as the raw string - it then fails migration and
+  // the legacy progress is quarantined like any other unreadable save
+  private static readLegacyKey(key: string): unknown {
+    try {
+      return getLocalStorage(key);
+    } catch (error) {
+      return window.localStorage.getItem(key);
+    }
+  }
+  
+  /**
+   * Removes the legacy keys once they have been migrated into a slot
+   */
+  static clearLegacy(): void {
+    Object.values(this.LEGACY_KEYS).forEach(key => window.localStorage.removeItem(key));
+  }
+  
+  /**
+   * Gets the cached profile, if one was created on this device
+   */
+  static readProfile(): Profile | null {
+    return getLocalStorage(this.PROFILE_KEY);
+  }
+  
+  static writeProfile(profile: Profile): void {
+    setLocalStorage(this.PROFILE_KEY, profile);
+  }
+  
+  static readActiveSlot(): string {
+    return getLocalStorage(this.ACTIVE_SLOT_KEY) ?? this.DEFAULT_SLOT;
+  }
+  
+  static writeActiveSlot(slot: string): void {
+    setLocalStorage(this.ACTIVE_SLOT_KEY, slot);
+  }
+  
+  /**
+   * Headers that prove a request is made by the profile's owner
+   */
+  static authHeaders(profile: Profile): Record<string, string> {
+    return { [PROFILE_TOKEN_HEADER]: profile.token };
+  }
+  
+  /**
+   * Whether a request failed because the server doesn't know the profile or its token -
+   * profiles don't outlive a server restart, and their ids are handed out again
+   */
+  static isProfileRejected(error: unknown): boolean {
+    return error instanceof Error && /^(401|404):/.test(error.message);
+  }
+  
+  /**
+   * Creates a new profile on the server - the response carries its token
+   */
+  static async createProfile(name: string): Promise<Profile> {
+    const res = await apiRequest('POST', '/api/profiles', { name });
+    return await res.json();
+  }
+  
+  /**
+   * Lists the save slots stored on the server for a profile
+   */
+  static async fetchSlots(profile: Profile): Promise<{ slot: string; updatedAt: number; version: number; loot: number }[]> {
+    const res = await apiRequest('GET', `/api/saves/${profile.id}`, undefined, this.authHeaders(profile));
+    return await res.json();
+  }
+  
+  /**
+   * Fetches a single save slot from the server, or null if it doesn't exist
+   */
+  static async fetchSave(profile: Profile, slot: string): Promise<Save | null> {
+    const res = await fetch(`/api/saves/${profile.id}/${encodeURIComponent(slot)}`, {
+      headers: this.authHeaders(profile),
+      credentials: "include",
+    });
+    if (res.status === 404) return null;
+    if (!res.ok) throw new Error(`${res.status}: ${res.statusText}`);
+    return await res.json();
+  }
+  
+  /**
+   * Uploads a save slot; a 409 means the server already has a newer copy
+   */
+  static async pushSave(profile: Profile, slot: string, record: { data: unknown; updatedAt: number }): Promise<PushResult> {
+    const res = await fetch(`/api/saves/${profile.id}/${encodeURIComponent(slot)}`, {
+      method: 'PUT',
+      headers: { "Content-Type": "application/json", ...this.authHeaders(profile) },
+      body: JSON.stringify({ data: record.data, updatedAt: record.updatedAt }),
+      credentials: "include",
+    });
+    
+    if (res.status === 409) {
+      return { ok: false, conflict: await res.json() };
+    }
+    if (!res.ok) {
+      throw new Error(`${res.status}: ${(await res.text()) || res.statusText}`);
+    }
+    return { ok: true, conflict: null };
+  }
+  
+  /**
+   * Deletes a save slot on the server
+   */
+  static async deleteSave(profile: Profile, slot: string): Promise<void> {
+    await apiRequest('DELETE', `/api/saves/${profile.id}/${encodeURIComponent(slot)}`, undefined, this.authHeaders(profile));
+  }
+}
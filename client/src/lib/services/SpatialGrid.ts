@@ -0,0 +1,229 @@
+/**
+ * An item stored in the grid - a circle on the XZ plane
+ */
+export interface SpatialEntry<T> {
+  id: string;
+  item: T;
+  x: number;
+  z: number;
+  radius: number;
+}
+
+// Internal bookkeeping for an entry - the cells it is stored in and the last query that saw it
+interface GridRecord<T> {
+  entry: SpatialEntry<T>;
+  cells: string[];
+  queryStamp: number;
+}
+
+/**
+ * Uniform grid spatial index for circles on the XZ plane (Y is ignored like the rest of the collision code)
+ * Each entry is stored in every cell its bounding box touches, so queries only visit the cells
+ * covered by the query shape instead of scanning every entry
+ */
+export class SpatialGrid<T> {
+  private cells = new Map<string, GridRecord<T>[]>();
+  private records = new Map<string, GridRecord<T>>();
+  private queryStamp = 0;
+
+  constructor(private readonly cellSize: number = 50) {}
+
+  /**
+   * Number of entries in the grid
+   */
+  get size(): number {
+    return this.records.size;
+  }
+
+  /**
+   * Removes every entry
+   */
+  clear(): void {
+    this.cells.clear();
+    this.records.clear();
+  }
+
+  /**
+   * Inserts an entry, or moves it if an entry with the same id already exists
+   */
+  set(id: string, item: T, x: number, z: number, radius: number = 0): void {
+    const existing = this.records.get(id);
+    const cells = this.getCellKeys(x - radius, z - radius, x + radius, z + radius);
+
+    if (existing) {
+      existing.entry.item = item;
+      existing.entry.x = x;
+      existing.entry.z = z;
+      existing.entry.radius = radius;
+
+      // Moving within the same cells is the common case for ships - nothing to re-bucket
+      if (existing.cells.length === cells.length && existing.cells.every((key, i) => key === cells[i])) {
+        return;
+      }
+
+      this.unlink(existing);
+      existing.cells = cells;
+      this.link(existing);
+      return;
+    }
+
+    const record: GridRecord<T> = { entry: { id, item, x, z, radius }, cells, queryStamp: 0 };
+    this.records.set(id, record);
+    this.link(record);
+  }
+
+  /**
+   * Removes an entry by id
+   */
+  remove(id: string): void {
+    const record = this.records.get(id);
+    if (!record) return;
+
+    this.unlink(record);
+    this.records.delete(id);
+  }
+
+  /**
+   * Gets an entry by id
+   */
+  get(id: string): SpatialEntry<T> | undefined {
+    return this.records.get(id)?.entry;
+  }
+
+  /**
+   * Gets every entry, in insertion order
+   */
+  values(): SpatialEntry<T>[] {
+    return Array.from(this.records.values(), record => record.entry);
+  }
+
+  /**
+   * Finds entries whose circle contains the point
+   */
+  queryPoint(x: number, z: number): SpatialEntry<T>[] {
+    return this.queryRadius(x, z, 0);
+  }
+
+  /**
+   * Finds entries whose circle overlaps a circle of the given radius
+   */
+  queryRadius(x: number, z: number, radius: number): SpatialEntry<T>[] {
+    const results: SpatialEntry<T>[] = [];
+    const stamp = ++this.queryStamp;
+
+    for (const key of this.getCellKeys(x - radius, z - radius, x + radius, z + radius)) {
+      const bucket = this.cells.get(key);
+      if (!bucket) continue;
+
+      for (const record of bucket) {
+        if (record.queryStamp === stamp) continue;
+        record.queryStamp = stamp;
+
+        const { entry } = record;
+        const dx = x - entry.x;
+        const dz = z - entry.z;
+        const reach = entry.radius + radius;
+        if (dx * dx + dz * dz < reach * reach) {
+          results.push(entry);
+        }
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Finds entries touched by a circle of the given radius swept from start to end,
+   * sorted by how far along the segment they are first touched
+   */
+  querySegment(x1: number, z1: number, x2: number, z2: number, radius: number = 0): SpatialEntry<T>[] {
+    const hits: { entry: SpatialEntry<T>; t: number }[] = [];
+    const stamp = ++this.queryStamp;
+
+    const dx = x2 - x1;
+    const dz = z2 - z1;
+    const lengthSquared = dx * dx + dz * dz;
+
+    // Walk the grid column by column, visiting only the rows the swept segment crosses in each column
+    const minColumn = Math.floor((Math.min(x1, x2) - radius) / this.cellSize);
+    const maxColumn = Math.floor((Math.max(x1, x2) + radius) / this.cellSize);
+
+    for (let column = minColumn; column <= maxColumn; column++) {
+      // Clip the segment to this column's x range (widened by the radius)
+      const columnMinX = column * this.cellSize - radius;
+      const columnMaxX = (column + 1) * this.cellSize + radius;
+      let zAtMin = z1;
+      let zAtMax = z2;
+      if (dx !== 0) {
+        const tA = Math.max(0, Math.min(1, (columnMinX - x1) / dx));
+        const tB = Math.max(0, Math.min(1, (columnMaxX - x1) / dx));
+        zAtMin = z1 + dz * tA;
+        zAtMax = z1 + dz * tB;
+      }
+      const minRow = Math.floor((Math.min(zAtMin, zAtMax) - radius) / this.cellSize);
+      const maxRow = Math.floor((Math.max(zAtMin, zAtMax) + radius) / this.cellSize);
+
+      for (let row = minRow; row <= maxRow; row++) {
+        const bucket = this.cells.get(`${column},${row}`);
+        if (!bucket) continue;
+
+        for (const record of bucket) {
+          if (record.queryStamp === stamp) continue;
+          record.queryStamp = stamp;
+
+          // Closest point on the segment to the entry center
+          const { entry } = record;
+          const t = lengthSquared === 0
+            ? 0
+            : Math.max(0, Math.min(1, ((entry.x - x1) * dx + (entry.z - z1) * dz) / lengthSquared));
+          const closestX = x1 + dx * t - entry.x;
+          const closestZ = z1 + dz * t - entry.z;
+          const reach = entry.radius + radius;
+          if (closestX * closestX + closestZ * closestZ < reach * reach) {
+            hits.push({ entry, t });
+          }
+        }
+      }
+    }
+
+    return hits.sort((a, b) => a.t - b.t).map(hit => hit.entry);
+  }
+
+  // Cell keys covering an axis-aligned box, in a stable order so they can be compared
+  private getCellKeys(minX: number, minZ: number, maxX: number, maxZ: number): string[] {
+    const keys: string[] = [];
+    const minColumn = Math.floor(minX / this.cellSize);
+    const maxColumn = Math.floor(maxX / this.cellSize);
+    const minRow = Math.floor(minZ / this.cellSize);
+    const maxRow = Math.floor(maxZ / this.cellSize);
+
+    for (let column = minColumn; column <= maxColumn; column++) {
+      for (let row = minRow; row <= maxRow; row++) {
+        keys.push(`${column},${row}`);
+      }
+    }
+    return keys;
+  }
+
+  private link(record: GridRecord<T>): void {
+    for (const key of record.cells) {
+      const bucket = this.cells.get(key);
+      if (bucket) {
+        bucket.push(record);
+      } else {
+        this.cells.set(key, [record]);
+      }
+    }
+  }
+
+  private unlink(record: GridRecord<T>): void {
+    for (const key of record.cells) {
+      const bucket = this.cells.get(key);
+      if (!bucket) continue;
+
+      const index = bucket.indexOf(record);
+      if (index !== -1) bucket.splice(index, 1);
+      if (bucket.length === 0) this.cells.delete(key);
+    }
+  }
+}
@@ -0,0 +1,82 @@
+import { createRng, hashSeed, RandomFn } from "../helpers/random";
+
+// Where every stream is - the seed plus how many numbers each stream has handed out
+export interface WorldRandomState {
+  seed: number;
+  draws: Record<string, number>;
+}
+
+/**
+ * Singleton that hands out seeded random streams for the current world
+ * Each subsystem draws from its own named stream, so e.g. firing more
+ * cannonballs never changes which power-up the next enemy drops
+ */
+export class WorldRandom {
+  private seed = 0;
+  private streams = new Map<string, RandomFn>();
+  private draws = new Map<string, number>();
+  
+  /**
+   * Starts every stream over from a new world seed
+   */
+  reset(seed: number): void {
+    this.seed = seed >>> 0;
+    this.streams.clear();
+    this.draws.clear();
+    console.log(`[WORLD] Random streams reset with seed ${this.seed}`);
+  }
+  
+  /**
+   * Gets the current world seed
+   */
+  getSeed(): number {
+    return this.seed;
+  }
+  
+  /**
+   * Gets the stream with the given name, creating it on first use
+   * Streams keep their position between calls until the next reset
+   */
+  stream(name: string): RandomFn {
+    let stream = this.streams.get(name);
+    if (!stream) {
+      const rng = createRng(this.seed ^ hashSeed(name));
+      this.draws.set(name, 0);
+      stream = () => {
+        this.draws.set(name, (this.draws.get(name) ?? 0) + 1);
+        return rng();
+      };
+      this.streams.set(name, stream);
+    }
+    return stream;
+  }
+  
+  /**
+   * Captures the position of every stream, e.g. for a replay that starts mid-voyage
+   */
+  getState(): WorldRandomState {
+    return { seed: this.seed, draws: Object.fromEntries(this.draws) };
+  }
+  
+  /**
+   * Puts every stream back where getState() found it by drawing the same numbers again
+   */
+  setState(state: WorldRandomState): void {
+    this.reset(state.seed);
+    Object.entries(state.draws).forEach(([name, count]) => {
+      const stream = this.stream(name);
+      for (let i = 0; i < count; i++) stream();
+    });
+  }
+  
+  /**
+   * Creates a stand-alone generator for one-off deterministic work
+   * (e.g. generating a map) without advancing any shared stream
+   */
+  fork(name: string): RandomFn {
+    return createRng(this.seed ^ hashSeed(name));
+  }
+}
+
+// Export a singleton instance for use throughout the application
+export const worldRandom = new WorldRandom();
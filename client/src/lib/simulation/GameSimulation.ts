@@ -0,0 +1,2096 @@
+import * as THREE from "three";
+import { createIdleControls, type ControlState } from "@shared/multiplayer";
+import { GUN_ELEVATION, HULL } from "../constants";
+import { RandomFn, randomRange, randomWeighted } from "../helpers/random";
+import { CollisionHandler, collisionHandler } from "../services/CollisionHandler";
+import { WorldRandom, WorldRandomState, worldRandom } from "../services/WorldRandom";
+import {
+  ActivePowerUp,
+  InventoryPowerUp,
+  PowerUpType,
+  getPowerUpDefinition
+} from "./powerUps";
+import {
+  applyCasualties,
+  changeMorale,
+  cloneCrew,
+  createCrew,
+  Crew,
+  CREW,
+  CrewRole,
+  CrewRoster,
+  getCrewEfficiency,
+  getCrewRole,
+  getCrewSize,
+  getDetectionRange,
+  getWages,
+  killCrew
+} from "./crew";
+import {
+  Boarding,
+  BOARDING,
+  CaptureChoice,
+  fightBoardingRound,
+  getDefenderMorale,
+  hasBroken,
+  isCrippled
+} from "./boarding";
+import {
+  cloneFleet,
+  createFleetShipId,
+  FLEET,
+  FleetCommand,
+  FleetShip,
+  EscortPerception,
+  getEscorts,
+  getFormationStation,
+  steerEscort
+} from "./fleet";
+import { AMMO, AmmoStock, AmmoType, createAmmoStock, getAmmoDefinition, hasAmmo } from "./ammunition";
+import {
+  cloneShipDamage,
+  createShipDamage,
+  damageSection,
+  getHitSection,
+  getSpeedFactor,
+  getTurnFactor,
+  locateHit,
+  repairDamage,
+  ShipDamage,
+  updateFlooding
+} from "./shipDamage";
+import {
+  createWind,
+  getSailTurnFactor,
+  getWindAt,
+  getWindDrive,
+  SAIL_TRIM,
+  updateWind,
+  Wind,
+  WindVector
+} from "./wind";
+import {
+  cloneWeather,
+  createWeather,
+  getWeatherAt,
+  updateWeather,
+  WeatherConditions,
+  WeatherState,
+  WeatherType
+} from "./weather";
+import { advanceClock, DAY, getDaylightVisibility, getTimeOfDay, isNight, TimeOfDay } from "./dayNight";
+import { advanceWavePhase, OCEAN, sampleOceanHeight, SeaSurface } from "./ocean";
+import { AIPerception, AISteering, cloneEnemyAI, createEnemyAI, EnemyAI, EnemyAIParams, updateEnemyAI } from "./enemyAI";
+import {
+  areHostile,
+  DEFAULT_ARCHETYPE,
+  ENEMY_ARCHETYPE_IDS,
+  EnemyArchetypeId,
+  getArchetype,
+  getArchetypeAIParams,
+  PLAYER_FACTION,
+  ShipFaction
+} from "./enemyArchetypes";
+import {
+  attacksPlayer,
+  cloneEncounterState,
+  createEncounterState,
+  ENCOUNTER,
+  EncounterState,
+  getWaveBudget,
+  getWaveThreat,
+  planWave,
+  ratePerformance
+} from "./encounterDirector";
+
+/**
+ * Game Simulation
+ * ---------------
+ * Owns every single-player entity - the player's ship, enemy ships, cannonballs and
+ * power-ups - and advances them in fixed steps, so the rules play out the same at
+ * any frame rate. Nothing in here touches React, the DOM or the stores: components
+ * read the state each frame and the SimulationRunner forwards events to the stores,
+ * which keeps the whole thing runnable under Node
+ */
+
+export const SIMULATION = {
+  STEP: 1 / 60,           // Length of one step in seconds
+  MAX_STEPS_PER_FRAME: 5, // After a long stall (background tab, GC) drop time instead of catching up in one burst
+};
+
+// The player is registered in the collision handler's ship index under this id
+export const PLAYER_SHIP_ID = 'player';
+
+// Player ship handling
+const PLAYER = {
+  TURN_RATE: 2.0,          // Radians per second
+  FORWARD_THRUST: 9,
+  BACKWARD_THRUST: 4.5,
+  DRAG: 0.95,              // Velocity kept each step
+  COLLISION_MARGIN: 5,     // Look-ahead buffer around the hull, also used when pushing out of a feature
+  ISLAND_BOUNCE: 5,        // Speed away from a feature the ship ended up inside
+  DEFLECTION_DAMPING: 0.8, // Speed kept when sliding past a feature
+  DEFLECTION_PUSH: 0.5,
+  REGEN_INTERVAL: 2,       // Seconds between health regeneration ticks
+  REGEN_AMOUNT: 1,
+  PICKUP_RADIUS: 5,        // Distance at which floating power-ups are collected
+};
+
+// Player broadside - every cannon on a side fires from the middle of the hull and the shots fan out
+// Each side is its own battery with its own reload; both share the gun elevation
+const BROADSIDE = {
+  HALF_WIDTH: 3.5,
+  HEIGHT: 0.8,
+  SPREAD: 0.2,             // Angle between the front/back cannons and the middle one
+  SPEED: 35,
+  LIFESPAN: 5,             // Long enough for a shot at full elevation to come down
+  BASE_COOLDOWN: 3,
+  COOLDOWN_PER_LEVEL: 0.2,
+  MIN_COOLDOWN: 1,
+};
+
+// Enemy ships - health, hull and guns come from their archetype (see enemyArchetypes.ts),
+// steering, ranges and speeds from their AI params (see enemyAI.ts)
+const ENEMY = {
+  RAM_RADIUS: 24,          // Sum of both ships' collision radii
+  RAM_DAMAGE: 10,
+  RAM_COOLDOWN: 1.5,
+  RAM_BOUNCE: 2.5,
+  ISLAND_BOUNCE: 0.5,
+  AIM_SPREAD: 0.2,
+  CANNON_HEIGHT: 1.0,
+  CANNON_SPEED: 35,
+  CANNON_LIFESPAN: 6,
+  RANGE_ALLOWANCE: 1.25,   // Drag slows the shot, so it is aimed as if the target were this much further away
+  COOLDOWN_MIN: 5,
+  COOLDOWN_RANDOM: 3,      // Up to this many extra seconds between shots
+};
+
+const CANNONBALL = {
+  HIT_RADIUS: 2,
+  GRAVITY: 9.8,
+  DRAG: 0.995,             // Horizontal velocity kept each step
+  DAMAGE: 20,
+  ENEMY_DAMAGE: 15,        // Enemy shots that hit the player - enemies hitting each other deal DAMAGE
+  ONE_SHOT_DAMAGE: 1000,   // Debug one-shot kill
+  WATER_DEPTH: -1,         // Depth below the surface at which a falling ball splashes
+};
+
+const UP = new THREE.Vector3(0, 1, 0);
+
+export const BATTERY_SIDES = ['port', 'starboard'] as const;
+export type BatterySide = typeof BATTERY_SIDES[number];
+
+// Which way a side's guns point from the ship's heading - starboard is to the right of the bow
+const SIDE_SIGN: Record<BatterySide, 1 | -1> = { port: -1, starboard: 1 };
+
+export interface Battery {
+  cooldown: number;    // Seconds until the side can fire again
+  cooldownMax: number; // Length of the current cooldown
+}
+
+export interface SimPlayer {
+  position: THREE.Vector3;
+  rotation: THREE.Euler;
+  velocity: THREE.Vector3;
+  health: number;
+  maxHealth: number;
+  batteries: Record<BatterySide, Battery>;
+  gunElevation: number; // Radians above the horizon, see GUN_ELEVATION
+  damage: ShipDamage;
+  repairing: boolean;   // Crew busy with repairs instead of the guns
+  sails: number;        // Canvas set, see SAIL_TRIM
+}
+
+export interface SimEnemy {
+  id: string;
+  archetype: EnemyArchetypeId;
+  faction: ShipFaction;       // The player's escorts sail under PLAYER_FACTION
+  position: THREE.Vector3;
+  rotation: THREE.Euler;
+  velocity: THREE.Vector3;
+  health: number;
+  maxHealth: number;
+  peacefulStartTimer: number; // Won't attack while positive
+  cannonCooldown: number;
+  collisionCooldown: number;  // Ramming only deals damage once per cooldown
+  crew: number;
+  maxCrew: number;
+  damage: ShipDamage;         // Masts and rudder scale speed and turning
+  lastHitBy: string | null;   // Ship whose shot last landed - flooding sinks are credited to it
+  spotted: boolean;           // Whether the player's lookouts have her in sight
+  burn: { time: number; sourceId: string } | null; // Seconds left alight and who set the fire
+  ai: EnemyAI;
+  aiParams: EnemyAIParams;
+}
+
+export interface SimCannonball {
+  id: string;
+  sourceId: string; // Ship that fired it
+  ammo: AmmoType;
+  origin: THREE.Vector3;
+  position: THREE.Vector3;
+  velocity: THREE.Vector3;
+  life: number;     // Seconds before it is removed
+}
+
+// A power-up floating where an enemy sank, waiting to be sailed through
+export interface SimPowerUpDrop {
+  id: string;
+  position: THREE.Vector3;
+  type: PowerUpType;
+  createdAt: number; // Simulation time
+}
+
+// What a cannonball hit when it was removed (null when it simply ran out of time)
+export type CannonballImpact = 'feature' | 'ship' | 'water' | null;
+
+export type SimulationEvent =
+  | { type: 'cannonFired'; shipId: string; cannonballs: SimCannonball[] }
+  | { type: 'cannonballRemoved'; cannonball: SimCannonball; impact: CannonballImpact }
+  | { type: 'shipDamaged'; shipId: string; amount: number; health: number }
+  | { type: 'shipSunk'; shipId: string; position: THREE.Vector3; sunkBy: string }
+  | { type: 'shipsCollided'; shipId: string; otherId: string }
+  | { type: 'nearCollision'; shipId: string }
+  | { type: 'lootGained'; amount: number }
+  | { type: 'ammoGained'; ammo: AmmoType; amount: number }
+  | { type: 'crewLost'; lost: Partial<CrewRoster> }
+  | { type: 'wagesDue'; amount: number }
+  | { type: 'boardingStarted'; enemyId: string }
+  | { type: 'boardingRepelled'; enemyId: string }
+  | { type: 'boardingWon'; enemyId: string }
+  | { type: 'shipCaptured'; enemyId: string; archetype: EnemyArchetypeId; choice: CaptureChoice }
+  | { type: 'escortLost'; shipId: string; archetype: EnemyArchetypeId }
+  | { type: 'fleetCommanded'; command: FleetCommand }
+  | { type: 'weatherChanged'; weather: WeatherType }
+  | { type: 'timeOfDayChanged'; timeOfDay: TimeOfDay }
+  | { type: 'shipVanished'; shipId: string; archetype: EnemyArchetypeId }
+  | { type: 'powerUpDropped'; drop: SimPowerUpDrop }
+  | { type: 'powerUpCollected'; drop: SimPowerUpDrop }
+  | { type: 'powerUpActivated'; powerUpType: PowerUpType }
+  | { type: 'powerUpExpired'; powerUpType: PowerUpType }
+  | { type: 'waveStarted'; wave: number; ships: EnemyArchetypeId[] }
+  | { type: 'waveCleared'; wave: number; duration: number };
+
+export type SimulationListener = (event: SimulationEvent) => void;
+
+// Progress and debug settings that live outside the simulation
+export interface SimulationConfig {
+  cannonLevel: number;
+  upgradeLevel: number;  // Upgrade levels bought across all stats - waves grow with it
+  oneShotKill: boolean;
+  encounters: boolean;   // Whether the wave director sends enemies
+  dayLength: number;     // Seconds from one midnight to the next - 0 stops the clock
+  waveHeight: number;    // The calm sea - the weather raises it from here
+  waveSpeed: number;
+}
+
+export interface GameSimulationOptions {
+  collisions?: CollisionHandler;
+  random?: WorldRandom;
+}
+
+type Vec3 = [number, number, number];
+
+// Everything needed to put a simulation back exactly where it was, as plain JSON
+// Vectors and rotations are stored as [x, y, z]
+export interface SimulationSnapshot {
+  tick: number;
+  time: number;
+  regenTimer: number;
+  payTimer: number;
+  nextEntityId: number;
+  random: WorldRandomState;
+  encounters: EncounterState;
+  config: SimulationConfig;
+  player: Omit<SimPlayer, 'position' | 'rotation' | 'velocity'> & { position: Vec3; rotation: Vec3; velocity: Vec3 };
+  enemies: (Omit<SimEnemy, 'position' | 'rotation' | 'velocity'> & { position: Vec3; rotation: Vec3; velocity: Vec3 })[];
+  cannonballs: (Omit<SimCannonball, 'origin' | 'position' | 'velocity'> & { origin: Vec3; position: Vec3; velocity: Vec3 })[];
+  drops: (Omit<SimPowerUpDrop, 'position'> & { position: Vec3 })[];
+  activePowerUps: ActivePowerUp[];
+  inventoryPowerUps: InventoryPowerUp[];
+  ammo: AmmoStock;
+  selectedAmmo: AmmoType;
+  crew: Crew;
+  boarding: Boarding | null;
+  fleet: FleetShip[];
+  fleetCommand: FleetCommand;
+  playerTarget: string | null;
+  wind: Wind;
+  weather: WeatherState;
+  clock: number;
+  wavePhase: number;
+}
+
+export interface NewEnemy {
+  id?: string;
+  archetype?: EnemyArchetypeId;
+  faction?: ShipFaction;              // Sails under another flag than its archetype's
+  position: THREE.Vector3;
+  rotation?: THREE.Euler;
+  peacefulStartTimer?: number;
+  aiParams?: Partial<EnemyAIParams>;  // On top of the archetype's
+}
+
+function createPlayer(maxHealth: number): SimPlayer {
+  return {
+    position: new THREE.Vector3(0, 0, 0),
+    rotation: new THREE.Euler(0, 0, 0),
+    velocity: new THREE.Vector3(0, 0, 0),
+    health: maxHealth,
+    maxHealth,
+    batteries: {
+      port: { cooldown: 0, cooldownMax: BROADSIDE.BASE_COOLDOWN },
+      starboard: { cooldown: 0, cooldownMax: BROADSIDE.BASE_COOLDOWN },
+    },
+    gunElevation: GUN_ELEVATION.DEFAULT,
+    damage: createShipDamage(),
+    repairing: false,
+    sails: SAIL_TRIM.DEFAULT,
+  };
+}
+
+const cloneBatteries = (batteries: Record<BatterySide, Battery>): Record<BatterySide, Battery> => ({
+  port: { ...batteries.port },
+  starboard: { ...batteries.starboard },
+});
+
+// Moves a cannonball on by one step - shared by the simulation and the aiming preview so they agree
+function stepCannonball(position: THREE.Vector3, velocity: THREE.Vector3, dt: number): void {
+  position.addScaledVector(velocity, dt);
+  velocity.y -= CANNONBALL.GRAVITY * dt;
+  velocity.x *= CANNONBALL.DRAG;
+  velocity.z *= CANNONBALL.DRAG;
+}
+
+// The model is turned 180° when rendered, so the player's bow points along -Z at heading 0
+const getPlayerBow = (heading: number) => ({ x: -Math.sin(heading), z: -Math.cos(heading) });
+
+// Fog, rain and darkness close in what a ship's lookouts can see, and so how far off it spots and loses a target
+const withVisibility = (params: EnemyAIParams, visibility: number): EnemyAIParams => visibility >= 1 ? params : {
+  ...params,
+  detectionRange: params.detectionRange * visibility,
+  loseRange: params.loseRange * visibility,
+};
+
+const toVec3 = (value: THREE.Vector3 | THREE.Euler): Vec3 => [value.x, value.y, value.z];
+
+// Wrap an angle difference into [-PI, PI]
+function wrapAngle(angle: number): number {
+  while (angle > Math.PI) angle -= Math.PI * 2;
+  while (angle < -Math.PI) angle += Math.PI * 2;
+  return angle;
+}
+
+/**
+ * Fixed-step simulation of a single-player game
+ * State is changed by step() and by the commands below; listeners hear about
+ * everything worth reacting to (sounds, crew animations, loot, effects)
+ */
+export class GameSimulation {
+  readonly collisions: CollisionHandler;
+  readonly random: WorldRandom;
+
+  private player: SimPlayer = createPlayer(100);
+  private enemies: SimEnemy[] = [];
+  private cannonballs: SimCannonball[] = [];
+  private drops: SimPowerUpDrop[] = [];
+
+  // Power-up arrays are replaced rather than mutated, so stores can mirror them by reference
+  private activePowerUps: ActivePowerUp[] = [];
+  private inventoryPowerUps: InventoryPowerUp[] = [];
+
+  // Shot in the magazine is progress like the inventory - replaced rather than mutated too
+  private ammo: AmmoStock = createAmmoStock();
+  private selectedAmmo: AmmoType = 'round';
+
+  // So is the crew, replaced whenever someone is lost, hired or paid
+  private crew: Crew = createCrew();
+  // And the fleet, replaced whenever a prize is taken
+  private fleet: FleetShip[] = [];
+  private fleetCommand: FleetCommand = 'follow';
+  private playerTarget: string | null = null; // Ship the player last hit - what the escorts attack
+  private boarding: Boarding | null = null;
+  // Replaced every step as it shifts, from the world's 'wind' stream
+  private wind: Wind;
+  // And the fronts it carries, from the 'weather' stream
+  private weather: WeatherState = createWeather();
+  private playerWeather: WeatherType = 'clear'; // Weather where the player is, to tell when it changes
+  // Time of day, 0 at midnight to 1 at the next
+  private clock = DAY.START;
+  private timeOfDay: TimeOfDay = getTimeOfDay(DAY.START);
+  private wavePhase = 0;
+
+  private input: ControlState = createIdleControls();
+  private config: SimulationConfig = {
+    cannonLevel: 1,
+    upgradeLevel: 0,
+    oneShotKill: false,
+    encounters: false,
+    dayLength: DAY.DEFAULT_LENGTH,
+    waveHeight: OCEAN.CALM_HEIGHT,
+    waveSpeed: OCEAN.CALM_SPEED,
+  };
+  private encounters: EncounterState = createEncounterState();
+  private listeners = new Set<SimulationListener>();
+
+  private tick = 0;
+  private time = 0;
+  private accumulator = 0;
+  private regenTimer = 0;
+  private payTimer = CREW.PAY_INTERVAL;
+  private nextEntityId = 1;
+
+  constructor({ collisions = new CollisionHandler(), random = new WorldRandom() }: GameSimulationOptions = {}) {
+    this.collisions = collisions;
+    this.random = random;
+    this.wind = createWind(random.stream('wind'));
+    this.collisions.updateShip(PLAYER_SHIP_ID, this.player.position.clone(), 0, HULL.PLAYER);
+  }
+
+  /**
+   * Advances by a frame's worth of time in whole steps, carrying the remainder to the next frame
+   * Returns the number of steps taken
+   */
+  advance(frameDelta: number): number {
+    const maxBacklog = SIMULATION.STEP * SIMULATION.MAX_STEPS_PER_FRAME;
+    this.accumulator = Math.min(this.accumulator + frameDelta, maxBacklog);
+
+    let steps = 0;
+    // The epsilon keeps a frame of exactly one step from landing a hair short
+    while (this.accumulator >= SIMULATION.STEP - 1e-9) {
+      this.step(SIMULATION.STEP);
+      this.accumulator -= SIMULATION.STEP;
+      steps++;
+    }
+    return steps;
+  }
+
+  /**
+   * Advances every entity by dt seconds
+   */
+  step(dt: number): void {
+    this.tick++;
+    this.time += dt;
+
+    this.wind = updateWind(this.wind, dt, this.random.stream('wind'));
+    this.updateWeather(dt);
+    this.updateClock(dt);
+    this.updateSea(dt);
+    this.updatePowerUpTimers(dt);
+    this.updatePlayer(dt);
+    this.updatePlayerDamage(dt);
+    this.updatePlayerCannons(dt);
+    this.updateBoarding(dt);
+    this.updateEncounters(dt);
+    this.updateEnemies(dt);
+    this.updateSighting();
+    this.updateCannonballs(dt);
+    this.collectPowerUpDrops();
+    this.regenerate(dt);
+    this.updatePayday(dt);
+  }
+
+  /**
+   * Sets the controls held for the following steps
+   */
+  setInput(input: ControlState): void {
+    this.input = { ...input };
+  }
+
+  configure(config: Partial<SimulationConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  /**
+   * Starts a fresh world from a seed - the player is back at the origin with the
+   * escorts on station, and every enemy, cannonball and drop is gone. The power-up
+   * inventory, magazine, crew and fleet are progress, so they stay
+   */
+  reset(seed: number): void {
+    this.random.reset(seed);
+
+    this.cannonballs.forEach(cannonball => this.emit({ type: 'cannonballRemoved', cannonball, impact: null }));
+    this.cannonballs = [];
+    this.clearEnemies();
+    this.resetEncounters();
+    this.activePowerUps = [];
+    this.boarding = null;
+    this.fleetCommand = 'follow';
+    this.playerTarget = null;
+    this.wind = createWind(this.random.stream('wind'));
+    this.weather = createWeather();
+    this.playerWeather = 'clear';
+    this.clock = DAY.START;
+    this.timeOfDay = getTimeOfDay(DAY.START);
+    this.wavePhase = 0;
+    this.input = createIdleControls();
+    this.tick = 0;
+    this.time = 0;
+    this.accumulator = 0;
+    this.regenTimer = 0;
+    this.payTimer = CREW.PAY_INTERVAL;
+    this.nextEntityId = 1;
+
+    this.resetPlayer(this.player.maxHealth);
+    this.launchEscorts();
+  }
+
+  /**
+   * Listens for simulation events - returns a function that stops listening
+   */
+  subscribe(listener: SimulationListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private emit(event: SimulationEvent): void {
+    this.listeners.forEach(listener => listener(event));
+  }
+
+  private createId(prefix: string): string {
+    return `${prefix}-${this.nextEntityId++}`;
+  }
+
+  /**
+   * Copies the whole state, random streams included. Input isn't part of it -
+   * whoever restores the snapshot supplies the controls from then on
+   */
+  getSnapshot(): SimulationSnapshot {
+    const { position, rotation, velocity, batteries, damage, ...player } = this.player;
+
+    return {
+      tick: this.tick,
+      time: this.time,
+      regenTimer: this.regenTimer,
+      payTimer: this.payTimer,
+      nextEntityId: this.nextEntityId,
+      random: this.random.getState(),
+      encounters: cloneEncounterState(this.encounters),
+      config: { ...this.config },
+      player: {
+        ...player,
+        position: toVec3(position),
+        rotation: toVec3(rotation),
+        velocity: toVec3(velocity),
+        batteries: cloneBatteries(batteries),
+        damage: cloneShipDamage(damage),
+      },
+      enemies: this.enemies.map(({ position, rotation, velocity, damage, burn, ai, aiParams, ...enemy }) => ({
+        ...enemy,
+        position: toVec3(position),
+        rotation: toVec3(rotation),
+        velocity: toVec3(velocity),
+        damage: cloneShipDamage(damage),
+        burn: burn && { ...burn },
+        ai: cloneEnemyAI(ai),
+        aiParams: { ...aiParams },
+      })),
+      cannonballs: this.cannonballs.map(({ origin, position, velocity, ...cannonball }) => ({
+        ...cannonball,
+        origin: toVec3(origin),
+        position: toVec3(position),
+        velocity: toVec3(velocity),
+      })),
+      drops: this.drops.map(({ position, ...drop }) => ({ ...drop, position: toVec3(position) })),
+      activePowerUps: this.activePowerUps.map(powerUp => ({ ...powerUp })),
+      inventoryPowerUps: this.inventoryPowerUps.map(powerUp => ({ ...powerUp })),
+      ammo: { ...this.ammo },
+      selectedAmmo: this.selectedAmmo,
+      crew: cloneCrew(this.crew),
+      boarding: this.boarding && { ...this.boarding },
+      fleet: cloneFleet(this.fleet),
+      fleetCommand: this.fleetCommand,
+      playerTarget: this.playerTarget,
+      wind: { ...this.wind },
+      weather: cloneWeather(this.weather),
+      clock: this.clock,
+      wavePhase: this.wavePhase,
+    };
+  }
+
+  /**
+   * Replaces the whole state with a snapshot. Cannonballs in flight are reported as
+   * removed first, but nothing is emitted for the restored entities - views should
+   * re-read the state (e.g. by remounting) after a restore
+   */
+  restore(snapshot: SimulationSnapshot): void {
+    this.cannonballs.forEach(cannonball => this.emit({ type: 'cannonballRemoved', cannonball, impact: null }));
+    this.clearEnemies();
+
+    this.random.setState(snapshot.random);
+    this.tick = snapshot.tick;
+    this.time = snapshot.time;
+    this.accumulator = 0;
+    this.regenTimer = snapshot.regenTimer;
+    this.payTimer = snapshot.payTimer;
+    this.nextEntityId = snapshot.nextEntityId;
+    this.encounters = cloneEncounterState(snapshot.encounters);
+    this.config = { ...snapshot.config };
+    this.input = createIdleControls();
+
+    const { position, rotation, velocity, batteries, damage, ...player } = snapshot.player;
+    this.player = {
+      ...player,
+      position: new THREE.Vector3(...position),
+      rotation: new THREE.Euler(...rotation),
+      velocity: new THREE.Vector3(...velocity),
+      batteries: cloneBatteries(batteries),
+      damage: cloneShipDamage(damage),
+    };
+    this.collisions.updateShip(PLAYER_SHIP_ID, this.player.position.clone(), this.player.rotation.y, HULL.PLAYER);
+
+    this.enemies = snapshot.enemies.map(({ position, rotation, velocity, damage, burn, ai, aiParams, ...enemy }) => ({
+      ...enemy,
+      position: new THREE.Vector3(...position),
+      rotation: new THREE.Euler(...rotation),
+      velocity: new THREE.Vector3(...velocity),
+      damage: cloneShipDamage(damage),
+      burn: burn && { ...burn },
+      ai: cloneEnemyAI(ai),
+      aiParams: { ...aiParams },
+    }));
+    this.enemies.forEach(enemy => this.collisions.updateShip(enemy.id, enemy.position.clone(), enemy.rotation.y, getArchetype(enemy.archetype).hull));
+
+    this.cannonballs = snapshot.cannonballs.map(({ origin, position, velocity, ...cannonball }) => ({
+      ...cannonball,
+      origin: new THREE.Vector3(...origin),
+      position: new THREE.Vector3(...position),
+      velocity: new THREE.Vector3(...velocity),
+    }));
+
+    this.drops = snapshot.drops.map(({ position, ...drop }) => ({ ...drop, position: new THREE.Vector3(...position) }));
+    this.drops.forEach(drop => this.collisions.addPowerUp(drop.id, drop.position));
+
+    this.activePowerUps = snapshot.activePowerUps.map(powerUp => ({ ...powerUp }));
+    this.inventoryPowerUps = snapshot.inventoryPowerUps.map(powerUp => ({ ...powerUp }));
+    this.ammo = { ...snapshot.ammo };
+    this.selectedAmmo = snapshot.selectedAmmo;
+    this.crew = cloneCrew(snapshot.crew);
+    this.boarding = snapshot.boarding && { ...snapshot.boarding };
+    this.fleet = cloneFleet(snapshot.fleet);
+    this.fleetCommand = snapshot.fleetCommand;
+    this.playerTarget = snapshot.playerTarget;
+    this.wind = { ...snapshot.wind };
+    this.weather = cloneWeather(snapshot.weather);
+    this.playerWeather = this.getWeatherAt(this.player.position).type;
+    this.clock = snapshot.clock;
+    this.timeOfDay = getTimeOfDay(snapshot.clock);
+    this.wavePhase = snapshot.wavePhase;
+  }
+
+  // Getters return the live state the views read each frame - don't modify it from outside
+
+  getTime(): number {
+    return this.time;
+  }
+
+  // Number of steps taken since the last reset
+  getTick(): number {
+    return this.tick;
+  }
+
+  getPlayer(): SimPlayer {
+    return this.player;
+  }
+
+  getEnemies(): SimEnemy[] {
+    return this.enemies;
+  }
+
+  getEnemy(id: string): SimEnemy | undefined {
+    return this.enemies.find(enemy => enemy.id === id);
+  }
+
+  getCannonballs(): SimCannonball[] {
+    return this.cannonballs;
+  }
+
+  getPowerUpDrops(): SimPowerUpDrop[] {
+    return this.drops;
+  }
+
+  getActivePowerUps(): ActivePowerUp[] {
+    return this.activePowerUps;
+  }
+
+  getInventory(): InventoryPowerUp[] {
+    return this.inventoryPowerUps;
+  }
+
+  getEncounters(): EncounterState {
+    return this.encounters;
+  }
+
+  getAmmo(): AmmoStock {
+    return this.ammo;
+  }
+
+  getSelectedAmmo(): AmmoType {
+    return this.selectedAmmo;
+  }
+
+  /**
+   * Loads the guns with another type of shot from the next volley on - ignored if there is none left
+   */
+  selectAmmo(type: AmmoType): void {
+    if (!hasAmmo(this.ammo, type)) return;
+    this.selectedAmmo = type;
+  }
+
+  // Adds shot to the magazine (bought or salvaged)
+  addAmmo(type: AmmoType, amount: number): void {
+    if (type === 'round' || amount <= 0) return;
+    this.ammo = { ...this.ammo, [type]: this.ammo[type] + amount };
+  }
+
+  /**
+   * Replaces the magazine (e.g. when a save is loaded)
+   */
+  setAmmo(ammo: AmmoStock): void {
+    this.ammo = { ...ammo };
+    if (!hasAmmo(this.ammo, this.selectedAmmo)) this.selectedAmmo = 'round';
+  }
+
+  getCrew(): Crew {
+    return this.crew;
+  }
+
+  /**
+   * Replaces the crew (e.g. when a save is loaded)
+   */
+  setCrew(crew: Crew): void {
+    this.crew = cloneCrew(crew);
+  }
+
+  /**
+   * Signs on new hands, as many as there are berths for - returns how many came aboard
+   */
+  hireCrew(role: CrewRole, count: number = 1): number {
+    const hired = Math.max(0, Math.min(count, getCrewRole(role).berths - this.crew.roster[role]));
+    if (hired > 0) {
+      this.crew = { ...this.crew, roster: { ...this.crew.roster, [role]: this.crew.roster[role] + hired } };
+    }
+    return hired;
+  }
+
+  // Puts hands ashore
+  dismissCrew(role: CrewRole, count: number = 1): void {
+    const dismissed = Math.min(count, this.crew.roster[role]);
+    if (dismissed <= 0) return;
+    this.crew = { ...this.crew, roster: { ...this.crew.roster, [role]: this.crew.roster[role] - dismissed } };
+  }
+
+  /**
+   * Settles a payday - whoever holds the purse says whether the wages were paid
+   */
+  settleWages(paid: boolean): void {
+    this.crew = changeMorale(this.crew, paid ? CREW.MORALE_PAID : CREW.MORALE_UNPAID);
+  }
+
+  getFleet(): FleetShip[] {
+    return this.fleet;
+  }
+
+  /**
+   * Replaces the fleet (e.g. when a save is loaded)
+   */
+  setFleet(fleet: FleetShip[]): void {
+    this.fleet = cloneFleet(fleet);
+  }
+
+  getFleetCommand(): FleetCommand {
+    return this.fleetCommand;
+  }
+
+  /**
+   * Adds a ship to the fleet - she joins the escorts if there is room among them
+   */
+  addFleetShip(archetype: EnemyArchetypeId): FleetShip {
+    const ship = { id: createFleetShipId(this.fleet), archetype, escort: getEscorts(this.fleet).length < FLEET.MAX_ESCORTS };
+    this.fleet = [...this.fleet, ship];
+    return ship;
+  }
+
+  /**
+   * Chooses whether a ship sails as an escort from the next voyage on - returns
+   * false if there are already as many escorts as the fleet can keep in formation
+   */
+  setEscort(id: string, escort: boolean): boolean {
+    if (escort && getEscorts(this.fleet).length >= FLEET.MAX_ESCORTS) return false;
+    this.fleet = this.fleet.map(ship => ship.id === id ? { ...ship, escort } : ship);
+    return true;
+  }
+
+  /**
+   * Puts the escorts to sea on station around the player, replacing any already afloat
+   */
+  launchEscorts(): void {
+    this.enemies.filter(enemy => enemy.faction === PLAYER_FACTION).forEach(enemy => this.removeEnemy(enemy.id));
+
+    const { position, rotation } = this.player;
+    getEscorts(this.fleet).forEach((ship, index) => {
+      const station = getFormationStation(index, position, getPlayerBow(rotation.y));
+      this.addEnemy({
+        id: ship.id,
+        archetype: ship.archetype,
+        faction: PLAYER_FACTION,
+        position: new THREE.Vector3(station.x, 0, station.z),
+        rotation: new THREE.Euler(0, rotation.y + Math.PI, 0), // Enemy heading convention - parallel to the player
+      });
+    });
+  }
+
+  /**
+   * Orders every escort - each starts the order afresh from where it is
+   */
+  commandFleet(command: FleetCommand): void {
+    this.fleetCommand = command;
+    for (const escort of this.enemies) {
+      if (escort.faction === PLAYER_FACTION) {
+        escort.ai = createEnemyAI({ x: escort.position.x, z: escort.position.z });
+      }
+    }
+    this.emit({ type: 'fleetCommanded', command });
+  }
+
+  // The player and their escorts - shots from one side don't hit the same side
+  private isPlayerSide(id: string): boolean {
+    return id === PLAYER_SHIP_ID || this.getEnemy(id)?.faction === PLAYER_FACTION;
+  }
+
+  getWind(): Wind {
+    return this.wind;
+  }
+
+  // The wind as felt at a spot
+  getWindAt(position: THREE.Vector3): WindVector {
+    return getWindAt(this.wind, position.x, position.z);
+  }
+
+  getWeather(): WeatherState {
+    return this.weather;
+  }
+
+  // The weather at a spot, blended from the fronts over it
+  getWeatherAt(position: THREE.Vector3): WeatherConditions & { type: WeatherType } {
+    return getWeatherAt(this.weather, position.x, position.z);
+  }
+
+  // Fronts blow in around the player, wherever they sail
+  private updateWeather(dt: number): void {
+    const { position } = this.player;
+    this.weather = updateWeather(this.weather, dt, this.wind, position.x, position.z, this.random.stream('weather'));
+
+    const { type } = this.getWeatherAt(position);
+    if (type !== this.playerWeather) {
+      this.playerWeather = type;
+      this.emit({ type: 'weatherChanged', weather: type });
+    }
+  }
+
+  getClock(): number {
+    return this.clock;
+  }
+
+  // Share of the clear daylight sighting distance at a spot - weather and darkness both close it in
+  getVisibilityAt(position: THREE.Vector3): number {
+    return this.getWeatherAt(position).visibility * getDaylightVisibility(this.clock);
+  }
+
+  // The sea the player sees - the calm sea's waves, raised by the weather where they are
+  getSeaSurface(): SeaSurface {
+    const { seaHeight } = this.getWeatherAt(this.player.position);
+    return { phase: this.wavePhase, height: this.config.waveHeight * seaHeight };
+  }
+
+  getOceanHeightAt(x: number, z: number): number {
+    const { phase, height } = this.getSeaSurface();
+    return sampleOceanHeight(x, z, phase, height);
+  }
+
+  // Moves only the waves, at the calm sea's speed - in multiplayer the simulation isn't
+  // stepped and the server doesn't send the sea, so this keeps the surface from freezing
+  advanceSea(dt: number): void {
+    this.wavePhase = advanceWavePhase(this.wavePhase, dt, this.config.waveSpeed);
+  }
+
+  private updateSea(dt: number): void {
+    const { seaSpeed } = this.getWeatherAt(this.player.position);
+    this.wavePhase = advanceWavePhase(this.wavePhase, dt, this.config.waveSpeed * seaSpeed);
+  }
+
+  // The sun comes up and goes down; ghost ships don't outlast the night
+  private updateClock(dt: number): void {
+    this.clock = advanceClock(this.clock, dt, this.config.dayLength);
+
+    const timeOfDay = getTimeOfDay(this.clock);
+    if (timeOfDay !== this.timeOfDay) {
+      this.timeOfDay = timeOfDay;
+      this.emit({ type: 'timeOfDayChanged', timeOfDay });
+    }
+
+    if (isNight(this.clock)) return;
+    this.enemies
+      .filter(enemy => getArchetype(enemy.archetype).nightOnly && enemy.id !== this.boarding?.enemyId)
+      .forEach(enemy => {
+        this.removeEnemy(enemy.id);
+        this.emit({ type: 'shipVanished', shipId: enemy.id, archetype: enemy.archetype });
+      });
+  }
+
+  getBoarding(): Boarding | null {
+    return this.boarding;
+  }
+
+  /**
+   * Puts the player back at the origin with full health and loaded cannons
+   */
+  resetPlayer(maxHealth: number): void {
+    this.player = createPlayer(maxHealth);
+    this.regenTimer = 0;
+    this.collisions.updateShip(PLAYER_SHIP_ID, this.player.position.clone(), 0, HULL.PLAYER);
+  }
+
+  /**
+   * Damages the player - an active shield reduces the damage. Given where the hit
+   * landed, the section there takes its share too
+   */
+  damagePlayer(amount: number, point?: THREE.Vector3): void {
+    const shield = this.getPowerUpValue('shield');
+    const damage = shield !== null ? Math.floor(amount * shield) : amount;
+    const player = this.player;
+
+    player.health = Math.max(0, player.health - damage);
+    if (point) {
+      const hit = locateHit(point, player.position, getPlayerBow(player.rotation.y));
+      damageSection(player.damage, getHitSection(hit, HULL.PLAYER.HALF_LENGTH), damage / player.maxHealth, hit.height);
+
+      // Casualties come from the 'combat' stream, the same as the ones the player's grape shot causes
+      const { crew, lost } = applyCasualties(this.crew, damage, this.random.stream('combat'));
+      if (Object.keys(lost).length > 0) {
+        this.crew = crew;
+        this.emit({ type: 'crewLost', lost });
+      }
+    }
+    this.emit({ type: 'shipDamaged', shipId: PLAYER_SHIP_ID, amount: damage, health: player.health });
+  }
+
+  healPlayer(amount: number): void {
+    this.player.health = Math.min(this.player.maxHealth, this.player.health + amount);
+  }
+
+  // A shipyard's repair - the hull made good, every section sound again and the hold pumped dry
+  repairShip(): void {
+    this.player.health = this.player.maxHealth;
+    this.player.damage = createShipDamage();
+  }
+
+  private updatePlayer(dt: number): void {
+    const player = this.player;
+    const input = this.input;
+    const hull = HULL.PLAYER;
+
+    // Lashed alongside the ship being boarded - nobody is at the helm
+    if (this.boarding) {
+      player.velocity.set(0, 0, 0);
+      return;
+    }
+
+    // The sailors set and take in canvas while the keys are held
+    const sailors = getCrewEfficiency(this.crew, 'sailor');
+    if (input.raiseSails) player.sails = Math.min(1, player.sails + SAIL_TRIM.RATE * sailors * dt);
+    if (input.lowerSails) player.sails = Math.max(0, player.sails - SAIL_TRIM.RATE * sailors * dt);
+
+    // Steering - a damaged rudder answers slowly, and so does a short-handed crew; less canvas answers quicker
+    const turnRate = PLAYER.TURN_RATE * getTurnFactor(player.damage) * sailors * getSailTurnFactor(player.sails);
+    if (input.leftward) player.rotation.y += turnRate * dt;
+    if (input.rightward) player.rotation.y -= turnRate * dt;
+    const heading = player.rotation.y;
+
+    const bow = getPlayerBow(heading);
+    const direction = new THREE.Vector3(bow.x, 0, bow.z);
+    // Lost masts and a flooded hold cut the thrust, and with it the top speed
+    const speedMultiplier = (this.getPowerUpValue('speed_boost') ?? 1) * getSpeedFactor(player.damage);
+    // Sailing ahead takes wind in the sails - the angle to it and the canvas set decide how much
+    const windDrive = getWindDrive(heading + Math.PI, this.getWindAt(player.position)) * player.sails;
+
+    const previousSpeed = player.velocity.length();
+    const velocity = player.velocity.clone();
+    if (input.forward) velocity.addScaledVector(direction, PLAYER.FORWARD_THRUST * speedMultiplier * windDrive * dt);
+    if (input.backward) velocity.addScaledVector(direction, -PLAYER.BACKWARD_THRUST * speedMultiplier * dt);
+    velocity.multiplyScalar(PLAYER.DRAG);
+
+    // The hull is an oriented box, so the ship can sail alongside a coast closer than it can ram it bow-first
+    const position = player.position;
+    const futurePosition = position.clone().addScaledVector(velocity, dt);
+    const currentCollision = this.collisions.checkHullCollision(position, heading, hull);
+    const futureCollision = this.collisions.checkHullCollision(futurePosition, heading, hull, PLAYER.COLLISION_MARGIN);
+
+    if (futureCollision && !currentCollision) {
+      this.emit({ type: 'nearCollision', shipId: PLAYER_SHIP_ID });
+    }
+
+    let newPosition = futurePosition;
+    if (currentCollision) {
+      // Already inside a feature - push out and bounce away from its center
+      newPosition = this.collisions.calculateSafeHullPosition(position, heading, currentCollision, hull, PLAYER.COLLISION_MARGIN);
+      velocity
+        .subVectors(position, new THREE.Vector3(currentCollision.x, 0, currentCollision.z))
+        .normalize()
+        .multiplyScalar(PLAYER.ISLAND_BOUNCE);
+    } else if (futureCollision) {
+      // About to hit a feature - slide off sideways instead of stopping dead
+      const toFeature = new THREE.Vector3(futureCollision.x - position.x, 0, futureCollision.z - position.z).normalize();
+      const deflectionAngle = Math.atan2(toFeature.x, toFeature.z) + Math.PI / 2;
+      const deflection = new THREE.Vector3(Math.sin(deflectionAngle), 0, Math.cos(deflectionAngle));
+
+      velocity.copy(deflection).multiplyScalar(previousSpeed * PLAYER.DEFLECTION_DAMPING);
+      newPosition = position.clone().addScaledVector(deflection, PLAYER.DEFLECTION_PUSH);
+    }
+
+    // Last resort if the response still left the hull inside something
+    const stuckIn = this.collisions.checkHullCollision(newPosition, heading, hull);
+    if (stuckIn) {
+      newPosition = this.collisions.calculateSafeHullPosition(newPosition, heading, stuckIn, hull, PLAYER.COLLISION_MARGIN);
+      velocity.set(0, 0, 0);
+    }
+
+    player.position.copy(newPosition);
+    player.velocity.copy(velocity);
+    this.collisions.updateShip(PLAYER_SHIP_ID, player.position.clone(), heading, hull);
+  }
+
+  // Water comes in through holes below the waterline, and the crew repair while the key is held
+  private updatePlayerDamage(dt: number): void {
+    const player = this.player;
+    if (player.health <= 0) {
+      player.repairing = false;
+      return;
+    }
+
+    // Flooding is a slow drain rather than a hit - no shield, no event - and so is riding out a storm
+    const storm = this.getWeatherAt(player.position).stormDamage * dt;
+    player.health = Math.max(0, player.health - updateFlooding(player.damage, dt) - storm);
+    player.repairing = this.input.repair && !this.boarding && repairDamage(player.damage, dt);
+  }
+
+  private updatePlayerCannons(dt: number): void {
+    const { batteries, repairing } = this.player;
+    const input = this.input;
+
+    if (input.raiseGuns !== input.lowerGuns) {
+      const change = (input.raiseGuns ? 1 : -1) * GUN_ELEVATION.RATE * dt;
+      this.player.gunElevation = Math.max(GUN_ELEVATION.MIN, Math.min(GUN_ELEVATION.MAX, this.player.gunElevation + change));
+    }
+
+    // Hands at the pumps or fighting on another deck aren't reloading, let alone firing
+    if (this.boarding) return;
+    if (!repairing) {
+      for (const side of BATTERY_SIDES) {
+        batteries[side].cooldown = Math.max(0, batteries[side].cooldown - dt);
+      }
+    }
+
+    // Fire fires whichever sides are loaded, so one side reloading doesn't hold up the other
+    const sides = BATTERY_SIDES.filter(side => batteries[side].cooldown <= 0 && (
+      input.fire || (side === 'port' ? input.firePort : input.fireStarboard)
+    ));
+    if (sides.length > 0) {
+      this.fireBatteries(sides);
+    }
+  }
+
+  // Where a side's shots leave the hull and the direction of its middle cannon
+  private getBatteryAim(side: BatterySide): { origin: THREE.Vector3; outward: THREE.Vector3 } {
+    const { position, rotation, gunElevation } = this.player;
+    const sign = SIDE_SIGN[side];
+    const bow = getPlayerBow(rotation.y);
+
+    const beam = new THREE.Vector3(-bow.z * sign, 0, bow.x * sign);
+
+    const origin = position.clone().addScaledVector(beam, BROADSIDE.HALF_WIDTH).setY(BROADSIDE.HEIGHT);
+    const outward = beam.multiplyScalar(Math.cos(gunElevation)).setY(Math.sin(gunElevation));
+
+    return { origin, outward };
+  }
+
+  // Fire the given sides together - front, middle and back cannons on each, two more with triple shot
+  private fireBatteries(sides: BatterySide[]): void {
+    let cooldown = Math.max(BROADSIDE.MIN_COOLDOWN, BROADSIDE.BASE_COOLDOWN - this.config.cannonLevel * BROADSIDE.COOLDOWN_PER_LEVEL);
+    cooldown *= this.getPowerUpValue('rapid_fire') ?? 1;
+    cooldown /= getCrewEfficiency(this.crew, 'gunner');
+
+    // A triple shot is used up per volley, however many sides fire in it
+    const tripleShot = this.hasPowerUp('triple_shot');
+    if (tripleShot) this.consumeShot('triple_shot');
+
+    // -1 angles the shot toward the bow, 1 toward the stern
+    const spreads = tripleShot ? [-1, 0, 1, -1, 1] : [-1, 0, 1];
+    const range = this.getPowerUpValue('long_range') ?? 1;
+    const cannonballs: SimCannonball[] = [];
+
+    for (const side of sides) {
+      this.player.batteries[side] = { cooldown, cooldownMax: cooldown };
+
+      const { origin, outward } = this.getBatteryAim(side);
+      for (const spread of spreads) {
+        const ammo = this.takeAmmo();
+        const definition = getAmmoDefinition(ammo);
+        const aim = outward.clone().applyAxisAngle(UP, spread * BROADSIDE.SPREAD * definition.spread * SIDE_SIGN[side]);
+        cannonballs.push(this.spawnCannonball(
+          PLAYER_SHIP_ID, origin, aim, BROADSIDE.SPEED * definition.speed * range, BROADSIDE.LIFESPAN * range, ammo
+        ));
+      }
+    }
+
+    this.emit({ type: 'cannonFired', shipId: PLAYER_SHIP_ID, cannonballs });
+  }
+
+  // Loads one cannon with the selected shot, going back to round shot once the last of it is gone
+  private takeAmmo(): AmmoType {
+    const ammo = this.selectedAmmo;
+    if (ammo === 'round') return ammo;
+
+    if (this.ammo[ammo] > 0) {
+      this.ammo = { ...this.ammo, [ammo]: this.ammo[ammo] - 1 };
+    }
+    if (this.ammo[ammo] === 0) {
+      this.selectedAmmo = 'round';
+    }
+    return ammo;
+  }
+
+  /**
+   * Where the middle cannon of a side would put its ball if it fired now, as points
+   * along the flight ending where it hits the water or a feature. Ships are ignored -
+   * they move before the ball gets there
+   */
+  predictBatteryShot(side: BatterySide): THREE.Vector3[] {
+    const { origin, outward } = this.getBatteryAim(side);
+    const range = this.getPowerUpValue('long_range') ?? 1;
+    const position = origin.clone();
+    const velocity = outward.multiplyScalar(BROADSIDE.SPEED * getAmmoDefinition(this.selectedAmmo).speed * range);
+    const points = [position.clone()];
+    const sea = this.getSeaSurface();
+
+    for (let life = BROADSIDE.LIFESPAN * range; life > 0; life -= SIMULATION.STEP) {
+      const previous = position.clone();
+      stepCannonball(position, velocity, SIMULATION.STEP);
+      points.push(position.clone());
+
+      const surface = sampleOceanHeight(position.x, position.z, sea.phase, sea.height);
+      if (position.y < surface + CANNONBALL.WATER_DEPTH || this.collisions.checkSegmentCollision(previous, position, CANNONBALL.HIT_RADIUS)) {
+        break;
+      }
+    }
+
+    return points;
+  }
+
+  // The crew want paying every so often at sea - the purse isn't simulated, so the payday is only announced
+  private updatePayday(dt: number): void {
+    if (this.player.health <= 0) return;
+
+    this.payTimer -= dt;
+    if (this.payTimer > 0) return;
+
+    this.payTimer = CREW.PAY_INTERVAL;
+    const amount = getWages(this.crew.roster);
+    if (amount > 0) {
+      this.emit({ type: 'wagesDue', amount });
+    }
+  }
+
+  private regenerate(dt: number): void {
+    this.regenTimer += dt;
+    if (this.regenTimer < PLAYER.REGEN_INTERVAL) return;
+
+    this.regenTimer = 0;
+    // Sunk ships don't heal
+    if (this.player.health > 0 && this.player.health < this.player.maxHealth) {
+      this.healPlayer(PLAYER.REGEN_AMOUNT);
+    }
+  }
+
+  /**
+   * The nearest crippled enemy close enough to board, if the player is free to board one
+   */
+  findBoardingTarget(): SimEnemy | null {
+    if (this.boarding || this.player.health <= 0 || getCrewSize(this.crew.roster) === 0) return null;
+
+    let nearest: SimEnemy | null = null;
+    let nearestDistance = BOARDING.RANGE;
+    for (const enemy of this.enemies) {
+      if (enemy.faction === PLAYER_FACTION) continue;
+      const distance = enemy.position.distanceTo(this.player.position);
+      if (distance <= nearestDistance && isCrippled(enemy.health, enemy.maxHealth, enemy.damage.sections.masts)) {
+        nearest = enemy;
+        nearestDistance = distance;
+      }
+    }
+    return nearest;
+  }
+
+  // Grapple a crippled ship when the board key is pressed, then fight for her a round at a time
+  private updateBoarding(dt: number): void {
+    if (!this.boarding) {
+      const target = this.input.board ? this.findBoardingTarget() : null;
+      if (target) {
+        this.boarding = {
+          enemyId: target.id,
+          phase: 'fighting',
+          roundTimer: BOARDING.ROUND_TIME,
+          attackers: getCrewSize(this.crew.roster),
+          defenders: target.crew,
+        };
+        this.emit({ type: 'boardingStarted', enemyId: target.id });
+      }
+      return;
+    }
+
+    // Another ship's shot may have sunk her under the boarders' feet
+    const boarding = this.boarding;
+    const enemy = this.getEnemy(boarding.enemyId);
+    if (!enemy || this.player.health <= 0) {
+      this.boarding = null;
+      return;
+    }
+    if (boarding.phase === 'won') return;
+
+    boarding.roundTimer -= dt;
+    if (boarding.roundTimer > 0) return;
+    boarding.roundTimer = BOARDING.ROUND_TIME;
+
+    // Deaths come from the 'combat' stream, like every other casualty
+    const combatRandom = this.random.stream('combat');
+    const { attackersLost, defendersLost } = fightBoardingRound(
+      { fighters: getCrewSize(this.crew.roster), morale: this.crew.morale },
+      { fighters: enemy.crew, morale: getDefenderMorale(enemy.health, enemy.maxHealth) },
+      combatRandom
+    );
+
+    enemy.crew -= defendersLost;
+    if (attackersLost > 0) {
+      const { crew, lost } = killCrew(this.crew, attackersLost, combatRandom);
+      this.crew = crew;
+      this.emit({ type: 'crewLost', lost });
+    }
+
+    if (hasBroken(getCrewSize(this.crew.roster), boarding.attackers)) {
+      this.boarding = null;
+      this.crew = changeMorale(this.crew, BOARDING.MORALE_REPELLED);
+      this.emit({ type: 'boardingRepelled', enemyId: enemy.id });
+    } else if (hasBroken(enemy.crew, boarding.defenders)) {
+      boarding.phase = 'won';
+      this.crew = changeMorale(this.crew, BOARDING.MORALE_WON);
+      this.emit({ type: 'boardingWon', enemyId: enemy.id });
+    }
+  }
+
+  /**
+   * Decides what becomes of a ship the boarders have taken. Returns false if there
+   * is no taken ship waiting, or she can't be sailed as a prize
+   */
+  resolveCapture(choice: CaptureChoice): boolean {
+    const enemy = this.boarding?.phase === 'won' ? this.getEnemy(this.boarding.enemyId) : undefined;
+    if (!enemy) return false;
+
+    const { loot, prize } = getArchetype(enemy.archetype);
+    if (choice === 'prize' && !prize) return false;
+
+    this.boarding = null;
+
+    if (choice === 'plunder') {
+      // Everything in her hold, then she goes down with nothing left to salvage
+      const lootRandom = this.random.stream('loot');
+      const gold = Math.floor(randomRange(lootRandom, loot.gold.min, loot.gold.max) * BOARDING.PLUNDER_GOLD);
+      this.emit({ type: 'lootGained', amount: gold });
+      if (loot.ammo) {
+        const amount = loot.ammo.max * BOARDING.PLUNDER_AMMO;
+        this.addAmmo(loot.ammo.type, amount);
+        this.emit({ type: 'ammoGained', ammo: loot.ammo.type, amount });
+      }
+
+      this.removeEnemy(enemy.id);
+      this.emit({ type: 'shipSunk', shipId: enemy.id, position: enemy.position.clone(), sunkBy: PLAYER_SHIP_ID });
+    } else if (choice === 'scuttle') {
+      this.sinkEnemy(enemy, PLAYER_SHIP_ID);
+      this.hireCrew('sailor', Math.floor(enemy.crew * BOARDING.PRESSED_FRACTION));
+    } else {
+      // She sails off under a prize crew to wait for the player in port
+      this.removeEnemy(enemy.id);
+      this.dismissCrew('sailor', BOARDING.PRIZE_CREW);
+      this.addFleetShip(enemy.archetype);
+    }
+
+    this.emit({ type: 'shipCaptured', enemyId: enemy.id, archetype: enemy.archetype, choice });
+    return true;
+  }
+
+  /**
+   * Adds an enemy ship - it faces along its rotation and starts at its archetype's full health
+   */
+  addEnemy({ id, archetype = DEFAULT_ARCHETYPE, faction, position, rotation, peacefulStartTimer = 0, aiParams }: NewEnemy): SimEnemy {
+    const definition = getArchetype(archetype);
+    const enemy: SimEnemy = {
+      id: id ?? this.createId('enemy'),
+      archetype,
+      faction: faction ?? definition.faction,
+      // Ships sit at Y 0 - the model adds its own height offset
+      position: new THREE.Vector3(position.x, 0, position.z),
+      rotation: rotation ? rotation.clone() : new THREE.Euler(0, 0, 0),
+      velocity: new THREE.Vector3(0, 0, 0),
+      health: definition.health,
+      maxHealth: definition.health,
+      peacefulStartTimer,
+      cannonCooldown: 0,
+      collisionCooldown: 0,
+      crew: definition.crew,
+      maxCrew: definition.crew,
+      damage: createShipDamage(),
+      lastHitBy: null,
+      spotted: false,
+      burn: null,
+      ai: createEnemyAI({ x: position.x, z: position.z }),
+      aiParams: { ...getArchetypeAIParams(archetype), ...aiParams },
+    };
+
+    this.enemies = [...this.enemies, enemy];
+    this.collisions.updateShip(enemy.id, enemy.position.clone(), enemy.rotation.y, definition.hull);
+    return enemy;
+  }
+
+  /**
+   * Spawns enemies 70-90 units from the player, facing them
+   * Archetypes are picked by their spawn weights from the given ones (all by default)
+   * Positions and archetypes come from the world's 'enemies' stream unless a generator is injected
+   */
+  spawnEnemies(
+    count: number,
+    random: RandomFn = this.random.stream('enemies'),
+    archetypes: readonly EnemyArchetypeId[] = ENEMY_ARCHETYPE_IDS
+  ): SimEnemy[] {
+    const choices = archetypes.map(id => ({ id, weight: getArchetype(id).spawnWeight }));
+    const playerPosition = this.player.position;
+    const spawned: SimEnemy[] = [];
+
+    for (let i = 0; i < count; i++) {
+      const angle = random() * Math.PI * 2;
+      const distance = 70 + random() * 20;
+      const x = playerPosition.x + Math.sin(angle) * distance;
+      const z = playerPosition.z + Math.cos(angle) * distance;
+
+      spawned.push(this.addEnemy({
+        archetype: randomWeighted(random, choices).id,
+        position: new THREE.Vector3(x, 0, z),
+        rotation: new THREE.Euler(0, Math.atan2(playerPosition.x - x, playerPosition.z - z), 0),
+      }));
+    }
+
+    return spawned;
+  }
+
+  /**
+   * Damages an enemy - the player's damage grows 20% per cannon upgrade level, and a
+   * hit at a point damages the section there too.
+   * Sinking it rolls its archetype's loot table: gold and salvaged shot if the player
+   * sank it, and maybe a power-up floating where it went down either way
+   */
+  damageEnemy(id: string, amount: number, sourceId: string = PLAYER_SHIP_ID, point?: THREE.Vector3): void {
+    const enemy = this.getEnemy(id);
+    if (!enemy) return;
+
+    const damage = sourceId === PLAYER_SHIP_ID ? amount * (1 + this.config.cannonLevel * 0.2) : amount;
+    enemy.health = Math.max(0, enemy.health - damage);
+    if (sourceId === PLAYER_SHIP_ID) this.playerTarget = id;
+    if (point) {
+      const heading = enemy.rotation.y;
+      const hit = locateHit(point, enemy.position, { x: Math.sin(heading), z: Math.cos(heading) });
+      damageSection(enemy.damage, getHitSection(hit, getArchetype(enemy.archetype).hull.HALF_LENGTH), damage / enemy.maxHealth, hit.height);
+      enemy.lastHitBy = sourceId;
+    }
+    this.emit({ type: 'shipDamaged', shipId: id, amount: damage, health: enemy.health });
+
+    if (enemy.health <= 0) {
+      this.sinkEnemy(enemy, sourceId);
+    }
+  }
+
+  // Damage over time - fire and water wear the hull down at face value, without the
+  // cannon upgrades, retargeting or a damage event every step. Returns true if it sank
+  private wearEnemy(enemy: SimEnemy, amount: number, sunkBy: string): boolean {
+    enemy.health = Math.max(0, enemy.health - amount);
+    if (enemy.health > 0) return false;
+
+    this.sinkEnemy(enemy, sunkBy);
+    return true;
+  }
+
+  private sinkEnemy(enemy: SimEnemy, sunkBy: string): void {
+    this.removeEnemy(enemy.id);
+    this.emit({ type: 'shipSunk', shipId: enemy.id, position: enemy.position.clone(), sunkBy });
+
+    // An escort that goes down is lost to the fleet, and nobody salvages her
+    if (enemy.faction === PLAYER_FACTION) {
+      this.fleet = this.fleet.filter(ship => ship.id !== enemy.id);
+      this.emit({ type: 'escortLost', shipId: enemy.id, archetype: enemy.archetype });
+      return;
+    }
+
+    // Loot and drop rolls share the seeded 'loot' stream, rolled the same way whoever sank the ship
+    const { loot } = getArchetype(enemy.archetype);
+    const lootRandom = this.random.stream('loot');
+    const gold = Math.floor(randomRange(lootRandom, loot.gold.min, loot.gold.max));
+    if (sunkBy === PLAYER_SHIP_ID) {
+      this.emit({ type: 'lootGained', amount: gold });
+      this.crew = changeMorale(this.crew, CREW.MORALE_VICTORY);
+    }
+
+    if (loot.ammo && lootRandom() < loot.ammo.chance) {
+      const amount = Math.floor(randomRange(lootRandom, loot.ammo.min, loot.ammo.max + 1));
+      if (sunkBy === PLAYER_SHIP_ID) {
+        this.addAmmo(loot.ammo.type, amount);
+        this.emit({ type: 'ammoGained', ammo: loot.ammo.type, amount });
+      }
+    }
+
+    if (loot.drops.length > 0 && lootRandom() < loot.dropChance) {
+      const dropPosition = enemy.position.clone();
+      dropPosition.y = 1; // Just above the water
+      this.addPowerUpDrop(randomWeighted(lootRandom, loot.drops).type, dropPosition);
+    }
+
+    console.log(`[SIMULATION] ${enemy.id} sunk by ${sunkBy}${sunkBy === PLAYER_SHIP_ID ? ` - ${gold} loot` : ''}`);
+  }
+
+  private removeEnemy(id: string): void {
+    this.enemies = this.enemies.filter(enemy => enemy.id !== id);
+    this.collisions.removeShip(id);
+  }
+
+  /**
+   * Removes every enemy and every power-up left floating
+   */
+  clearEnemies(): void {
+    this.enemies.forEach(enemy => this.collisions.removeShip(enemy.id));
+    this.enemies = [];
+
+    this.collisions.clearPowerUps();
+    this.drops = [];
+  }
+
+  /**
+   * Starts the wave director over - the first wave comes after the opening calm
+   */
+  resetEncounters(): void {
+    this.encounters = createEncounterState();
+  }
+
+  // Run the calm/wave cycle while the director is on and the player is afloat
+  private updateEncounters(dt: number): void {
+    if (!this.config.encounters || this.player.health <= 0) return;
+
+    const encounters = this.encounters;
+    this.despawnDistantEnemies();
+
+    if (encounters.phase === 'calm') {
+      encounters.timer -= dt;
+      if (encounters.timer <= 0) this.startWave();
+      return;
+    }
+
+    encounters.timer += dt;
+    encounters.spawnTimer -= dt;
+    const afloat = this.enemies.filter(enemy => enemy.faction !== PLAYER_FACTION).length;
+    if (encounters.queue.length > 0 && encounters.spawnTimer <= 0 && afloat < ENCOUNTER.MAX_ACTIVE_SHIPS) {
+      this.spawnWaveShip();
+    }
+
+    // Ships that leave the player alone (merchants) don't keep a wave going
+    encounters.waveShips = encounters.waveShips.filter(id => this.getEnemy(id));
+    const fighting = encounters.waveShips.some(id => attacksPlayer(this.getEnemy(id)!.faction));
+    if (encounters.queue.length === 0 && !fighting) {
+      this.clearWave();
+    }
+  }
+
+  private startWave(): void {
+    const encounters = this.encounters;
+    const wave = encounters.wave + 1;
+    const budget = getWaveBudget({
+      wave,
+      elapsed: this.time,
+      upgradeLevel: this.config.upgradeLevel,
+      performance: encounters.performance,
+    });
+    const ships = planWave(wave, budget, this.random.stream('enemies'), isNight(this.clock));
+
+    this.encounters = {
+      ...encounters,
+      wave,
+      phase: 'wave',
+      timer: 0,
+      queue: [...ships],
+      spawnTimer: 0,
+      waveShips: [],
+      waveThreat: getWaveThreat(ships),
+      waveStartHealth: this.player.health / this.player.maxHealth,
+    };
+
+    this.emit({ type: 'waveStarted', wave, ships });
+    console.log(`[ENCOUNTER] Wave ${wave}: ${ships.join(', ')} (budget ${budget.toFixed(1)})`);
+  }
+
+  // Spawn the next queued ship somewhere clear of islands - if nowhere is clear, try again next step
+  private spawnWaveShip(): void {
+    const encounters = this.encounters;
+    const archetype = encounters.queue[0];
+    const { hull } = getArchetype(archetype);
+    const random = this.random.stream('enemies');
+    const playerPosition = this.player.position;
+
+    for (let attempt = 0; attempt < ENCOUNTER.SPAWN_ATTEMPTS; attempt++) {
+      const angle = random() * Math.PI * 2;
+      const distance = randomRange(random, ENCOUNTER.SPAWN_MIN_DISTANCE, ENCOUNTER.SPAWN_MAX_DISTANCE);
+      const position = new THREE.Vector3(
+        playerPosition.x + Math.sin(angle) * distance,
+        0,
+        playerPosition.z + Math.cos(angle) * distance
+      );
+      const heading = Math.atan2(playerPosition.x - position.x, playerPosition.z - position.z);
+
+      if (this.collisions.checkHullCollision(position, heading, hull, ENCOUNTER.SPAWN_CLEARANCE)) continue;
+
+      const enemy = this.addEnemy({ archetype, position, rotation: new THREE.Euler(0, heading, 0) });
+      encounters.queue = encounters.queue.slice(1);
+      encounters.waveShips = [...encounters.waveShips, enemy.id];
+      encounters.spawnTimer = ENCOUNTER.SPAWN_INTERVAL;
+      return;
+    }
+  }
+
+  private clearWave(): void {
+    const encounters = this.encounters;
+    const performance = ratePerformance(encounters, this.player.health / this.player.maxHealth);
+
+    this.emit({ type: 'waveCleared', wave: encounters.wave, duration: encounters.timer });
+    console.log(`[ENCOUNTER] Wave ${encounters.wave} cleared in ${encounters.timer.toFixed(0)}s - performance ${performance.toFixed(2)}`);
+
+    this.encounters = {
+      ...encounters,
+      phase: 'calm',
+      timer: ENCOUNTER.CALM,
+      waveShips: [],
+      performance,
+    };
+  }
+
+  // Ships that fled or were sailed away from don't count against the budget forever
+  private despawnDistantEnemies(): void {
+    const limit = ENCOUNTER.DESPAWN_DISTANCE * ENCOUNTER.DESPAWN_DISTANCE;
+    this.enemies
+      .filter(enemy => enemy.faction !== PLAYER_FACTION && enemy.position.distanceToSquared(this.player.position) > limit)
+      .forEach(enemy => this.removeEnemy(enemy.id));
+  }
+
+  // The lookouts chart every ship they can see, and keep track of one a little beyond that once they have her
+  private updateSighting(): void {
+    const range = getDetectionRange(this.crew) * this.getVisibilityAt(this.player.position);
+    for (const enemy of this.enemies) {
+      const distance = enemy.position.distanceTo(this.player.position);
+      enemy.spotted = enemy.faction === PLAYER_FACTION || distance <= range || (enemy.spotted && distance <= range * CREW.KEEP_SIGHT);
+    }
+  }
+
+  private updateEnemies(dt: number): void {
+    // Enemies can sink part way through (ramming), so walk a copy
+    // The ship being boarded just lies alongside - her crew are busy on deck
+    for (const enemy of [...this.enemies]) {
+      if (this.getEnemy(enemy.id) && enemy.id !== this.boarding?.enemyId) {
+        this.updateEnemy(enemy, dt);
+      }
+    }
+  }
+
+  // Let the enemy's AI pick a heading, then sail there around features and fire if it wants to
+  private updateEnemy(enemy: SimEnemy, dt: number): void {
+    const position = enemy.position;
+    const playerPosition = this.player.position;
+    const weather = this.getWeatherAt(position);
+    const params = withVisibility(enemy.aiParams, weather.visibility * getDaylightVisibility(this.clock));
+    const frames = dt * 60;
+
+    if (enemy.collisionCooldown > 0) {
+      enemy.collisionCooldown -= dt;
+    }
+
+    // A burning ship loses hull until the fire dies down - it may sink here, to whoever set it alight
+    if (enemy.burn) {
+      const { sourceId } = enemy.burn;
+      enemy.burn.time -= dt;
+      if (enemy.burn.time <= 0) enemy.burn = null;
+      if (this.wearEnemy(enemy, AMMO.BURN_DAMAGE * dt, sourceId)) return;
+    }
+
+    // So does one taking on water - enemies have no one on the pumps beyond the usual watch.
+    // The water sinks her to whoever holed her last
+    const flooding = updateFlooding(enemy.damage, dt);
+    if (flooding > 0 && this.wearEnemy(enemy, flooding, enemy.lastHitBy ?? enemy.id)) return;
+
+    // A storm batters her too, but a ship the sea takes was sunk by no one
+    if (weather.stormDamage > 0 && this.wearEnemy(enemy, weather.stormDamage * dt, enemy.id)) return;
+
+    const distanceSq = position.distanceToSquared(playerPosition);
+    const escort = enemy.faction === PLAYER_FACTION;
+
+    // Ramming damages both ships, then pushes the enemy clear - escorts give the player a wide berth instead
+    if (!escort && distanceSq < ENEMY.RAM_RADIUS * ENEMY.RAM_RADIUS) {
+      if (enemy.collisionCooldown <= 0) {
+        enemy.collisionCooldown = ENEMY.RAM_COOLDOWN;
+        this.emit({ type: 'shipsCollided', shipId: enemy.id, otherId: PLAYER_SHIP_ID });
+        // Each hull is stove in where the other struck it, at the waterline
+        this.damagePlayer(ENEMY.RAM_DAMAGE, position);
+        this.damageEnemy(enemy.id, ENEMY.RAM_DAMAGE, PLAYER_SHIP_ID, playerPosition);
+        if (!this.getEnemy(enemy.id)) return;
+      }
+
+      position.add(new THREE.Vector3().subVectors(position, playerPosition).normalize().multiplyScalar(ENEMY.RAM_BOUNCE));
+    }
+
+    const aiRandom = this.random.stream('ai');
+    if (distanceSq < ENEMY.RAM_RADIUS * ENEMY.RAM_RADIUS * 2.25 && aiRandom() < 0.05) {
+      this.emit({ type: 'nearCollision', shipId: enemy.id });
+    }
+
+    const wind = this.getWindAt(position);
+    const perception: AIPerception = {
+      position: { x: position.x, z: position.z },
+      heading: enemy.rotation.y,
+      wind,
+      health: enemy.health,
+      maxHealth: enemy.maxHealth,
+      target: escort ? this.findEscortTarget() : this.findTarget(enemy, params),
+      allies: this.enemies
+        .filter(other => other !== enemy && !areHostile(enemy.faction, other.faction))
+        .map(other => ({ id: other.id, position: { x: other.position.x, z: other.position.z } })),
+      random: aiRandom,
+      dt,
+    };
+
+    // Escorts steer by the fleet's orders and fire on whatever threatens the fleet unless sent after a target
+    let target = perception.target;
+    let steering: AISteering;
+    if (escort) {
+      const threat = this.findThreat(enemy, params);
+      steering = steerEscort(enemy.ai, this.fleetCommand, { ...perception, ...this.getEscortOrders(enemy), threat }, params);
+      if (this.fleetCommand !== 'attack' || !target) target = threat;
+    } else {
+      steering = updateEnemyAI(enemy.ai, perception, params);
+    }
+
+    // Lost masts and a broken rudder slow the ship and its turns, whatever the AI asks for
+    const currentAngle = enemy.rotation.y;
+    const angleDiff = steering.heading === null ? 0 : wrapAngle(steering.heading - currentAngle);
+    const heading = currentAngle + Math.sign(angleDiff) * Math.min(Math.abs(angleDiff), params.turnRate * getTurnFactor(enemy.damage) * frames);
+    enemy.rotation.set(0, heading, 0);
+
+    // And the wind drives it harder or softer depending on how it lies to the heading
+    const drive = getWindDrive(heading, wind);
+    enemy.velocity.set(Math.sin(heading), 0, Math.cos(heading)).multiplyScalar(steering.speed * getSpeedFactor(enemy.damage) * drive * frames);
+    const futurePosition = position.clone().add(enemy.velocity);
+
+    const { hull, cannons } = getArchetype(enemy.archetype);
+    const collision = this.collisions.checkHullCollision(futurePosition, heading, hull);
+    if (collision) {
+      this.emit({ type: 'nearCollision', shipId: enemy.id });
+
+      // Take the safe position, then back off a little from the obstacle
+      position.copy(this.collisions.calculateSafeHullPosition(futurePosition, heading, collision, hull));
+      const bounce = new THREE.Vector3().subVectors(position, futurePosition).normalize();
+      position.addScaledVector(bounce, steering.speed * frames * ENEMY.ISLAND_BOUNCE);
+    } else {
+      position.copy(futurePosition);
+    }
+
+    if (enemy.peacefulStartTimer > 0) {
+      enemy.peacefulStartTimer = Math.max(0, enemy.peacefulStartTimer - dt);
+      if (enemy.peacefulStartTimer === 0) {
+        console.log(`[SIMULATION] ${enemy.id} peaceful start period ended - now hostile`);
+      }
+    }
+
+    if (steering.fire && target && cannons > 0 && enemy.cannonCooldown <= 0 && enemy.peacefulStartTimer <= 0) {
+      this.fireEnemyCannon(enemy, new THREE.Vector3(target.position.x, 0, target.position.z), cannons);
+    }
+
+    if (enemy.cannonCooldown > 0) {
+      enemy.cannonCooldown -= dt;
+    }
+
+    position.y = 0;
+    this.collisions.updateShip(enemy.id, position.clone(), enemy.rotation.y, hull);
+  }
+
+  // The ship the player last hit, for escorts ordered to attack
+  private findEscortTarget(): AIPerception['target'] {
+    const target = this.playerTarget ? this.getEnemy(this.playerTarget) : undefined;
+    return target ? { id: target.id, position: { x: target.position.x, z: target.position.z } } : null;
+  }
+
+  // The nearest ship in sight of an escort that attacks the player's side
+  private findThreat(escort: SimEnemy, params: EnemyAIParams): AIPerception['target'] {
+    let nearest: AIPerception['target'] = null;
+    let nearestDistance = params.detectionRange;
+    for (const other of this.enemies) {
+      if (!attacksPlayer(other.faction)) continue;
+      const distance = other.position.distanceTo(escort.position);
+      if (distance < nearestDistance) {
+        nearest = { id: other.id, position: { x: other.position.x, z: other.position.z } };
+        nearestDistance = distance;
+      }
+    }
+    return nearest;
+  }
+
+  // Where an escort keeps station and how the flagship is sailing - escorts sail in the order they joined
+  private getEscortOrders(escort: SimEnemy): Pick<EscortPerception, 'station' | 'flagship'> {
+    const { position, rotation, velocity } = this.player;
+    const index = this.enemies.filter(enemy => enemy.faction === PLAYER_FACTION).indexOf(escort);
+    return {
+      station: getFormationStation(index, position, getPlayerBow(rotation.y)),
+      flagship: { heading: rotation.y + Math.PI, speed: velocity.length() / 60 },
+    };
+  }
+
+  // The ship an enemy is after: its current target while that stays in sight, otherwise the nearest hostile ship
+  private findTarget(enemy: SimEnemy, params: EnemyAIParams): AIPerception['target'] {
+    const candidates: NonNullable<AIPerception['target']>[] = [];
+
+    // A sunk player is nothing to chase
+    if (this.player.health > 0 && areHostile(enemy.faction, PLAYER_FACTION)) {
+      candidates.push({ id: PLAYER_SHIP_ID, position: { x: this.player.position.x, z: this.player.position.z } });
+    }
+    for (const other of this.enemies) {
+      if (other !== enemy && areHostile(enemy.faction, other.faction)) {
+        candidates.push({ id: other.id, position: { x: other.position.x, z: other.position.z } });
+      }
+    }
+
+    const distanceTo = (candidate: NonNullable<AIPerception['target']>) =>
+      Math.hypot(candidate.position.x - enemy.position.x, candidate.position.z - enemy.position.z);
+
+    const current = candidates.find(candidate => candidate.id === enemy.ai.target);
+    if (current && distanceTo(current) <= params.loseRange) return current;
+
+    let nearest: AIPerception['target'] = null;
+    let nearestDistance = Infinity;
+    for (const candidate of candidates) {
+      const distance = distanceTo(candidate);
+      if (distance < nearestDistance) {
+        nearest = candidate;
+        nearestDistance = distance;
+      }
+    }
+    return nearest;
+  }
+
+  // A shot from each of the ship's cannons at its target, with a little spread so they can be dodged
+  private fireEnemyCannon(enemy: SimEnemy, targetPosition: THREE.Vector3, cannons: number): void {
+    // The flash of her guns gives a ship away, however dark it is
+    enemy.spotted = true;
+
+    // Spread and reload time come from the seeded 'combat' stream so fights can be replayed
+    const combatRandom = this.random.stream('combat');
+    const origin = new THREE.Vector3(enemy.position.x, ENEMY.CANNON_HEIGHT, enemy.position.z);
+    const cannonballs: SimCannonball[] = [];
+
+    // Raise the barrels just enough for the shot to come down on the target
+    const distance = Math.hypot(targetPosition.x - enemy.position.x, targetPosition.z - enemy.position.z);
+    const reach = CANNONBALL.GRAVITY * distance * ENEMY.RANGE_ALLOWANCE / (ENEMY.CANNON_SPEED * ENEMY.CANNON_SPEED);
+    const elevation = Math.tan(Math.asin(Math.min(1, reach)) / 2);
+
+    for (let i = 0; i < cannons; i++) {
+      const aim = new THREE.Vector3().subVectors(targetPosition, enemy.position).setY(0).normalize();
+      aim.x += (combatRandom() - 0.5) * ENEMY.AIM_SPREAD;
+      aim.z += (combatRandom() - 0.5) * ENEMY.AIM_SPREAD;
+      aim.y = elevation;
+      aim.normalize();
+
+      cannonballs.push(this.spawnCannonball(enemy.id, origin, aim, ENEMY.CANNON_SPEED, ENEMY.CANNON_LIFESPAN));
+    }
+
+    // Fewer hands to run out the guns, longer between shots
+    const crewFactor = Math.max(AMMO.MIN_CREW_FACTOR, enemy.crew / enemy.maxCrew);
+    enemy.cannonCooldown = (ENEMY.COOLDOWN_MIN + combatRandom() * ENEMY.COOLDOWN_RANDOM) / crewFactor;
+    this.emit({ type: 'cannonFired', shipId: enemy.id, cannonballs });
+  }
+
+  private spawnCannonball(
+    sourceId: string,
+    origin: THREE.Vector3,
+    direction: THREE.Vector3,
+    speed: number,
+    lifespan: number,
+    ammo: AmmoType = 'round'
+  ): SimCannonball {
+    const cannonball: SimCannonball = {
+      id: this.createId('cannonball'),
+      sourceId,
+      ammo,
+      origin: origin.clone(),
+      position: origin.clone(),
+      velocity: direction.clone().normalize().multiplyScalar(speed),
+      life: lifespan,
+    };
+
+    this.cannonballs.push(cannonball);
+    return cannonball;
+  }
+
+  private updateCannonballs(dt: number): void {
+    // Hits can sink ships and remove other balls' targets, so walk a copy
+    for (const cannonball of [...this.cannonballs]) {
+      const previousPosition = cannonball.position.clone();
+
+      stepCannonball(cannonball.position, cannonball.velocity, dt);
+      cannonball.life -= dt;
+
+      const impact = this.resolveCannonball(cannonball, previousPosition);
+      if (impact || cannonball.life <= 0) {
+        this.cannonballs = this.cannonballs.filter(other => other !== cannonball);
+        this.emit({ type: 'cannonballRemoved', cannonball, impact });
+      }
+    }
+  }
+
+  // Work out what a cannonball hit this step and apply the damage
+  private resolveCannonball(cannonball: SimCannonball, previousPosition: THREE.Vector3): CannonballImpact {
+    // Check the whole path travelled this step so fast shots can't tunnel through islands
+    if (this.collisions.checkSegmentCollision(previousPosition, cannonball.position, CANNONBALL.HIT_RADIUS)) {
+      return 'feature';
+    }
+
+    const fromPlayer = cannonball.sourceId === PLAYER_SHIP_ID;
+    const fromPlayerSide = this.isPlayerSide(cannonball.sourceId);
+
+    // Any ship but the player and the shooter - and not the escorts if the shot came from their side
+    const [target] = this.collisions.checkShipHit(
+      cannonball.position,
+      CANNONBALL.HIT_RADIUS,
+      ship => ship.id !== PLAYER_SHIP_ID && ship.id !== cannonball.sourceId && !(fromPlayerSide && this.isPlayerSide(ship.id))
+    );
+    if (target) {
+      const damage = (fromPlayer ? this.getPlayerShotDamage() : CANNONBALL.DAMAGE) * getAmmoDefinition(cannonball.ammo).damage;
+      this.damageEnemy(target.id, damage, cannonball.sourceId, cannonball.position);
+      this.applyAmmoEffects(target.id, cannonball);
+      return 'ship';
+    }
+
+    if (!fromPlayerSide && this.collisions.checkShipHit(cannonball.position, CANNONBALL.HIT_RADIUS, ship => ship.id === PLAYER_SHIP_ID).length > 0) {
+      this.damagePlayer(CANNONBALL.ENEMY_DAMAGE, cannonball.position);
+      return 'ship';
+    }
+
+    if (cannonball.position.y < this.getOceanHeightAt(cannonball.position.x, cannonball.position.z) + CANNONBALL.WATER_DEPTH) {
+      return 'water';
+    }
+
+    return null;
+  }
+
+  // What chain, grape and heated shot do to a ship that survived the hit
+  private applyAmmoEffects(id: string, cannonball: SimCannonball): void {
+    const enemy = this.getEnemy(id);
+    if (!enemy || cannonball.ammo === 'round') return;
+    const definition = getAmmoDefinition(cannonball.ammo);
+
+    if (definition.riggingDamage > 0) {
+      enemy.damage.sections.masts = Math.max(0, enemy.damage.sections.masts - definition.riggingDamage);
+    }
+    if (definition.crewKilled.max > 0) {
+      // Casualties come from the 'combat' stream like every other roll in a fight
+      const killed = Math.floor(randomRange(this.random.stream('combat'), definition.crewKilled.min, definition.crewKilled.max + 1));
+      enemy.crew = Math.max(0, enemy.crew - killed);
+    }
+    if (definition.burnTime > 0) {
+      enemy.burn = { time: Math.max(enemy.burn?.time ?? 0, definition.burnTime), sourceId: cannonball.sourceId };
+    }
+  }
+
+  // Damage of a player shot that landed - double damage uses up one of its shots
+  private getPlayerShotDamage(): number {
+    if (this.config.oneShotKill) return CANNONBALL.ONE_SHOT_DAMAGE;
+
+    const multiplier = this.getPowerUpValue('double_damage');
+    if (multiplier === null) return CANNONBALL.DAMAGE;
+
+    this.consumeShot('double_damage');
+    return Math.round(CANNONBALL.DAMAGE * multiplier);
+  }
+
+  /**
+   * Leaves a power-up floating at a position until the player sails through it
+   */
+  addPowerUpDrop(type: PowerUpType, position: THREE.Vector3, id: string = this.createId('direct-powerup')): SimPowerUpDrop {
+    const drop: SimPowerUpDrop = { id, position: position.clone(), type, createdAt: this.time };
+
+    this.drops = [...this.drops, drop];
+    this.collisions.addPowerUp(id, drop.position);
+    this.emit({ type: 'powerUpDropped', drop });
+    return drop;
+  }
+
+  removePowerUpDrop(id: string): void {
+    this.drops = this.drops.filter(drop => drop.id !== id);
+    this.collisions.removePowerUp(id);
+  }
+
+  private collectPowerUpDrops(): void {
+    if (this.drops.length === 0) return;
+
+    for (const { id } of this.collisions.queryPowerUps(this.player.position, PLAYER.PICKUP_RADIUS)) {
+      const drop = this.drops.find(candidate => candidate.id === id);
+      if (!drop) continue;
+
+      this.removePowerUpDrop(id);
+      this.collectPowerUp(drop.type);
+      this.emit({ type: 'powerUpCollected', drop });
+    }
+  }
+
+  /**
+   * Adds a power-up to the inventory - collecting heals a third of its health bonus
+   */
+  collectPowerUp(type: PowerUpType): void {
+    const definition = getPowerUpDefinition(type);
+    if (!definition) {
+      console.error(`[POWER-UP] Unknown power-up type: ${type}`);
+      return;
+    }
+
+    // Inventory ids outlive the simulation in saves, so they carry the wall-clock time
+    const id = this.createId(`powerup-${Date.now()}`);
+    this.inventoryPowerUps = [...this.inventoryPowerUps, { type, id, collectTime: Date.now() }];
+    this.healPlayer(Math.ceil(definition.healthBonus / 3));
+
+    console.log(`[POWER-UP] Collected ${definition.name} and added to inventory (id: ${id})`);
+  }
+
+  /**
+   * Activates a power-up from the inventory - the rest of the health bonus comes with it
+   */
+  activatePowerUp(id: string): void {
+    const inventoryPowerUp = this.inventoryPowerUps.find(powerUp => powerUp.id === id);
+    if (!inventoryPowerUp) {
+      console.error(`[POWER-UP] Cannot activate power-up with ID ${id}: not found in inventory`);
+      return;
+    }
+
+    const definition = getPowerUpDefinition(inventoryPowerUp.type);
+    if (!definition) {
+      console.error(`[POWER-UP] Unknown power-up type: ${inventoryPowerUp.type}`);
+      return;
+    }
+
+    this.inventoryPowerUps = this.inventoryPowerUps.filter(powerUp => powerUp.id !== id);
+    this.healPlayer(Math.floor(definition.healthBonus * 2 / 3));
+    this.addPowerUp(inventoryPowerUp.type);
+  }
+
+  activateAllPowerUps(): void {
+    this.inventoryPowerUps.map(powerUp => powerUp.id).forEach(id => this.activatePowerUp(id));
+  }
+
+  /**
+   * Applies a power-up's effect straight away, without going through the inventory
+   * Instant power-ups apply once, timed ones (re)start their timer and shot-based ones refill their shots
+   */
+  addPowerUp(type: PowerUpType): void {
+    const definition = getPowerUpDefinition(type);
+    if (!definition) {
+      console.error(`[POWER-UP] Unknown power-up type: ${type}`);
+      return;
+    }
+
+    this.healPlayer(definition.healthBonus);
+    this.emit({ type: 'powerUpActivated', powerUpType: type });
+
+    // Instant effects never become active power-ups
+    if (definition.duration === 0 && !definition.shots) {
+      if (type === 'gold_bonus') {
+        this.emit({ type: 'lootGained', amount: definition.value });
+      }
+      return;
+    }
+
+    const refreshed: ActivePowerUp = {
+      type,
+      duration: definition.duration,
+      remaining: definition.duration,
+      value: definition.value,
+      ...(definition.shots ? { shots: definition.shots, shotsRemaining: definition.shots } : {}),
+    };
+
+    if (this.hasPowerUp(type)) {
+      this.activePowerUps = this.activePowerUps.map(powerUp => powerUp.type === type ? { ...powerUp, ...refreshed } : powerUp);
+    } else {
+      this.activePowerUps = [...this.activePowerUps, refreshed];
+    }
+
+    console.log(`[POWER-UP] Activated ${definition.name}`);
+  }
+
+  removePowerUp(type: PowerUpType): void {
+    this.activePowerUps = this.activePowerUps.filter(powerUp => powerUp.type !== type);
+  }
+
+  /**
+   * Uses up one shot of a shot-based power-up
+   */
+  consumeShot(type: PowerUpType): void {
+    this.activePowerUps = this.activePowerUps.map(powerUp =>
+      powerUp.type === type && powerUp.shotsRemaining
+        ? { ...powerUp, shotsRemaining: powerUp.shotsRemaining - 1 }
+        : powerUp
+    );
+  }
+
+  /**
+   * Replaces the inventory (e.g. when a save is loaded)
+   */
+  setInventory(inventory: InventoryPowerUp[]): void {
+    this.inventoryPowerUps = [...inventory];
+  }
+
+  hasPowerUp(type: PowerUpType): boolean {
+    return this.activePowerUps.some(powerUp => powerUp.type === type);
+  }
+
+  // The effect value of an active power-up, or null if it isn't active
+  getPowerUpValue(type: PowerUpType): number | null {
+    const powerUp = this.activePowerUps.find(candidate => candidate.type === type);
+    return powerUp ? powerUp.value : null;
+  }
+
+  // Count down timed power-ups and drop the ones that ran out of time or shots
+  private updatePowerUpTimers(dt: number): void {
+    if (this.activePowerUps.length === 0) return;
+
+    const expired: PowerUpType[] = [];
+    this.activePowerUps = this.activePowerUps
+      .map(powerUp => powerUp.shots ? powerUp : { ...powerUp, remaining: powerUp.remaining - dt })
+      .filter(powerUp => {
+        const active = powerUp.shots ? (powerUp.shotsRemaining ?? 0) > 0 : powerUp.remaining > 0;
+        if (!active) expired.push(powerUp.type);
+        return active;
+      });
+
+    expired.forEach(powerUpType => this.emit({ type: 'powerUpExpired', powerUpType }));
+  }
+}
+
+// The app's simulation shares the collision indexes and random streams with the rest of the game
+export const gameSimulation = new GameSimulation({ collisions: collisionHandler, random: worldRandom });
@@ -0,0 +1,102 @@
+/**
+ * Ammunition
+ * ----------
+ * What the player's guns can be loaded with. Round shot is always in the magazine;
+ * everything else comes from a stockpile that is bought or looted, one shot per
+ * cannonball fired. The simulation reads the ballistics and effects from here and
+ * the views read the colours and sizes.
+ */
+
+export const AMMO_TYPES = ['round', 'chain', 'grape', 'heated'] as const;
+export type AmmoType = typeof AMMO_TYPES[number];
+
+// Shots the player holds of each type - round shot isn't counted
+export type AmmoStock = Record<AmmoType, number>;
+
+export interface AmmoDefinition {
+  name: string;
+  description: string;
+  damage: number;        // Multiplier on a round shot's hull damage
+  speed: number;         // Multiplier on muzzle speed - slower shot falls short sooner
+  spread: number;        // Multiplier on the angle between the cannons of a side
+
+  // What a hit does besides hull damage
+  riggingDamage: number; // Integrity taken from the masts of the ship it hits, slowing it
+  crewKilled: { min: number; max: number };
+  burnTime: number;      // Seconds the target burns for
+
+  shop: { price: number; amount: number } | null; // Sold in bundles, null if never for sale
+  visual: { color: string; emissive: string; glow: number; trail: string; scale: number };
+}
+
+export const AMMO_REGISTRY = {
+  round: {
+    name: 'Round Shot',
+    description: 'Solid iron balls - the standard load, never runs out',
+    damage: 1,
+    speed: 1,
+    spread: 1,
+    riggingDamage: 0,
+    crewKilled: { min: 0, max: 0 },
+    burnTime: 0,
+    shop: null,
+    visual: { color: '#222222', emissive: '#330000', glow: 0.1, trail: '#777777', scale: 1 },
+  },
+  // Two half-balls joined by a chain - tears through sails and rigging
+  chain: {
+    name: 'Chain Shot',
+    description: 'Shreds sails and rigging, slowing the ship it hits',
+    damage: 0.5,
+    speed: 0.9,
+    spread: 1,
+    riggingDamage: 0.1,
+    crewKilled: { min: 0, max: 0 },
+    burnTime: 0,
+    shop: { price: 60, amount: 15 },
+    visual: { color: '#5D6D7E', emissive: '#000000', glow: 0, trail: '#9E9E9E', scale: 1 },
+  },
+  // A bag of musket balls - wide and short-ranged, cuts down the crew on deck
+  grape: {
+    name: 'Grape Shot',
+    description: 'Sweeps the enemy deck of crew, but only at close range',
+    damage: 0.4,
+    speed: 0.6,
+    spread: 1.6,
+    riggingDamage: 0,
+    crewKilled: { min: 2, max: 4 },
+    burnTime: 0,
+    shop: { price: 50, amount: 15 },
+    visual: { color: '#8D6E63', emissive: '#000000', glow: 0, trail: '#A1887F', scale: 0.6 },
+  },
+  // Heated red in the galley fire before loading - sets the target alight
+  heated: {
+    name: 'Heated Shot',
+    description: 'Sets the ship it hits on fire for a while',
+    damage: 0.8,
+    speed: 1,
+    spread: 1,
+    riggingDamage: 0,
+    crewKilled: { min: 0, max: 0 },
+    burnTime: 6,
+    shop: { price: 90, amount: 15 },
+    visual: { color: '#FF5722', emissive: '#FF3D00', glow: 1.5, trail: '#FF7043', scale: 1 },
+  },
+} satisfies Record<AmmoType, AmmoDefinition>;
+
+export const AMMO = {
+  BURN_DAMAGE: 4,        // Hull damage per second while burning
+  MIN_CREW_FACTOR: 0.25, // A skeleton crew still reloads, four times slower at worst
+};
+
+export function createAmmoStock(): AmmoStock {
+  return { round: 0, chain: 0, grape: 0, heated: 0 };
+}
+
+export function getAmmoDefinition(type: AmmoType): AmmoDefinition {
+  return AMMO_REGISTRY[type];
+}
+
+// Round shot never runs out
+export function hasAmmo(stock: AmmoStock, type: AmmoType): boolean {
+  return type === 'round' || stock[type] > 0;
+}
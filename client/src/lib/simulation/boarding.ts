@@ -0,0 +1,111 @@
+import { RandomFn } from "../helpers/random";
+
+/**
+ * Boarding
+ * --------
+ * Taking an enemy ship by laying alongside and sending the crew over. Only a ship
+ * that is already beaten - her hull nearly gone or her masts shot away - can be
+ * grappled; then the two crews fight it out on deck a round at a time until one
+ * side breaks. Numbers count, and so does heart: a devoted crew fights above its
+ * weight, and the crew of a sinking ship below it.
+ *
+ * A won ship is the player's to deal with - plunder her hold, scuttle her with
+ * her crew pressed into service, or put a prize crew aboard and add her to the
+ * fleet. The state is plain data like the rest of the simulation's, so snapshots
+ * and replays carry a fight that is under way.
+ */
+
+export const CAPTURE_CHOICES = ['plunder', 'scuttle', 'prize'] as const;
+export type CaptureChoice = typeof CAPTURE_CHOICES[number];
+
+export interface Boarding {
+  enemyId: string;
+  phase: 'fighting' | 'won';
+  roundTimer: number; // Seconds until the next round on deck
+  attackers: number;  // Hands who went over, to tell when they break
+  defenders: number;  // Hands who met them
+}
+
+// One side of the fight on deck
+export interface BoardingParty {
+  fighters: number;
+  morale: number; // 0 to 1, as for the crew
+}
+
+export interface CaptureChoiceDefinition {
+  name: string;
+  description: string;
+}
+
+export const CAPTURE_REGISTRY = {
+  plunder: {
+    name: 'Plunder',
+    description: 'Strip her hold of gold and shot, then let her sink',
+  },
+  scuttle: {
+    name: 'Scuttle',
+    description: 'Send her to the bottom and press some of her crew into service',
+  },
+  prize: {
+    name: 'Take as Prize',
+    description: 'Put a prize crew aboard and add her to your fleet',
+  },
+} satisfies Record<CaptureChoice, CaptureChoiceDefinition>;
+
+export const BOARDING = {
+  RANGE: 30,             // Close enough to throw the grapnels across - a little beyond ramming distance
+  CRIPPLED_HEALTH: 0.35, // A ship below this fraction of her health can be boarded...
+  CRIPPLED_MASTS: 0.3,   // ...or one with her masts shot down this far, dead in the water
+  ROUND_TIME: 1,         // Seconds per round of fighting on deck
+  LOSS_RATE: 0.15,       // Fighters a side cuts down per round, per point of its strength
+  BREAK_RATIO: 0.5,      // A side breaks once it is down to this fraction of the hands it started with
+  PLUNDER_GOLD: 2.5,     // Plundering pays this many times what sinking her would
+  PLUNDER_AMMO: 2,       // ...and empties her magazine of this many times the usual salvage
+  PRESSED_FRACTION: 0.3, // Of her surviving crew, this many join as sailors when she is scuttled
+  PRIZE_CREW: 2,         // Sailors put aboard a prize to sail her home
+  MORALE_WON: 0.1,
+  MORALE_REPELLED: -0.15,
+};
+
+export function getCaptureChoice(choice: CaptureChoice): CaptureChoiceDefinition {
+  return CAPTURE_REGISTRY[choice];
+}
+
+/**
+ * Whether a ship is beaten enough to be boarded
+ */
+export function isCrippled(health: number, maxHealth: number, masts: number): boolean {
+  return health <= maxHealth * BOARDING.CRIPPLED_HEALTH || masts <= BOARDING.CRIPPLED_MASTS;
+}
+
+// Enemy crews have no morale of their own - their heart goes with their hull
+export function getDefenderMorale(health: number, maxHealth: number): number {
+  return maxHealth > 0 ? Math.max(0, Math.min(1, health / maxHealth)) : 0;
+}
+
+export function getBoardingStrength({ fighters, morale }: BoardingParty): number {
+  return fighters * (0.5 + morale);
+}
+
+/**
+ * A round of fighting on deck - each side cuts down fighters in proportion to
+ * its strength, with the odd extra man to chance. Returns the losses on each side
+ */
+export function fightBoardingRound(
+  attackers: BoardingParty,
+  defenders: BoardingParty,
+  random: RandomFn
+): { attackersLost: number; defendersLost: number } {
+  const attackersLost = Math.floor(getBoardingStrength(defenders) * BOARDING.LOSS_RATE + random());
+  const defendersLost = Math.floor(getBoardingStrength(attackers) * BOARDING.LOSS_RATE + random());
+
+  return {
+    attackersLost: Math.min(attackers.fighters, attackersLost),
+    defendersLost: Math.min(defenders.fighters, defendersLost),
+  };
+}
+
+// Whether a side that started with the given hands has had enough
+export function hasBroken(fighters: number, started: number): boolean {
+  return fighters <= 0 || fighters < started * BOARDING.BREAK_RATIO;
+}
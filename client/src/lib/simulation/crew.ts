@@ -0,0 +1,152 @@
+import { RandomFn, randomWeighted } from "../helpers/random";
+
+/**
+ * Crew
+ * ----
+ * The hands aboard the player's ship. Gunners work the guns, sailors the sails and
+ * the helm, and lookouts spot ships before they come over the horizon - how many
+ * there are of each, and how willing they are, decides how well the ship fights.
+ *
+ * Hits kill crew, and the dead stay missing until new hands are hired. Every so
+ * often at sea the crew want paying from the loot; paying them keeps morale up,
+ * missing a payday brings it down, as does losing shipmates.
+ *
+ * The roster is progress like the magazine: the simulation holds it so replays
+ * carry it, and the save keeps it between voyages.
+ */
+
+export const CREW_ROLES = ['sailor', 'gunner', 'lookout'] as const;
+export type CrewRole = typeof CREW_ROLES[number];
+
+export type CrewRoster = Record<CrewRole, number>;
+
+export interface Crew {
+  roster: CrewRoster;
+  morale: number; // 0 mutinous to 1 devoted
+}
+
+export interface CrewRoleDefinition {
+  name: string;
+  plural: string;
+  description: string;
+  berths: number;    // Most the ship can carry
+  needed: number;    // Hands for the job to be done at full speed
+  hireCost: number;  // Gold to sign one on
+  wage: number;      // Gold each on every payday
+}
+
+export const CREW_REGISTRY = {
+  sailor: {
+    name: 'Sailor',
+    plural: 'Sailors',
+    description: 'Trim the sails and work the helm - the ship turns faster with more of them',
+    berths: 12,
+    needed: 8,
+    hireCost: 25,
+    wage: 2,
+  },
+  gunner: {
+    name: 'Gunner',
+    plural: 'Gunners',
+    description: 'Load and run out the guns - the broadsides reload faster with more of them',
+    berths: 12,
+    needed: 8,
+    hireCost: 35,
+    wage: 3,
+  },
+  lookout: {
+    name: 'Lookout',
+    plural: 'Lookouts',
+    description: 'Watch from the masthead - enemies show on the chart from further away',
+    berths: 2,
+    needed: 1,
+    hireCost: 60,
+    wage: 3,
+  },
+} satisfies Record<CrewRole, CrewRoleDefinition>;
+
+export const CREW = {
+  PAY_INTERVAL: 180,           // Seconds at sea between paydays
+  MIN_EFFICIENCY: 0.25,        // A handful of hands still get the job done, slowly
+  MAX_EFFICIENCY: 1.25,        // Extra hands beyond the needed help, up to a point
+  CASUALTIES_PER_DAMAGE: 0.05, // Expected crew killed per point of damage from a hit
+  BASE_DETECTION: 150,         // Distance ships show on the chart with no one aloft
+  DETECTION_PER_LOOKOUT: 100,
+  KEEP_SIGHT: 1.25,            // A ship once spotted stays on the chart out to this many times the detection range
+  DEFAULT_MORALE: 0.6,
+  MORALE_PAID: 0.05,
+  MORALE_UNPAID: -0.2,
+  MORALE_VICTORY: 0.03,        // For every enemy the player sinks
+  MORALE_CASUALTY: -0.02,      // For every shipmate lost
+};
+
+export function createCrew(): Crew {
+  return {
+    roster: { sailor: 8, gunner: 8, lookout: 1 },
+    morale: CREW.DEFAULT_MORALE,
+  };
+}
+
+export function cloneCrew(crew: Crew): Crew {
+  return { ...crew, roster: { ...crew.roster } };
+}
+
+export function getCrewRole(role: CrewRole): CrewRoleDefinition {
+  return CREW_REGISTRY[role];
+}
+
+export function getCrewSize(roster: CrewRoster): number {
+  return CREW_ROLES.reduce((total, role) => total + roster[role], 0);
+}
+
+// Gold owed on a payday
+export function getWages(roster: CrewRoster): number {
+  return CREW_ROLES.reduce((total, role) => total + roster[role] * CREW_REGISTRY[role].wage, 0);
+}
+
+export function changeMorale(crew: Crew, change: number): Crew {
+  return { ...crew, morale: Math.max(0, Math.min(1, crew.morale + change)) };
+}
+
+/**
+ * How well a role's job gets done - 1 with the hands it needs at middling morale.
+ * Short-handed or unhappy crews are slower, down to MIN_EFFICIENCY
+ */
+export function getCrewEfficiency(crew: Crew, role: CrewRole): number {
+  const { needed } = CREW_REGISTRY[role];
+  const staffing = Math.min(CREW.MAX_EFFICIENCY, crew.roster[role] / needed);
+  const spirit = 0.75 + crew.morale * 0.5;
+  return Math.max(CREW.MIN_EFFICIENCY, staffing * spirit);
+}
+
+// Distance at which the lookouts report a ship
+export function getDetectionRange(crew: Crew): number {
+  return CREW.BASE_DETECTION + crew.roster.lookout * CREW.DETECTION_PER_LOOKOUT;
+}
+
+/**
+ * Kills crew for a hit of the given damage. Returns the new crew and who was lost
+ */
+export function applyCasualties(crew: Crew, damage: number, random: RandomFn): { crew: Crew; lost: Partial<CrewRoster> } {
+  const expected = damage * CREW.CASUALTIES_PER_DAMAGE;
+  return killCrew(crew, Math.floor(expected + random()), random);
+}
+
+/**
+ * Kills a number of hands, each picked from the roles in proportion to their
+ * numbers, and lowers morale for every one lost
+ */
+export function killCrew(crew: Crew, count: number, random: RandomFn): { crew: Crew; lost: Partial<CrewRoster> } {
+  const roster = { ...crew.roster };
+  const lost: Partial<CrewRoster> = {};
+  let killed = 0;
+
+  while (killed < count && getCrewSize(roster) > 0) {
+    const { role } = randomWeighted(random, CREW_ROLES.filter(r => roster[r] > 0).map(r => ({ role: r, weight: roster[r] })));
+    roster[role]--;
+    lost[role] = (lost[role] ?? 0) + 1;
+    killed++;
+  }
+
+  return { crew: changeMorale({ ...crew, roster }, killed * CREW.MORALE_CASUALTY), lost };
+}
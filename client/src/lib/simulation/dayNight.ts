@@ -0,0 +1,111 @@
+/**
+ * Day and Night
+ * -------------
+ * The sun rises and sets over the voyage. The clock runs from 0 at midnight
+ * through 0.5 at noon and back round to 1, taking as many seconds as the
+ * configured day length - or stands still at a length of 0, for those who would
+ * rather always sail by daylight.
+ *
+ * After dark the lookouts see only half as far, lanterns are lit on every deck,
+ * and the Drowned come up out of the deep - ghost ships only ever sail at night.
+ * The clock is a plain number in the simulation, so snapshots and replays carry it.
+ */
+
+// In the order they come round after midnight
+export const TIMES_OF_DAY = ['dawn', 'morning', 'afternoon', 'dusk', 'night'] as const;
+export type TimeOfDay = typeof TIMES_OF_DAY[number];
+
+export interface TimeOfDayDefinition {
+  name: string;
+  from: number; // Clock reading it begins at
+}
+
+export const TIME_OF_DAY_REGISTRY = {
+  dawn: { name: 'Dawn', from: 0.22 },
+  morning: { name: 'Morning', from: 0.28 },
+  afternoon: { name: 'Afternoon', from: 0.5 },
+  dusk: { name: 'Dusk', from: 0.72 },
+  night: { name: 'Night', from: 0.78 },
+} satisfies Record<TimeOfDay, TimeOfDayDefinition>;
+
+export const DAY = {
+  DEFAULT_LENGTH: 600,   // Seconds from one midnight to the next
+  START: 0.3,            // Every voyage sets out in the morning
+  SUNRISE: 0.25,
+  SUNSET: 0.75,
+  TWILIGHT: 0.04,        // Clock time either side of sunrise and sunset over which the light comes and goes
+  NIGHT_VISIBILITY: 0.5, // Share of the daylight sighting distance left in the dark
+  LANTERNS: 0.5,         // Lanterns are lit once the daylight falls below this
+};
+
+// Day lengths the settings offer - 0 stops the clock where it is
+export const DAY_LENGTH_OPTIONS = [
+  { name: 'Short', seconds: 300 },
+  { name: 'Normal', seconds: DAY.DEFAULT_LENGTH },
+  { name: 'Long', seconds: 1200 },
+  { name: 'Endless Day', seconds: 0 },
+];
+
+const smoothstep = (t: number): number => {
+  const clamped = Math.max(0, Math.min(1, t));
+  return clamped * clamped * (3 - 2 * clamped);
+};
+
+export function advanceClock(clock: number, dt: number, dayLength: number): number {
+  if (dayLength <= 0) return clock;
+  return (clock + dt / dayLength) % 1;
+}
+
+/**
+ * How light it is - 1 in full day, 0 in the dead of night, easing between them
+ * through twilight
+ */
+export function getDaylight(clock: number): number {
+  const sinceSunrise = (clock - DAY.SUNRISE) / DAY.TWILIGHT;
+  const untilSunset = (DAY.SUNSET - clock) / DAY.TWILIGHT;
+  return smoothstep((Math.min(sinceSunrise, untilSunset) + 1) / 2);
+}
+
+export function isNight(clock: number): boolean {
+  return getDaylight(clock) < DAY.LANTERNS;
+}
+
+// How brightly lanterns and lamps burn for a given daylight - unlit until it falls
+// below DAY.LANTERNS, full in the dead of night
+export function getLanternLight(daylight: number): number {
+  return Math.max(0, 1 - daylight / DAY.LANTERNS);
+}
+
+// Share of the daylight sighting distance the lookouts have
+export function getDaylightVisibility(clock: number): number {
+  return DAY.NIGHT_VISIBILITY + (1 - DAY.NIGHT_VISIBILITY) * getDaylight(clock);
+}
+
+/**
+ * Direction to the sun - rising in the east (+X), overhead at noon and setting in
+ * the west, below the horizon (negative y) all night
+ */
+export function getSunDirection(clock: number): { x: number; y: number; z: number } {
+  const angle = (clock - DAY.SUNRISE) * Math.PI * 2;
+  return { x: Math.cos(angle), y: Math.sin(angle), z: 0.3 };
+}
+
+export function getTimeOfDay(clock: number): TimeOfDay {
+  // Before dawn it is still the night that fell the evening before
+  let time: TimeOfDay = 'night';
+  for (const id of TIMES_OF_DAY) {
+    if (clock >= TIME_OF_DAY_REGISTRY[id].from) time = id;
+  }
+  return time;
+}
+
+export function getTimeOfDayDefinition(time: TimeOfDay): TimeOfDayDefinition {
+  return TIME_OF_DAY_REGISTRY[time];
+}
+
+// The clock as a ship's bell would have it, e.g. "14:30"
+export function formatClock(clock: number): string {
+  const minutes = Math.floor(clock * 24 * 60);
+  const hours = Math.floor(minutes / 60);
+  return `${String(hours).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
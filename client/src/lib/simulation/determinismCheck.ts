@@ -0,0 +1,106 @@
+import { CONTROL_NAMES, type ControlState } from "@shared/multiplayer";
+import { createRng, RandomFn } from "../helpers/random";
+import { GameSimulation, SimulationSnapshot } from "./GameSimulation";
+
+/**
+ * Headless determinism check for GameSimulation
+ * Runs the same seed and the same scripted controls through separate simulations
+ * and compares their snapshots every second - any difference means some state is
+ * driven by something other than the seed and the inputs (Math.random, wall-clock
+ * time, iteration order...) and replays and multiplayer will drift
+ * It also restores a snapshot taken halfway into a fresh simulation and checks the
+ * rest of the run matches, so state missing from the snapshot shows up too
+ * Run with: npm run check:determinism [seed] [seconds]
+ */
+
+const STEP = 1 / 60;
+const STEPS_PER_SECOND = 60;
+
+// Controls change every half second: mostly sailing ahead, turning and firing now and then
+function createScript(seed: number, steps: number): ControlState[] {
+  const random: RandomFn = createRng(seed ^ 0x5eed);
+  const script: ControlState[] = [];
+  let controls = createControls(random);
+  for (let step = 0; step < steps; step++) {
+    if (step % 30 === 0) controls = createControls(random);
+    script.push(controls);
+  }
+  return script;
+}
+
+function createControls(random: RandomFn): ControlState {
+  const controls = Object.fromEntries(CONTROL_NAMES.map(name => [name, random() < 0.15])) as ControlState;
+  controls.forward = random() < 0.8;
+  controls.backward = false;
+  return controls;
+}
+
+function createSimulation(seed: number): GameSimulation {
+  const simulation = new GameSimulation();
+  simulation.configure({ encounters: true, dayLength: 120 });
+  simulation.addFleetShip('sloop');
+  simulation.reset(seed);
+  return simulation;
+}
+
+// Steps the simulation through part of the script, snapshotting after every second
+function run(simulation: GameSimulation, script: ControlState[], from: number, to: number): Map<number, string> {
+  const snapshots = new Map<number, string>();
+  for (let step = from; step < to; step++) {
+    simulation.setInput(script[step]);
+    simulation.step(STEP);
+    if ((step + 1) % STEPS_PER_SECOND === 0) {
+      snapshots.set(step + 1, serialize(simulation.getSnapshot()));
+    }
+  }
+  return snapshots;
+}
+
+function serialize(snapshot: SimulationSnapshot): string {
+  return JSON.stringify(snapshot);
+}
+
+// The first second at which two runs disagree, or null if they never do
+function findDivergence(a: Map<number, string>, b: Map<number, string>): number | null {
+  for (const [step, snapshot] of Array.from(b)) {
+    if (a.get(step) !== snapshot) return step / STEPS_PER_SECOND;
+  }
+  return null;
+}
+
+function check(): void {
+  const [seed = 1234, seconds = 120] = process.argv.slice(2).map(Number);
+  const steps = seconds * STEPS_PER_SECOND;
+  const halfway = Math.floor(seconds / 2) * STEPS_PER_SECOND;
+  const script = createScript(seed, steps);
+
+  // The simulation is chatty - keep the report readable
+  const log = console.log;
+  console.log = () => {};
+  console.warn = () => {};
+
+  const first = run(createSimulation(seed), script, 0, steps);
+
+  const second = createSimulation(seed);
+  const secondRun = run(second, script, 0, halfway);
+  const halfwaySnapshot = second.getSnapshot();
+  run(second, script, halfway, steps).forEach((snapshot, step) => secondRun.set(step, snapshot));
+
+  const restored = createSimulation(seed + 1);
+  restored.restore(halfwaySnapshot);
+  const restoredRun = run(restored, script, halfway, steps);
+
+  console.log = log;
+  log(`[DETERMINISM] Seed ${seed}, ${seconds}s of scripted play (${steps} steps)`);
+
+  const rerun = findDivergence(first, secondRun);
+  const restore = findDivergence(first, restoredRun);
+  log(`[DETERMINISM] Same seed and inputs: ${rerun === null ? 'identical' : `diverged by ${rerun}s`}`);
+  log(`[DETERMINISM] Restored from ${halfway / STEPS_PER_SECOND}s: ${restore === null ? 'identical' : `diverged by ${restore}s`}`);
+
+  if (rerun !== null || restore !== null) {
+    process.exitCode = 1;
+  }
+}
+
+check();
@@ -0,0 +1,144 @@
+import { RandomFn, randomWeighted } from "../helpers/random";
+import { EnemyArchetypeId, FACTION_REGISTRY, getArchetype, PLAYER_FACTION, ShipFaction } from "./enemyArchetypes";
+
+/**
+ * Encounter Director
+ * ------------------
+ * Decides when enemies turn up and how many. Waves come one after another with a
+ * calm in between, each bought from a threat budget that grows with the wave number,
+ * the time at sea and the player's upgrades, and shrinks or grows with how well the
+ * last waves went. The simulation does the spawning - this module only plans.
+ *
+ * Like the enemy AI, the director's state is plain data so snapshots and replays
+ * carry it, and every random choice comes from the generator it is given.
+ */
+
+export const ENCOUNTER = {
+  FIRST_CALM: 10,          // Seconds before the first wave
+  CALM: 20,                // Seconds between a cleared wave and the next
+  SPAWN_INTERVAL: 1.5,     // Seconds between ships of the same wave
+  SPAWN_MIN_DISTANCE: 100, // Ships appear on a ring around the player, out of cannon range
+  SPAWN_MAX_DISTANCE: 140,
+  SPAWN_ATTEMPTS: 12,      // Spots tried per ship before waiting for the next step
+  SPAWN_CLEARANCE: 5,      // Extra room kept between a new hull and any feature
+  MAX_ACTIVE_SHIPS: 10,    // Queued ships wait while this many enemies are afloat
+  DESPAWN_DISTANCE: 450,   // Ships left this far behind are removed
+  BASE_BUDGET: 1,
+  BUDGET_PER_WAVE: 1.5,
+  BUDGET_PER_MINUTE: 0.5,
+  BUDGET_PER_UPGRADE: 0.5,
+  MAX_BUDGET: 30,
+  MIN_PERFORMANCE: 0.6,    // Struggling players get waves 40% smaller...
+  MAX_PERFORMANCE: 1.4,    // ...and players breezing through 40% larger
+  SECONDS_PER_THREAT: 8,   // Time a wave is expected to take per point of threat, on top of a base
+  BASE_WAVE_TIME: 20,
+};
+
+// What each archetype costs from a wave's budget and the first wave it can join
+export const WAVE_ROSTER: Record<EnemyArchetypeId, { threat: number; firstWave: number }> = {
+  sloop: { threat: 1, firstWave: 1 },
+  merchant: { threat: 1, firstWave: 2 },
+  frigate: { threat: 2, firstWave: 1 },
+  ghostShip: { threat: 4, firstWave: 3 },
+  manOWar: { threat: 5, firstWave: 4 },
+};
+
+export type EncounterPhase = 'calm' | 'wave';
+
+export interface EncounterState {
+  wave: number;               // Current or last wave, 0 before the first
+  phase: EncounterPhase;
+  timer: number;              // Seconds left of the calm, or since the wave started
+  queue: EnemyArchetypeId[];  // Ships of the current wave still to spawn
+  spawnTimer: number;         // Seconds until the next queued ship
+  waveShips: string[];        // Ids of the current wave's ships still afloat
+  waveThreat: number;
+  waveStartHealth: number;    // Player health fraction when the wave started
+  performance: number;        // Budget multiplier from recent waves
+}
+
+// Everything outside the director a wave's size depends on
+export interface WaveContext {
+  wave: number;
+  elapsed: number;       // Seconds at sea
+  upgradeLevel: number;  // Upgrade levels bought
+  performance: number;
+}
+
+export function createEncounterState(): EncounterState {
+  return {
+    wave: 0,
+    phase: 'calm',
+    timer: ENCOUNTER.FIRST_CALM,
+    queue: [],
+    spawnTimer: 0,
+    waveShips: [],
+    waveThreat: 0,
+    waveStartHealth: 1,
+    performance: 1,
+  };
+}
+
+export function cloneEncounterState(state: EncounterState): EncounterState {
+  return { ...state, queue: [...state.queue], waveShips: [...state.waveShips] };
+}
+
+// Whether ships of a faction go after the player - the rest don't hold up a wave
+export function attacksPlayer(faction: ShipFaction): boolean {
+  return faction !== PLAYER_FACTION && FACTION_REGISTRY[faction].hostileTo.includes(PLAYER_FACTION);
+}
+
+/**
+ * Threat points a wave may spend
+ */
+export function getWaveBudget({ wave, elapsed, upgradeLevel, performance }: WaveContext): number {
+  const budget = ENCOUNTER.BASE_BUDGET
+    + wave * ENCOUNTER.BUDGET_PER_WAVE
+    + (elapsed / 60) * ENCOUNTER.BUDGET_PER_MINUTE
+    + upgradeLevel * ENCOUNTER.BUDGET_PER_UPGRADE;
+  return Math.min(ENCOUNTER.MAX_BUDGET, budget * performance);
+}
+
+/**
+ * Picks the ships of a wave - archetypes it has unlocked, by their spawn weights,
+ * until the budget runs out. Ships that only sail after dark join night waves only.
+ * A wave always has at least one ship
+ */
+export function planWave(wave: number, budget: number, random: RandomFn, night: boolean): EnemyArchetypeId[] {
+  const unlocked = (Object.keys(WAVE_ROSTER) as EnemyArchetypeId[])
+    .filter(id => WAVE_ROSTER[id].firstWave <= wave && (night || !getArchetype(id).nightOnly));
+  const ships: EnemyArchetypeId[] = [];
+  let remaining = budget;
+
+  for (;;) {
+    const affordable = unlocked
+      .filter(id => WAVE_ROSTER[id].threat <= remaining)
+      .map(id => ({ id, weight: getArchetype(id).spawnWeight }));
+    if (affordable.length === 0) break;
+
+    const { id } = randomWeighted(random, affordable);
+    ships.push(id);
+    remaining -= WAVE_ROSTER[id].threat;
+  }
+
+  if (ships.length === 0) ships.push('sloop');
+  return ships;
+}
+
+export function getWaveThreat(ships: EnemyArchetypeId[]): number {
+  return ships.reduce((threat, id) => threat + WAVE_ROSTER[id].threat, 0);
+}
+
+/**
+ * Folds how a cleared wave went into the performance multiplier - health kept
+ * counts most, clearing it faster than expected a little
+ */
+export function ratePerformance(state: EncounterState, healthFraction: number): number {
+  const healthKept = Math.max(0, Math.min(1, healthFraction / Math.max(state.waveStartHealth, 0.01)));
+  const expectedTime = ENCOUNTER.BASE_WAVE_TIME + state.waveThreat * ENCOUNTER.SECONDS_PER_THREAT;
+  const pace = Math.min(1.5, expectedTime / Math.max(state.timer, 1));
+
+  const rating = 0.5 + 0.6 * healthKept + 0.2 * pace;
+  const performance = state.performance * 0.5 + rating * 0.5;
+  return Math.max(ENCOUNTER.MIN_PERFORMANCE, Math.min(ENCOUNTER.MAX_PERFORMANCE, performance));
+}
@@ -0,0 +1,298 @@
+import { RandomFn } from "../helpers/random";
+import { getSailableHeading, WindVector } from "./wind";
+
+/**
+ * Enemy AI
+ * --------
+ * Every enemy runs a small state machine. Each state is a handler that looks at what
+ * the ship can perceive and either steers it or hands over to another state. The
+ * simulation owns movement, collisions and cannons - the AI only says where to head,
+ * how fast and whether to fire. Whatever heading a state picks, a ship can't sail
+ * into the wind, so one that lies in the no-go zone is turned into a tack.
+ *
+ * All AI state is plain data so snapshots and replays carry it as-is, and every
+ * random choice comes from the generator in the perception.
+ */
+
+export const AI_STATES = ['patrol', 'pursue', 'broadside', 'flee', 'search', 'regroup'] as const;
+export type AIStateName = typeof AI_STATES[number];
+
+// Tuning for one kind of ship - speeds are per 1/60 s, as the AI was tuned at 60 fps
+export interface EnemyAIParams {
+  speed: number;          // Cruising speed at full sail
+  turnRate: number;       // Radians per 1/60 s
+  detectionRange: number; // Spots the player inside this range
+  loseRange: number;      // Loses sight of a target it is chasing beyond this range
+  fireRange: number;
+  optimalRange: number;   // Circles the target inside this range
+  minimumRange: number;   // Backs off inside this range
+  fleeHealth: number;     // Fraction of health below which it runs for good
+  searchTime: number;     // Seconds spent around the last known position before giving up
+  patrolRadius: number;   // How far it wanders from its patrol anchor
+  regroupRange: number;   // Looks for allies within this range after fleeing
+}
+
+// A standard enemy - circles well outside ramming distance (24) and fires from there
+export const DEFAULT_AI_PARAMS: EnemyAIParams = {
+  speed: 0.05,
+  turnRate: 0.01,
+  detectionRange: 80,
+  loseRange: 120,
+  fireRange: 55,
+  optimalRange: 45,
+  minimumRange: 30,
+  fleeHealth: 0.25,
+  searchTime: 8,
+  patrolRadius: 40,
+  regroupRange: 300,
+};
+
+// Named tunings an enemy can be spawned with - anything not listed keeps the default
+export const AI_PROFILES = {
+  standard: DEFAULT_AI_PARAMS,
+  // Closes in hard and never gives up the chase
+  aggressive: { ...DEFAULT_AI_PARAMS, speed: 0.06, detectionRange: 100, loseRange: 160, optimalRange: 38, fleeHealth: 0.1, searchTime: 15 },
+  // Keeps its distance and runs early
+  cautious: { ...DEFAULT_AI_PARAMS, speed: 0.045, fireRange: 65, optimalRange: 58, minimumRange: 40, fleeHealth: 0.5, searchTime: 4 },
+  // Never picks a fight - runs from anything that comes close
+  timid: { ...DEFAULT_AI_PARAMS, detectionRange: 60, fireRange: 0, fleeHealth: 1.01, patrolRadius: 80 },
+} satisfies Record<string, EnemyAIParams>;
+
+export type AIProfileName = keyof typeof AI_PROFILES;
+
+export interface AIPoint {
+  x: number;
+  z: number;
+}
+
+// What an enemy is doing and remembers
+export interface EnemyAI {
+  state: AIStateName;
+  stateTime: number;         // Seconds in the current state
+  target: string | null;     // Ship it is chasing or fleeing from
+  lastKnown: AIPoint | null; // Where the target was last seen
+  waypoint: AIPoint | null;  // Where it is sailing when not chasing anything
+  anchor: AIPoint;           // Centre of its patrol
+  orbit: 1 | -1;             // Which way it circles the target
+}
+
+// What an enemy can see this step
+export interface AIPerception {
+  position: AIPoint;
+  heading: number;     // Where the bow points now
+  wind: WindVector;    // As felt where the ship is
+  health: number;
+  maxHealth: number;
+  target: { id: string; position: AIPoint } | null;
+  allies: { id: string; position: AIPoint }[];
+  random: RandomFn;
+  dt: number;
+}
+
+// Where to go - heading uses the enemy convention (0 = +Z), speed is per 1/60 s
+export interface AISteering {
+  heading: number | null; // null keeps the current heading
+  speed: number;
+  fire: boolean;
+}
+
+// A state either steers the ship or names the state to switch to
+export type AIStateResult = AISteering | { next: AIStateName };
+
+export type AIStateHandler = (ai: EnemyAI, perception: AIPerception, params: EnemyAIParams) => AIStateResult;
+
+// Distance at which a waypoint counts as reached
+const ARRIVAL_RADIUS = 10;
+
+export const distanceBetween = (a: AIPoint, b: AIPoint): number => Math.hypot(b.x - a.x, b.z - a.z);
+export const headingTo = (from: AIPoint, to: AIPoint): number => Math.atan2(to.x - from.x, to.z - from.z);
+
+const isLowOnHealth = (perception: AIPerception, params: EnemyAIParams): boolean =>
+  perception.health < perception.maxHealth * params.fleeHealth;
+
+const distanceToTarget = (perception: AIPerception): number =>
+  perception.target ? distanceBetween(perception.position, perception.target.position) : Infinity;
+
+// Nearest ally in regrouping range, if any
+const findNearestAlly = (perception: AIPerception, params: EnemyAIParams) => {
+  let nearest: AIPerception['allies'][number] | null = null;
+  let nearestDistance = params.regroupRange;
+  for (const ally of perception.allies) {
+    const distance = distanceBetween(perception.position, ally.position);
+    if (distance < nearestDistance) {
+      nearest = ally;
+      nearestDistance = distance;
+    }
+  }
+  return nearest;
+};
+
+// Remember where a visible target is, so it can be searched for once it slips away
+const trackTarget = (ai: EnemyAI, perception: AIPerception): void => {
+  if (perception.target) {
+    ai.target = perception.target.id;
+    ai.lastKnown = { ...perception.target.position };
+  }
+};
+
+export const AI_STATE_HANDLERS: Record<AIStateName, AIStateHandler> = {
+  // Wander around the anchor until something comes into sight
+  patrol: (ai, perception, params) => {
+    if (distanceToTarget(perception) < params.detectionRange) {
+      return { next: isLowOnHealth(perception, params) ? 'flee' : 'pursue' };
+    }
+
+    if (!ai.waypoint || distanceBetween(perception.position, ai.waypoint) < ARRIVAL_RADIUS) {
+      const angle = perception.random() * Math.PI * 2;
+      const radius = perception.random() * params.patrolRadius;
+      ai.waypoint = { x: ai.anchor.x + Math.sin(angle) * radius, z: ai.anchor.z + Math.cos(angle) * radius };
+    }
+
+    return { heading: headingTo(perception.position, ai.waypoint), speed: params.speed * 0.5, fire: false };
+  },
+
+  // Close in on the target, firing once in range
+  pursue: (ai, perception, params) => {
+    const distance = distanceToTarget(perception);
+    if (distance > params.loseRange) return { next: 'search' };
+    if (isLowOnHealth(perception, params) || distance < params.minimumRange) return { next: 'flee' };
+    if (distance < params.optimalRange) return { next: 'broadside' };
+
+    trackTarget(ai, perception);
+    return {
+      heading: headingTo(perception.position, perception.target!.position),
+      speed: params.speed * 0.9,
+      fire: distance < params.fireRange,
+    };
+  },
+
+  // Circle the target side-on, now and then switching direction to stay unpredictable
+  broadside: (ai, perception, params) => {
+    const distance = distanceToTarget(perception);
+    if (distance > params.loseRange) return { next: 'search' };
+    if (isLowOnHealth(perception, params) || distance < params.minimumRange) return { next: 'flee' };
+    if (distance > params.optimalRange * 1.2) return { next: 'pursue' };
+
+    trackTarget(ai, perception);
+    if (perception.random() < 0.005) {
+      ai.orbit = ai.orbit === 1 ? -1 : 1;
+    }
+
+    return {
+      heading: headingTo(perception.position, perception.target!.position) + ai.orbit * Math.PI / 2,
+      speed: params.speed * 0.8,
+      fire: distance < params.fireRange,
+    };
+  },
+
+  // Run from the target - a healthy ship comes back once it has room, a damaged one looks for friends
+  flee: (ai, perception, params) => {
+    const distance = distanceToTarget(perception);
+    const lowOnHealth = isLowOnHealth(perception, params);
+
+    if (!lowOnHealth && distance > params.optimalRange) return { next: 'pursue' };
+    if (distance > params.loseRange) return { next: 'regroup' };
+
+    trackTarget(ai, perception);
+    return {
+      heading: headingTo(perception.position, perception.target!.position) + Math.PI,
+      speed: params.speed * 1.5,
+      fire: false,
+    };
+  },
+
+  // Sail to where the target was last seen and look around for a while
+  search: (ai, perception, params) => {
+    if (distanceToTarget(perception) < params.detectionRange) {
+      return { next: isLowOnHealth(perception, params) ? 'flee' : 'pursue' };
+    }
+    if (!ai.lastKnown || ai.stateTime > params.searchTime) {
+      ai.anchor = { ...perception.position };
+      return { next: 'patrol' };
+    }
+
+    // Circle slowly once there
+    const arrived = distanceBetween(perception.position, ai.lastKnown) < ARRIVAL_RADIUS;
+    const heading = headingTo(perception.position, ai.lastKnown) + (arrived ? ai.orbit * Math.PI / 2 : 0);
+    return { heading, speed: params.speed * (arrived ? 0.4 : 0.9), fire: false };
+  },
+
+  // Head for the nearest ally and patrol alongside it
+  regroup: (ai, perception, params) => {
+    const lowOnHealth = isLowOnHealth(perception, params);
+    const distance = distanceToTarget(perception);
+    if (!lowOnHealth && distance < params.detectionRange) return { next: 'pursue' };
+    if (lowOnHealth && distance < params.minimumRange * 2) return { next: 'flee' };
+
+    const ally = findNearestAlly(perception, params);
+    if (!ally || distanceBetween(perception.position, ally.position) < ARRIVAL_RADIUS * 3) {
+      ai.anchor = ally ? { ...ally.position } : { ...perception.position };
+      return { next: 'patrol' };
+    }
+
+    ai.target = ally.id;
+    return { heading: headingTo(perception.position, ally.position), speed: params.speed, fire: false };
+  },
+};
+
+/**
+ * Keeps a steering order out of the no-go zone - a heading too close to the wind
+ * becomes a close-hauled tack toward it
+ */
+export function sailByWind(steering: AISteering, perception: AIPerception): AISteering {
+  if (steering.heading === null) return steering;
+  return { ...steering, heading: getSailableHeading(steering.heading, perception.heading, perception.wind) };
+}
+
+/**
+ * A fresh AI for a ship that starts patrolling where it is
+ */
+export function createEnemyAI(anchor: AIPoint): EnemyAI {
+  return {
+    state: 'patrol',
+    stateTime: 0,
+    target: null,
+    lastKnown: null,
+    waypoint: null,
+    anchor: { ...anchor },
+    orbit: 1,
+  };
+}
+
+export function cloneEnemyAI(ai: EnemyAI): EnemyAI {
+  return {
+    ...ai,
+    lastKnown: ai.lastKnown && { ...ai.lastKnown },
+    waypoint: ai.waypoint && { ...ai.waypoint },
+    anchor: { ...ai.anchor },
+  };
+}
+
+function enterState(ai: EnemyAI, state: AIStateName): void {
+  ai.state = state;
+  ai.stateTime = 0;
+  ai.waypoint = null;
+  if (state === 'patrol') {
+    ai.target = null;
+  }
+}
+
+// A state may hand over a couple of times in one step (e.g. broadside -> flee -> regroup), but never loop
+const MAX_TRANSITIONS_PER_STEP = 3;
+
+/**
+ * Runs one step of an enemy's state machine and returns how it wants to steer
+ */
+export function updateEnemyAI(ai: EnemyAI, perception: AIPerception, params: EnemyAIParams): AISteering {
+  ai.stateTime += perception.dt;
+
+  for (let transitions = 0; transitions <= MAX_TRANSITIONS_PER_STEP; transitions++) {
+    const result = AI_STATE_HANDLERS[ai.state](ai, perception, params);
+    if (!('next' in result)) return sailByWind(result, perception);
+
+    enterState(ai, result.next);
+  }
+
+  // Still undecided - drift on the current heading
+  return { heading: null, speed: 0, fire: false };
+}
@@ -0,0 +1,239 @@
+/**
+ * Enemy Archetypes and Factions
+ * -----------------------------
+ * Every kind of enemy ship is one entry below - the simulation reads its health,
+ * hull, guns, loot and AI from here and the view reads its model. Factions decide
+ * who fights whom: ships attack anything their faction is hostile to and run from
+ * or fight back against anything hostile to them, so navy frigates and pirate
+ * sloops will happily sink each other while the player watches
+ */
+
+import { HULL } from "../constants";
+import { HullDimensions } from "../helpers/collisionShapes";
+import { AmmoType } from "./ammunition";
+import { AI_PROFILES, AIProfileName, EnemyAIParams } from "./enemyAI";
+import { PowerUpType } from "./powerUps";
+
+// The player is treated as a faction of their own, hostile to everyone at sea
+export const PLAYER_FACTION = 'player';
+
+export const FACTIONS = ['navy', 'pirates', 'merchants', 'cursed'] as const;
+export type Faction = typeof FACTIONS[number];
+export type ShipFaction = Faction | typeof PLAYER_FACTION;
+
+export interface FactionDefinition {
+  name: string;
+  color: string;                // Mini-map and debug colour
+  hostileTo: ShipFaction[];     // Who its ships attack on sight
+}
+
+export const FACTION_REGISTRY: Record<Faction, FactionDefinition> = {
+  navy: { name: 'Royal Navy', color: '#2196F3', hostileTo: [PLAYER_FACTION, 'pirates', 'cursed'] },
+  pirates: { name: 'Rival Pirates', color: '#F44336', hostileTo: [PLAYER_FACTION, 'navy', 'merchants'] },
+  // Merchants never start a fight - they only run from ships that would rob them
+  merchants: { name: 'Merchant Guild', color: '#FFC107', hostileTo: [] },
+  cursed: { name: 'The Drowned', color: '#76FF03', hostileTo: [PLAYER_FACTION, 'navy', 'pirates', 'merchants'] },
+};
+
+// The player's own ships on the charts - their escorts sail under the player's flag
+const PLAYER_FACTION_COLOR = '#4CAF50';
+
+export function getFactionColor(faction: ShipFaction): string {
+  return faction === PLAYER_FACTION ? PLAYER_FACTION_COLOR : FACTION_REGISTRY[faction].color;
+}
+
+// Whether two ships would fight if they met - either side being hostile is enough
+export function areHostile(a: ShipFaction, b: ShipFaction): boolean {
+  if (a === b) return false;
+  if (a === PLAYER_FACTION || b === PLAYER_FACTION) return true;
+  return FACTION_REGISTRY[a].hostileTo.includes(b) || FACTION_REGISTRY[b].hostileTo.includes(a);
+}
+
+export interface LootTable {
+  gold: { min: number; max: number };
+  dropChance: number;   // Chance of leaving a power-up where it sank
+  drops: { type: PowerUpType; weight: number }[];
+  ammo: { type: AmmoType; min: number; max: number; chance: number } | null; // Shot salvaged from its magazine
+}
+
+export interface EnemyArchetype {
+  name: string;
+  faction: Faction;
+
+  model: {
+    path: string;
+    scale: number;        // Relative to the player ship
+    heightOffset: number; // Height of the model above the water
+    glow?: string;        // Colour of an eerie light around the ship
+  };
+  hull: HullDimensions;
+
+  health: number;
+  speed: number;          // Cruising speed at full sail, per 1/60 s
+  turnRate: number;       // Radians per 1/60 s
+  cannons: number;        // Balls fired per shot
+  crew: number;           // Fewer hands on deck, slower reloads
+  prize: boolean;         // Whether a boarding party can sail her home once she is taken
+  aiProfile: AIProfileName;
+  loot: LootTable;
+  spawnWeight: number;    // How often spawnEnemies picks it, relative to the others
+  nightOnly?: boolean;    // Only joins waves after dark, and is gone by daybreak
+}
+
+// What most ships carry in their holds
+const COMMON_DROPS: LootTable['drops'] = [
+  { type: 'health_boost', weight: 3 },
+  { type: 'speed_boost', weight: 2 },
+  { type: 'double_damage', weight: 2 },
+  { type: 'rapid_fire', weight: 2 },
+  { type: 'shield', weight: 2 },
+  { type: 'triple_shot', weight: 1 },
+  { type: 'long_range', weight: 1 },
+  { type: 'gold_bonus', weight: 1 },
+];
+
+export const ENEMY_ARCHETYPES = {
+  // Small and quick, lightly armed - hunts in packs
+  sloop: {
+    name: 'Pirate Sloop',
+    faction: 'pirates',
+    model: { path: '/models/pirate_ship.glb', scale: 1.0, heightOffset: 1.5 },
+    hull: { HALF_LENGTH: 12, HALF_WIDTH: 4, HEIGHT: 7 },
+    health: 60,
+    speed: 0.065,
+    turnRate: 0.015,
+    cannons: 1,
+    crew: 20,
+    prize: true,
+    aiProfile: 'aggressive',
+    loot: {
+      gold: { min: 30, max: 60 },
+      dropChance: 0.5,
+      drops: COMMON_DROPS,
+      ammo: { type: 'grape', min: 5, max: 10, chance: 0.5 },
+    },
+    spawnWeight: 4,
+  },
+  // The standard warship - the one every enemy used to be
+  frigate: {
+    name: 'Navy Frigate',
+    faction: 'navy',
+    model: { path: '/models/pirate_ship.glb', scale: 1.25, heightOffset: 1.5 },
+    hull: HULL.ENEMY,
+    health: 100,
+    speed: 0.05,
+    turnRate: 0.01,
+    cannons: 2,
+    crew: 40,
+    prize: true,
+    aiProfile: 'standard',
+    loot: {
+      gold: { min: 50, max: 100 },
+      dropChance: 1,
+      drops: COMMON_DROPS,
+      ammo: { type: 'chain', min: 5, max: 10, chance: 0.5 },
+    },
+    spawnWeight: 3,
+  },
+  // Slow, heavily built and bristling with guns
+  manOWar: {
+    name: "Man-o'-War",
+    faction: 'navy',
+    model: { path: '/models/advanced_pirate_ship.glb', scale: 1.6, heightOffset: 2.5 },
+    hull: { HALF_LENGTH: 20, HALF_WIDTH: 7, HEIGHT: 11 },
+    health: 250,
+    speed: 0.035,
+    turnRate: 0.006,
+    cannons: 4,
+    crew: 90,
+    prize: true,
+    aiProfile: 'cautious',
+    loot: {
+      gold: { min: 150, max: 250 },
+      dropChance: 1,
+      drops: [
+        { type: 'triple_shot', weight: 2 },
+        { type: 'long_range', weight: 2 },
+        { type: 'double_damage', weight: 2 },
+        { type: 'shield', weight: 1 },
+      ],
+      ammo: { type: 'heated', min: 10, max: 20, chance: 0.75 },
+    },
+    spawnWeight: 1,
+  },
+  // Unarmed and rich - worth chasing down
+  merchant: {
+    name: 'Merchantman',
+    faction: 'merchants',
+    model: { path: '/models/advanced_pirate_ship.glb', scale: 1.2, heightOffset: 2.5 },
+    hull: HULL.ENEMY,
+    health: 80,
+    speed: 0.045,
+    turnRate: 0.008,
+    cannons: 0,
+    crew: 15,
+    prize: true,
+    aiProfile: 'timid',
+    loot: {
+      gold: { min: 100, max: 200 },
+      dropChance: 0.75,
+      drops: [
+        { type: 'gold_bonus', weight: 3 },
+        { type: 'health_boost', weight: 2 },
+        { type: 'speed_boost', weight: 1 },
+      ],
+      ammo: { type: 'chain', min: 10, max: 15, chance: 0.5 },
+    },
+    spawnWeight: 2,
+  },
+  // Rises with the dark - relentless and at war with the living
+  ghostShip: {
+    name: 'Ghost Ship',
+    faction: 'cursed',
+    model: { path: '/models/pirate_ship.glb', scale: 1.4, heightOffset: 1.5, glow: '#76FF03' },
+    hull: HULL.ENEMY,
+    health: 150,
+    speed: 0.055,
+    turnRate: 0.012,
+    cannons: 3,
+    crew: 30,
+    prize: false,           // Her timbers are held together by the curse, and rot away without it
+    aiProfile: 'aggressive',
+    loot: {
+      gold: { min: 200, max: 300 },
+      dropChance: 1,
+      drops: [
+        { type: 'double_damage', weight: 1 },
+        { type: 'rapid_fire', weight: 1 },
+        { type: 'triple_shot', weight: 1 },
+      ],
+      ammo: { type: 'heated', min: 10, max: 15, chance: 1 },
+    },
+    spawnWeight: 1.5,
+    nightOnly: true,
+  },
+} satisfies Record<string, EnemyArchetype>;
+
+export type EnemyArchetypeId = keyof typeof ENEMY_ARCHETYPES;
+
+// All registered archetypes, in registry order
+export const ENEMY_ARCHETYPE_IDS = Object.keys(ENEMY_ARCHETYPES) as EnemyArchetypeId[];
+
+// What addEnemy builds when no archetype is asked for
+export const DEFAULT_ARCHETYPE: EnemyArchetypeId = 'frigate';
+
+// Get the definition for an archetype - falls back to the default for unknown ids (e.g. from old saves)
+export function getArchetype(id: EnemyArchetypeId): EnemyArchetype {
+  const archetype: EnemyArchetype | undefined = ENEMY_ARCHETYPES[id];
+  if (!archetype) {
+    console.warn(`[ENEMY] Unknown archetype: ${id}, defaulting to ${DEFAULT_ARCHETYPE}`);
+    return ENEMY_ARCHETYPES[DEFAULT_ARCHETYPE];
+  }
+  return archetype;
+}
+
+// The AI tuning an archetype sails with - its profile, at its own speed and handling
+export function getArchetypeAIParams(id: EnemyArchetypeId): EnemyAIParams {
+  const archetype = getArchetype(id);
+  return { ...AI_PROFILES[archetype.aiProfile], speed: archetype.speed, turnRate: archetype.turnRate };
+}
@@ -0,0 +1,148 @@
+import { EnemyArchetypeId } from "./enemyArchetypes";
+import {
+  AIPerception,
+  AIPoint,
+  AISteering,
+  distanceBetween,
+  EnemyAI,
+  EnemyAIParams,
+  headingTo,
+  sailByWind,
+  updateEnemyAI
+} from "./enemyAI";
+
+/**
+ * Fleet
+ * -----
+ * The ships the player owns besides their own - prizes taken by boarding and
+ * ships bought from the shipyard. Like the crew it is progress: the simulation
+ * holds it so replays carry it, and the save keeps it between voyages.
+ *
+ * Up to MAX_ESCORTS of them sail with the player as escorts. At sea they are
+ * ships like any other under the player's flag, sailed by the same movement and
+ * gunnery as the enemies; only who they steer for comes from here, following the
+ * order the player last gave the fleet.
+ */
+
+export interface FleetShip {
+  id: string;
+  archetype: EnemyArchetypeId; // What she was built as - her hull, guns and handling
+  escort: boolean;             // Sails with the player, rather than waiting in port
+}
+
+export const FLEET_COMMANDS = ['follow', 'attack', 'hold', 'flee'] as const;
+export type FleetCommand = typeof FLEET_COMMANDS[number];
+
+export interface FleetCommandDefinition {
+  name: string;
+  description: string;
+}
+
+export const FLEET_COMMAND_REGISTRY = {
+  follow: {
+    name: 'Follow',
+    description: 'Keep station astern, firing on anything that attacks the fleet',
+  },
+  attack: {
+    name: 'Attack',
+    description: 'Go after the last ship you hit',
+  },
+  hold: {
+    name: 'Hold',
+    description: 'Heave to where they are and defend the spot',
+  },
+  flee: {
+    name: 'Flee',
+    description: 'Run from the nearest ship that attacks the fleet',
+  },
+} satisfies Record<FleetCommand, FleetCommandDefinition>;
+
+// Gold the shipyard asks for a new ship - archetypes not listed aren't for sale
+export const SHIPYARD_PRICES: Partial<Record<EnemyArchetypeId, number>> = {
+  sloop: 600,
+  merchant: 800,
+  frigate: 1500,
+};
+
+export const FLEET = {
+  MAX_ESCORTS: 3,
+  STATION_RADIUS: 8,    // Close enough to its station to sail alongside the flagship
+  CATCH_UP: 1.3,        // Sails this much faster than cruising to get back on station
+  CLOSING_RATE: 0.002,  // Extra speed per unit of distance from its station, per 1/60 s
+  FLEE_SPEED: 1.5,
+  // Stations relative to the flagship - units toward its bow and toward starboard
+  FORMATION: [
+    { along: -30, across: -25 },
+    { along: -30, across: 25 },
+    { along: -55, across: 0 },
+  ],
+};
+
+// What an escort sees - the AI's perception, where the target is the ship the player last hit
+export interface EscortPerception extends AIPerception {
+  station: AIPoint;                          // Its place in the formation
+  flagship: { heading: number; speed: number }; // Enemy heading convention, speed per 1/60 s
+  threat: AIPerception['target'];            // Nearest ship that attacks the player's side
+}
+
+export function cloneFleet(fleet: FleetShip[]): FleetShip[] {
+  return fleet.map(ship => ({ ...ship }));
+}
+
+export function getFleetCommand(command: FleetCommand): FleetCommandDefinition {
+  return FLEET_COMMAND_REGISTRY[command];
+}
+
+export function getEscorts(fleet: FleetShip[]): FleetShip[] {
+  return fleet.filter(ship => ship.escort);
+}
+
+// The next free id for a ship joining the fleet - ids outlive voyages, so they can't come from the simulation's counter
+export function createFleetShipId(fleet: FleetShip[]): string {
+  let index = fleet.length + 1;
+  while (fleet.some(ship => ship.id === `ship-${index}`)) index++;
+  return `ship-${index}`;
+}
+
+/**
+ * Where an escort keeps station, given the flagship's position and the direction of its bow
+ */
+export function getFormationStation(index: number, position: AIPoint, bow: AIPoint): AIPoint {
+  const { along, across } = FLEET.FORMATION[index % FLEET.FORMATION.length];
+  return {
+    x: position.x + bow.x * along - bow.z * across,
+    z: position.z + bow.z * along + bow.x * across,
+  };
+}
+
+/**
+ * How an escort steers under the fleet's current order. Attacking hands over to
+ * the enemy AI with the player's target in sight; with nothing to attack or flee
+ * from, an escort falls back on following
+ */
+export function steerEscort(ai: EnemyAI, command: FleetCommand, perception: EscortPerception, params: EnemyAIParams): AISteering {
+  if (command === 'attack' && perception.target) {
+    // The order is the target, however far off it is
+    return updateEnemyAI(ai, perception, { ...params, detectionRange: Infinity, loseRange: Infinity });
+  }
+
+  const { position, threat } = perception;
+  const fire = threat !== null && distanceBetween(position, threat.position) < params.fireRange;
+
+  if (command === 'flee' && threat) {
+    return sailByWind({ heading: headingTo(threat.position, position), speed: params.speed * FLEET.FLEE_SPEED, fire: false }, perception);
+  }
+
+  // Holding keeps to where the order was given
+  const station = command === 'hold' ? ai.anchor : perception.station;
+  const distance = distanceBetween(position, station);
+
+  if (distance < FLEET.STATION_RADIUS) {
+    return command === 'hold'
+      ? { heading: null, speed: 0, fire }
+      : sailByWind({ heading: perception.flagship.heading, speed: Math.min(params.speed * FLEET.CATCH_UP, perception.flagship.speed), fire }, perception);
+  }
+
+  const closing = (command === 'hold' ? 0 : perception.flagship.speed) + distance * FLEET.CLOSING_RATE;
+  return sailByWind({ heading: headingTo(position, station), speed: Math.min(params.speed * FLEET.CATCH_UP, closing), fire }, perception);
+}
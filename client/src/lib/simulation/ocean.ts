@@ -0,0 +1,80 @@
+/**
+ * The Ocean Surface
+ * -----------------
+ * One description of the sea's surface for everything that has to agree on it -
+ * the ocean mesh is displaced by it, hulls ride it, power-ups float on it and
+ * cannonballs splash where they meet it. The surface is three wave trains
+ * crossing one another, all scaled by the wave height and flattened towards the
+ * origin so the home waters stay calm.
+ *
+ * The waves move with a phase rather than with time. The phase is advanced at the
+ * sea's current speed, so the weather quickening the waves never makes the
+ * surface jump - the simulation keeps it, so snapshots and replays carry it.
+ */
+
+// The sea's surface at a moment
+export interface SeaSurface {
+  phase: number;  // How far the waves have moved
+  height: number; // Wave height - the calm sea's, raised by the weather
+}
+
+export const OCEAN = {
+  CALM_HEIGHT: 0.03,  // Wave height of a calm sea...
+  CALM_SPEED: 0.0006, // ...and its speed
+  PHASE_RATE: 0.5,    // Phase gained per second at a wave speed of 1
+  CALM_RADIUS: 100,   // The waves die away towards the origin inside this distance
+  NORMAL_STEP: 0.5,   // Spacing of the samples a normal is taken across
+};
+
+export function advanceWavePhase(phase: number, dt: number, waveSpeed: number): number {
+  return phase + dt * OCEAN.PHASE_RATE * waveSpeed;
+}
+
+/**
+ * Height of the surface above the water level at (x, z) at wave phase t
+ */
+export function sampleOceanHeight(x: number, z: number, t: number, waveHeight: number): number {
+  // Each wave train moves at its own rate
+  const primary = t * 0.8;
+  const secondary = t * 1.2;
+  const swell = t * 0.5;
+
+  const height =
+    Math.sin(x / 20 + primary) * Math.cos(z / 20 + primary) * (waveHeight * 3) + // Primary waves
+    Math.sin(x / 10 + z / 15 + secondary) * (waveHeight * 1.5) +                 // Shorter, faster chop
+    Math.cos(x / 40 - z / 30 + swell) * (waveHeight * 2.5);                      // Long, slow swell
+
+  return height * Math.min(1, Math.hypot(x, z) / OCEAN.CALM_RADIUS);
+}
+
+/**
+ * Unit normal of the surface at (x, z) at wave phase t - straight up on a flat sea
+ */
+export function sampleOceanNormal(x: number, z: number, t: number, waveHeight: number): { x: number; y: number; z: number } {
+  const step = OCEAN.NORMAL_STEP;
+  const slopeX = (sampleOceanHeight(x + step, z, t, waveHeight) - sampleOceanHeight(x - step, z, t, waveHeight)) / (2 * step);
+  const slopeZ = (sampleOceanHeight(x, z + step, t, waveHeight) - sampleOceanHeight(x, z - step, t, waveHeight)) / (2 * step);
+  const length = Math.hypot(slopeX, 1, slopeZ);
+  return { x: -slopeX / length, y: 1 / length, z: -slopeZ / length };
+}
+
+/**
+ * How a hull afloat at (x, z) and turned to yaw sits on the surface - its height,
+ * and the pitch (about its X axis) and roll (about its Z axis) that lay its deck
+ * along the waves. Apply them after the yaw, i.e. in 'YXZ' order
+ */
+export function getBuoyancy(x: number, z: number, yaw: number, sea: SeaSurface): { height: number; pitch: number; roll: number } {
+  const normal = sampleOceanNormal(x, z, sea.phase, sea.height);
+
+  // Rise of the surface per unit along the hull's -Z and +X axes
+  const slopeX = -normal.x / normal.y;
+  const slopeZ = -normal.z / normal.y;
+  const alongLength = -slopeX * Math.sin(yaw) - slopeZ * Math.cos(yaw);
+  const alongBeam = slopeX * Math.cos(yaw) - slopeZ * Math.sin(yaw);
+
+  return {
+    height: sampleOceanHeight(x, z, sea.phase, sea.height),
+    pitch: Math.atan(alongLength),
+    roll: Math.atan(alongBeam),
+  };
+}
@@ -0,0 +1,173 @@
+import { PowerUpType } from "./powerUps";
+import { SHIP_SECTIONS, ShipDamage } from "./shipDamage";
+import { getWeatherDefinition, WeatherFront } from "./weather";
+
+/**
+ * Ports
+ * -----
+ * Ports stand at the ends of the shipping routes. A ship that comes within a
+ * port's docking radius can put in, and while she lies at the quay the voyage
+ * stands still - nothing at sea can touch her there.
+ *
+ * Ashore there are three places to spend the loot: the shipyard repairs and
+ * refits the ship and builds new ones, the chandlery sells shot and stores, and
+ * the tavern has hands looking for a berth and talk of what lies out on the water.
+ * Prices and rumours are worked out here; the purse itself is the upgrades store's.
+ */
+
+export const PORT_SERVICES = ['shipyard', 'chandlery', 'tavern'] as const;
+export type PortService = typeof PORT_SERVICES[number];
+
+export interface PortServiceDefinition {
+  name: string;
+  description: string;
+}
+
+export const PORT_SERVICE_REGISTRY = {
+  shipyard: {
+    name: 'Shipyard',
+    description: 'Repairs, refits and new ships for the fleet',
+  },
+  chandlery: {
+    name: 'Chandlery',
+    description: 'Shot for the magazine and stores for the voyage',
+  },
+  tavern: {
+    name: 'Tavern',
+    description: 'Hands looking for a berth, and the talk of the waterfront',
+  },
+} satisfies Record<PortService, PortServiceDefinition>;
+
+export const PORT = {
+  DOCK_RADIUS: 40,     // A ship this close to a port can put in
+  REPAIR_PRICE: 2,     // Gold for each point of hull made good...
+  SECTION_PRICE: 60,   // ...and for each whole section rebuilt
+  RUMOUR_RANGE: 1500,  // The tavern only hears of what lies this close
+  NEAR: 300,           // Closer than this is "close by"...
+  FAR: 800,            // ...further than this "far off"
+};
+
+// Gold the chandlery asks for stores - power-ups not listed aren't for sale
+export const CHANDLERY_PRICES: Partial<Record<PowerUpType, number>> = {
+  health_boost: 80,
+  speed_boost: 120,
+  rapid_fire: 180,
+  long_range: 180,
+  double_damage: 200,
+  shield: 250,
+};
+
+// Anything that lies somewhere on the water
+export interface PortLocation {
+  id: string;
+  type: string;
+  x: number;
+  z: number;
+}
+
+const PORT_NAMES = [
+  'Port Royal', 'Tortuga', 'Nassau', 'Bridgetown', 'Santo Domingo',
+  'Cartagena', 'Havana', 'Kingston', 'Portobelo', 'Saint-Pierre',
+];
+
+// What the old hands say when there's no news
+const FOLKLORE = [
+  'They say the Drowned come up with the dark, and no lantern keeps them off.',
+  "A merchant's hold is worth more than her hull - grape shot wins it without sinking her.",
+  'Fog hides you from them as well as them from you.',
+  'Never let a storm catch you with your hull already stove in.',
+];
+
+const COMPASS = ['north', 'north-east', 'east', 'south-east', 'south', 'south-west', 'west', 'north-west'];
+
+// Same id, same number - so a port keeps its name every time the world is generated
+const hashId = (id: string): number => {
+  let hash = 0;
+  for (let i = 0; i < id.length; i++) {
+    hash = (hash * 31 + id.charCodeAt(i)) | 0;
+  }
+  return Math.abs(hash);
+};
+
+export function getPortServiceDefinition(service: PortService): PortServiceDefinition {
+  return PORT_SERVICE_REGISTRY[service];
+}
+
+export function getPortName(id: string): string {
+  return PORT_NAMES[hashId(id) % PORT_NAMES.length];
+}
+
+// The nearest port the ship at (x, z) is close enough to put in at, if any
+export function findPortInRange<T extends PortLocation>(features: T[], x: number, z: number): T | null {
+  let nearest: T | null = null;
+  let nearestDistance = PORT.DOCK_RADIUS;
+  for (const feature of features) {
+    if (feature.type !== 'port') continue;
+    const distance = Math.hypot(feature.x - x, feature.z - z);
+    if (distance <= nearestDistance) {
+      nearest = feature;
+      nearestDistance = distance;
+    }
+  }
+  return nearest;
+}
+
+// What the shipyard asks to make the ship as good as new - nothing if she already is
+export function getRepairCost(health: number, maxHealth: number, damage: ShipDamage): number {
+  const hull = Math.max(0, maxHealth - health) * PORT.REPAIR_PRICE;
+  const sections = SHIP_SECTIONS.reduce((sum, section) => sum + (1 - damage.sections[section]) * PORT.SECTION_PRICE, 0);
+  const flooding = damage.leak > 0 || damage.water > 0 ? PORT.SECTION_PRICE / 2 : 0;
+  return Math.ceil(hull + sections + flooding);
+}
+
+// Which way and how far, the way a sailor would put it - north is up the map (-Z)
+const describeWay = (from: { x: number; z: number }, to: { x: number; z: number }): string => {
+  const dx = to.x - from.x;
+  const dz = to.z - from.z;
+  const angle = Math.atan2(dx, -dz);
+  const point = COMPASS[(Math.round(angle / (Math.PI / 4)) + COMPASS.length) % COMPASS.length];
+  const distance = Math.hypot(dx, dz);
+  const far = distance < PORT.NEAR ? 'close by' : distance < PORT.FAR ? 'a fair sail' : 'far off';
+  return `${far} to the ${point}`;
+};
+
+/**
+ * What's being said in the tavern of the port - the nearest wreck, the nearest
+ * other port and the weather brewing out at sea, with a bit of old lore when
+ * there's little news
+ */
+export function gatherRumours(port: PortLocation, features: PortLocation[], fronts: WeatherFront[]): string[] {
+  const range = PORT.RUMOUR_RANGE;
+  const nearest = (type: string) => features
+    .filter(feature => feature.type === type && feature.id !== port.id)
+    .map(feature => ({ feature, distance: Math.hypot(feature.x - port.x, feature.z - port.z) }))
+    .filter(({ distance }) => distance < range)
+    .sort((a, b) => a.distance - b.distance)[0]?.feature;
+
+  const rumours: string[] = [];
+
+  const wreck = nearest('shipwreck');
+  if (wreck) {
+    rumours.push(`A fisherman swears there's a wreck ${describeWay(port, wreck)}, and not everything went down with her.`);
+  }
+
+  const otherPort = nearest('port');
+  if (otherPort) {
+    rumours.push(`${getPortName(otherPort.id)} lies ${describeWay(port, otherPort)} - the yards there are always wanting work.`);
+  }
+
+  const front = fronts
+    .filter(candidate => Math.hypot(candidate.x - port.x, candidate.z - port.z) < range)
+    .sort((a, b) => Math.hypot(a.x - port.x, a.z - port.z) - Math.hypot(b.x - port.x, b.z - port.z))[0];
+  if (front) {
+    rumours.push(`Word from the harbour: ${getWeatherDefinition(front.type).name} ${describeWay(port, front)}.`);
+  }
+
+  // There's always someone at the bar with a story
+  const lore = hashId(port.id);
+  while (rumours.length < 2) {
+    rumours.push(FOLKLORE[(lore + rumours.length) % FOLKLORE.length]);
+  }
+
+  return rumours;
+}
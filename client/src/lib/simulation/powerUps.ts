@@ -0,0 +1,134 @@
+// Power-up rules shared by the simulation and the power-up store
+
+// Power-up types with their effects
+export type PowerUpType =
+  | 'health_boost'      // Instantly restore health
+  | 'speed_boost'       // Temporary ship speed increase
+  | 'double_damage'     // Cannonballs do double damage
+  | 'rapid_fire'        // Reduced cannon cooldown
+  | 'shield'            // Temporary damage resistance
+  | 'triple_shot'       // Fire 3 cannonballs at once
+  | 'long_range'        // Increased cannonball range
+  | 'gold_bonus';       // Extra gold/loot
+
+export interface ActivePowerUp {
+  type: PowerUpType;
+  duration: number;     // Duration in seconds (0 for instant effects)
+  remaining: number;    // Remaining time
+  shots?: number;       // For shot-limited power-ups
+  shotsRemaining?: number; // Shots remaining for shot-limited power-ups
+  value: number;        // Effect value (damage multiplier, speed multiplier, etc.)
+}
+
+export interface PowerUpDefinition {
+  type: PowerUpType;
+  name: string;
+  description: string;
+  duration: number;     // 0 for instant effects
+  shots?: number;       // For shot-limited power-ups
+  value: number;        // Effect value
+  color: string;        // Color for the power-up object
+  rarity: number;       // 1 (common) to 5 (legendary) - affects spawn chance
+  healthBonus: number;  // All power-ups give some health when collected
+}
+
+// Interface for inventory power-ups (not yet activated)
+export interface InventoryPowerUp {
+  type: PowerUpType;
+  id: string;
+  collectTime: number;
+}
+
+export const POWER_UP_DEFINITIONS: PowerUpDefinition[] = [
+  {
+    type: 'health_boost',
+    name: 'Health Boost',
+    description: 'Instantly restores 30 health points',
+    duration: 0, // instant effect
+    value: 30,
+    color: '#ff5555',
+    rarity: 1, // common
+    healthBonus: 30
+  },
+  {
+    type: 'speed_boost',
+    name: 'Speed Boost',
+    description: 'Increases ship speed by 50% for 20 seconds',
+    duration: 20,
+    value: 1.5, // 50% speed increase
+    color: '#55ff55',
+    rarity: 2, // uncommon
+    healthBonus: 10
+  },
+  {
+    type: 'double_damage',
+    name: 'Double Damage',
+    description: 'Cannonballs do double damage for 10 shots',
+    duration: 0,
+    shots: 10,
+    value: 2.0, // double damage
+    color: '#ff9900',
+    rarity: 3, // rare
+    healthBonus: 15
+  },
+  {
+    type: 'rapid_fire',
+    name: 'Rapid Fire',
+    description: 'Reduces cannon cooldown by 70% for 15 seconds',
+    duration: 15,
+    value: 0.3, // 70% cooldown reduction
+    color: '#ffff00',
+    rarity: 3, // rare
+    healthBonus: 10
+  },
+  {
+    type: 'shield',
+    name: 'Shield',
+    description: 'Reduces incoming damage by 50% for 30 seconds',
+    duration: 30,
+    value: 0.5, // 50% damage reduction
+    color: '#5555ff',
+    rarity: 4, // very rare
+    healthBonus: 20
+  },
+  {
+    type: 'triple_shot',
+    name: 'Triple Shot',
+    description: 'Fire 3 cannonballs at once for 5 shots',
+    duration: 0,
+    shots: 5,
+    value: 3, // 3 shots at once
+    color: '#ff55ff',
+    rarity: 5, // legendary
+    healthBonus: 15
+  },
+  {
+    type: 'long_range',
+    name: 'Long Range',
+    description: 'Doubles cannonball range and speed for 15 seconds',
+    duration: 15,
+    value: 2.0, // double range
+    color: '#00ffff',
+    rarity: 3, // rare
+    healthBonus: 10
+  },
+  {
+    type: 'gold_bonus',
+    name: 'Gold Bonus',
+    description: 'Instantly grants 100 gold',
+    duration: 0, // instant effect
+    value: 100,
+    color: '#ffdd00',
+    rarity: 2, // uncommon
+    healthBonus: 5
+  }
+];
+
+// What a sunk enemy can leave behind (gold comes with the sinking itself)
+export const DROPPABLE_POWER_UPS: PowerUpType[] = [
+  'health_boost', 'speed_boost', 'double_damage', 'rapid_fire', 'shield', 'triple_shot', 'long_range'
+];
+
+export function getPowerUpDefinition(type: PowerUpType): PowerUpDefinition | undefined {
+  return POWER_UP_DEFINITIONS.find(definition => definition.type === type);
+}
@@ -0,0 +1,538 @@
+import { z } from "zod";
+import { fromZodError } from "zod-validation-error";
+import { CONTROL_NAMES, type ControlState } from "@shared/multiplayer";
+import { GameSimulation, SIMULATION, SimulationConfig, SimulationSnapshot } from "./GameSimulation";
+import { AMMO_TYPES, AmmoType } from "./ammunition";
+import { AI_STATES } from "./enemyAI";
+import { CREW_ROLES, CrewRole } from "./crew";
+import { CAPTURE_CHOICES, CaptureChoice } from "./boarding";
+import { SHIP_SECTIONS, ShipSection } from "./shipDamage";
+import { ENEMY_ARCHETYPE_IDS, EnemyArchetypeId, FACTIONS, PLAYER_FACTION } from "./enemyArchetypes";
+import { FLEET_COMMANDS, FleetCommand } from "./fleet";
+import { WEATHER_FRONT_TYPES } from "./weather";
+
+/**
+ * Replays
+ * -------
+ * The simulation is deterministic, so a voyage can be stored as where it started
+ * plus what the player did: a snapshot, the controls whenever they changed and the
+ * commands sent between steps (activating power-ups, loading other shot, upgrades
+ * changing the config).
+ * Playing it back on any machine gives the same cannonballs, hits and sinkings.
+ *
+ * Every tick is the simulation's step count when the input or command was applied,
+ * i.e. it took effect from the next step on.
+ *
+ * Version history:
+ *  1 - snapshot, input changes and power-up/config commands
+ *  2 - enemies carry their AI state and params
+ *  3 - enemies carry their archetype and faction
+ *  4 - the wave director's state, and upgrade level and encounters in the config
+ *  5 - port and starboard batteries with their own reloads, gun elevation and the controls for both
+ *  6 - ammunition: the magazine and loaded shot, each ball's ammo, enemy crew, rigging and fires
+ *  7 - ship sections, leaks and flooding in place of enemy rigging, and the repair control
+ *  8 - the crew roster and morale, the payday timer and settled wages
+ *  9 - boarding under way, the fleet, the board control and what became of captured ships
+ * 10 - escorts under the player's flag, the fleet's orders and the player's target
+ * 11 - the wind, the player's sail trim and the controls for it
+ * 12 - weather fronts
+ * 13 - the time of day and the day length in the config, and which enemies the lookouts have spotted
+ * 14 - the phase of the waves, and the calm sea's wave height and speed in the config
+ *
+ * A replay only plays back the same in a game whose simulation follows the same
+ * rules, so older replays aren't migrated - parseReplay names the version they were
+ * recorded with instead. Bump the version when a change would make older replays
+ * play back differently; a new optional field that restore() defaults doesn't need one.
+ */
+export const REPLAY_VERSION = 14;
+
+export type ReplayCommand =
+  | { tick: number; type: 'activatePowerUp'; index: number } // Inventory ids carry wall-clock time, so the slot is recorded instead
+  | { tick: number; type: 'activateAllPowerUps' }
+  | { tick: number; type: 'selectAmmo'; ammo: AmmoType }
+  | { tick: number; type: 'settleWages'; paid: boolean } // The purse lives outside the simulation
+  | { tick: number; type: 'resolveCapture'; choice: CaptureChoice }
+  | { tick: number; type: 'commandFleet'; command: FleetCommand }
+  | { tick: number; type: 'configure'; config: SimulationConfig };
+
+export interface Replay {
+  version: typeof REPLAY_VERSION;
+  recordedAt: number;
+  seed: number;
+  start: SimulationSnapshot;
+  endTick: number;
+  inputs: number[];          // Flat [tick, controls bitmask, tick, controls bitmask, ...]
+  commands: ReplayCommand[];
+}
+
+const vec3Schema = z.tuple([z.number(), z.number(), z.number()]);
+
+const pointSchema = z.object({ x: z.number(), z: z.number() });
+
+const ammoSchema = z.enum(AMMO_TYPES);
+
+const batterySchema = z.object({ cooldown: z.number(), cooldownMax: z.number() });
+
+const shipDamageSchema = z.object({
+  sections: z.object(Object.fromEntries(SHIP_SECTIONS.map(section => [section, z.number()])) as Record<ShipSection, z.ZodNumber>),
+  leak: z.number(),
+  water: z.number(),
+});
+
+const archetypeSchema = z.enum(ENEMY_ARCHETYPE_IDS as [EnemyArchetypeId, ...EnemyArchetypeId[]]);
+
+const configSchema = z.object({
+  cannonLevel: z.number(),
+  upgradeLevel: z.number(),
+  oneShotKill: z.boolean(),
+  encounters: z.boolean(),
+  dayLength: z.number(),
+  waveHeight: z.number(),
+  waveSpeed: z.number(),
+});
+
+const snapshotSchema = z.object({
+  tick: z.number().int().nonnegative(),
+  time: z.number(),
+  regenTimer: z.number(),
+  payTimer: z.number(),
+  nextEntityId: z.number().int().positive(),
+  random: z.object({
+    seed: z.number().int().nonnegative(),
+    draws: z.record(z.number().int().nonnegative()),
+  }),
+  encounters: z.object({
+    wave: z.number().int().nonnegative(),
+    phase: z.enum(['calm', 'wave']),
+    timer: z.number(),
+    queue: z.array(archetypeSchema),
+    spawnTimer: z.number(),
+    waveShips: z.array(z.string()),
+    waveThreat: z.number(),
+    waveStartHealth: z.number(),
+    performance: z.number(),
+  }),
+  config: configSchema,
+  player: z.object({
+    position: vec3Schema,
+    rotation: vec3Schema,
+    velocity: vec3Schema,
+    health: z.number(),
+    maxHealth: z.number(),
+    batteries: z.object({ port: batterySchema, starboard: batterySchema }),
+    gunElevation: z.number(),
+    damage: shipDamageSchema,
+    repairing: z.boolean(),
+    sails: z.number(),
+  }),
+  enemies: z.array(z.object({
+    id: z.string(),
+    archetype: archetypeSchema,
+    faction: z.enum([...FACTIONS, PLAYER_FACTION]),
+    position: vec3Schema,
+    rotation: vec3Schema,
+    velocity: vec3Schema,
+    health: z.number(),
+    maxHealth: z.number(),
+    peacefulStartTimer: z.number(),
+    spotted: z.boolean(),
+    cannonCooldown: z.number(),
+    collisionCooldown: z.number(),
+    crew: z.number(),
+    maxCrew: z.number(),
+    damage: shipDamageSchema,
+    lastHitBy: z.string().nullable(),
+    burn: z.object({ time: z.number(), sourceId: z.string() }).nullable(),
+    ai: z.object({
+      state: z.enum(AI_STATES),
+      stateTime: z.number(),
+      target: z.string().nullable(),
+      lastKnown: pointSchema.nullable(),
+      waypoint: pointSchema.nullable(),
+      anchor: pointSchema,
+      orbit: z.union([z.literal(1), z.literal(-1)]),
+    }),
+    aiParams: z.object({
+      speed: z.number(),
+      turnRate: z.number(),
+      detectionRange: z.number(),
+      loseRange: z.number(),
+      fireRange: z.number(),
+      optimalRange: z.number(),
+      minimumRange: z.number(),
+      fleeHealth: z.number(),
+      searchTime: z.number(),
+      patrolRadius: z.number(),
+      regroupRange: z.number(),
+    }),
+  })),
+  cannonballs: z.array(z.object({
+    id: z.string(),
+    sourceId: z.string(),
+    ammo: ammoSchema,
+    origin: vec3Schema,
+    position: vec3Schema,
+    velocity: vec3Schema,
+    life: z.number(),
+  })),
+  drops: z.array(z.object({
+    id: z.string(),
+    position: vec3Schema,
+    type: z.string(),
+    createdAt: z.number(),
+  })),
+  activePowerUps: z.array(z.object({
+    type: z.string(),
+    duration: z.number(),
+    remaining: z.number(),
+    value: z.number(),
+    shots: z.number().optional(),
+    shotsRemaining: z.number().optional(),
+  })),
+  inventoryPowerUps: z.array(z.object({
+    type: z.string(),
+    id: z.string(),
+    collectTime: z.number(),
+  })),
+  ammo: z.object({ round: z.number(), chain: z.number(), grape: z.number(), heated: z.number() }),
+  selectedAmmo: ammoSchema,
+  crew: z.object({
+    roster: z.object(Object.fromEntries(CREW_ROLES.map(role => [role, z.number().int().nonnegative()])) as Record<CrewRole, z.ZodNumber>),
+    morale: z.number(),
+  }),
+  boarding: z.object({
+    enemyId: z.string(),
+    phase: z.enum(['fighting', 'won']),
+    roundTimer: z.number(),
+    attackers: z.number(),
+    defenders: z.number(),
+  }).nullable(),
+  fleet: z.array(z.object({ id: z.string(), archetype: archetypeSchema, escort: z.boolean() })),
+  fleetCommand: z.enum(FLEET_COMMANDS),
+  playerTarget: z.string().nullable(),
+  wind: z.object({
+    direction: z.number(),
+    strength: z.number(),
+    targetDirection: z.number(),
+    targetStrength: z.number(),
+    shiftTimer: z.number(),
+  }),
+  weather: z.object({
+    fronts: z.array(z.object({
+      id: z.number(),
+      type: z.enum(WEATHER_FRONT_TYPES),
+      x: z.number(),
+      z: z.number(),
+      radius: z.number(),
+      age: z.number(),
+      life: z.number(),
+    })),
+    spawnTimer: z.number(),
+    nextFrontId: z.number(),
+  }),
+  clock: z.number(),
+  wavePhase: z.number(),
+});
+
+const replaySchema = z.object({
+  version: z.literal(REPLAY_VERSION),
+  recordedAt: z.number(),
+  seed: z.number().int().nonnegative(),
+  start: snapshotSchema,
+  endTick: z.number().int().nonnegative(),
+  inputs: z.array(z.number().int().nonnegative()).refine(inputs => inputs.length % 2 === 0, "Inputs must be tick/controls pairs"),
+  commands: z.array(z.discriminatedUnion('type', [
+    z.object({ tick: z.number().int().nonnegative(), type: z.literal('activatePowerUp'), index: z.number().int().nonnegative() }),
+    z.object({ tick: z.number().int().nonnegative(), type: z.literal('activateAllPowerUps') }),
+    z.object({ tick: z.number().int().nonnegative(), type: z.literal('selectAmmo'), ammo: ammoSchema }),
+    z.object({ tick: z.number().int().nonnegative(), type: z.literal('settleWages'), paid: z.boolean() }),
+    z.object({ tick: z.number().int().nonnegative(), type: z.literal('resolveCapture'), choice: z.enum(CAPTURE_CHOICES) }),
+    z.object({ tick: z.number().int().nonnegative(), type: z.literal('commandFleet'), command: z.enum(FLEET_COMMANDS) }),
+    z.object({ tick: z.number().int().nonnegative(), type: z.literal('configure'), config: configSchema }),
+  ])),
+});
+
+// The version a raw replay claims to be, or null if it has none
+function detectReplayVersion(raw: unknown): number | null {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return null;
+
+  const version = (raw as Record<string, unknown>).version;
+  return typeof version === 'number' && Number.isInteger(version) ? version : null;
+}
+
+export type ReplayParseResult =
+  | { ok: true; replay: Replay }
+  | { ok: false; error: string };
+
+/**
+ * Validates a replay read from a file or storage
+ * Never throws - a replay that can't be understood is reported as an error
+ */
+export function parseReplay(raw: unknown): ReplayParseResult {
+  const version = detectReplayVersion(raw);
+  if (version !== null && version < REPLAY_VERSION) {
+    return { ok: false, error: `This replay was recorded with an older version of the game (replay version ${version}, this game plays version ${REPLAY_VERSION})` };
+  }
+  if (version !== null && version > REPLAY_VERSION) {
+    return { ok: false, error: `This replay was recorded with a newer version of the game (replay version ${version}, this game plays version ${REPLAY_VERSION})` };
+  }
+
+  const parsed = replaySchema.safeParse(raw);
+  if (!parsed.success) {
+    return { ok: false, error: fromZodError(parsed.error).message };
+  }
+
+  const replay = parsed.data as Replay;
+  if (replay.endTick < replay.start.tick) {
+    return { ok: false, error: "Replay ends before it starts" };
+  }
+  return { ok: true, replay };
+}
+
+// One bit per control, in CONTROL_NAMES order
+export function encodeControls(controls: ControlState): number {
+  return CONTROL_NAMES.reduce((mask, name, bit) => controls[name] ? mask | (1 << bit) : mask, 0);
+}
+
+export function decodeControls(mask: number): ControlState {
+  return Object.fromEntries(CONTROL_NAMES.map((name, bit) => [name, (mask & (1 << bit)) !== 0])) as ControlState;
+}
+
+/**
+ * Records what happens to a simulation from the moment startRecording() is called
+ * Only input changes are kept, so a minute of steady sailing costs a few numbers
+ */
+export class ReplayRecorder {
+  private simulation: GameSimulation | null = null;
+  private start: SimulationSnapshot | null = null;
+  private recordedAt = 0;
+  private inputs: number[] = [];
+  private commands: ReplayCommand[] = [];
+  private lastControls: number | null = null;
+  private lastConfig = '';
+
+  /**
+   * Starts a new recording from the simulation's current state, dropping any previous one
+   */
+  startRecording(simulation: GameSimulation): void {
+    this.simulation = simulation;
+    this.start = simulation.getSnapshot();
+    this.recordedAt = Date.now();
+    this.inputs = [];
+    this.commands = [];
+    this.lastControls = null;
+    this.lastConfig = JSON.stringify(this.start.config);
+
+    console.log(`[REPLAY] Recording from tick ${this.start.tick} (seed ${this.start.random.seed})`);
+  }
+
+  isRecording(): boolean {
+    return this.simulation !== null;
+  }
+
+  // Call with the controls about to be applied - unchanged controls aren't stored
+  recordInput(controls: ControlState): void {
+    if (!this.simulation) return;
+
+    const mask = encodeControls(controls);
+    if (mask === this.lastControls) return;
+
+    this.inputs.push(this.simulation.getTick(), mask);
+    this.lastControls = mask;
+  }
+
+  // Call with the config about to be applied - unchanged config isn't stored
+  recordConfig(config: SimulationConfig): void {
+    if (!this.simulation) return;
+
+    const key = JSON.stringify(config);
+    if (key === this.lastConfig) return;
+
+    this.commands.push({ tick: this.simulation.getTick(), type: 'configure', config: { ...config } });
+    this.lastConfig = key;
+  }
+
+  recordActivatePowerUp(index: number): void {
+    if (!this.simulation || index < 0) return;
+    this.commands.push({ tick: this.simulation.getTick(), type: 'activatePowerUp', index });
+  }
+
+  recordActivateAllPowerUps(): void {
+    if (!this.simulation) return;
+    this.commands.push({ tick: this.simulation.getTick(), type: 'activateAllPowerUps' });
+  }
+
+  recordSelectAmmo(ammo: AmmoType): void {
+    if (!this.simulation) return;
+    this.commands.push({ tick: this.simulation.getTick(), type: 'selectAmmo', ammo });
+  }
+
+  recordSettleWages(paid: boolean): void {
+    if (!this.simulation) return;
+    this.commands.push({ tick: this.simulation.getTick(), type: 'settleWages', paid });
+  }
+
+  recordResolveCapture(choice: CaptureChoice): void {
+    if (!this.simulation) return;
+    this.commands.push({ tick: this.simulation.getTick(), type: 'resolveCapture', choice });
+  }
+
+  recordCommandFleet(command: FleetCommand): void {
+    if (!this.simulation) return;
+    this.commands.push({ tick: this.simulation.getTick(), type: 'commandFleet', command });
+  }
+
+  /**
+   * The recording so far, up to the simulation's current step - null if nothing is being recorded
+   */
+  getReplay(): Replay | null {
+    if (!this.simulation || !this.start) return null;
+
+    return {
+      version: REPLAY_VERSION,
+      recordedAt: this.recordedAt,
+      seed: this.start.random.seed,
+      start: this.start,
+      endTick: this.simulation.getTick(),
+      inputs: [...this.inputs],
+      commands: this.commands.map(command => ({ ...command })),
+    };
+  }
+}
+
+export interface ReplayPlayerOptions {
+  // Runs before every step - e.g. to load the world features around the ships
+  beforeStep?: (simulation: GameSimulation) => void;
+  // Ticks between the snapshots kept for seeking backwards
+  keyframeInterval?: number;
+}
+
+/**
+ * Plays a replay back on a simulation, one step at a time
+ * Seeking backwards restores the nearest earlier keyframe and simulates forward from there
+ */
+export class ReplayPlayer {
+  readonly replay: Replay;
+  private simulation: GameSimulation;
+  private beforeStep?: (simulation: GameSimulation) => void;
+  private keyframeInterval: number;
+  private keyframes = new Map<number, SimulationSnapshot>();
+
+  constructor(simulation: GameSimulation, replay: Replay, { beforeStep, keyframeInterval = 600 }: ReplayPlayerOptions = {}) {
+    this.simulation = simulation;
+    this.replay = replay;
+    this.beforeStep = beforeStep;
+    this.keyframeInterval = keyframeInterval;
+
+    this.simulation.restore(replay.start);
+    this.keyframes.set(replay.start.tick, replay.start);
+  }
+
+  getStartTick(): number {
+    return this.replay.start.tick;
+  }
+
+  getEndTick(): number {
+    return this.replay.endTick;
+  }
+
+  getTick(): number {
+    return this.simulation.getTick();
+  }
+
+  isFinished(): boolean {
+    return this.getTick() >= this.replay.endTick;
+  }
+
+  /**
+   * Applies the recorded input and commands for the current tick and takes one step
+   * Returns false once the end of the replay is reached
+   */
+  stepForward(): boolean {
+    if (this.isFinished()) return false;
+
+    const tick = this.getTick();
+    this.applyRecorded(tick);
+    this.beforeStep?.(this.simulation);
+    this.simulation.step(SIMULATION.STEP);
+
+    const next = tick + 1;
+    if ((next - this.replay.start.tick) % this.keyframeInterval === 0 && !this.keyframes.has(next)) {
+      this.keyframes.set(next, this.simulation.getSnapshot());
+    }
+    return true;
+  }
+
+  /**
+   * Moves to any tick of the replay
+   */
+  seek(tick: number): void {
+    const target = Math.max(this.replay.start.tick, Math.min(this.replay.endTick, Math.round(tick)));
+
+    if (target < this.getTick()) {
+      // Latest keyframe at or before the target
+      let keyframeTick = this.replay.start.tick;
+      this.keyframes.forEach((_, candidate) => {
+        if (candidate <= target && candidate > keyframeTick) keyframeTick = candidate;
+      });
+      this.simulation.restore(this.keyframes.get(keyframeTick)!);
+    }
+
+    while (this.getTick() < target && this.stepForward()) {
+      // Simulate up to the target
+    }
+  }
+
+  // The controls held at a tick are the last ones recorded at or before it
+  private applyRecorded(tick: number): void {
+    const { inputs, commands } = this.replay;
+
+    // Binary search over the tick/controls pairs
+    let low = 0;
+    let high = inputs.length / 2 - 1;
+    let mask = 0;
+    while (low <= high) {
+      const middle = (low + high) >> 1;
+      if (inputs[middle * 2] <= tick) {
+        mask = inputs[middle * 2 + 1];
+        low = middle + 1;
+      } else {
+        high = middle - 1;
+      }
+    }
+    this.simulation.setInput(decodeControls(mask));
+
+    commands
+      .filter(command => command.tick === tick)
+      .forEach(command => {
+        switch (command.type) {
+          case 'configure':
+            this.simulation.configure(command.config);
+            break;
+          case 'activatePowerUp': {
+            const powerUp = this.simulation.getInventory()[command.index];
+            if (powerUp) this.simulation.activatePowerUp(powerUp.id);
+            break;
+          }
+          case 'activateAllPowerUps':
+            this.simulation.activateAllPowerUps();
+            break;
+          case 'selectAmmo':
+            this.simulation.selectAmmo(command.ammo);
+            break;
+          case 'settleWages':
+            this.simulation.settleWages(command.paid);
+            break;
+          case 'resolveCapture':
+            this.simulation.resolveCapture(command.choice);
+            break;
+          case 'commandFleet':
+            this.simulation.commandFleet(command.command);
+            break;
+        }
+      });
+  }
+}
+
+// Export a singleton recorder for the app's simulation
+export const replayRecorder = new ReplayRecorder();
@@ -0,0 +1,163 @@
+/**
+ * Ship Damage
+ * -----------
+ * Where on a ship the hits landed, on top of its health. Every ship is split into
+ * sections that each lose integrity as they are hit: shot-away masts slow it, a
+ * broken rudder makes it turn slowly and holes below the waterline let water into
+ * the hold, which drags it down until the pumps or the crew catch up.
+ *
+ * Health stays what sinks a ship - the sections only decide how it handles on the
+ * way there. The state is plain data that is changed in place, like the enemy AI's,
+ * so snapshots and replays carry it.
+ */
+
+export const SHIP_SECTIONS = ['bow', 'stern', 'portHull', 'starboardHull', 'masts', 'rudder'] as const;
+export type ShipSection = typeof SHIP_SECTIONS[number];
+
+export interface SectionDefinition {
+  name: string;
+  planking: boolean; // Part of the hull - holes in it below the waterline leak
+}
+
+export const SECTION_REGISTRY = {
+  bow: { name: 'Bow', planking: true },
+  stern: { name: 'Stern', planking: true },
+  portHull: { name: 'Port Hull', planking: true },
+  starboardHull: { name: 'Starboard Hull', planking: true },
+  masts: { name: 'Masts', planking: false },
+  rudder: { name: 'Rudder', planking: false },
+} satisfies Record<ShipSection, SectionDefinition>;
+
+export interface ShipDamage {
+  sections: Record<ShipSection, number>; // Integrity, 1 intact down to 0 shot away
+  leak: number;                          // Hold flooded per second through holes below the waterline
+  water: number;                         // Fraction of the hold flooded
+}
+
+export const DAMAGE = {
+  SECTION_FACTOR: 2,      // A hit takes twice its share of the ship's health from the section it lands on
+  MAST_HEIGHT: 4,         // Shots landing higher than this go through the rigging
+  WATERLINE: 1,           // Shots landing lower than this hole the planking below the waterline
+  BOW_STERN: 0.6,         // Fraction of the half-length from amidships where the bow and stern start
+  RUDDER: 0.85,           // ...and where the rudder hangs off the stern
+  LEAK_PER_DAMAGE: 0.05,  // Leak opened per unit of integrity lost below the waterline
+  PUMP_RATE: 0.01,        // Hold pumped out per second - small holes never sink a ship
+  FLOOD_DAMAGE: 5,        // Health lost per second with the hold full
+  FLOOD_SLOWDOWN: 0.3,    // Top speed lost with the hold full
+  MIN_SAIL: 0.3,          // Speed left with the masts shot away - a jury rig still draws
+  MIN_RUDDER: 0.3,        // Turning left with the rudder shot away
+  REPAIR_RATE: 0.08,      // Integrity the crew patch per second
+  REPAIR_LIMIT: 0.6,      // The crew can only patch a section this far - a shipyard does the rest
+  PLUG_RATE: 0.02,        // Leak plugged per second while repairing
+  REPAIR_PUMP_RATE: 0.03, // Extra hold pumped out per second while repairing
+};
+
+// A point relative to a ship - how far toward the bow and toward starboard from amidships, and how high
+export interface HitLocation {
+  along: number;
+  across: number;
+  height: number;
+}
+
+export function createShipDamage(): ShipDamage {
+  return {
+    sections: { bow: 1, stern: 1, portHull: 1, starboardHull: 1, masts: 1, rudder: 1 },
+    leak: 0,
+    water: 0,
+  };
+}
+
+export function cloneShipDamage(damage: ShipDamage): ShipDamage {
+  return { ...damage, sections: { ...damage.sections } };
+}
+
+/**
+ * Where a point is on a ship, given the ship's position and the direction of its bow.
+ * Starboard is to the right of the bow, the same way round as the broadside sides
+ */
+export function locateHit(
+  point: { x: number; y: number; z: number },
+  position: { x: number; z: number },
+  bow: { x: number; z: number }
+): HitLocation {
+  const dx = point.x - position.x;
+  const dz = point.z - position.z;
+  return {
+    along: dx * bow.x + dz * bow.z,
+    across: dx * -bow.z + dz * bow.x,
+    height: point.y,
+  };
+}
+
+/**
+ * The section a hit at a location lands on - high shots go through the rigging,
+ * the ends of the hull are the bow and stern with the rudder right aft, and the
+ * rest is the side the shot came in on
+ */
+export function getHitSection({ along, across, height }: HitLocation, halfLength: number): ShipSection {
+  if (height > DAMAGE.MAST_HEIGHT) return 'masts';
+
+  const fraction = along / halfLength;
+  if (fraction > DAMAGE.BOW_STERN) return 'bow';
+  if (fraction < -DAMAGE.RUDDER) return 'rudder';
+  if (fraction < -DAMAGE.BOW_STERN) return 'stern';
+  return across >= 0 ? 'starboardHull' : 'portHull';
+}
+
+/**
+ * Takes integrity from a section for a hit worth a fraction of the ship's health.
+ * Planking holed below the waterline starts to leak
+ */
+export function damageSection(damage: ShipDamage, section: ShipSection, healthFraction: number, height: number = DAMAGE.WATERLINE): void {
+  const before = damage.sections[section];
+  damage.sections[section] = Math.max(0, before - healthFraction * DAMAGE.SECTION_FACTOR);
+
+  if (SECTION_REGISTRY[section].planking && height < DAMAGE.WATERLINE) {
+    damage.leak += (before - damage.sections[section]) * DAMAGE.LEAK_PER_DAMAGE;
+  }
+}
+
+/**
+ * Lets water in through the leaks and pumps it out again - returns the health the
+ * flooding costs the ship this step
+ */
+export function updateFlooding(damage: ShipDamage, dt: number): number {
+  damage.water = Math.max(0, Math.min(1, damage.water + (damage.leak - DAMAGE.PUMP_RATE) * dt));
+  return damage.water * DAMAGE.FLOOD_DAMAGE * dt;
+}
+
+/**
+ * A step of the crew at repairs: the leaks are plugged, the pumps manned and the
+ * worst section patched, none of it past what can be done at sea.
+ * Returns whether there was anything left to do
+ */
+export function repairDamage(damage: ShipDamage, dt: number): boolean {
+  const worst = SHIP_SECTIONS.reduce((lowest, section) =>
+    damage.sections[section] < damage.sections[lowest] ? section : lowest
+  );
+  const patching = damage.sections[worst] < DAMAGE.REPAIR_LIMIT;
+  const working = patching || damage.leak > 0 || damage.water > 0;
+
+  if (patching) {
+    damage.sections[worst] = Math.min(DAMAGE.REPAIR_LIMIT, damage.sections[worst] + DAMAGE.REPAIR_RATE * dt);
+  }
+  damage.leak = Math.max(0, damage.leak - DAMAGE.PLUG_RATE * dt);
+  damage.water = Math.max(0, damage.water - DAMAGE.REPAIR_PUMP_RATE * dt);
+
+  return working;
+}
+
+// Top speed left - masts shot away and water in the hold both slow the ship
+export function getSpeedFactor(damage: ShipDamage): number {
+  const sail = DAMAGE.MIN_SAIL + (1 - DAMAGE.MIN_SAIL) * damage.sections.masts;
+  return sail * (1 - damage.water * DAMAGE.FLOOD_SLOWDOWN);
+}
+
+export function getTurnFactor(damage: ShipDamage): number {
+  return DAMAGE.MIN_RUDDER + (1 - DAMAGE.MIN_RUDDER) * damage.sections.rudder;
+}
+
+// Whether any section is short of intact or the ship is taking on water
+export function isDamaged(damage: ShipDamage): boolean {
+  return damage.leak > 0 || damage.water > 0 || SHIP_SECTIONS.some(section => damage.sections[section] < 1);
+}
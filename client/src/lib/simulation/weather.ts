@@ -0,0 +1,254 @@
+import { RandomFn, randomRange, randomWeighted } from "../helpers/random";
+import { WindVector } from "./wind";
+
+/**
+ * Weather
+ * -------
+ * Clear skies are the rule; the weather comes in fronts - patches of overcast,
+ * fog, rain or storm that blow in from upwind, drift across the ocean with the
+ * wind and die away after a few minutes. Inside a front its weather holds; across
+ * its fringe, and while it builds or clears, it blends into whatever lies around
+ * it, so conditions never change at a stroke.
+ *
+ * Weather is more than scenery. The sea gets up under rain and storm, fog and
+ * heavy rain hide ships until they are close - for the enemy as much as for the
+ * player - and a storm works a ship's hull loose the longer she stays in it.
+ *
+ * The fronts are plain data like the wind, so snapshots and replays carry them.
+ */
+
+export const WEATHER_TYPES = ['clear', 'overcast', 'fog', 'rain', 'storm'] as const;
+export type WeatherType = typeof WEATHER_TYPES[number];
+
+// The weather that blows in - clear is only ever what's left between fronts
+export const WEATHER_FRONT_TYPES = ['overcast', 'fog', 'rain', 'storm'] as const satisfies readonly WeatherType[];
+export type WeatherFrontType = typeof WEATHER_FRONT_TYPES[number];
+
+// What the weather is like at a spot - every front's conditions blend into these
+export interface WeatherConditions {
+  seaHeight: number;   // Waves this many times the calm sea's height...
+  seaSpeed: number;    // ...and speed
+  visibility: number;  // Share of the clear-weather sighting distance
+  stormDamage: number; // Hull lost per second
+  cloudCover: number;  // 0 a clear sky to 1 black overhead
+  fog: number;         // 0 to 1 - how thick the haze is
+  rain: number;        // 0 to 1
+  lightning: number;   // 0 to 1 - how often it strikes
+}
+
+const CONDITION_KEYS: readonly (keyof WeatherConditions)[] = [
+  'seaHeight', 'seaSpeed', 'visibility', 'stormDamage', 'cloudCover', 'fog', 'rain', 'lightning',
+];
+
+export interface WeatherDefinition {
+  name: string;
+  spawnWeight: number;                  // How often fronts of it blow in
+  radius: { min: number; max: number }; // Extent of full strength, before the fringe
+  conditions: WeatherConditions;
+}
+
+export const WEATHER_REGISTRY = {
+  clear: {
+    name: 'Clear',
+    spawnWeight: 0,
+    radius: { min: 0, max: 0 },
+    conditions: {
+      seaHeight: 1,
+      seaSpeed: 1,
+      visibility: 1,
+      stormDamage: 0,
+      cloudCover: 0,
+      fog: 0,
+      rain: 0,
+      lightning: 0,
+    },
+  },
+  overcast: {
+    name: 'Overcast',
+    spawnWeight: 4,
+    radius: { min: 300, max: 500 },
+    conditions: {
+      seaHeight: 1.5,
+      seaSpeed: 1.2,
+      visibility: 0.85,
+      stormDamage: 0,
+      cloudCover: 0.6,
+      fog: 0.15,
+      rain: 0,
+      lightning: 0,
+    },
+  },
+  fog: {
+    name: 'Fog',
+    spawnWeight: 2,
+    radius: { min: 150, max: 300 },
+    conditions: {
+      seaHeight: 0.7,
+      seaSpeed: 0.8,
+      visibility: 0.35,
+      stormDamage: 0,
+      cloudCover: 0.5,
+      fog: 1,
+      rain: 0,
+      lightning: 0,
+    },
+  },
+  rain: {
+    name: 'Rain',
+    spawnWeight: 3,
+    radius: { min: 200, max: 350 },
+    conditions: {
+      seaHeight: 2.5,
+      seaSpeed: 1.6,
+      visibility: 0.65,
+      stormDamage: 0,
+      cloudCover: 0.8,
+      fog: 0.4,
+      rain: 0.6,
+      lightning: 0,
+    },
+  },
+  storm: {
+    name: 'Storm',
+    spawnWeight: 1,
+    radius: { min: 150, max: 250 },
+    conditions: {
+      seaHeight: 6,
+      seaSpeed: 2.6,
+      visibility: 0.5,
+      stormDamage: 1,
+      cloudCover: 1,
+      fog: 0.5,
+      rain: 1,
+      lightning: 1,
+    },
+  },
+} satisfies Record<WeatherType, WeatherDefinition>;
+
+export interface WeatherFront {
+  id: number;
+  type: WeatherFrontType;
+  x: number;
+  z: number;
+  radius: number;
+  age: number;  // Seconds since it blew in
+  life: number; // Seconds until it has cleared
+}
+
+export interface WeatherState {
+  fronts: WeatherFront[];
+  spawnTimer: number; // Seconds until the next front blows in
+  nextFrontId: number;
+}
+
+export const WEATHER = {
+  MAX_FRONTS: 3,
+  SPAWN_MIN: 40,          // Seconds between fronts
+  SPAWN_MAX: 100,
+  FIRST_SPAWN: 20,        // Every voyage sets out in clear weather for a while
+  SPAWN_DISTANCE: 500,    // Fronts blow in from this far upwind of the player...
+  SPAWN_SPREAD: 400,      // ...and up to this far to either side
+  DESPAWN_DISTANCE: 1500, // Fronts this far from the player are forgotten
+  LIFE_MIN: 150,
+  LIFE_MAX: 300,
+  FADE: 20,               // Seconds a front takes to build, and to clear
+  FRINGE: 150,            // Width of the edge across which a front fades out
+  DRIFT_MIN: 2,           // Units per second a front drifts in a flat calm...
+  DRIFT_PER_STRENGTH: 8,  // ...and the extra for a full gale
+  DOMINANT: 0.5,          // A front names the weather once it has this much hold
+};
+
+const smoothstep = (t: number): number => {
+  const clamped = Math.max(0, Math.min(1, t));
+  return clamped * clamped * (3 - 2 * clamped);
+};
+
+export function createWeather(): WeatherState {
+  return { fronts: [], spawnTimer: WEATHER.FIRST_SPAWN, nextFrontId: 1 };
+}
+
+export function cloneWeather(weather: WeatherState): WeatherState {
+  return { ...weather, fronts: weather.fronts.map(front => ({ ...front })) };
+}
+
+export function getWeatherDefinition(type: WeatherType): WeatherDefinition {
+  return WEATHER_REGISTRY[type];
+}
+
+/**
+ * Moves the weather on by dt seconds - fronts drift with the wind and age, and
+ * new ones blow in upwind of the player, who is at (x, z)
+ */
+export function updateWeather(weather: WeatherState, dt: number, wind: WindVector, x: number, z: number, random: RandomFn): WeatherState {
+  const drift = (WEATHER.DRIFT_MIN + WEATHER.DRIFT_PER_STRENGTH * wind.strength) * dt;
+  const downwind = { x: Math.sin(wind.direction), z: Math.cos(wind.direction) };
+  const despawn = WEATHER.DESPAWN_DISTANCE * WEATHER.DESPAWN_DISTANCE;
+
+  const fronts = weather.fronts
+    .map(front => ({ ...front, x: front.x + downwind.x * drift, z: front.z + downwind.z * drift, age: front.age + dt }))
+    .filter(front => front.age < front.life && (front.x - x) ** 2 + (front.z - z) ** 2 < despawn);
+
+  let { spawnTimer, nextFrontId } = weather;
+  spawnTimer -= dt;
+  if (spawnTimer <= 0) {
+    spawnTimer = randomRange(random, WEATHER.SPAWN_MIN, WEATHER.SPAWN_MAX);
+    if (fronts.length < WEATHER.MAX_FRONTS) {
+      const { type } = randomWeighted(random, WEATHER_FRONT_TYPES.map(type => ({ type, weight: WEATHER_REGISTRY[type].spawnWeight })));
+      const { radius } = WEATHER_REGISTRY[type];
+      const across = randomRange(random, -WEATHER.SPAWN_SPREAD, WEATHER.SPAWN_SPREAD);
+      fronts.push({
+        id: nextFrontId++,
+        type,
+        x: x - downwind.x * WEATHER.SPAWN_DISTANCE - downwind.z * across,
+        z: z - downwind.z * WEATHER.SPAWN_DISTANCE + downwind.x * across,
+        radius: randomRange(random, radius.min, radius.max),
+        age: 0,
+        life: randomRange(random, WEATHER.LIFE_MIN, WEATHER.LIFE_MAX),
+      });
+    }
+  }
+
+  return { fronts, spawnTimer, nextFrontId };
+}
+
+/**
+ * How strongly a front holds a spot - 1 inside it once it has built, fading to 0
+ * across its fringe and while it builds or clears
+ */
+export function getFrontInfluence(front: WeatherFront, x: number, z: number): number {
+  const distance = Math.hypot(front.x - x, front.z - z);
+  const spatial = 1 - smoothstep((distance - front.radius) / WEATHER.FRINGE);
+  const building = smoothstep(front.age / WEATHER.FADE);
+  const clearing = smoothstep((front.life - front.age) / WEATHER.FADE);
+  return spatial * Math.min(building, clearing);
+}
+
+/**
+ * The weather at a spot - clear conditions blended with every front over it, in
+ * proportion to their hold, and the name of the one holding it most
+ */
+export function getWeatherAt(weather: WeatherState, x: number, z: number): WeatherConditions & { type: WeatherType } {
+  const clear = WEATHER_REGISTRY.clear.conditions;
+  const influences = weather.fronts.map(front => ({ front, influence: getFrontInfluence(front, x, z) }));
+  const total = influences.reduce((sum, { influence }) => sum + influence, 0);
+
+  // Where fronts overlap they share the spot, so together they never count for more than one
+  const cover = Math.min(1, total);
+  const conditions: WeatherConditions & { type: WeatherType } = { ...clear, type: 'clear' };
+
+  let strongest = WEATHER.DOMINANT;
+  for (const { front, influence } of influences) {
+    if (influence <= 0) continue;
+    const share = influence / total * cover;
+    const definition = WEATHER_REGISTRY[front.type].conditions;
+    for (const key of CONDITION_KEYS) {
+      conditions[key] += (definition[key] - clear[key]) * share;
+    }
+    if (influence >= strongest) {
+      strongest = influence;
+      conditions.type = front.type;
+    }
+  }
+
+  return conditions;
+}
@@ -0,0 +1,205 @@
+import { RandomFn, randomRange } from "../helpers/random";
+
+/**
+ * Wind
+ * ----
+ * One wind blows over the whole ocean. Every minute or two it starts backing or
+ * veering toward a new direction and freshening or easing off, and far from home
+ * it blows a little differently, so a long passage means reading it again.
+ *
+ * Ships sail by it. They are fastest with the wind on the beam, a little slower
+ * running before it, slow close-hauled, and they barely move head to wind - the
+ * no-go zone. A ship bound upwind has to beat there in tacks.
+ *
+ * Headings here use the enemy convention (0 = +Z), and the wind's direction is
+ * the way it blows toward, so a ship running before it shares its heading. The
+ * state is plain data so snapshots and replays carry it.
+ */
+
+// The wind at one spot - or over the whole ocean, before any local differences
+export interface WindVector {
+  direction: number; // Heading the wind blows toward
+  strength: number;  // 0 a flat calm to 1 a gale
+}
+
+export interface Wind extends WindVector {
+  targetDirection: number; // Where it is backing or veering to
+  targetStrength: number;  // What it is freshening or easing to
+  shiftTimer: number;      // Seconds until it picks a new target
+}
+
+export const POINTS_OF_SAIL = ['inIrons', 'closeHauled', 'beamReach', 'broadReach', 'running'] as const;
+export type PointOfSail = typeof POINTS_OF_SAIL[number];
+
+export interface PointOfSailDefinition {
+  name: string;
+  from: number; // Angle off the wind where it begins, in radians - 0 is head to wind
+}
+
+export const POINT_OF_SAIL_REGISTRY = {
+  inIrons: { name: 'In Irons', from: 0 },
+  closeHauled: { name: 'Close Hauled', from: Math.PI / 4 },
+  beamReach: { name: 'Beam Reach', from: Math.PI * 3 / 8 },
+  broadReach: { name: 'Broad Reach', from: Math.PI * 5 / 8 },
+  running: { name: 'Running', from: Math.PI * 7 / 8 },
+} satisfies Record<PointOfSail, PointOfSailDefinition>;
+
+// How hard it blows, by name - each applies from its strength up
+const WIND_FORCES = [
+  { name: 'Light Airs', from: 0 },
+  { name: 'Gentle Breeze', from: 0.3 },
+  { name: 'Fresh Breeze', from: 0.55 },
+  { name: 'Gale', from: 0.8 },
+];
+
+export const WIND = {
+  NO_GO: Math.PI / 4,      // Closer to the wind than this the sails only flap
+  NO_GO_DRIFT: 0.1,        // What a ship in irons still makes of the wind
+  TACK_MARGIN: 0.1,        // A ship beating upwind sails this far outside the no-go zone
+  TACK_SWITCH: 0.35,       // ...and only goes about once its course lies this far past the wind
+  // Share of the wind's drive caught at each angle off the wind outside the no-go zone
+  POLAR: [
+    { angle: Math.PI / 4, drive: 0.55 },
+    { angle: Math.PI / 2, drive: 1 },
+    { angle: Math.PI * 3 / 4, drive: 0.95 },
+    { angle: Math.PI, drive: 0.75 },
+  ],
+  CALM_DRIVE: 0.7,         // Drive on the beam in a flat calm...
+  GALE_DRIVE: 1.3,         // ...and in a gale - a middling wind drives a ship as it always sailed
+  MIN_STRENGTH: 0.2,
+  MAX_STRENGTH: 0.9,
+  SHIFT_MIN: 45,           // Seconds between shifts
+  SHIFT_MAX: 120,
+  MAX_SHIFT: Math.PI / 3,  // Furthest it backs or veers in one shift
+  VEER_RATE: 0.03,         // Radians per second it turns toward a new direction
+  FRESHEN_RATE: 0.01,      // Strength per second it changes by
+  REGION_SIZE: 1500,       // Distance over which the local differences come and go
+  REGION_VEER: 0.4,        // Furthest the local wind is turned from the ocean's
+  REGION_GUST: 0.2,        // ...and strengthened or weakened
+};
+
+// How much canvas the player has set - 0 under bare poles, 1 every sail drawing
+export const SAIL_TRIM = {
+  DEFAULT: 1,
+  RATE: 0.5,        // Per second with the full watch of sailors on the yards
+  TURN_BONUS: 0.5,  // Extra turning under bare poles - less canvas, a handier ship
+};
+
+// Wrap an angle into [-PI, PI]
+const wrapAngle = (angle: number): number => Math.atan2(Math.sin(angle), Math.cos(angle));
+
+export function createWind(random: RandomFn): Wind {
+  const direction = random() * Math.PI * 2;
+  const strength = randomRange(random, WIND.MIN_STRENGTH, WIND.MAX_STRENGTH);
+  return {
+    direction,
+    strength,
+    targetDirection: direction,
+    targetStrength: strength,
+    shiftTimer: randomRange(random, WIND.SHIFT_MIN, WIND.SHIFT_MAX),
+  };
+}
+
+/**
+ * Moves the wind on by dt seconds toward its current target, picking a new one
+ * when the time comes
+ */
+export function updateWind(wind: Wind, dt: number, random: RandomFn): Wind {
+  let { targetDirection, targetStrength, shiftTimer } = wind;
+
+  shiftTimer -= dt;
+  if (shiftTimer <= 0) {
+    targetDirection = wind.direction + randomRange(random, -WIND.MAX_SHIFT, WIND.MAX_SHIFT);
+    targetStrength = randomRange(random, WIND.MIN_STRENGTH, WIND.MAX_STRENGTH);
+    shiftTimer = randomRange(random, WIND.SHIFT_MIN, WIND.SHIFT_MAX);
+  }
+
+  const turn = wrapAngle(targetDirection - wind.direction);
+  const change = targetStrength - wind.strength;
+  return {
+    direction: wind.direction + Math.sign(turn) * Math.min(Math.abs(turn), WIND.VEER_RATE * dt),
+    strength: wind.strength + Math.sign(change) * Math.min(Math.abs(change), WIND.FRESHEN_RATE * dt),
+    targetDirection,
+    targetStrength,
+    shiftTimer,
+  };
+}
+
+/**
+ * The wind as felt at a spot - the ocean's wind turned and strengthened by
+ * smooth local differences that are the same for every voyage
+ */
+export function getWindAt(wind: WindVector, x: number, z: number): WindVector {
+  const u = x / WIND.REGION_SIZE;
+  const v = z / WIND.REGION_SIZE;
+  const veer = Math.sin(u * 2.1 + 0.7) * Math.cos(v * 1.7 - 0.3);
+  const gust = Math.sin(u * 1.3 - v * 2.3 + 1.1);
+
+  return {
+    direction: wind.direction + veer * WIND.REGION_VEER,
+    strength: Math.max(0, Math.min(1, wind.strength + gust * WIND.REGION_GUST)),
+  };
+}
+
+// How far a heading lies off the wind - 0 head to wind, PI running dead before it
+export function getAngleOffWind(heading: number, wind: WindVector): number {
+  return Math.PI - Math.abs(wrapAngle(heading - wind.direction));
+}
+
+export function getPointOfSail(heading: number, wind: WindVector): PointOfSail {
+  const angle = getAngleOffWind(heading, wind);
+  let point: PointOfSail = 'inIrons';
+  for (const id of POINTS_OF_SAIL) {
+    if (angle >= POINT_OF_SAIL_REGISTRY[id].from) point = id;
+  }
+  return point;
+}
+
+export function getPointOfSailDefinition(point: PointOfSail): PointOfSailDefinition {
+  return POINT_OF_SAIL_REGISTRY[point];
+}
+
+export function getWindForceName(strength: number): string {
+  return WIND_FORCES.filter(force => strength >= force.from).pop()!.name;
+}
+
+/**
+ * How hard the wind drives a ship on a heading - about 1 on the beam in a
+ * middling wind, next to nothing in the no-go zone
+ */
+export function getWindDrive(heading: number, wind: WindVector): number {
+  const angle = getAngleOffWind(heading, wind);
+  const strength = WIND.CALM_DRIVE + (WIND.GALE_DRIVE - WIND.CALM_DRIVE) * wind.strength;
+  if (angle < WIND.NO_GO) return WIND.NO_GO_DRIFT * strength;
+
+  const { POLAR } = WIND;
+  for (let i = 1; i < POLAR.length; i++) {
+    if (angle <= POLAR[i].angle) {
+      const t = (angle - POLAR[i - 1].angle) / (POLAR[i].angle - POLAR[i - 1].angle);
+      return (POLAR[i - 1].drive + (POLAR[i].drive - POLAR[i - 1].drive) * t) * strength;
+    }
+  }
+  return POLAR[POLAR.length - 1].drive * strength;
+}
+
+/**
+ * The course a ship can actually steer toward a heading it wants. Outside the
+ * no-go zone that is the heading itself; inside it, the ship beats close-hauled
+ * on its current tack and only goes about once the heading lies well over on the
+ * other side, so it zig-zags upwind instead of dithering head to wind
+ */
+export function getSailableHeading(desired: number, current: number, wind: WindVector): number {
+  const upwind = wind.direction + Math.PI;
+  const offset = wrapAngle(desired - upwind);
+  const limit = WIND.NO_GO + WIND.TACK_MARGIN;
+  if (Math.abs(offset) >= limit) return desired;
+
+  const currentTack = wrapAngle(current - upwind) >= 0 ? 1 : -1;
+  const tack = Math.abs(offset) > WIND.TACK_SWITCH && Math.sign(offset) !== currentTack ? -currentTack : currentTack;
+  return upwind + tack * limit;
+}
+
+// Turning under reduced sail is quicker
+export function getSailTurnFactor(sails: number): number {
+  return 1 + SAIL_TRIM.TURN_BONUS * (1 - sails);
+}
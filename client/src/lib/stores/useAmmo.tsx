@@ -0,0 +1,53 @@
+import { create } from "zustand";
+import { gameSimulation } from "../simulation/GameSimulation";
+import { replayRecorder } from "../simulation/replay";
+import { AmmoStock, AmmoType, getAmmoDefinition, hasAmmo } from "../simulation/ammunition";
+
+// The magazine lives in gameSimulation - this store mirrors it for the HUD, the shop and the save
+interface AmmoState {
+  stock: AmmoStock;
+  selected: AmmoType;
+
+  selectAmmo: (type: AmmoType) => void;
+  addAmmo: (type: AmmoType, amount: number) => void;
+  setStock: (stock: AmmoStock) => void; // Replace the magazine (loading a save)
+  sync: () => void;                     // Copy the simulation's magazine into the store
+}
+
+export const useAmmo = create<AmmoState>((set, get) => ({
+  stock: gameSimulation.getAmmo(),
+  selected: gameSimulation.getSelectedAmmo(),
+
+  selectAmmo: (type) => {
+    if (!hasAmmo(gameSimulation.getAmmo(), type)) {
+      console.log(`[AMMO] No ${getAmmoDefinition(type).name} left`);
+      return;
+    }
+
+    replayRecorder.recordSelectAmmo(type);
+    gameSimulation.selectAmmo(type);
+    get().sync();
+    console.log(`[AMMO] Loading ${getAmmoDefinition(type).name}`);
+  },
+
+  addAmmo: (type, amount) => {
+    gameSimulation.addAmmo(type, amount);
+    get().sync();
+  },
+
+  setStock: (stock) => {
+    gameSimulation.setAmmo(stock);
+    get().sync();
+  },
+
+  // The simulation replaces the stock when it changes, so comparing references is enough
+  sync: () => {
+    const stock = gameSimulation.getAmmo();
+    const selected = gameSimulation.getSelectedAmmo();
+    const state = get();
+
+    if (state.stock !== stock || state.selected !== selected) {
+      set({ stock, selected });
+    }
+  },
+}));
@@ -0,0 +1,55 @@
+import { create } from "zustand";
+import { gameSimulation } from "../simulation/GameSimulation";
+import { replayRecorder } from "../simulation/replay";
+import { Boarding, CaptureChoice } from "../simulation/boarding";
+import { EnemyArchetypeId } from "../simulation/enemyArchetypes";
+
+// Boarding is fought in gameSimulation - this store mirrors it for the HUD prompt and the capture choice
+interface BoardingState {
+  targetId: string | null;            // Crippled ship close enough to board
+  enemyId: string | null;             // Ship being boarded
+  phase: Boarding['phase'] | null;
+  archetype: EnemyArchetypeId | null; // What the ship being boarded, or else the target, is
+  enemyCrew: number;                  // Her hands still on their feet
+
+  resolveCapture: (choice: CaptureChoice) => void;
+  sync: () => void;                   // Copy the fight on deck into the store
+}
+
+export const useBoarding = create<BoardingState>((set, get) => ({
+  targetId: null,
+  enemyId: null,
+  phase: null,
+  archetype: null,
+  enemyCrew: 0,
+
+  resolveCapture: (choice) => {
+    replayRecorder.recordResolveCapture(choice);
+    gameSimulation.resolveCapture(choice);
+    get().sync();
+  },
+
+  // Only copied when something the HUD shows has changed
+  sync: () => {
+    const boarding = gameSimulation.getBoarding();
+    const target = gameSimulation.findBoardingTarget();
+    const ship = boarding ? gameSimulation.getEnemy(boarding.enemyId) : target;
+
+    const targetId = target?.id ?? null;
+    const enemyId = boarding?.enemyId ?? null;
+    const phase = boarding?.phase ?? null;
+    const archetype = ship?.archetype ?? null;
+    const enemyCrew = ship?.crew ?? 0;
+    const state = get();
+
+    if (
+      state.targetId !== targetId ||
+      state.enemyId !== enemyId ||
+      state.phase !== phase ||
+      state.archetype !== archetype ||
+      state.enemyCrew !== enemyCrew
+    ) {
+      set({ targetId, enemyId, phase, archetype, enemyCrew });
+    }
+  },
+}));
@@ -0,0 +1,47 @@
+import { create } from "zustand";
+import { gameSimulation } from "../simulation/GameSimulation";
+import { replayRecorder } from "../simulation/replay";
+import { Crew, CrewRole, CrewRoster, getCrewRole } from "../simulation/crew";
+
+// The crew sail in gameSimulation - this store mirrors them for the HUD, the roster screen and the save
+interface CrewState {
+  roster: CrewRoster;
+  morale: number;
+
+  dismiss: (role: CrewRole) => void;
+  settleWages: (paid: boolean) => void; // A payday came round - were the wages paid?
+  setCrew: (crew: Crew) => void;        // Replace the crew (loading a save)
+  sync: () => void;                     // Copy the simulation's crew into the store
+}
+
+export const useCrew = create<CrewState>((set, get) => ({
+  roster: gameSimulation.getCrew().roster,
+  morale: gameSimulation.getCrew().morale,
+
+  dismiss: (role) => {
+    gameSimulation.dismissCrew(role);
+    get().sync();
+    console.log(`[CREW] Put a ${getCrewRole(role).name.toLowerCase()} ashore`);
+  },
+
+  settleWages: (paid) => {
+    replayRecorder.recordSettleWages(paid);
+    gameSimulation.settleWages(paid);
+    get().sync();
+  },
+
+  setCrew: (crew) => {
+    gameSimulation.setCrew(crew);
+    get().sync();
+  },
+
+  // The simulation replaces the crew when it changes, so comparing references is enough
+  sync: () => {
+    const { roster, morale } = gameSimulation.getCrew();
+    const state = get();
+
+    if (state.roster !== roster || state.morale !== morale) {
+      set({ roster, morale });
+    }
+  },
+}));
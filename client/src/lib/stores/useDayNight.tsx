@@ -0,0 +1,24 @@
+import { create } from "zustand";
+import { gameSimulation } from "../simulation/GameSimulation";
+import { getDaylight, getTimeOfDay, TimeOfDay } from "../simulation/dayNight";
+
+// The clock runs in gameSimulation - this store mirrors it for the sky, the sea, the lights and the HUD
+interface DayNightState {
+  clock: number;
+  daylight: number; // 0 the dead of night to 1 full day
+  timeOfDay: TimeOfDay;
+  sync: () => void; // Copy the simulation's clock into the store
+}
+
+export const useDayNight = create<DayNightState>((set, get) => ({
+  clock: gameSimulation.getClock(),
+  daylight: getDaylight(gameSimulation.getClock()),
+  timeOfDay: getTimeOfDay(gameSimulation.getClock()),
+
+  sync: () => {
+    const clock = gameSimulation.getClock();
+    if (get().clock !== clock) {
+      set({ clock, daylight: getDaylight(clock), timeOfDay: getTimeOfDay(clock) });
+    }
+  },
+}));
@@ -0,0 +1,70 @@
+import { create } from "zustand";
+import { gameSimulation } from "../simulation/GameSimulation";
+import { EncounterPhase } from "../simulation/encounterDirector";
+import { EnemyArchetypeId, getArchetype } from "../simulation/enemyArchetypes";
+
+// A banner shown across the top of the screen for a few seconds
+export interface WaveAnnouncement {
+  id: number;
+  title: string;
+  subtitle: string;
+}
+
+// The wave director runs in gameSimulation - this store mirrors it for the HUD
+interface EncountersState {
+  wave: number;
+  phase: EncounterPhase;
+  nextWaveIn: number;   // Seconds of calm left
+  announcement: WaveAnnouncement | null;
+
+  announceWave: (wave: number, ships: EnemyArchetypeId[]) => void;
+  announceWaveCleared: (wave: number, duration: number) => void;
+  dismissAnnouncement: (id: number) => void;
+  sync: () => void;     // Copy the director's progress into the store
+}
+
+let nextAnnouncementId = 1;
+
+// "2 Pirate Sloops, Navy Frigate" - ships grouped by archetype in the order they were planned
+const describeShips = (ships: EnemyArchetypeId[]): string => {
+  const counts = new Map<EnemyArchetypeId, number>();
+  ships.forEach(ship => counts.set(ship, (counts.get(ship) ?? 0) + 1));
+
+  return Array.from(counts, ([archetype, count]) => {
+    const name = getArchetype(archetype).name;
+    return count > 1 ? `${count} ${name}s` : name;
+  }).join(', ');
+};
+
+export const useEncounters = create<EncountersState>((set, get) => ({
+  wave: 0,
+  phase: 'calm',
+  nextWaveIn: 0,
+  announcement: null,
+
+  announceWave: (wave, ships) => {
+    set({ announcement: { id: nextAnnouncementId++, title: `Wave ${wave}`, subtitle: describeShips(ships) } });
+  },
+
+  announceWaveCleared: (wave, duration) => {
+    set({ announcement: { id: nextAnnouncementId++, title: `Wave ${wave} cleared`, subtitle: `Survived in ${Math.round(duration)}s` } });
+  },
+
+  // Only clears the banner it was called for, so a newer one isn't cut short
+  dismissAnnouncement: (id) => {
+    if (get().announcement?.id === id) {
+      set({ announcement: null });
+    }
+  },
+
+  // Only the calm countdown changes every step, and the HUD shows it in whole seconds
+  sync: () => {
+    const { wave, phase, timer } = gameSimulation.getEncounters();
+    const nextWaveIn = phase === 'calm' ? Math.ceil(timer) : 0;
+    const state = get();
+
+    if (state.wave !== wave || state.phase !== phase || state.nextWaveIn !== nextWaveIn) {
+      set({ wave, phase, nextWaveIn });
+    }
+  },
+}));
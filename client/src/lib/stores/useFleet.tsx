@@ -0,0 +1,51 @@
+import { create } from "zustand";
+import { gameSimulation } from "../simulation/GameSimulation";
+import { replayRecorder } from "../simulation/replay";
+import { FLEET, FleetCommand, FleetShip } from "../simulation/fleet";
+
+// The fleet is held by gameSimulation - this store mirrors it for the HUD, the menus and the save
+interface FleetState {
+  ships: FleetShip[];
+  command: FleetCommand;                  // The escorts' current order
+
+  commandFleet: (command: FleetCommand) => void;
+  setEscort: (id: string, escort: boolean) => boolean; // Takes effect from the next voyage
+  setFleet: (ships: FleetShip[]) => void; // Replace the fleet (loading a save)
+  sync: () => void;                       // Copy the simulation's fleet into the store
+}
+
+export const useFleet = create<FleetState>((set, get) => ({
+  ships: gameSimulation.getFleet(),
+  command: gameSimulation.getFleetCommand(),
+
+  commandFleet: (command) => {
+    replayRecorder.recordCommandFleet(command);
+    gameSimulation.commandFleet(command);
+    get().sync();
+  },
+
+  setEscort: (id, escort) => {
+    if (!gameSimulation.setEscort(id, escort)) {
+      console.log(`[FLEET] No more than ${FLEET.MAX_ESCORTS} ships can sail as escorts`);
+      return false;
+    }
+    get().sync();
+    return true;
+  },
+
+  setFleet: (ships) => {
+    gameSimulation.setFleet(ships);
+    get().sync();
+  },
+
+  // The simulation replaces the fleet when it changes, so comparing references is enough
+  sync: () => {
+    const ships = gameSimulation.getFleet();
+    const command = gameSimulation.getFleetCommand();
+    const state = get();
+
+    if (state.ships !== ships || state.command !== command) {
+      set({ ships, command });
+    }
+  },
+}));
@@ -1,29 +1,52 @@
 import { create } from "zustand";
 import { POSITION, STATIC } from "../constants";
+import { parseSeed, randomSeed } from "../helpers/random";
+import { worldRandom } from "../services/WorldRandom";
+import { DAY } from "../simulation/dayNight";
+import { OCEAN } from "../simulation/ocean";
 
-export type GameState = 'title' | 'menu' | 'settings' | 'help' | 'upgrade' | 'playing' | 'gameOver';
+export type GameState = 'title' | 'menu' | 'settings' | 'help' | 'playing' | 'gameOver';
+
+// A ?seed= URL parameter pins the world so it can be shared and replayed
+const urlSeed = typeof window === 'undefined'
+  ? null
+  : parseSeed(new URLSearchParams(window.location.search).get('seed'));
+const initialSeed = urlSeed ?? randomSeed();
+worldRandom.reset(initialSeed);
 
 interface GameStateStore {
   gameState: GameState;
   setGameState: (state: GameState) => void;
   setGameOver: () => void;
   
+  // World seed - drives map generation, spawns, drops and spread
+  worldSeed: number;
+  seedFromUrl: boolean;  // True when the seed was pinned by the URL (or a replay) - loading a save won't move it
+  setWorldSeed: (seed: number) => void;
+  pinWorldSeed: (seed: number) => void;
+  
   // Model and environment parameters
   shipHeight: number;
-  waveHeight: number;
+  waveHeight: number; // The sea in clear weather - the simulation raises it with the weather
   waveSpeed: number;
   shipScale: number; // Ship size scale factor
+  dayLength: number; // Seconds from one midnight to the next - 0 stops the clock
   
   // Debug features
   waterVisible: boolean; // Toggle for water visibility
   oneShotKill: boolean;  // Toggle for one-shot kill feature
+  showAIDebug: boolean;  // Show each enemy's AI state and target
+  encountersEnabled: boolean; // Whether enemy waves keep coming
   
   // Update functions
   setShipHeight: (height: number) => void;
   setWaveParameters: (params: { waveHeight: number; waveSpeed: number }) => void;
   setShipScale: (scale: number) => void; // Function to update ship scale
+  setDayLength: (seconds: number) => void;
   toggleWaterVisibility: () => void; // Toggle water on/off
   toggleOneShotKill: () => void;    // Toggle one-shot kill feature
+  toggleAIDebug: () => void;        // Toggle the enemy AI overlay
+  toggleEncounters: () => void;     // Toggle enemy waves
 }
 
 export const useGameState = create<GameStateStore>((set) => ({
@@ -39,15 +62,34 @@ export const useGameState = create<GameStateStore>((set) => ({
     console.log("Game over!");
   },
   
+  worldSeed: initialSeed,
+  seedFromUrl: urlSeed !== null,
+  
+  setWorldSeed: (seed) => {
+    worldRandom.reset(seed);
+    set({ worldSeed: seed });
+    console.log(`World seed set to: ${seed}`);
+  },
+  
+  // Switch to a seed and keep it there, e.g. while a replay shows its world
+  pinWorldSeed: (seed) => {
+    worldRandom.reset(seed);
+    set({ worldSeed: seed, seedFromUrl: true });
+    console.log(`World seed pinned to: ${seed}`);
+  },
+  
   // Initial parameters with standardized values - using constants from STATIC
   shipHeight: POSITION.SHIP_HEIGHT, // Always use the value from POSITION which references STATIC
-  waveHeight: 0.03, // Default wave height for bobbing effect
-  waveSpeed: 0.0006, // Wave animation speed
+  waveHeight: OCEAN.CALM_HEIGHT, // Default wave height for bobbing effect
+  waveSpeed: OCEAN.CALM_SPEED, // Wave animation speed
   shipScale: 3.0, // Standard scale for all ships
+  dayLength: DAY.DEFAULT_LENGTH,
   
   // Debug features - default values
   waterVisible: true,  // Water is visible by default
   oneShotKill: false,  // One-shot kill is disabled by default
+  showAIDebug: false,  // Enemy AI overlay is hidden by default
+  encountersEnabled: true,  // Waves are on unless switched off for debugging
   
   // Update functions
   setShipHeight: (height) => {
@@ -68,6 +110,11 @@ export const useGameState = create<GameStateStore>((set) => ({
     console.log(`Ship scale updated to: ${scale}`);
   },
   
+  setDayLength: (seconds) => {
+    set({ dayLength: seconds });
+    console.log(`Day length set to: ${seconds > 0 ? `${seconds}s` : 'endless day'}`);
+  },
+  
   // Toggle water visibility
   toggleWaterVisibility: () => {
     set((state) => {
@@ -85,4 +132,22 @@ export const useGameState = create<GameStateStore>((set) => ({
       return { oneShotKill: newValue };
     });
   },
+  
+  // Toggle the enemy AI overlay
+  toggleAIDebug: () => {
+    set((state) => {
+      const newValue = !state.showAIDebug;
+      console.log(`Enemy AI overlay toggled: ${newValue ? 'ON' : 'OFF'}`);
+      return { showAIDebug: newValue };
+    });
+  },
+  
+  // Toggle enemy waves - ships already afloat stay
+  toggleEncounters: () => {
+    set((state) => {
+      const newValue = !state.encountersEnabled;
+      console.log(`Enemy waves toggled: ${newValue ? 'ON' : 'OFF'}`);
+      return { encountersEnabled: newValue };
+    });
+  },
 }));
@@ -0,0 +1,145 @@
+import { create } from "zustand";
+import type { CreateRoom, PublicRoom, RoomMembership, RoomSummary } from "@shared/schema";
+import { LobbyService } from "../services/LobbyService";
+import { SaveService } from "../services/SaveService";
+import { useProfile } from "./useProfile";
+import { useMultiplayer } from "./useMultiplayer";
+import { useGameState } from "./useGameState";
+import { usePlayer } from "./usePlayer";
+
+interface LobbyState {
+  rooms: RoomSummary[];
+  room: PublicRoom | null; // The room we are waiting in
+  membership: Omit<RoomMembership, 'room'> | null; // Our seat in it, and the token that joins its match
+  busy: boolean;
+  error: string | null;
+
+  // Actions
+  refreshRooms: () => Promise<void>;
+  refreshRoom: () => Promise<void>;
+  createRoom: (options: Omit<CreateRoom, 'profileId'>) => Promise<void>;
+  joinRoom: (roomId: string, password?: string) => Promise<void>;
+  leaveRoom: () => Promise<void>;
+  setReady: (ready: boolean) => Promise<void>;
+  startMatch: () => Promise<void>;
+}
+
+// The lobby needs a server profile - it is created by useProfile.initProfile
+function requireProfile() {
+  const profile = useProfile.getState().profile;
+  if (!profile) throw new Error("You need to be online to play with other captains");
+  return profile;
+}
+
+export const useLobby = create<LobbyState>((set, get) => {
+  // Run a lobby request, keeping its error for the lobby screen
+  const run = async (action: () => Promise<void>) => {
+    set({ busy: true, error: null });
+    try {
+      await action();
+    } catch (error) {
+      set({ error: LobbyService.getErrorMessage(error) });
+      // The server may have forgotten our profile - reconciling replaces it if so
+      if (SaveService.isProfileRejected(error)) useProfile.getState().reconcile();
+    } finally {
+      set({ busy: false });
+    }
+  };
+
+  // Take a room update - once the host starts, everyone sets sail
+  const applyRoom = (room: PublicRoom | null) => {
+    if (!room || room.status !== 'started') {
+      set({ room });
+      return;
+    }
+
+    const profile = requireProfile();
+    const joinToken = get().membership?.joinToken;
+    set({ room: null, membership: null });
+    console.log(`[LOBBY] Room ${room.id} started - joining the match`);
+
+    usePlayer.getState().resetPlayer();
+    useMultiplayer.getState().joinRoom(room.id, profile.name, joinToken);
+    useGameState.getState().setGameState('playing');
+  };
+
+  // Take our seat in a room we created or joined
+  const applyMembership = ({ room, memberId, joinToken }: RoomMembership) => {
+    set({ membership: { memberId, joinToken } });
+    applyRoom(room);
+  };
+
+  return {
+    rooms: [],
+    room: null,
+    membership: null,
+    busy: false,
+    error: null,
+
+    refreshRooms: async () => {
+      try {
+        set({ rooms: await LobbyService.listRooms() });
+      } catch (error) {
+        set({ error: LobbyService.getErrorMessage(error) });
+      }
+    },
+
+    // Polled while waiting in a room, to see who joined, who is ready and when the host starts
+    refreshRoom: async () => {
+      const current = get().room;
+      if (!current) return;
+
+      try {
+        const room = await LobbyService.fetchRoom(current.id);
+        // Ignore a poll that lands after we left
+        if (get().room?.id !== current.id) return;
+
+        if (!room) set({ error: "The room was closed" });
+        applyRoom(room);
+      } catch (error) {
+        set({ error: LobbyService.getErrorMessage(error) });
+      }
+    },
+
+    createRoom: (options) => run(async () => {
+      const membership = await LobbyService.createRoom(requireProfile(), options);
+      console.log(`[LOBBY] Created room ${membership.room.id}`);
+      applyMembership(membership);
+    }),
+
+    joinRoom: (roomId, password) => run(async () => {
+      const membership = await LobbyService.joinRoom(roomId, requireProfile(), password);
+      console.log(`[LOBBY] Joined room ${membership.room.id}`);
+      applyMembership(membership);
+    }),
+
+    leaveRoom: () => run(async () => {
+      const room = get().room;
+      if (!room) return;
+
+      set({ room: null, membership: null });
+
+      // Once the match has started the seat is given up by leaving the game room
+      if (room.status === 'started') return;
+
+      await LobbyService.leaveRoom(room.id, requireProfile());
+      console.log(`[LOBBY] Left room ${room.id}`);
+    }),
+
+    setReady: (ready) => run(async () => {
+      const room = get().room;
+      if (!room) return;
+
+      applyRoom(await LobbyService.setReady(room.id, requireProfile(), ready));
+    }),
+
+    startMatch: () => run(async () => {
+      const room = get().room;
+      if (!room) return;
+
+      applyRoom(await LobbyService.startRoom(room.id, requireProfile()));
+    })
+  };
+});
+
+export default useLobby;
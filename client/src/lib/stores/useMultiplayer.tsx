@@ -0,0 +1,129 @@
+import { create } from 'zustand';
+import type { RoomStatus, ServerMessage } from '@shared/multiplayer';
+import { MultiplayerClient } from '../services/MultiplayerClient';
+import { useGameState } from './useGameState';
+import { useShipEvents } from './useShipEvents';
+import { useAudio } from './useAudio';
+import { useEnemies } from './useEnemies';
+import { useWind } from './useWind';
+
+export type ConnectionStatus = 'disconnected' | 'connecting' | 'connected';
+
+interface MultiplayerState {
+  status: ConnectionStatus;
+  roomId: string | null;
+  playerId: string | null;
+  roomStatus: RoomStatus | null;
+
+  // Captain names of everyone in the room, by player id
+  players: Record<string, string>;
+
+  error: string | null;
+
+  // Actions
+  joinRoom: (roomId: string, name: string, joinToken?: string) => Promise<void>;
+  leaveRoom: () => void;
+}
+
+// The connection lives outside the store - snapshots arrive far too often to go through React
+export const multiplayerClient = new MultiplayerClient(
+  (message) => handleMessage(message),
+  () => {
+    console.warn('[MULTIPLAYER] Connection lost');
+    useMultiplayer.setState({ status: 'disconnected', roomId: null, playerId: null, roomStatus: null, error: 'Connection lost' });
+  }
+);
+
+const handleMessage = (message: ServerMessage) => {
+  const state = useMultiplayer.getState();
+
+  switch (message.type) {
+    case 'welcome':
+      // Sail the same waters as the server, with only other captains to fight
+      useGameState.getState().setWorldSeed(message.seed);
+      useEnemies.getState().resetEnemies(false);
+      useMultiplayer.setState({
+        status: 'connected',
+        roomId: message.roomId,
+        playerId: message.playerId,
+        error: null
+      });
+      console.log(`[MULTIPLAYER] Joined ${message.roomId} as ${message.playerId}`);
+      break;
+
+    case 'playerJoined':
+      useMultiplayer.setState({ players: { ...state.players, [message.playerId]: message.name } });
+      break;
+
+    case 'playerLeft': {
+      const { [message.playerId]: _, ...players } = state.players;
+      useMultiplayer.setState({ players });
+      break;
+    }
+
+    case 'snapshot':
+      useWind.getState().setWind(message.wind);
+      if (message.status !== state.roomStatus) {
+        useMultiplayer.setState({ roomStatus: message.status });
+      }
+      // Pick up anyone who joined before us
+      if (message.ships.some(ship => !(ship.id in state.players))) {
+        const players = { ...state.players };
+        message.ships.forEach(ship => { players[ship.id] = ship.name; });
+        useMultiplayer.setState({ players });
+      }
+      break;
+
+    case 'hit':
+      if (message.targetId === state.playerId) {
+        useShipEvents.getState().playerHit();
+        useAudio.getState().playHit();
+      }
+      break;
+
+    case 'error':
+      console.warn(`[MULTIPLAYER] Server error: ${message.message}`);
+      useMultiplayer.setState({ error: message.message });
+
+      // A rejected join (e.g. a full room) leaves nothing to stay connected for
+      if (state.status === 'connecting') {
+        multiplayerClient.disconnect();
+        useMultiplayer.setState({ status: 'disconnected' });
+      }
+      break;
+  }
+};
+
+export const useMultiplayer = create<MultiplayerState>((set, get) => ({
+  status: 'disconnected',
+  roomId: null,
+  playerId: null,
+  roomStatus: null,
+  players: {},
+  error: null,
+
+  // Connect and join a room - the status switches to connected when the server welcomes us
+  // Rooms created in the lobby also need the join token the lobby handed out
+  joinRoom: async (roomId, name, joinToken) => {
+    if (get().status !== 'disconnected') get().leaveRoom();
+
+    set({ status: 'connecting', error: null, players: {} });
+    try {
+      await multiplayerClient.connect();
+      multiplayerClient.join(roomId, name, joinToken);
+    } catch (error) {
+      console.error('[MULTIPLAYER] Connection failed:', error);
+      set({ status: 'disconnected', error: error instanceof Error ? error.message : String(error) });
+    }
+  },
+
+  // Leave the room and close the connection
+  leaveRoom: () => {
+    multiplayerClient.leave();
+    multiplayerClient.disconnect();
+    set({ status: 'disconnected', roomId: null, playerId: null, roomStatus: null, players: {} });
+    console.log('[MULTIPLAYER] Left the room');
+  }
+}));
+
+export default useMultiplayer;
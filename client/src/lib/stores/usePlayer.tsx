@@ -1,8 +1,26 @@
 import { create } from "zustand";
 import * as THREE from "three";
 import { useUpgrades } from "./useUpgrades";
-import { usePowerUps } from "./usePowerUps";
+import { GUN_ELEVATION } from "../constants";
+import { Battery, BatterySide, gameSimulation } from "../simulation/GameSimulation";
+import { replayRecorder } from "../simulation/replay";
+import { cloneShipDamage, createShipDamage, ShipDamage } from "../simulation/shipDamage";
+import { SAIL_TRIM } from "../simulation/wind";
 
+// A battery's reload as the HUD shows it
+export interface BatteryStatus extends Battery {
+  ready: boolean;
+  percent: number; // How far through the reload, 100 when loaded
+}
+
+const toBatteryStatus = ({ cooldown, cooldownMax }: Battery): BatteryStatus => ({
+  cooldown,
+  cooldownMax,
+  ready: cooldown <= 0,
+  percent: cooldown <= 0 ? 100 : ((cooldownMax - cooldown) / cooldownMax) * 100,
+});
+
+// The ship itself is simulated by gameSimulation - this store mirrors it for the UI
 interface PlayerState {
   // Ship properties
   position: THREE.Vector3 | null;
@@ -10,23 +28,20 @@ interface PlayerState {
   velocity: THREE.Vector3;
   health: number;
   maxHealth: number;
+  damage: ShipDamage;   // Sections, leaks and water in the hold
+  repairing: boolean;
+  sails: number;        // Canvas set, 0 to 1
   
   // Cannon properties
-  cannonReady: boolean;
-  cannonCooldown: number;
-  cooldownMax: number;
-  cooldownPercent: number;
+  batteries: Record<BatterySide, BatteryStatus>;
+  gunElevation: number; // Radians above the horizon
   
   // Actions
   initialize: () => void;
   resetPlayer: () => void;
-  setPosition: (position: THREE.Vector3) => void;
-  setRotation: (rotation: THREE.Euler) => void;
-  setVelocity: (velocity: THREE.Vector3) => void;
-  fireCannon: () => void;
-  resetCannonCooldown: (delta: number) => void;
   takeDamage: (amount: number) => void;
   heal: (amount: number) => void;
+  sync: () => void; // Copy the simulated ship into the store
 }
 
 export const usePlayer = create<PlayerState>((set, get) => ({
@@ -36,12 +51,16 @@ export const usePlayer = create<PlayerState>((set, get) => ({
   velocity: new THREE.Vector3(0, 0, 0),
   health: 100,
   maxHealth: 100,
+  damage: createShipDamage(),
+  repairing: false,
+  sails: SAIL_TRIM.DEFAULT,
   
   // Cannon properties
-  cannonReady: true,
-  cannonCooldown: 0,
-  cooldownMax: 3, // 3 seconds cooldown
-  cooldownPercent: 100,
+  batteries: {
+    port: toBatteryStatus({ cooldown: 0, cooldownMax: 3 }), // 3 seconds cooldown
+    starboard: toBatteryStatus({ cooldown: 0, cooldownMax: 3 }),
+  },
+  gunElevation: GUN_ELEVATION.DEFAULT,
   
   // Initialize player - only call once when null
   initialize: () => {
@@ -54,15 +73,8 @@ export const usePlayer = create<PlayerState>((set, get) => ({
     const { hullLevel } = useUpgrades.getState();
     const maxHealth = 100 + (hullLevel * 10);
     
-    set({
-      position: new THREE.Vector3(0, 0, 0),
-      rotation: new THREE.Euler(0, 0, 0),
-      velocity: new THREE.Vector3(0, 0, 0),
-      health: maxHealth,
-      maxHealth: maxHealth,
-      cannonReady: true,
-      cannonCooldown: 0,
-    });
+    gameSimulation.resetPlayer(maxHealth);
+    get().sync();
     
     console.log("Player initialized with max health:", maxHealth);
   },
@@ -72,127 +84,45 @@ export const usePlayer = create<PlayerState>((set, get) => ({
     const { hullLevel } = useUpgrades.getState();
     const maxHealth = 100 + (hullLevel * 10);
     
-    set({
-      position: new THREE.Vector3(0, 0, 0),
-      rotation: new THREE.Euler(0, 0, 0),
-      velocity: new THREE.Vector3(0, 0, 0),
-      health: maxHealth,
-      maxHealth: maxHealth,
-      cannonReady: true,
-      cannonCooldown: 0,
-    });
-  },
-  
-  // Update position
-  setPosition: (position) => set({ position }),
-  
-  // Update rotation
-  setRotation: (rotation) => set({ rotation }),
-  
-  // Update velocity
-  setVelocity: (velocity) => set({ velocity }),
-  
-  // Fire cannon
-  fireCannon: () => {
-    if (get().cannonReady) {
-      const { cannonLevel } = useUpgrades.getState();
-      // Base cooldown time reduces with cannon level
-      let cooldownTime = Math.max(1, 3 - (cannonLevel * 0.2));
-      
-      // Check for rapid fire power-up
-      const powerUpState = usePowerUps.getState();
-      if (powerUpState.hasPowerUp('rapid_fire')) {
-        const rapidFireMultiplier = powerUpState.getPowerUpValue('rapid_fire') || 1;
-        cooldownTime *= rapidFireMultiplier; // e.g., 0.3 = 70% cooldown reduction
-        console.log(`[POWER-UP] Rapid fire active: ${(1 - rapidFireMultiplier) * 100}% faster cannons`);
-      }
-      
-      // Apply triple shot if active
-      if (powerUpState.hasPowerUp('triple_shot')) {
-        console.log(`[POWER-UP] Triple shot active!`);
-        // The actual triple shot logic is in the Ship component
-        // We just track shot consumption here
-        powerUpState.consumeShot('triple_shot');
-      }
-      
-      set({
-        cannonReady: false,
-        cannonCooldown: cooldownTime,
-        cooldownMax: cooldownTime,
-        cooldownPercent: 0,
-      });
-      
-      // No logging of cannon firing to reduce console spam
-    }
-  },
-  
-  // Update cannon cooldown
-  resetCannonCooldown: (delta) => {
-    const { cannonReady, cannonCooldown, cooldownMax } = get();
+    gameSimulation.resetPlayer(maxHealth);
+    get().sync();
     
-    if (!cannonReady) {
-      const newCooldown = Math.max(0, cannonCooldown - delta);
-      
-      if (newCooldown <= 0) {
-        set({
-          cannonReady: true,
-          cannonCooldown: 0,
-          cooldownPercent: 100,
-        });
-      } else {
-        set({
-          cannonCooldown: newCooldown,
-          cooldownPercent: ((cooldownMax - newCooldown) / cooldownMax) * 100,
-        });
-      }
-    }
+    // A new game - the replay starts over with it
+    replayRecorder.startRecording(gameSimulation);
   },
   
-  // Take damage
+  // Take damage (an active shield reduces it)
   takeDamage: (amount) => {
-    const { health } = get();
-    let damageAmount = amount;
-    
-    // Check for shield power-up
-    const powerUpState = usePowerUps.getState();
-    if (powerUpState.hasPowerUp('shield')) {
-      const damageReduction = powerUpState.getPowerUpValue('shield') || 1;
-      damageAmount = Math.floor(amount * damageReduction);
-      
-      if (damageAmount < amount) {
-        console.log(`[POWER-UP] Shield active: Reduced damage from ${amount} to ${damageAmount}`);
-      }
-    }
-    
-    // Re-enabled damage system to support ship collisions
-    const newHealth = Math.max(0, health - damageAmount);
-    set({ health: newHealth });
-    
-    if (damageAmount > 0) {
-      console.log(`[PLAYER] Took ${damageAmount} damage. Health: ${newHealth}/${get().maxHealth}`);
-    }
+    gameSimulation.damagePlayer(amount);
+    get().sync();
     
-    // Trigger crew reaction in ship events store if available
-    try {
-      const { playerHit } = require('./useShipEvents').useShipEvents.getState();
-      if (playerHit) {
-        playerHit();
-      }
-    } catch (error) {
-      // Silently handle if the module isn't available yet
-    }
-    
-    console.log(`[PLAYER] Took ${amount} damage. Health: ${newHealth}/${get().maxHealth}`);
-    return newHealth;
+    console.log(`[PLAYER] Took ${amount} damage. Health: ${get().health}/${get().maxHealth}`);
   },
   
   // Heal
   heal: (amount) => {
-    const { health, maxHealth } = get();
-    const newHealth = Math.min(maxHealth, health + amount);
-    
-    set({ health: newHealth });
+    gameSimulation.healPlayer(amount);
+    get().sync();
+  },
+  
+  // Called after every simulation frame, and after anything above changes the ship
+  sync: () => {
+    const player = gameSimulation.getPlayer();
     
-    return newHealth;
+    set({
+      position: player.position.clone(),
+      rotation: player.rotation.clone(),
+      velocity: player.velocity.clone(),
+      health: player.health,
+      maxHealth: player.maxHealth,
+      damage: cloneShipDamage(player.damage),
+      repairing: player.repairing,
+      sails: player.sails,
+      batteries: {
+        port: toBatteryStatus(player.batteries.port),
+        starboard: toBatteryStatus(player.batteries.starboard),
+      },
+      gunElevation: player.gunElevation,
+    });
   },
 }));
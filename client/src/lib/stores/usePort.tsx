@@ -0,0 +1,58 @@
+import { create } from "zustand";
+import { EnvironmentFeature } from "../../components/Environment";
+import { gameSimulation } from "../simulation/GameSimulation";
+import { replayRecorder } from "../simulation/replay";
+import { findPortInRange, gatherRumours, getPortName } from "../simulation/ports";
+import { useWorldChunks } from "./useWorldChunks";
+import { usePlayer } from "./usePlayer";
+
+// While the ship lies at a port the simulation isn't stepped - SimulationRunner checks `docked`
+interface PortState {
+  nearby: EnvironmentFeature | null; // Port close enough to put in at
+  docked: EnvironmentFeature | null; // Port the ship lies at
+  rumours: string[];                 // The tavern's talk, heard on coming ashore
+
+  dock: () => boolean;
+  undock: () => void;
+  sync: () => void;                  // Look for a port in range of the ship
+}
+
+export const usePort = create<PortState>((set, get) => ({
+  nearby: null,
+  docked: null,
+  rumours: [],
+
+  // Put in at the nearby port - not in the middle of a boarding fight
+  dock: () => {
+    const { nearby, docked } = get();
+    if (!nearby || docked || gameSimulation.getBoarding()) return false;
+
+    const rumours = gatherRumours(nearby, useWorldChunks.getState().features, gameSimulation.getWeather().fronts);
+    set({ docked: nearby, rumours });
+
+    console.log(`[PORT] Docked at ${getPortName(nearby.id)}`);
+    return true;
+  },
+
+  undock: () => {
+    const { docked } = get();
+    if (!docked) return;
+
+    set({ docked: null });
+
+    // Nothing bought ashore is a replay command, so the replay starts a new leg from the quay
+    replayRecorder.startRecording(gameSimulation);
+
+    console.log(`[PORT] Cast off from ${getPortName(docked.id)}`);
+  },
+
+  // Only copied when the port in range changes
+  sync: () => {
+    const { position } = usePlayer.getState();
+    const nearby = position ? findPortInRange(useWorldChunks.getState().features, position.x, position.z) : null;
+
+    if (get().nearby?.id !== nearby?.id) {
+      set({ nearby });
+    }
+  },
+}));
@@ -0,0 +1,309 @@
+import { create } from "zustand";
+import type { Profile } from "@shared/schema";
+import { migrateSave, SaveGame } from "@shared/saveGame";
+import { SaveService, LocalSaveRecord, QuarantinedSave } from "../services/SaveService";
+import { useUpgrades } from "./useUpgrades";
+
+export type SyncStatus = 'idle' | 'syncing' | 'offline' | 'error';
+
+interface ProfileState {
+  profile: Profile | null;
+  activeSlot: string;
+  slots: string[];
+  isOnline: boolean;
+  syncStatus: SyncStatus;
+  quarantined: QuarantinedSave[];
+  
+  // Actions
+  initProfile: () => Promise<void>;
+  selectSlot: (slot: string) => void;
+  deleteSlot: (slot: string) => Promise<void>;
+  saveSlot: (data: SaveGame) => void;
+  loadSlot: (slot: string) => SaveGame | null;
+  reconcile: () => Promise<void>;
+}
+
+// Only register the online/offline listeners once per page
+let listenersRegistered = false;
+
+// A failed reconcile is tried again after a delay that doubles each time, up to 5 minutes
+const RETRY_BASE_DELAY = 5_000;
+const RETRY_MAX_DELAY = 300_000;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+let retryAttempt = 0;
+
+// Set while a rejected profile is being replaced, so a second rejection isn't replaced again
+let replacingProfile = false;
+
+function scheduleRetry(): void {
+  if (retryTimer) return;
+  
+  const delay = Math.min(RETRY_BASE_DELAY * 2 ** retryAttempt, RETRY_MAX_DELAY);
+  retryAttempt++;
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    if (useProfile.getState().isOnline) useProfile.getState().reconcile();
+  }, delay);
+  console.log(`[SAVE] Retrying sync in ${Math.round(delay / 1000)}s`);
+}
+
+function cancelRetry(): void {
+  if (retryTimer) clearTimeout(retryTimer);
+  retryTimer = null;
+  retryAttempt = 0;
+}
+
+// Create a profile on the server and keep it, with its token, on this device
+async function startProfile(): Promise<Profile> {
+  const name = `Captain-${Math.random().toString(36).slice(2, 8)}`;
+  const profile = await SaveService.createProfile(name);
+  SaveService.writeProfile(profile);
+  useProfile.setState({ profile });
+  console.log(`[SAVE] Created profile ${profile.name} (id: ${profile.id})`);
+  return profile;
+}
+
+// Store a save received from the server in the local cache
+// Returns false if the server copy couldn't be read and was quarantined instead
+function adoptRemote(slot: string, data: unknown, updatedAt: number): boolean {
+  const migrated = migrateSave(data);
+  if (!migrated.ok) {
+    const entry = SaveService.quarantine(`${slot}_remote`, data, migrated.error);
+    useProfile.setState((state) => ({ quarantined: [...state.quarantined, entry] }));
+    return false;
+  }
+  
+  SaveService.writeLocal(slot, { data: migrated.save, updatedAt, dirty: false });
+  return true;
+}
+
+export const useProfile = create<ProfileState>((set, get) => ({
+  profile: SaveService.readProfile(),
+  activeSlot: SaveService.readActiveSlot(),
+  slots: SaveService.listLocalSlots(),
+  isOnline: typeof navigator === 'undefined' ? true : navigator.onLine,
+  syncStatus: 'idle',
+  quarantined: SaveService.listQuarantined(),
+  
+  // Load or create the profile and reconcile local saves with the server
+  initProfile: async () => {
+    if (!listenersRegistered) {
+      listenersRegistered = true;
+      
+      window.addEventListener('online', () => {
+        console.log("[SAVE] Back online - reconciling saves");
+        set({ isOnline: true });
+        get().reconcile();
+      });
+      
+      window.addEventListener('offline', () => {
+        console.log("[SAVE] Offline - saving to this device only");
+        set({ isOnline: false, syncStatus: 'offline' });
+      });
+    }
+    
+    if (!get().isOnline) {
+      set({ syncStatus: 'offline' });
+      return;
+    }
+    
+    // Profiles cached before they had tokens can't prove they are ours - start a new one
+    if (!get().profile?.token) {
+      try {
+        await startProfile();
+      } catch (error) {
+        console.error("[SAVE] Failed to create profile, keeping saves local:", error);
+        set({ syncStatus: 'error' });
+        scheduleRetry();
+        return;
+      }
+    }
+    
+    await get().reconcile();
+  },
+  
+  // Switch the active save slot and load its progress
+  selectSlot: (slot) => {
+    SaveService.writeActiveSlot(slot);
+    set((state) => ({
+      activeSlot: slot,
+      slots: state.slots.includes(slot) ? state.slots : [...state.slots, slot].sort(),
+    }));
+    
+    useUpgrades.getState().loadUpgrades();
+    console.log(`[SAVE] Switched to save slot ${slot}`);
+  },
+  
+  // Delete a save slot locally and on the server
+  deleteSlot: async (slot) => {
+    SaveService.removeLocal(slot);
+    set((state) => ({ slots: state.slots.filter(s => s !== slot) }));
+    
+    const { profile, isOnline } = get();
+    if (profile && isOnline) {
+      try {
+        await SaveService.deleteSave(profile, slot);
+      } catch (error) {
+        console.error(`[SAVE] Failed to delete slot ${slot} on server:`, error);
+      }
+    }
+  },
+  
+  // Save to the active slot - always written locally first, then pushed if online
+  saveSlot: (data) => {
+    const { activeSlot, profile, isOnline } = get();
+    const record: LocalSaveRecord = { data, updatedAt: Date.now(), dirty: true };
+    
+    SaveService.writeLocal(activeSlot, record);
+    if (!get().slots.includes(activeSlot)) {
+      set((state) => ({ slots: [...state.slots, activeSlot].sort() }));
+    }
+    
+    if (!profile || !isOnline) return;
+    
+    set({ syncStatus: 'syncing' });
+    SaveService.pushSave(profile, activeSlot, record)
+      .then(({ conflict }) => {
+        if (conflict) {
+          // Someone else (another device) wrote a newer save - adopt it
+          adoptRemote(activeSlot, conflict.data, conflict.updatedAt);
+          useUpgrades.getState().loadUpgrades();
+          console.log(`[SAVE] Server had a newer save for ${activeSlot}, loaded it`);
+        } else if (SaveService.readLocal(activeSlot)?.updatedAt === record.updatedAt) {
+          SaveService.writeLocal(activeSlot, { ...record, dirty: false });
+        }
+        set({ syncStatus: 'idle' });
+      })
+      .catch((error) => {
+        // Record stays dirty and is pushed again on the next reconcile - which also
+        // replaces the profile if the server no longer knows it
+        console.error(`[SAVE] Failed to sync ${activeSlot}:`, error);
+        set({ syncStatus: 'error' });
+        if (SaveService.isProfileRejected(error)) {
+          get().reconcile();
+        } else {
+          scheduleRetry();
+        }
+      });
+  },
+  
+  // Read a slot from the local cache, upgrading older versions in place
+  // Anything that can't be migrated is quarantined rather than reset
+  loadSlot: (slot) => {
+    const record = SaveService.readLocal(slot);
+    
+    if (!record) {
+      // Saves from before slots existed are claimed by the first slot loaded
+      const legacy = SaveService.readLegacy();
+      if (!legacy) return null;
+      
+      const migrated = migrateSave(legacy);
+      if (!migrated.ok) {
+        const entry = SaveService.quarantine(slot, legacy, migrated.error);
+        SaveService.clearLegacy();
+        set((state) => ({ quarantined: [...state.quarantined, entry] }));
+        return null;
+      }
+      
+      SaveService.writeLocal(slot, { data: migrated.save, updatedAt: Date.now(), dirty: true });
+      SaveService.clearLegacy();
+      console.log(`[SAVE] Migrated legacy progress into save slot ${slot}`);
+      return migrated.save;
+    }
+    
+    const migrated = migrateSave(record.data);
+    if (!migrated.ok) {
+      const entry = SaveService.quarantine(slot, record, migrated.error);
+      set((state) => ({
+        quarantined: [...state.quarantined, entry],
+        slots: state.slots.filter(s => s !== slot),
+      }));
+      return null;
+    }
+    
+    if (migrated.migratedFrom !== null) {
+      // Keep updatedAt so reconciliation order is unchanged, but mark dirty
+      // so the server gets the upgraded copy
+      SaveService.writeLocal(slot, { data: migrated.save, updatedAt: record.updatedAt, dirty: true });
+      console.log(`[SAVE] Upgraded save slot ${slot} from version ${migrated.migratedFrom}`);
+    }
+    
+    return migrated.save;
+  },
+  
+  // Bring local and server saves in line - the newest updatedAt wins
+  // A profile the server rejects is replaced by a new one, and every local slot is pushed to it
+  reconcile: async () => {
+    const { profile, activeSlot } = get();
+    if (!profile) return get().initProfile();
+    
+    set({ syncStatus: 'syncing' });
+    
+    try {
+      const remoteSlots = await SaveService.fetchSlots(profile);
+      const slotNames = new Set([
+        ...SaveService.listLocalSlots(),
+        ...remoteSlots.map(s => s.slot),
+      ]);
+      
+      let activeSlotChanged = false;
+      
+      for (const slot of Array.from(slotNames)) {
+        // Validates (and migrates or quarantines) the local copy before comparing
+        const data = get().loadSlot(slot);
+        const record = SaveService.readLocal(slot);
+        const local: LocalSaveRecord | null = data && record
+          ? { data, updatedAt: record.updatedAt, dirty: record.dirty }
+          : null;
+        const remote = remoteSlots.find(s => s.slot === slot);
+        
+        if (local && (!remote || local.updatedAt > remote.updatedAt)) {
+          if (local.dirty || !remote) {
+            const { conflict } = await SaveService.pushSave(profile, slot, local);
+            if (conflict) {
+              adoptRemote(slot, conflict.data, conflict.updatedAt);
+              activeSlotChanged = activeSlotChanged || slot === activeSlot;
+            } else {
+              SaveService.writeLocal(slot, { ...local, dirty: false });
+            }
+          }
+        } else if (remote && (!local || remote.updatedAt > local.updatedAt)) {
+          const save = await SaveService.fetchSave(profile, slot);
+          if (save && adoptRemote(slot, save.data, save.updatedAt)) {
+            activeSlotChanged = activeSlotChanged || slot === activeSlot;
+          }
+        }
+      }
+      
+      set({
+        slots: Array.from(slotNames).filter(slot => SaveService.readLocal(slot) !== null).sort(),
+        syncStatus: 'idle',
+      });
+      
+      if (activeSlotChanged) {
+        useUpgrades.getState().loadUpgrades();
+      }
+      
+      cancelRetry();
+      console.log(`[SAVE] Reconciled ${slotNames.size} save slots with the server`);
+    } catch (error) {
+      if (SaveService.isProfileRejected(error) && !replacingProfile) {
+        console.warn(`[SAVE] The server no longer knows profile ${profile.name} (id: ${profile.id}) - starting a new one`);
+        replacingProfile = true;
+        try {
+          await startProfile();
+          await get().reconcile();
+          return;
+        } catch (startError) {
+          error = startError;
+        } finally {
+          replacingProfile = false;
+        }
+      }
+      
+      console.error("[SAVE] Failed to reconcile saves:", error);
+      set({ syncStatus: 'error' });
+      scheduleRetry();
+    }
+  },
+}));
@@ -1,24 +1,52 @@
 import { create } from "zustand";
-import { getLocalStorage, setLocalStorage } from "../utils";
+import { CURRENT_SAVE_VERSION, SaveGame } from "@shared/saveGame";
+import { usePowerUps, PowerUpType } from "./usePowerUps";
+import { useAmmo } from "./useAmmo";
+import { AmmoType, createAmmoStock, getAmmoDefinition } from "../simulation/ammunition";
+import { useCrew } from "./useCrew";
+import { createCrew, CrewRole, getCrewRole } from "../simulation/crew";
+import { useFleet } from "./useFleet";
+import { EnemyArchetypeId, getArchetype } from "../simulation/enemyArchetypes";
+import { SHIPYARD_PRICES } from "../simulation/fleet";
+import { CHANDLERY_PRICES, getRepairCost } from "../simulation/ports";
+import { getPowerUpDefinition } from "../simulation/powerUps";
+import { usePlayer } from "./usePlayer";
+import { gameSimulation } from "../simulation/GameSimulation";
+import { useAudio } from "./useAudio";
+import { useGameState } from "./useGameState";
+import { useProfile } from "./useProfile";
 
 interface UpgradesState {
   loot: number;
   hullLevel: number;
   cannonLevel: number;
   speedLevel: number;
+  unlocks: string[];
   
   addLoot: (amount: number) => void;
   upgradeStat: (stat: 'hull' | 'cannon' | 'speed') => boolean;
   upgradeCost: (currentLevel: number) => number;
+  buyAmmo: (type: AmmoType) => boolean;
+  hireCrew: (role: CrewRole) => boolean;
+  buyShip: (archetype: EnemyArchetypeId) => boolean;
+  repairShip: () => boolean;
+  buyPowerUp: (type: PowerUpType) => boolean;
+  payWages: (amount: number) => boolean;
+  unlock: (id: string) => void;
+  getSaveGame: () => SaveGame;
   saveUpgrades: () => void;
   loadUpgrades: () => void;
 }
 
+// Set while a save is being applied so restoring the inventory doesn't trigger a new save
+let applyingSave = false;
+
 export const useUpgrades = create<UpgradesState>((set, get) => ({
   loot: 0,
   hullLevel: 1,
   cannonLevel: 1,
   speedLevel: 1,
+  unlocks: [],
   
   // Add loot
   addLoot: (amount) => {
@@ -75,32 +103,242 @@ export const useUpgrades = create<UpgradesState>((set, get) => ({
     return false;
   },
   
-  // Save upgrades to local storage
-  saveUpgrades: () => {
-    const { loot, hullLevel, cannonLevel, speedLevel } = get();
+  // Buy a bundle of shot for the magazine
+  buyAmmo: (type) => {
+    const { shop, name } = getAmmoDefinition(type);
+    if (!shop || get().loot < shop.price) return false;
+    
+    set((state) => ({ loot: state.loot - shop.price }));
+    useAmmo.getState().addAmmo(type, shop.amount);
+    
+    // Saved by the magazine subscription below
+    console.log(`Bought ${shop.amount} ${name} for ${shop.price} loot`);
+    
+    return true;
+  },
+  
+  // Sign on one hand, if there's a berth free
+  hireCrew: (role) => {
+    const { hireCost, berths, name } = getCrewRole(role);
+    if (get().loot < hireCost || useCrew.getState().roster[role] >= berths) return false;
+    
+    set((state) => ({ loot: state.loot - hireCost }));
+    gameSimulation.hireCrew(role);
+    useCrew.getState().sync();
+    
+    // Saved by the crew subscription below
+    console.log(`Hired a ${name.toLowerCase()} for ${hireCost} loot`);
+    
+    return true;
+  },
+  
+  // Buy a ship from the shipyard - she joins the escorts if there's room
+  buyShip: (archetype) => {
+    const price = SHIPYARD_PRICES[archetype];
+    if (price === undefined || get().loot < price) return false;
+    
+    set((state) => ({ loot: state.loot - price }));
+    gameSimulation.addFleetShip(archetype);
+    useFleet.getState().sync();
+    
+    // Saved by the fleet subscription below
+    console.log(`Bought a ${getArchetype(archetype).name} for ${price} loot`);
+    
+    return true;
+  },
+  
+  // Have the shipyard make the ship as good as new
+  repairShip: () => {
+    const { health, maxHealth, damage } = usePlayer.getState();
+    const cost = getRepairCost(health, maxHealth, damage);
+    if (cost === 0 || get().loot < cost) return false;
+    
+    set((state) => ({ loot: state.loot - cost }));
+    gameSimulation.repairShip();
+    usePlayer.getState().sync();
+    
+    console.log(`Repaired the ship for ${cost} loot`);
+    get().saveUpgrades();
+    
+    return true;
+  },
+  
+  // Buy stores from the chandlery - they go into the inventory like any found at sea
+  buyPowerUp: (type) => {
+    const price = CHANDLERY_PRICES[type];
+    if (price === undefined || get().loot < price) return false;
+    
+    set((state) => ({ loot: state.loot - price }));
+    usePowerUps.getState().collectPowerUp(type);
+    
+    // Saved by the inventory subscription below
+    console.log(`Bought a ${getPowerUpDefinition(type)?.name ?? type} for ${price} loot`);
+    
+    return true;
+  },
+  
+  // Pay the crew from the loot on a payday - all or nothing
+  payWages: (amount) => {
+    const paid = get().loot >= amount;
+    if (paid) {
+      set((state) => ({ loot: state.loot - amount }));
+    }
+    useCrew.getState().settleWages(paid);
     
-    setLocalStorage('pirateGame_loot', loot);
-    setLocalStorage('pirateGame_hullLevel', hullLevel);
-    setLocalStorage('pirateGame_cannonLevel', cannonLevel);
-    setLocalStorage('pirateGame_speedLevel', speedLevel);
+    console.log(paid ? `Paid ${amount} loot in wages` : `Couldn't pay ${amount} loot in wages - the crew are grumbling`);
+    
+    return paid;
+  },
+  
+  // Unlock an item or feature (no-op if already unlocked)
+  unlock: (id) => {
+    if (get().unlocks.includes(id)) return;
+    
+    set((state) => ({ unlocks: [...state.unlocks, id] }));
+    console.log(`Unlocked ${id}`);
+    
+    get().saveUpgrades();
+  },
+  
+  // Snapshot of everything that goes into a save document
+  getSaveGame: () => {
+    const { loot, hullLevel, cannonLevel, speedLevel, unlocks } = get();
+    const { inventoryPowerUps } = usePowerUps.getState();
+    const { stock } = useAmmo.getState();
+    const { roster, morale } = useCrew.getState();
+    const { ships } = useFleet.getState();
+    const { isMuted, volume, currentTrack } = useAudio.getState();
+    
+    return {
+      version: CURRENT_SAVE_VERSION,
+      savedAt: Date.now(),
+      progress: {
+        loot,
+        hullLevel,
+        cannonLevel,
+        speedLevel,
+        unlocks,
+      },
+      inventoryPowerUps,
+      settings: {
+        isMuted,
+        volume,
+        musicTrack: currentTrack,
+      },
+      world: { seed: useGameState.getState().worldSeed },
+      ammo: { chain: stock.chain, grape: stock.grape, heated: stock.heated },
+      crew: { roster, morale },
+      fleet: ships,
+    };
+  },
+  
+  // Save progress to the active save slot (local first, then synced to the server)
+  saveUpgrades: () => {
+    useProfile.getState().saveSlot(get().getSaveGame());
     
     console.log("Saved game progress");
   },
   
-  // Load upgrades from local storage
+  // Load progress from the active save slot
   loadUpgrades: () => {
-    const savedLoot = getLocalStorage('pirateGame_loot');
-    const savedHullLevel = getLocalStorage('pirateGame_hullLevel');
-    const savedCannonLevel = getLocalStorage('pirateGame_cannonLevel');
-    const savedSpeedLevel = getLocalStorage('pirateGame_speedLevel');
-    
-    set({
-      loot: savedLoot !== null ? savedLoot : 0,
-      hullLevel: savedHullLevel !== null ? savedHullLevel : 1,
-      cannonLevel: savedCannonLevel !== null ? savedCannonLevel : 1,
-      speedLevel: savedSpeedLevel !== null ? savedSpeedLevel : 1,
-    });
-    
-    console.log("Loaded game progress");
+    const { activeSlot, loadSlot } = useProfile.getState();
+    const saved = loadSlot(activeSlot);
+    
+    // A corrupt slot has been quarantined - keep the current progress rather
+    // than dropping the player back to level 1
+    if (!saved && useProfile.getState().quarantined.some(q => q.slot === activeSlot)) {
+      console.warn(`Save slot ${activeSlot} could not be loaded, keeping current progress`);
+      return;
+    }
+    
+    applyingSave = true;
+    
+    if (saved) {
+      set({
+        loot: saved.progress.loot,
+        hullLevel: saved.progress.hullLevel,
+        cannonLevel: saved.progress.cannonLevel,
+        speedLevel: saved.progress.speedLevel,
+        unlocks: saved.progress.unlocks,
+      });
+      
+      usePowerUps.getState().setInventory(
+        saved.inventoryPowerUps.map(p => ({ ...p, type: p.type as PowerUpType }))
+      );
+      useAmmo.getState().setStock({ ...createAmmoStock(), ...saved.ammo });
+      useCrew.getState().setCrew(saved.crew);
+      useFleet.getState().setFleet(saved.fleet.map(ship => ({ ...ship, archetype: ship.archetype as EnemyArchetypeId })));
+      
+      // Restore audio settings through the store actions so playback follows
+      const audio = useAudio.getState();
+      audio.setVolume(saved.settings.volume);
+      audio.switchTrack(saved.settings.musicTrack);
+      if (audio.isMuted !== saved.settings.isMuted) {
+        audio.toggleMute();
+      }
+      
+      // Return to the saved world unless the URL pinned a different seed
+      const gameState = useGameState.getState();
+      if (saved.world.seed !== null && !gameState.seedFromUrl && saved.world.seed !== gameState.worldSeed) {
+        gameState.setWorldSeed(saved.world.seed);
+      }
+    } else {
+      set({
+        loot: 0,
+        hullLevel: 1,
+        cannonLevel: 1,
+        speedLevel: 1,
+        unlocks: [],
+      });
+      
+      usePowerUps.getState().setInventory([]);
+      useAmmo.getState().setStock(createAmmoStock());
+      useCrew.getState().setCrew(createCrew());
+      useFleet.getState().setFleet([]);
+    }
+    
+    applyingSave = false;
+    
+    console.log(`Loaded game progress from ${activeSlot}`);
   },
 }));
+
+// Collected power-ups are part of the save, so persist whenever the inventory changes
+usePowerUps.subscribe((state, prevState) => {
+  if (!applyingSave && state.inventoryPowerUps !== prevState.inventoryPowerUps) {
+    useUpgrades.getState().saveUpgrades();
+  }
+});
+
+// So is the magazine - shot fired, looted or bought
+useAmmo.subscribe((state, prevState) => {
+  if (!applyingSave && state.stock !== prevState.stock) {
+    useUpgrades.getState().saveUpgrades();
+  }
+});
+
+// And the crew - lost in battle, hired, or paid (or not)
+useCrew.subscribe((state, prevState) => {
+  if (!applyingSave && (state.roster !== prevState.roster || state.morale !== prevState.morale)) {
+    useUpgrades.getState().saveUpgrades();
+  }
+});
+
+// And the fleet - prizes taken, ships bought or lost, escorts chosen
+useFleet.subscribe((state, prevState) => {
+  if (!applyingSave && state.ships !== prevState.ships) {
+    useUpgrades.getState().saveUpgrades();
+  }
+});
+
+// Audio settings are saved too
+useAudio.subscribe((state, prevState) => {
+  if (
+    !applyingSave &&
+    (state.isMuted !== prevState.isMuted ||
+      state.volume !== prevState.volume ||
+      state.currentTrack !== prevState.currentTrack)
+  ) {
+    useUpgrades.getState().saveUpgrades();
+  }
+});
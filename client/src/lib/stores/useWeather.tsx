@@ -0,0 +1,31 @@
+import { create } from "zustand";
+import { gameSimulation } from "../simulation/GameSimulation";
+import { WeatherConditions, WeatherType } from "../simulation/weather";
+
+// The weather fronts drift in gameSimulation - this store mirrors the weather where
+// the player is, for the sky and the HUD
+interface WeatherStoreState {
+  type: WeatherType;
+  conditions: WeatherConditions;
+  sync: () => void; // Copy the weather at the player into the store
+}
+
+const sameConditions = (a: WeatherConditions, b: WeatherConditions): boolean =>
+  (Object.keys(a) as (keyof WeatherConditions)[]).every(key => a[key] === b[key]);
+
+export const useWeather = create<WeatherStoreState>((set, get) => {
+  const { type, ...conditions } = gameSimulation.getWeatherAt(gameSimulation.getPlayer().position);
+
+  return {
+    type,
+    conditions,
+
+    sync: () => {
+      const { type, ...conditions } = gameSimulation.getWeatherAt(gameSimulation.getPlayer().position);
+      const state = get();
+      if (state.type !== type || !sameConditions(state.conditions, conditions)) {
+        set({ type, conditions });
+      }
+    },
+  };
+});
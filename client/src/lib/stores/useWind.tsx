@@ -0,0 +1,24 @@
+import { create } from "zustand";
+import { gameSimulation } from "../simulation/GameSimulation";
+import { WindVector } from "../simulation/wind";
+
+// The wind blows in gameSimulation, or on the server in multiplayer - this store mirrors
+// the ocean-wide wind for the HUD and the indicators, which work out the local wind themselves
+interface WindState extends WindVector {
+  setWind: (wind: WindVector) => void; // From a multiplayer snapshot
+  sync: () => void;                    // Copy the simulation's wind into the store
+}
+
+export const useWind = create<WindState>((set, get) => ({
+  direction: gameSimulation.getWind().direction,
+  strength: gameSimulation.getWind().strength,
+
+  setWind: ({ direction, strength }) => {
+    const state = get();
+    if (state.direction !== direction || state.strength !== strength) {
+      set({ direction, strength });
+    }
+  },
+
+  sync: () => get().setWind(gameSimulation.getWind()),
+}));
@@ -0,0 +1,163 @@
+import { create } from 'zustand';
+import { EnvironmentFeature } from '../../components/Environment';
+import { EnvironmentGenerator } from '../services/EnvironmentGenerator';
+import { worldRandom } from '../services/WorldRandom';
+import { WORLD } from '../constants';
+
+// A loaded square of the world and the features generated for it
+export interface WorldChunk {
+  cx: number;
+  cz: number;
+  features: EnvironmentFeature[];
+}
+
+// Chunk coordinates (not world units)
+export interface ChunkCoord {
+  cx: number;
+  cz: number;
+}
+
+interface WorldChunksState {
+  // Loaded chunks keyed by getChunkKey
+  chunks: Record<string, WorldChunk>;
+
+  // Features of every loaded chunk, flattened for rendering and collisions
+  features: EnvironmentFeature[];
+
+  // Key of the chunk the player was last seen in
+  centerChunk: string | null;
+
+  // Chunks waiting to be generated, nearest first
+  pendingChunks: ChunkCoord[];
+
+  // Actions
+  updateChunks: (x: number, z: number) => void;
+  loadChunks: (x: number, z: number) => void;
+  resetChunks: () => void;
+}
+
+// Generate a unique key for a chunk coordinate
+export const getChunkKey = (cx: number, cz: number): string => `${cx},${cz}`;
+
+// Get the coordinate of the chunk containing a world position
+export const getChunkCoord = (x: number, z: number): ChunkCoord => ({
+  cx: Math.floor(x / WORLD.CHUNK.SIZE),
+  cz: Math.floor(z / WORLD.CHUNK.SIZE)
+});
+
+// Chebyshev distance between two chunks - the ring a chunk sits in around another
+const chunkDistance = (a: ChunkCoord, b: ChunkCoord): number =>
+  Math.max(Math.abs(a.cx - b.cx), Math.abs(a.cz - b.cz));
+
+// Check if a chunk lies inside the hand-designed home waters around the origin
+const isHomeChunk = (cx: number, cz: number): boolean => {
+  const { SIZE, HOME_RADIUS } = WORLD.CHUNK;
+  return cx * SIZE >= -HOME_RADIUS && (cx + 1) * SIZE <= HOME_RADIUS &&
+         cz * SIZE >= -HOME_RADIUS && (cz + 1) * SIZE <= HOME_RADIUS;
+};
+
+// The home waters are generated as one layout, so cache it per seed and slice it per chunk
+let homeFeatures: { seed: number; features: EnvironmentFeature[] } | null = null;
+
+const getHomeFeatures = (): EnvironmentFeature[] => {
+  const seed = worldRandom.getSeed();
+  if (!homeFeatures || homeFeatures.seed !== seed) {
+    homeFeatures = { seed, features: EnvironmentGenerator.generateEnvironment() };
+  }
+  return homeFeatures.features;
+};
+
+// Generate the features for a single chunk
+const generateChunk = ({ cx, cz }: ChunkCoord): WorldChunk => {
+  if (isHomeChunk(cx, cz)) {
+    const features = getHomeFeatures().filter(feature => {
+      const coord = getChunkCoord(feature.x, feature.z);
+      return coord.cx === cx && coord.cz === cz;
+    });
+    return { cx, cz, features };
+  }
+
+  return { cx, cz, features: EnvironmentGenerator.generateChunk(cx, cz, WORLD.CHUNK.SIZE) };
+};
+
+export const useWorldChunks = create<WorldChunksState>((set, get) => ({
+  chunks: {},
+  features: [],
+  centerChunk: null,
+  pendingChunks: [],
+
+  // Stream chunks around a position - call every frame with the player position
+  // Unloading happens immediately, but at most one chunk is generated per call to avoid frame drops
+  updateChunks: (x, z) => {
+    const state = get();
+    const center = getChunkCoord(x, z);
+    const centerKey = getChunkKey(center.cx, center.cz);
+
+    // Nothing to do while the player stays in the same chunk and everything is loaded
+    if (centerKey === state.centerChunk && state.pendingChunks.length === 0) return;
+
+    let chunks = state.chunks;
+    let pendingChunks = state.pendingChunks;
+
+    if (centerKey !== state.centerChunk) {
+      // Drop chunks that are now too far away
+      chunks = {};
+      Object.entries(state.chunks).forEach(([key, chunk]) => {
+        if (chunkDistance(chunk, center) <= WORLD.CHUNK.UNLOAD_RADIUS) {
+          chunks[key] = chunk;
+        } else {
+          console.log(`[WORLD] Unloading chunk ${key}`);
+        }
+      });
+
+      // Queue every missing chunk in range, nearest first
+      const radius = WORLD.CHUNK.LOAD_RADIUS;
+      pendingChunks = [];
+      for (let dx = -radius; dx <= radius; dx++) {
+        for (let dz = -radius; dz <= radius; dz++) {
+          const coord = { cx: center.cx + dx, cz: center.cz + dz };
+          if (!chunks[getChunkKey(coord.cx, coord.cz)]) {
+            pendingChunks.push(coord);
+          }
+        }
+      }
+      pendingChunks.sort((a, b) => chunkDistance(a, center) - chunkDistance(b, center));
+    }
+
+    // Generate the nearest pending chunk
+    if (pendingChunks.length > 0) {
+      const [next, ...rest] = pendingChunks;
+      const key = getChunkKey(next.cx, next.cz);
+      chunks = { ...chunks, [key]: generateChunk(next) };
+      pendingChunks = rest;
+      console.log(`[WORLD] Loaded chunk ${key} with ${chunks[key].features.length} features`);
+    }
+
+    set({
+      chunks,
+      pendingChunks,
+      centerChunk: centerKey,
+      features: chunks === state.chunks
+        ? state.features
+        : Object.values(chunks).flatMap(chunk => chunk.features)
+    });
+  },
+
+  // Stream chunks around a position and generate every pending one straight away
+  // Replays use this so the islands around a ship never depend on the frame rate
+  loadChunks: (x, z) => {
+    const { updateChunks } = get();
+    updateChunks(x, z);
+    while (get().pendingChunks.length > 0) {
+      updateChunks(x, z);
+    }
+  },
+
+  // Forget every chunk - used when the world seed changes
+  resetChunks: () => {
+    homeFeatures = null;
+    set({ chunks: {}, features: [], centerChunk: null, pendingChunks: [] });
+  }
+}));
+
+export default useWorldChunks;
@@ -0,0 +1,452 @@
+import * as THREE from "three";
+import {
+  MULTIPLAYER,
+  createIdleControls,
+  type CannonballSnapshot,
+  type ControlState,
+  type GameMode,
+  type RoomStatus,
+  type ServerMessage,
+  type ShipSnapshot,
+} from "@shared/multiplayer";
+import type { LobbyPlayer } from "@shared/schema";
+import { calculateShipMovement } from "@/lib/helpers/gameControls";
+import { createCircle, createHullShape, getHullRadius, getPenetration, segmentDistanceToShape } from "@/lib/helpers/collisionShapes";
+import { createRng, hashSeed, type RandomFn } from "@/lib/helpers/random";
+import { createWind, getWindAt, SAIL_TRIM, updateWind, type Wind } from "@/lib/simulation/wind";
+import { getFeatureRadius, getFeatureShapes } from "@/lib/featureRegistry";
+import { EnvironmentGenerator } from "@/lib/services/EnvironmentGenerator";
+import { SpatialGrid } from "@/lib/services/SpatialGrid";
+import { GUN_ELEVATION, HULL, WORLD } from "@/lib/constants";
+import type { EnvironmentFeature } from "@/components/Environment";
+import { log } from "./vite";
+
+// Ship and weapon tuning - kept close to the single-player values
+const SHIP_THRUST = 4.7;          // Speed multiplier for calculateShipMovement (top speed ~15 units/s at the tick rate)
+const MAX_HEALTH = 100;
+const CANNON_COOLDOWN = 3;        // Seconds between broadsides of one side, same as the base player cooldown
+const CANNONBALL_SPEED = 30;
+const CANNONBALL_LIFESPAN = 4;    // Long enough for a shot at full elevation to come down
+const CANNONBALL_RADIUS = 2;
+const CANNONBALL_DAMAGE = 20;
+const GRAVITY = 9.8;
+const DECK_HEIGHT = 0.8;          // Height cannonballs leave the ship at
+const BROADSIDE_OFFSETS = [-7, 0, 7]; // Cannon positions along the hull, fore to aft
+const RESPAWN_DELAY = 5;
+const SPAWN_RING = 150;           // Ships spawn on a ring around the arena center
+const ARENA_RADIUS = WORLD.CHUNK.HOME_RADIUS; // Battles are fought in the home waters
+
+// Rules picked in the lobby - rooms joined directly use the defaults
+export interface GameRoomOptions {
+  mode: GameMode;
+  maxPlayers: number;
+  lobbyPlayers?: LobbyPlayer[]; // Set for rooms started from a lobby - only these players may join
+}
+
+// Someone connected to the room
+export interface RoomMember {
+  id: string;
+  name: string;
+  team: number | null;
+  send: (message: ServerMessage) => void;
+}
+
+interface RoomPlayer extends RoomMember {
+  controls: ControlState;
+  lastInputSeq: number;
+  position: THREE.Vector3;
+  heading: THREE.Euler;       // Travel direction in calculateShipMovement's convention
+  velocity: THREE.Vector3;
+  health: number;
+  alive: boolean;
+  respawnAt: number;
+  cooldowns: { port: number; starboard: number }; // Each side reloads on its own
+  gunElevation: number;
+  sails: number;              // Canvas set, see SAIL_TRIM
+}
+
+interface Cannonball {
+  id: number;
+  ownerId: string;
+  ownerTeam: number | null;
+  position: THREE.Vector3;
+  velocity: THREE.Vector3;
+  life: number;
+}
+
+/**
+ * One ocean with up to options.maxPlayers ships
+ * The room is the only authority on where ships are and who hit whom - it steps
+ * the simulation on a fixed tick and broadcasts snapshots to every member
+ */
+export class GameRoom {
+  readonly id: string;
+  readonly seed: number;
+  readonly mode: GameMode;
+  readonly maxPlayers: number;
+  readonly lobbyPlayers: LobbyPlayer[] | null; // Null for rooms anyone can join by id
+
+  private players = new Map<string, RoomPlayer>();
+  private cannonballs: Cannonball[] = [];
+  private nextCannonballId = 1;
+  private tick = 0;
+  private time = 0;
+  private random: RandomFn;
+  private windRandom: RandomFn;
+  private wind: Wind;
+
+  // The same home waters every client renders for this seed
+  private features: EnvironmentFeature[];
+  private featureGrid = new SpatialGrid<EnvironmentFeature>(50);
+
+  constructor(id: string, seed: number, options: GameRoomOptions = { mode: 'free_for_all', maxPlayers: MULTIPLAYER.MAX_PLAYERS }) {
+    this.id = id;
+    this.seed = seed;
+    this.mode = options.mode;
+    this.maxPlayers = options.maxPlayers;
+    this.lobbyPlayers = options.lobbyPlayers ?? null;
+    this.random = createRng(seed ^ hashSeed('multiplayer:spawns'));
+    this.windRandom = createRng(seed ^ hashSeed('multiplayer:wind'));
+    this.wind = createWind(this.windRandom);
+
+    this.features = EnvironmentGenerator.generateEnvironment(createRng(seed ^ hashSeed('environment')));
+    this.features.forEach(feature => {
+      this.featureGrid.set(feature.id, feature, feature.x, feature.z, getFeatureRadius(feature.type, feature.scale));
+    });
+  }
+
+  get size(): number {
+    return this.players.size;
+  }
+
+  get isFull(): boolean {
+    return this.players.size >= this.maxPlayers;
+  }
+
+  get status(): RoomStatus {
+    return this.players.size >= MULTIPLAYER.MIN_PLAYERS ? 'playing' : 'waiting';
+  }
+
+  /**
+   * Adds a member and spawns their ship
+   */
+  join(member: RoomMember): void {
+    const player: RoomPlayer = {
+      ...member,
+      controls: createIdleControls(),
+      lastInputSeq: 0,
+      position: new THREE.Vector3(),
+      heading: new THREE.Euler(),
+      velocity: new THREE.Vector3(),
+      health: MAX_HEALTH,
+      alive: true,
+      respawnAt: 0,
+      cooldowns: { port: 0, starboard: 0 },
+      gunElevation: GUN_ELEVATION.DEFAULT,
+      sails: SAIL_TRIM.DEFAULT,
+    };
+    this.spawn(player);
+    this.players.set(member.id, player);
+
+    member.send({ type: 'welcome', playerId: member.id, roomId: this.id, seed: this.seed, tickRate: MULTIPLAYER.TICK_RATE });
+    this.broadcast({ type: 'playerJoined', playerId: member.id, name: member.name });
+  }
+
+  /**
+   * Removes a member - their cannonballs keep flying
+   */
+  leave(playerId: string): void {
+    if (!this.players.delete(playerId)) return;
+    this.broadcast({ type: 'playerLeft', playerId });
+  }
+
+  /**
+   * Stores a member's latest controls - they are applied on the next tick
+   * Inputs arriving out of order are dropped
+   */
+  setInput(playerId: string, seq: number, controls: ControlState): void {
+    const player = this.players.get(playerId);
+    if (!player || seq <= player.lastInputSeq) return;
+
+    player.controls = controls;
+    player.lastInputSeq = seq;
+  }
+
+  /**
+   * Advances the simulation by one fixed tick
+   */
+  step(delta: number): void {
+    this.time += delta;
+    this.tick++;
+    this.wind = updateWind(this.wind, delta, this.windRandom);
+
+    this.players.forEach(player => {
+      if (!player.alive) {
+        if (this.time >= player.respawnAt) this.spawn(player);
+        return;
+      }
+      this.moveShip(player, delta);
+
+      this.updateGuns(player, delta);
+    });
+
+    this.separateShips();
+    this.moveCannonballs(delta);
+
+    if (this.tick % MULTIPLAYER.SNAPSHOT_INTERVAL === 0) {
+      this.broadcast(this.createSnapshot());
+    }
+  }
+
+  // Put a ship back in the water on the spawn ring, facing the center
+  // Picks the island-free spot furthest from the other ships
+  private spawn(player: RoomPlayer): void {
+    const startAngle = this.random() * Math.PI * 2;
+    const others = Array.from(this.players.values()).filter(other => other !== player && other.alive);
+    let best: { angle: number; clearance: number } | null = null;
+
+    for (let attempt = 0; attempt < 16; attempt++) {
+      const angle = startAngle + attempt * (Math.PI / 8);
+      this.placeOnRing(player, angle);
+      if (this.findFeatureOverlap(player)) continue;
+
+      const clearance = Math.min(Infinity, ...others.map(other => other.position.distanceTo(player.position)));
+      if (!best || clearance > best.clearance) best = { angle, clearance };
+    }
+    this.placeOnRing(player, best ? best.angle : startAngle);
+
+    player.velocity.set(0, 0, 0);
+    player.health = MAX_HEALTH;
+    player.alive = true;
+    player.cooldowns = { port: 0, starboard: 0 };
+    player.sails = SAIL_TRIM.DEFAULT;
+    log(`${player.name} spawned in ${this.id} at (${player.position.x.toFixed(0)}, ${player.position.z.toFixed(0)})`, "game");
+  }
+
+  private placeOnRing(player: RoomPlayer, angle: number): void {
+    player.position.set(Math.cos(angle) * SPAWN_RING, 0, Math.sin(angle) * SPAWN_RING);
+    player.heading.set(0, Math.atan2(-player.position.x, -player.position.z), 0);
+  }
+
+  private moveShip(player: RoomPlayer, delta: number): void {
+    const { forward, backward, leftward, rightward, raiseSails, lowerSails } = player.controls;
+    if (raiseSails) player.sails = Math.min(1, player.sails + SAIL_TRIM.RATE * delta);
+    if (lowerSails) player.sails = Math.max(0, player.sails - SAIL_TRIM.RATE * delta);
+
+    const movement = calculateShipMovement(
+      forward, backward, leftward, rightward,
+      player.heading, player.velocity, SHIP_THRUST, delta,
+      getWindAt(this.wind, player.position.x, player.position.z), player.sails
+    );
+    player.heading = movement.rotation;
+    player.velocity = movement.velocity;
+    player.position.addScaledVector(player.velocity, delta);
+
+    // Keep ships inside the arena
+    const distance = Math.hypot(player.position.x, player.position.z);
+    if (distance > ARENA_RADIUS) {
+      player.position.x *= ARENA_RADIUS / distance;
+      player.position.z *= ARENA_RADIUS / distance;
+      player.velocity.multiplyScalar(0.5);
+    }
+
+    // Push the hull out of any island it ran into
+    for (let attempt = 0; attempt < 3; attempt++) {
+      const overlap = this.findFeatureOverlap(player);
+      if (!overlap) break;
+
+      player.position.x += overlap.x * overlap.depth;
+      player.position.z += overlap.z * overlap.depth;
+      player.velocity.multiplyScalar(0.5);
+    }
+  }
+
+  // First penetration of the player's hull into an island footprint
+  private findFeatureOverlap(player: RoomPlayer) {
+    const hull = createHullShape(player.position, player.heading.y, HULL.PLAYER);
+    const reach = getHullRadius(HULL.PLAYER);
+
+    for (const { item } of this.featureGrid.queryRadius(player.position.x, player.position.z, reach)) {
+      for (const shape of getFeatureShapes(item)) {
+        const penetration = getPenetration(hull, shape);
+        if (penetration) return penetration;
+      }
+    }
+    return null;
+  }
+
+  // Ships can't sail through each other - push overlapping hulls apart evenly
+  private separateShips(): void {
+    const ships = Array.from(this.players.values()).filter(player => player.alive);
+
+    for (let i = 0; i < ships.length; i++) {
+      for (let j = i + 1; j < ships.length; j++) {
+        const a = ships[i];
+        const b = ships[j];
+        const penetration = getPenetration(
+          createHullShape(a.position, a.heading.y, HULL.PLAYER),
+          createHullShape(b.position, b.heading.y, HULL.PLAYER)
+        );
+        if (!penetration) continue;
+
+        const push = penetration.depth / 2;
+        a.position.x += penetration.x * push;
+        a.position.z += penetration.z * push;
+        b.position.x -= penetration.x * push;
+        b.position.z -= penetration.z * push;
+      }
+    }
+  }
+
+  // Aim while raise/lower is held, then fire whichever loaded sides were asked to
+  private updateGuns(player: RoomPlayer, delta: number): void {
+    const { controls, cooldowns } = player;
+
+    if (controls.raiseGuns !== controls.lowerGuns) {
+      const change = (controls.raiseGuns ? 1 : -1) * GUN_ELEVATION.RATE * delta;
+      player.gunElevation = Math.max(GUN_ELEVATION.MIN, Math.min(GUN_ELEVATION.MAX, player.gunElevation + change));
+    }
+
+    cooldowns.port = Math.max(0, cooldowns.port - delta);
+    cooldowns.starboard = Math.max(0, cooldowns.starboard - delta);
+
+    if ((controls.fire || controls.firePort) && cooldowns.port === 0) {
+      this.fireBattery(player, 'port');
+    }
+    if ((controls.fire || controls.fireStarboard) && cooldowns.starboard === 0) {
+      this.fireBattery(player, 'starboard');
+    }
+  }
+
+  // Fire the three cannons of one side, perpendicular to the hull at the ship's gun elevation
+  private fireBattery(player: RoomPlayer, side: 'port' | 'starboard'): void {
+    player.cooldowns[side] = CANNON_COOLDOWN;
+
+    const forward = new THREE.Vector3(Math.sin(player.heading.y), 0, Math.cos(player.heading.y));
+    // Port is the ship's left, which is +X while the bow points along +Z
+    const outward = new THREE.Vector3(forward.z, 0, -forward.x).multiplyScalar(side === 'port' ? 1 : -1);
+    const direction = outward.clone()
+      .multiplyScalar(Math.cos(player.gunElevation))
+      .setY(Math.sin(player.gunElevation));
+
+    BROADSIDE_OFFSETS.forEach(offset => {
+      const position = player.position.clone()
+        .addScaledVector(forward, offset)
+        .addScaledVector(outward, HULL.PLAYER.HALF_WIDTH)
+        .setY(DECK_HEIGHT);
+
+      this.cannonballs.push({
+        id: this.nextCannonballId++,
+        ownerId: player.id,
+        ownerTeam: player.team,
+        position,
+        velocity: direction.clone().multiplyScalar(CANNONBALL_SPEED),
+        life: CANNONBALL_LIFESPAN,
+      });
+    });
+  }
+
+  private moveCannonballs(delta: number): void {
+    // Drag is tuned per 60 fps frame on the client
+    const drag = Math.pow(0.995, delta * 60);
+
+    this.cannonballs = this.cannonballs.filter(ball => {
+      const previous = ball.position.clone();
+      ball.position.addScaledVector(ball.velocity, delta);
+      ball.velocity.y -= GRAVITY * delta;
+      ball.velocity.x *= drag;
+      ball.velocity.z *= drag;
+      ball.life -= delta;
+
+      if (ball.life <= 0 || ball.position.y < -1) return false;
+      if (this.hitsFeature(previous, ball.position)) return false;
+
+      const target = this.findShipHit(ball);
+      if (target) {
+        this.applyHit(target, ball.ownerId);
+        return false;
+      }
+      return true;
+    });
+  }
+
+  private hitsFeature(start: THREE.Vector3, end: THREE.Vector3): boolean {
+    return this.featureGrid.querySegment(start.x, start.z, end.x, end.z, CANNONBALL_RADIUS).some(({ item }) =>
+      getFeatureShapes(item).some(shape =>
+        segmentDistanceToShape(start.x, start.z, end.x, end.z, shape) < CANNONBALL_RADIUS
+      )
+    );
+  }
+
+  private findShipHit(ball: Cannonball): RoomPlayer | undefined {
+    if (ball.position.y - CANNONBALL_RADIUS > HULL.PLAYER.HEIGHT) return undefined;
+
+    const shot = createCircle(ball.position.x, ball.position.z, CANNONBALL_RADIUS);
+    return Array.from(this.players.values()).find(player =>
+      player.alive &&
+      player.id !== ball.ownerId &&
+      !this.isFriendly(player, ball.ownerTeam) &&
+      getPenetration(shot, createHullShape(player.position, player.heading.y, HULL.PLAYER)) !== null
+    );
+  }
+
+  // No friendly fire between crewmates in team matches
+  private isFriendly(player: RoomPlayer, team: number | null): boolean {
+    return this.mode === 'teams' && team !== null && player.team === team;
+  }
+
+  private applyHit(target: RoomPlayer, sourceId: string): void {
+    // Cannonballs still fly while the room waits for opponents, but nobody takes damage
+    if (this.status !== 'playing') return;
+
+    target.health = Math.max(0, target.health - CANNONBALL_DAMAGE);
+    const sunk = target.health === 0;
+    if (sunk) {
+      target.alive = false;
+      target.respawnAt = this.time + RESPAWN_DELAY;
+      target.velocity.set(0, 0, 0);
+    }
+
+    this.broadcast({ type: 'hit', targetId: target.id, sourceId, damage: CANNONBALL_DAMAGE, sunk });
+  }
+
+  private createSnapshot(): ServerMessage {
+    const ships: ShipSnapshot[] = Array.from(this.players.values()).map(player => ({
+      id: player.id,
+      name: player.name,
+      team: player.team,
+      x: player.position.x,
+      z: player.position.z,
+      // Ship models face away from their travel direction, so the render rotation is half a turn off
+      rotationY: player.heading.y + Math.PI,
+      speed: player.velocity.length(),
+      health: player.health,
+      maxHealth: MAX_HEALTH,
+      alive: player.alive,
+      lastInputSeq: player.lastInputSeq,
+      sails: player.sails,
+    }));
+
+    const cannonballs: CannonballSnapshot[] = this.cannonballs.map(ball => ({
+      id: ball.id,
+      ownerId: ball.ownerId,
+      x: ball.position.x,
+      y: ball.position.y,
+      z: ball.position.z,
+    }));
+
+    return {
+      type: 'snapshot',
+      tick: this.tick,
+      serverTime: Math.round(this.time * 1000),
+      status: this.status,
+      ships,
+      cannonballs,
+      wind: { direction: this.wind.direction, strength: this.wind.strength },
+    };
+  }
+
+  private broadcast(message: ServerMessage): void {
+    this.players.forEach(player => player.send(message));
+  }
+}
@@ -0,0 +1,224 @@
+import type { Server } from "http";
+import { randomUUID } from "crypto";
+import { WebSocketServer, WebSocket } from "ws";
+import { MULTIPLAYER, parseClientMessage, type ServerMessage } from "@shared/multiplayer";
+import { hashSeed } from "@/lib/helpers/random";
+import { GameRoom } from "./gameRoom";
+import type { IStorage } from "./storage";
+import { tokensMatch } from "./tokens";
+import { log } from "./vite";
+
+// A connected socket and the room it is in, if any
+interface Connection {
+  id: string;
+  socket: WebSocket;
+  room: GameRoom | null;
+}
+
+/**
+ * Runs every multiplayer room on one fixed-rate loop
+ * Rooms are created on the first join. Once the last player leaves a room waits,
+ * paused, for MULTIPLAYER.EMPTY_ROOM_GRACE so a reload or a dropped connection
+ * can rejoin the same match - after that it closes, and its lobby room with it
+ * A room id that belongs to a lobby room only admits that room's players, by the
+ * join token the lobby gave them, once the host has started it with the seed and
+ * rules chosen in the lobby - the game room keeps those tokens for as long as it lives
+ */
+export class GameServer {
+  private rooms = new Map<string, GameRoom>();
+  private closeTimers = new Map<string, NodeJS.Timeout>();
+  private timer: NodeJS.Timeout | null = null;
+  private lastStep = 0;
+  private accumulator = 0;
+
+  constructor(private readonly storage: IStorage) {}
+
+  /**
+   * Gets a room by id, if it exists
+   */
+  getRoom(roomId: string): GameRoom | undefined {
+    return this.rooms.get(roomId);
+  }
+
+  /**
+   * Handles a newly connected socket until it closes
+   */
+  handleConnection(socket: WebSocket): void {
+    const connection: Connection = { id: randomUUID().slice(0, 8), socket, room: null };
+
+    socket.on("message", (data) => {
+      const result = parseClientMessage(data.toString());
+      if (!result.ok) {
+        this.send(connection, { type: "error", message: result.error });
+        return;
+      }
+
+      const message = result.message;
+      switch (message.type) {
+        case "join":
+          this.join(connection, message.roomId, message.name, message.joinToken).catch((error) => {
+            log(`Join of ${message.roomId} failed: ${error instanceof Error ? error.message : error}`, "game");
+            this.send(connection, { type: "error", message: "Could not join the room" });
+          });
+          break;
+        case "leave":
+          this.leave(connection);
+          break;
+        case "input":
+          connection.room?.setInput(connection.id, message.seq, message.controls);
+          break;
+        case "ping":
+          this.send(connection, { type: "pong", sentAt: message.sentAt, serverTime: Date.now() });
+          break;
+      }
+    });
+
+    socket.on("close", () => this.leave(connection));
+    socket.on("error", (error) => log(`Socket ${connection.id} error: ${error.message}`, "game"));
+  }
+
+  /**
+   * Stops the tick loop - rooms keep their state
+   */
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  private async join(connection: Connection, roomId: string, name: string, joinToken?: string): Promise<void> {
+    if (connection.room) {
+      this.send(connection, { type: "error", message: `Already in room ${connection.room.id}` });
+      return;
+    }
+
+    // A room started from a lobby keeps its players' join tokens, so it stays closed
+    // to everyone else even after its lobby room is gone - the lobby is only read the first time
+    let room = this.rooms.get(roomId);
+    const lobby = room ? null : await this.storage.getRoom(roomId);
+    if (lobby && lobby.status !== "started") {
+      this.send(connection, { type: "error", message: `Room ${roomId} has not been started by its host` });
+      return;
+    }
+
+    // The socket may have closed or joined another room while the lobby was looked up
+    if (connection.room || connection.socket.readyState !== WebSocket.OPEN) return;
+
+    room = this.rooms.get(roomId);
+    const lobbyPlayers = room ? room.lobbyPlayers : lobby?.players ?? null;
+    let team: number | null = null;
+    if (lobbyPlayers) {
+      const member = lobbyPlayers.find(player => tokensMatch(joinToken, player.joinToken));
+      if (!member) {
+        this.send(connection, { type: "error", message: `You are not a player in room ${roomId}` });
+        return;
+      }
+      name = member.name;
+      team = member.team;
+    }
+
+    if (!room) {
+      // Without a lobby the room id picks the ocean, so rejoining a room by name finds the same islands
+      room = lobby
+        ? new GameRoom(roomId, lobby.seed, { mode: lobby.mode, maxPlayers: lobby.maxPlayers, lobbyPlayers: lobby.players })
+        : new GameRoom(roomId, hashSeed(`room:${roomId}`));
+      this.rooms.set(roomId, room);
+      log(`Created room ${roomId}`, "game");
+    }
+    if (room.isFull) {
+      this.send(connection, { type: "error", message: `Room ${roomId} is full` });
+      return;
+    }
+
+    this.cancelClose(roomId);
+    connection.room = room;
+    room.join({ id: connection.id, name, team, send: (message) => this.send(connection, message) });
+    log(`${name} (${connection.id}) joined ${roomId} - ${room.size}/${room.maxPlayers}`, "game");
+
+    this.startLoop();
+  }
+
+  private leave(connection: Connection): void {
+    const room = connection.room;
+    if (!room) return;
+
+    room.leave(connection.id);
+    connection.room = null;
+    log(`${connection.id} left ${room.id} - ${room.size}/${room.maxPlayers}`, "game");
+
+    if (room.size === 0) this.scheduleClose(room);
+  }
+
+  // Close an empty room once it has waited out the grace period without anyone rejoining
+  private scheduleClose(room: GameRoom): void {
+    this.cancelClose(room.id);
+    this.closeTimers.set(room.id, setTimeout(() => this.close(room), MULTIPLAYER.EMPTY_ROOM_GRACE));
+  }
+
+  private cancelClose(roomId: string): void {
+    const timer = this.closeTimers.get(roomId);
+    if (timer) clearTimeout(timer);
+    this.closeTimers.delete(roomId);
+  }
+
+  private close(room: GameRoom): void {
+    this.closeTimers.delete(room.id);
+    if (room.size > 0 || this.rooms.get(room.id) !== room) return;
+
+    this.rooms.delete(room.id);
+    log(`Closed room ${room.id}`, "game");
+    if (this.rooms.size === 0) this.stop();
+
+    // The match is over - its lobby room goes too
+    this.storage.deleteRoom(room.id).catch((error) => {
+      log(`Deleting lobby room ${room.id} failed: ${error instanceof Error ? error.message : error}`, "game");
+    });
+  }
+
+  // Step every room at the fixed tick rate, catching up if the timer fires late
+  private startLoop(): void {
+    if (this.timer) return;
+
+    const tickLength = 1000 / MULTIPLAYER.TICK_RATE;
+    this.lastStep = performance.now();
+    this.accumulator = 0;
+
+    this.timer = setInterval(() => {
+      const now = performance.now();
+      // Never try to catch up more than a quarter second after a stall
+      this.accumulator = Math.min(this.accumulator + now - this.lastStep, 250);
+      this.lastStep = now;
+
+      while (this.accumulator >= tickLength) {
+        // Empty rooms waiting for their players to come back stand still
+        this.rooms.forEach(room => {
+          if (room.size > 0) room.step(tickLength / 1000);
+        });
+        this.accumulator -= tickLength;
+      }
+    }, tickLength);
+  }
+
+  private send(connection: Connection, message: ServerMessage): void {
+    if (connection.socket.readyState === WebSocket.OPEN) {
+      connection.socket.send(JSON.stringify(message));
+    }
+  }
+}
+
+/**
+ * Attaches the game server to the HTTP server on MULTIPLAYER.PATH
+ * Other upgrade requests (like Vite's HMR socket) are left alone
+ */
+export function setupGameServer(server: Server, storage: IStorage): GameServer {
+  const gameServer = new GameServer(storage);
+  const wss = new WebSocketServer({ noServer: true });
+
+  server.on("upgrade", (request, socket, head) => {
+    const { pathname } = new URL(request.url ?? "/", "http://localhost");
+    if (pathname !== MULTIPLAYER.PATH) return;
+
+    wss.handleUpgrade(request, socket, head, (ws) => gameServer.handleConnection(ws));
+  });
+
+  return gameServer;
+}
@@ -1,15 +1,390 @@
-import type { Express } from "express";
+import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
+import { randomBytes, randomInt, scryptSync, timingSafeEqual } from "crypto";
+import { fromZodError } from "zod-validation-error";
+import type { ZodError } from "zod";
 import { storage } from "./storage";
+import {
+  insertProfileSchema,
+  PROFILE_TOKEN_HEADER,
+  insertSaveSchema,
+  saveSlotNameSchema,
+  createRoomSchema,
+  joinRoomSchema,
+  readyRoomSchema,
+  roomMemberSchema,
+  type LobbyPlayer,
+  type Profile,
+  type PublicProfile,
+  type PublicRoom,
+  type Room,
+  type RoomMembership,
+  type RoomSummary,
+} from "@shared/schema";
+import { MULTIPLAYER } from "@shared/multiplayer";
+import { migrateSave } from "@shared/saveGame";
+import { setupGameServer } from "./gameServer";
+import { createToken, tokensMatch } from "./tokens";
+
+// Send a 400 with a readable validation message
+function sendValidationError(res: Response, error: ZodError) {
+  res.status(400).json({ message: fromZodError(error).message });
+}
+
+// Parse the :profileId route parameter and check the request comes from the
+// profile's owner, responding with 400/401/404 when not
+async function resolveProfile(req: Request, res: Response) {
+  const profileId = Number(req.params.profileId);
+  if (!Number.isInteger(profileId) || profileId <= 0) {
+    res.status(400).json({ message: "Invalid profile id" });
+    return null;
+  }
+
+  return authorizeProfile(profileId, req, res);
+}
+
+// Look up a profile on behalf of its owner, responding with 401/404 when the
+// profile doesn't exist or the request doesn't carry its token
+async function authorizeProfile(profileId: number, req: Request, res: Response) {
+  const profile = await findProfile(profileId, res);
+  if (!profile) return null;
+
+  if (!tokensMatch(req.get(PROFILE_TOKEN_HEADER), profile.token)) {
+    res.status(401).json({ message: "Missing or wrong profile token" });
+    return null;
+  }
+
+  return profile;
+}
+
+// Look up a profile, responding with 404 when it doesn't exist
+async function findProfile(profileId: number, res: Response) {
+  const profile = await storage.getProfile(profileId);
+  if (!profile) {
+    res.status(404).json({ message: "Profile not found" });
+    return null;
+  }
+
+  return profile;
+}
+
+// Look up the :roomId lobby room, responding with 404 when it doesn't exist
+async function resolveRoom(req: Request, res: Response) {
+  const room = await storage.getRoom(req.params.roomId);
+  if (!room) {
+    res.status(404).json({ message: "Room not found" });
+    return null;
+  }
+
+  return room;
+}
+
+// Room passwords are stored as salt:scrypt-hash
+function hashPassword(password: string): string {
+  const salt = randomBytes(16).toString("hex");
+  return `${salt}:${scryptSync(password, salt, 32).toString("hex")}`;
+}
+
+function verifyPassword(password: string, stored: string): boolean {
+  const [salt, hash] = stored.split(":");
+  return timingSafeEqual(scryptSync(password, salt, 32), Buffer.from(hash, "hex"));
+}
+
+function toPublicProfile({ token, ...profile }: Profile): PublicProfile {
+  return profile;
+}
+
+function toPublicRoom({ passwordHash, hostId, players, ...room }: Room): PublicRoom {
+  return {
+    ...room,
+    hasPassword: passwordHash !== null,
+    hostMemberId: players.find(player => player.profileId === hostId)?.memberId ?? "",
+    players: players.map(({ profileId, joinToken, ...player }) => player),
+  };
+}
+
+// The room for one of its players, with the token their game client joins the match with
+function toMembership(room: Room, member: LobbyPlayer): RoomMembership {
+  return { room: toPublicRoom(room), memberId: member.memberId, joinToken: member.joinToken };
+}
+
+// A profile's seat in a room - its public handle and match token are made here
+function createLobbyPlayer(profile: Profile, team: number | null): LobbyPlayer {
+  return {
+    profileId: profile.id,
+    memberId: randomBytes(4).toString("hex"),
+    joinToken: createToken(),
+    name: profile.name,
+    ready: false,
+    team,
+  };
+}
+
+// Put a new player on the smaller crew - teams only exist in team matches
+function pickTeam(room: Pick<Room, "mode" | "players">): number | null {
+  if (room.mode !== "teams") return null;
+
+  const red = room.players.filter(player => player.team === 0).length;
+  const blue = room.players.filter(player => player.team === 1).length;
+  return blue < red ? 1 : 0;
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
-  // put application routes here
-  // prefix all routes with /api
+  // Player profiles
+  app.post("/api/profiles", async (req, res) => {
+    const parsed = insertProfileSchema.safeParse(req.body);
+    if (!parsed.success) return sendValidationError(res, parsed.error);
+
+    if (await storage.getProfileByName(parsed.data.name)) {
+      return res.status(409).json({ message: "Profile name already taken" });
+    }
+
+    // The only response that carries the token - the creating device keeps it
+    const profile = await storage.createProfile({ ...parsed.data, token: createToken() });
+    res.status(201).json(profile);
+  });
+
+  app.get("/api/profiles/:profileId", async (req, res) => {
+    const profile = await resolveProfile(req, res);
+    if (!profile) return;
+
+    res.json(toPublicProfile(profile));
+  });
+
+  // Save slots - summaries only, the full data is fetched per slot
+  app.get("/api/saves/:profileId", async (req, res) => {
+    const profile = await resolveProfile(req, res);
+    if (!profile) return;
+
+    const saves = await storage.listSaves(profile.id);
+    res.json(saves.map(({ slot, updatedAt, data }) => ({
+      slot,
+      updatedAt,
+      version: data.version,
+      loot: data.progress.loot,
+    })));
+  });
+
+  app.get("/api/saves/:profileId/:slot", async (req, res) => {
+    const profile = await resolveProfile(req, res);
+    if (!profile) return;
+
+    const save = await storage.getSave(profile.id, req.params.slot);
+    if (!save) {
+      return res.status(404).json({ message: "Save not found" });
+    }
+
+    res.json(save);
+  });
 
-  // use storage to perform CRUD operations on the storage interface
-  // e.g. storage.insertUser(user) or storage.getUserByUsername(username)
+  // Last write wins: a save older than the stored one is rejected with the
+  // stored copy so the client can reconcile
+  app.put("/api/saves/:profileId/:slot", async (req, res) => {
+    const profile = await resolveProfile(req, res);
+    if (!profile) return;
+
+    const slot = saveSlotNameSchema.safeParse(req.params.slot);
+    if (!slot.success) return sendValidationError(res, slot.error);
+
+    const parsed = insertSaveSchema.safeParse(req.body);
+    if (!parsed.success) return sendValidationError(res, parsed.error);
+
+    // Older clients may still upload previous save versions
+    const migrated = migrateSave(parsed.data.data);
+    if (!migrated.ok) {
+      return res.status(400).json({ message: migrated.error });
+    }
+
+    const existing = await storage.getSave(profile.id, slot.data);
+    if (existing && existing.updatedAt > parsed.data.updatedAt) {
+      return res.status(409).json(existing);
+    }
+
+    const save = await storage.upsertSave({
+      data: migrated.save,
+      updatedAt: parsed.data.updatedAt,
+      profileId: profile.id,
+      slot: slot.data,
+    });
+    res.json(save);
+  });
+
+  app.delete("/api/saves/:profileId/:slot", async (req, res) => {
+    const profile = await resolveProfile(req, res);
+    if (!profile) return;
+
+    const deleted = await storage.deleteSave(profile.id, req.params.slot);
+    if (!deleted) {
+      return res.status(404).json({ message: "Save not found" });
+    }
+
+    res.status(204).end();
+  });
+
+  // Multiplayer lobby - rooms are gathered and started here, then played
+  // over the game server's WebSocket under the same room id
+  app.get("/api/rooms", async (_req, res) => {
+    const rooms = await storage.listRooms();
+    const summaries: RoomSummary[] = rooms
+      .filter(room => room.status === "open")
+      .sort((a, b) => b.createdAt - a.createdAt)
+      .map(room => ({
+        id: room.id,
+        name: room.name,
+        mode: room.mode,
+        maxPlayers: room.maxPlayers,
+        playerCount: room.players.length,
+        hasPassword: room.passwordHash !== null,
+        hostName: room.players.find(player => player.profileId === room.hostId)?.name ?? "",
+      }));
+    res.json(summaries);
+  });
+
+  app.post("/api/rooms", async (req, res) => {
+    const parsed = createRoomSchema.safeParse(req.body);
+    if (!parsed.success) return sendValidationError(res, parsed.error);
+
+    const profile = await authorizeProfile(parsed.data.profileId, req, res);
+    if (!profile) return;
+
+    const { mode, password } = parsed.data;
+    const host = createLobbyPlayer(profile, pickTeam({ mode, players: [] }));
+
+    const room = await storage.createRoom({
+      name: parsed.data.name,
+      hostId: profile.id,
+      mode,
+      maxPlayers: parsed.data.maxPlayers,
+      seed: parsed.data.seed ?? randomInt(0xffffffff),
+      passwordHash: password ? hashPassword(password) : null,
+      status: "open",
+      players: [host],
+    });
+    res.status(201).json(toMembership(room, host));
+  });
+
+  app.get("/api/rooms/:roomId", async (req, res) => {
+    const room = await resolveRoom(req, res);
+    if (!room) return;
+
+    res.json(toPublicRoom(room));
+  });
+
+  app.post("/api/rooms/:roomId/join", async (req, res) => {
+    const parsed = joinRoomSchema.safeParse(req.body);
+    if (!parsed.success) return sendValidationError(res, parsed.error);
+
+    const room = await resolveRoom(req, res);
+    if (!room) return;
+
+    const profile = await authorizeProfile(parsed.data.profileId, req, res);
+    if (!profile) return;
+
+    // Joining again (e.g. after a page reload) hands back the same seat and token
+    const existing = room.players.find(player => player.profileId === profile.id);
+    if (existing) {
+      return res.json(toMembership(room, existing));
+    }
+
+    if (room.status !== "open") {
+      return res.status(409).json({ message: "The match has already started" });
+    }
+    if (room.players.length >= room.maxPlayers) {
+      return res.status(409).json({ message: "Room is full" });
+    }
+    if (room.passwordHash && !verifyPassword(parsed.data.password ?? "", room.passwordHash)) {
+      return res.status(403).json({ message: "Wrong password" });
+    }
+
+    const player = createLobbyPlayer(profile, pickTeam(room));
+    const updated = await storage.updateRoom(room.id, { players: [...room.players, player] });
+    res.json(toMembership(updated!, player));
+  });
+
+  app.post("/api/rooms/:roomId/leave", async (req, res) => {
+    const parsed = roomMemberSchema.safeParse(req.body);
+    if (!parsed.success) return sendValidationError(res, parsed.error);
+
+    const room = await resolveRoom(req, res);
+    if (!room) return;
+
+    if (!(await authorizeProfile(parsed.data.profileId, req, res))) return;
+
+    // Players leave a started match through the game server, which closes the room once it's empty
+    if (room.status === "started") {
+      return res.status(409).json({ message: "The match has already started" });
+    }
+
+    const players = room.players.filter(player => player.profileId !== parsed.data.profileId);
+    if (players.length === room.players.length) {
+      return res.status(403).json({ message: "Not a player in this room" });
+    }
+
+    // The last one out closes the room, and a departing host hands over to the longest-waiting player
+    if (players.length === 0) {
+      await storage.deleteRoom(room.id);
+      return res.status(204).end();
+    }
+
+    const hostId = room.hostId === parsed.data.profileId ? players[0].profileId : room.hostId;
+    const updated = await storage.updateRoom(room.id, { players, hostId });
+    res.json(toPublicRoom(updated!));
+  });
+
+  app.post("/api/rooms/:roomId/ready", async (req, res) => {
+    const parsed = readyRoomSchema.safeParse(req.body);
+    if (!parsed.success) return sendValidationError(res, parsed.error);
+
+    const room = await resolveRoom(req, res);
+    if (!room) return;
+
+    if (!(await authorizeProfile(parsed.data.profileId, req, res))) return;
+
+    if (!room.players.some(player => player.profileId === parsed.data.profileId)) {
+      return res.status(403).json({ message: "Not a player in this room" });
+    }
+    if (room.status !== "open") {
+      return res.status(409).json({ message: "The match has already started" });
+    }
+
+    const players = room.players.map(player =>
+      player.profileId === parsed.data.profileId ? { ...player, ready: parsed.data.ready } : player,
+    );
+    const updated = await storage.updateRoom(room.id, { players });
+    res.json(toPublicRoom(updated!));
+  });
+
+  // Only the host can start, once enough captains are in and everyone else is ready
+  app.post("/api/rooms/:roomId/start", async (req, res) => {
+    const parsed = roomMemberSchema.safeParse(req.body);
+    if (!parsed.success) return sendValidationError(res, parsed.error);
+
+    const room = await resolveRoom(req, res);
+    if (!room) return;
+
+    if (!(await authorizeProfile(parsed.data.profileId, req, res))) return;
+
+    if (room.hostId !== parsed.data.profileId) {
+      return res.status(403).json({ message: "Only the host can start the match" });
+    }
+    if (room.status !== "open") {
+      return res.status(409).json({ message: "The match has already started" });
+    }
+    if (room.players.length < MULTIPLAYER.MIN_PLAYERS) {
+      return res.status(409).json({ message: `At least ${MULTIPLAYER.MIN_PLAYERS} players are needed` });
+    }
+    if (room.players.some(player => player.profileId !== room.hostId && !player.ready)) {
+      return res.status(409).json({ message: "Not everyone is ready" });
+    }
+
+    const updated = await storage.updateRoom(room.id, { status: "started" });
+    res.json(toPublicRoom(updated!));
+  });
 
   const httpServer = createServer(app);
 
+  // Multiplayer battles run over WebSockets on the same server
+  setupGameServer(httpServer, storage);
+
   return httpServer;
 }
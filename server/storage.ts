@@ -1,4 +1,14 @@
-import { users, type User, type InsertUser } from "@shared/schema";
+import {
+  users,
+  type User,
+  type InsertUser,
+  type Profile,
+  type InsertProfile,
+  type Save,
+  type InsertSave,
+  type Room,
+  type InsertRoom,
+} from "@shared/schema";
 
 // modify the interface with any CRUD methods
 // you might need
@@ -7,15 +17,47 @@ export interface IStorage {
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+
+  // Player profiles
+  getProfile(id: number): Promise<Profile | undefined>;
+  getProfileByName(name: string): Promise<Profile | undefined>;
+  createProfile(profile: InsertProfile & Pick<Profile, "token">): Promise<Profile>;
+
+  // Save slots
+  listSaves(profileId: number): Promise<Save[]>;
+  getSave(profileId: number, slot: string): Promise<Save | undefined>;
+  upsertSave(save: InsertSave): Promise<Save>;
+  deleteSave(profileId: number, slot: string): Promise<boolean>;
+
+  // Multiplayer lobby rooms
+  listRooms(): Promise<Room[]>;
+  getRoom(id: string): Promise<Room | undefined>;
+  createRoom(room: InsertRoom): Promise<Room>;
+  updateRoom(id: string, changes: Partial<InsertRoom>): Promise<Room | undefined>;
+  deleteRoom(id: string): Promise<boolean>;
 }
 
+// Short room codes that are easy to read out to a friend
+const ROOM_CODE_ALPHABET = "abcdefghjkmnpqrstuvwxyz23456789";
+const ROOM_CODE_LENGTH = 6;
+
 export class MemStorage implements IStorage {
   private users: Map<number, User>;
+  private profiles: Map<number, Profile>;
+  private saves: Map<string, Save>;
+  private rooms: Map<string, Room>;
   currentId: number;
+  currentProfileId: number;
+  currentSaveId: number;
 
   constructor() {
     this.users = new Map();
+    this.profiles = new Map();
+    this.saves = new Map();
+    this.rooms = new Map();
     this.currentId = 1;
+    this.currentProfileId = 1;
+    this.currentSaveId = 1;
   }
 
   async getUser(id: number): Promise<User | undefined> {
@@ -34,6 +76,82 @@ export class MemStorage implements IStorage {
     this.users.set(id, user);
     return user;
   }
+
+  async getProfile(id: number): Promise<Profile | undefined> {
+    return this.profiles.get(id);
+  }
+
+  async getProfileByName(name: string): Promise<Profile | undefined> {
+    return Array.from(this.profiles.values()).find(
+      (profile) => profile.name === name,
+    );
+  }
+
+  async createProfile(insertProfile: InsertProfile & Pick<Profile, "token">): Promise<Profile> {
+    const id = this.currentProfileId++;
+    const profile: Profile = { ...insertProfile, id, createdAt: Date.now() };
+    this.profiles.set(id, profile);
+    return profile;
+  }
+
+  async listSaves(profileId: number): Promise<Save[]> {
+    return Array.from(this.saves.values()).filter(
+      (save) => save.profileId === profileId,
+    );
+  }
+
+  async getSave(profileId: number, slot: string): Promise<Save | undefined> {
+    return this.saves.get(`${profileId}:${slot}`);
+  }
+
+  async upsertSave(insertSave: InsertSave): Promise<Save> {
+    const key = `${insertSave.profileId}:${insertSave.slot}`;
+    const existing = this.saves.get(key);
+    const save: Save = {
+      ...insertSave,
+      id: existing ? existing.id : this.currentSaveId++,
+    };
+    this.saves.set(key, save);
+    return save;
+  }
+
+  async deleteSave(profileId: number, slot: string): Promise<boolean> {
+    return this.saves.delete(`${profileId}:${slot}`);
+  }
+
+  async listRooms(): Promise<Room[]> {
+    return Array.from(this.rooms.values());
+  }
+
+  async getRoom(id: string): Promise<Room | undefined> {
+    return this.rooms.get(id);
+  }
+
+  async createRoom(insertRoom: InsertRoom): Promise<Room> {
+    let id: string;
+    do {
+      id = Array.from({ length: ROOM_CODE_LENGTH }, () =>
+        ROOM_CODE_ALPHABET[Math.floor(Math.random() * ROOM_CODE_ALPHABET.length)],
+      ).join("");
+    } while (this.rooms.has(id));
+
+    const room: Room = { ...insertRoom, id, createdAt: Date.now() };
+    this.rooms.set(id, room);
+    return room;
+  }
+
+  async updateRoom(id: string, changes: Partial<InsertRoom>): Promise<Room | undefined> {
+    const existing = this.rooms.get(id);
+    if (!existing) return undefined;
+
+    const room: Room = { ...existing, ...changes };
+    this.rooms.set(id, room);
+    return room;
+  }
+
+  async deleteRoom(id: string): Promise<boolean> {
+    return this.rooms.delete(id);
+  }
 }
 
 export const storage = new MemStorage();
@@ -0,0 +1,121 @@
+import { WebSocket } from "ws";
+import {
+  MULTIPLAYER,
+  createIdleControls,
+  type ClientMessage,
+  type ControlState,
+  type ServerMessage,
+} from "@shared/multiplayer";
+
+/**
+ * Headless multiplayer test client
+ * Connects a number of bot captains to a room, sails them around with random
+ * controls and reports what the server sends back
+ * Run with: npm run mp:test-client [url] [roomId] [bots] [seconds]
+ */
+
+interface BotStats {
+  name: string;
+  playerId: string | null;
+  snapshots: number;
+  hitsDealt: number;
+  hitsTaken: number;
+  errors: string[];
+}
+
+function runBot(url: string, roomId: string, name: string, seconds: number): Promise<BotStats> {
+  return new Promise((resolve) => {
+    const stats: BotStats = { name, playerId: null, snapshots: 0, hitsDealt: 0, hitsTaken: 0, errors: [] };
+    const socket = new WebSocket(url);
+    const send = (message: ClientMessage) => socket.send(JSON.stringify(message));
+
+    let controls: ControlState = createIdleControls();
+    let seq = 0;
+    let inputTimer: NodeJS.Timeout | null = null;
+
+    socket.on("open", () => {
+      send({ type: "join", roomId, name });
+
+      // Change course now and then, and keep the server fed at the tick rate like a real client
+      inputTimer = setInterval(() => {
+        if (Math.random() < 0.05) {
+          controls = {
+            ...createIdleControls(),
+            forward: Math.random() < 0.8,
+            leftward: Math.random() < 0.3,
+            rightward: Math.random() < 0.3,
+          };
+        }
+        send({ type: "input", seq: ++seq, controls: { ...controls, fire: Math.random() < 0.1 } });
+      }, 1000 / MULTIPLAYER.TICK_RATE);
+
+      setTimeout(() => {
+        send({ type: "leave" });
+        socket.close();
+      }, seconds * 1000);
+    });
+
+    socket.on("message", (data) => {
+      const message = JSON.parse(data.toString()) as ServerMessage;
+      switch (message.type) {
+        case "welcome":
+          stats.playerId = message.playerId;
+          console.log(`[TEST CLIENT] ${name} joined ${message.roomId} as ${message.playerId} (seed ${message.seed})`);
+          break;
+        case "snapshot": {
+          stats.snapshots++;
+          if (stats.snapshots % (MULTIPLAYER.TICK_RATE / MULTIPLAYER.SNAPSHOT_INTERVAL * 2) === 0) {
+            const self = message.ships.find(ship => ship.id === stats.playerId);
+            console.log(
+              `[TEST CLIENT] ${name} tick ${message.tick} (${message.status}): ${message.ships.length} ships, ` +
+              `${message.cannonballs.length} cannonballs` +
+              (self ? `, at (${self.x.toFixed(1)}, ${self.z.toFixed(1)}) health ${self.health}` : '')
+            );
+          }
+          break;
+        }
+        case "hit":
+          if (message.sourceId === stats.playerId) stats.hitsDealt++;
+          if (message.targetId === stats.playerId) stats.hitsTaken++;
+          break;
+        case "error":
+          stats.errors.push(message.message);
+          console.warn(`[TEST CLIENT] ${name} error: ${message.message}`);
+          break;
+      }
+    });
+
+    socket.on("error", (error) => stats.errors.push(error.message));
+    socket.on("close", () => {
+      if (inputTimer) clearInterval(inputTimer);
+      resolve(stats);
+    });
+  });
+}
+
+async function run(): Promise<void> {
+  const [
+    url = `ws://localhost:5000${MULTIPLAYER.PATH}`,
+    roomId = "test-room",
+    bots = "2",
+    seconds = "10",
+  ] = process.argv.slice(2);
+
+  const names = Array.from({ length: Number(bots) }, (_, i) => `Bot ${i + 1}`);
+  const results = await Promise.all(names.map(name => runBot(url, roomId, name, Number(seconds))));
+
+  console.log("[TEST CLIENT] Results:");
+  results.forEach(stats => {
+    console.log(
+      `  ${stats.name} (${stats.playerId ?? "never joined"}): ${stats.snapshots} snapshots, ` +
+      `${stats.hitsDealt} hits dealt, ${stats.hitsTaken} taken, ${stats.errors.length} errors`
+    );
+  });
+
+  // Every bot should have joined and heard from the server
+  if (results.some(stats => !stats.playerId || stats.snapshots === 0)) {
+    process.exitCode = 1;
+  }
+}
+
+run();
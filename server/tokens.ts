@@ -0,0 +1,19 @@
+import { randomBytes, timingSafeEqual } from "crypto";
+
+/**
+ * A fresh secret - profile tokens and match join tokens
+ */
+export function createToken(): string {
+  return randomBytes(24).toString("hex");
+}
+
+/**
+ * Compares secrets in constant time so they can't be guessed a character at a time
+ */
+export function tokensMatch(given: string | undefined, expected: string): boolean {
+  if (given === undefined) return false;
+
+  const a = Buffer.from(given);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
@@ -0,0 +1,164 @@
+import { z } from "zod";
+import { fromZodError } from "zod-validation-error";
+
+/**
+ * Multiplayer protocol
+ * --------------------
+ * Clients connect to MULTIPLAYER.PATH over WebSocket and exchange JSON messages.
+ * The server owns the simulation: clients only send their control state and
+ * render the snapshots they get back, interpolated MULTIPLAYER.INTERPOLATION_DELAY
+ * behind the newest one so movement stays smooth between ticks.
+ */
+export const MULTIPLAYER = {
+  PATH: '/ws/game',
+  TICK_RATE: 30,           // Simulation steps per second
+  SNAPSHOT_INTERVAL: 2,    // Ticks between snapshots (15 per second)
+  INTERPOLATION_DELAY: 100, // ms clients render behind the newest snapshot
+  MIN_PLAYERS: 2,          // Players needed before damage counts
+  MAX_PLAYERS: 8,
+  EMPTY_ROOM_GRACE: 120_000, // ms an empty room waits for its players to rejoin before it closes
+};
+
+// Names of the ship controls - mirrors the Controls enum in client/src/App.tsx
+// New controls go at the end: replays store them as bits in this order
+// fire fires both batteries; raiseGuns/lowerGuns change the elevation while held
+// board only does anything in single player, where crippled ships can be taken
+// raiseSails/lowerSails set and take in canvas while held
+export const CONTROL_NAMES = [
+  'forward', 'backward', 'leftward', 'rightward', 'fire',
+  'firePort', 'fireStarboard', 'raiseGuns', 'lowerGuns', 'repair',
+  'board', 'raiseSails', 'lowerSails',
+] as const;
+export type ControlName = typeof CONTROL_NAMES[number];
+
+export const controlStateSchema = z.object({
+  forward: z.boolean(),
+  backward: z.boolean(),
+  leftward: z.boolean(),
+  rightward: z.boolean(),
+  fire: z.boolean(),
+  firePort: z.boolean(),
+  fireStarboard: z.boolean(),
+  raiseGuns: z.boolean(),
+  lowerGuns: z.boolean(),
+  repair: z.boolean(),
+  board: z.boolean(),
+  raiseSails: z.boolean(),
+  lowerSails: z.boolean(),
+});
+
+export type ControlState = z.infer<typeof controlStateSchema>;
+
+// free_for_all: every captain for themselves
+// teams: captains are split into two crews and can't damage their own side
+export const GAME_MODES = ['free_for_all', 'teams'] as const;
+export type GameMode = typeof GAME_MODES[number];
+
+export const roomIdSchema = z.string().regex(/^[a-z0-9-]{1,32}$/, "Room ids are 1-32 lowercase letters, digits or dashes");
+
+// Messages sent by clients
+export const clientMessageSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('join'),
+    roomId: roomIdSchema,
+    name: z.string().trim().min(1).max(24),
+    joinToken: z.string().max(64).optional(), // Required for rooms created through the lobby - handed out on joining there
+  }),
+  z.object({ type: z.literal('leave') }),
+  z.object({
+    type: z.literal('input'),
+    seq: z.number().int().nonnegative(), // Increases with every input sent, echoed back in snapshots
+    controls: controlStateSchema,
+  }),
+  z.object({ type: z.literal('ping'), sentAt: z.number() }),
+]);
+
+export type ClientMessage = z.infer<typeof clientMessageSchema>;
+
+// A ship as seen in a snapshot
+export interface ShipSnapshot {
+  id: string;
+  name: string;
+  team: number | null;  // Crew in team matches, null in free for all
+  x: number;
+  z: number;
+  rotationY: number;   // Same convention as the player store's rotation.y
+  speed: number;
+  health: number;
+  maxHealth: number;
+  alive: boolean;
+  lastInputSeq: number; // Newest input the server has applied for this ship
+  sails: number;        // Canvas set, 0 to 1
+}
+
+// A cannonball in flight
+export interface CannonballSnapshot {
+  id: number;
+  ownerId: string;
+  x: number;
+  y: number;
+  z: number;
+}
+
+export type RoomStatus = 'waiting' | 'playing';
+
+// Messages sent by the server
+export type ServerMessage =
+  | { type: 'welcome'; playerId: string; roomId: string; seed: number; tickRate: number }
+  | { type: 'playerJoined'; playerId: string; name: string }
+  | { type: 'playerLeft'; playerId: string }
+  | {
+      type: 'snapshot';
+      tick: number;
+      serverTime: number;
+      status: RoomStatus;
+      ships: ShipSnapshot[];
+      cannonballs: CannonballSnapshot[];
+      wind: { direction: number; strength: number }; // Ocean-wide - each ship feels it as getWindAt gives
+    }
+  | { type: 'hit'; targetId: string; sourceId: string; damage: number; sunk: boolean }
+  | { type: 'pong'; sentAt: number; serverTime: number }
+  | { type: 'error'; message: string };
+
+export type ParseResult =
+  | { ok: true; message: ClientMessage }
+  | { ok: false; error: string };
+
+/**
+ * Parses a raw client frame - never throws, so one bad client can't take down a room
+ */
+export function parseClientMessage(raw: string): ParseResult {
+  let json: unknown;
+  try {
+    json = JSON.parse(raw);
+  } catch {
+    return { ok: false, error: "Message is not valid JSON" };
+  }
+
+  const parsed = clientMessageSchema.safeParse(json);
+  if (!parsed.success) {
+    return { ok: false, error: fromZodError(parsed.error).message };
+  }
+  return { ok: true, message: parsed.data };
+}
+
+/**
+ * Control state with nothing pressed
+ */
+export function createIdleControls(): ControlState {
+  return {
+    forward: false,
+    backward: false,
+    leftward: false,
+    rightward: false,
+    fire: false,
+    firePort: false,
+    fireStarboard: false,
+    raiseGuns: false,
+    lowerGuns: false,
+    repair: false,
+    board: false,
+    raiseSails: false,
+    lowerSails: false,
+  };
+}
@@ -0,0 +1,345 @@
+import { z } from "zod";
+import { fromZodError } from "zod-validation-error";
+
+/**
+ * Save-game document format
+ * -------------------------
+ * Every save is a single versioned document. Older documents are upgraded
+ * one version at a time through the MIGRATIONS chain before validation, so
+ * adding a version means bumping CURRENT_SAVE_VERSION, writing the new schema
+ * and adding one migration from the previous version.
+ *
+ * Version history:
+ *  0 - legacy loose localStorage keys (pirateGame_loot, pirateGame_hullLevel, ...)
+ *  1 - flat progress object used by the first synced save slots
+ *  2 - grouped progress, inventory, settings and world seed
+ *  3 - shot in the magazine (chain, grape and heated - round shot isn't counted)
+ *  4 - the crew roster and their morale
+ *  5 - the fleet of captured prizes
+ *  6 - which ships of the fleet sail as escorts
+ */
+export const CURRENT_SAVE_VERSION = 6;
+
+// Version 0: the four numbers that used to live in separate localStorage keys
+const saveV0Schema = z.object({
+  loot: z.number().nullable().optional(),
+  hullLevel: z.number().nullable().optional(),
+  cannonLevel: z.number().nullable().optional(),
+  speedLevel: z.number().nullable().optional(),
+});
+
+// Version 1: flat progress object (no version field)
+const inventoryPowerUpSchema = z.object({
+  type: z.string(),
+  id: z.string(),
+  collectTime: z.number(),
+});
+
+const saveV1Schema = z.object({
+  loot: z.number().int().nonnegative(),
+  hullLevel: z.number().int().min(1),
+  cannonLevel: z.number().int().min(1),
+  speedLevel: z.number().int().min(1),
+  inventoryPowerUps: z.array(inventoryPowerUpSchema),
+  unlocks: z.array(z.string()),
+});
+
+// Version 2: grouped progress, no magazine
+const saveV2Schema = z.object({
+  version: z.literal(2),
+  savedAt: z.number().int().nonnegative(),
+  progress: z.object({
+    loot: z.number().int().nonnegative(),
+    hullLevel: z.number().int().min(1),
+    cannonLevel: z.number().int().min(1),
+    speedLevel: z.number().int().min(1),
+    unlocks: z.array(z.string()),
+  }),
+  inventoryPowerUps: z.array(inventoryPowerUpSchema),
+  settings: z.object({
+    isMuted: z.boolean(),
+    volume: z.number().min(0).max(1),
+    musicTrack: z.enum(['main', 'alternate']),
+  }),
+  world: z.object({
+    seed: z.number().int().nullable(),
+  }),
+});
+
+// Version 3: the magazine, no crew
+const saveV3Schema = z.object({
+  version: z.literal(3),
+  savedAt: z.number().int().nonnegative(),
+  progress: z.object({
+    loot: z.number().int().nonnegative(),
+    hullLevel: z.number().int().min(1),
+    cannonLevel: z.number().int().min(1),
+    speedLevel: z.number().int().min(1),
+    unlocks: z.array(z.string()),
+  }),
+  inventoryPowerUps: z.array(inventoryPowerUpSchema),
+  settings: z.object({
+    isMuted: z.boolean(),
+    volume: z.number().min(0).max(1),
+    musicTrack: z.enum(['main', 'alternate']),
+  }),
+  world: z.object({
+    seed: z.number().int().nullable(),
+  }),
+  ammo: z.object({
+    chain: z.number().int().nonnegative(),
+    grape: z.number().int().nonnegative(),
+    heated: z.number().int().nonnegative(),
+  }),
+});
+
+// Version 4: the crew, no fleet
+const saveV4Schema = z.object({
+  version: z.literal(4),
+  savedAt: z.number().int().nonnegative(),
+  progress: z.object({
+    loot: z.number().int().nonnegative(),
+    hullLevel: z.number().int().min(1),
+    cannonLevel: z.number().int().min(1),
+    speedLevel: z.number().int().min(1),
+    unlocks: z.array(z.string()),
+  }),
+  inventoryPowerUps: z.array(inventoryPowerUpSchema),
+  settings: z.object({
+    isMuted: z.boolean(),
+    volume: z.number().min(0).max(1),
+    musicTrack: z.enum(['main', 'alternate']),
+  }),
+  world: z.object({
+    seed: z.number().int().nullable(),
+  }),
+  ammo: z.object({
+    chain: z.number().int().nonnegative(),
+    grape: z.number().int().nonnegative(),
+    heated: z.number().int().nonnegative(),
+  }),
+  crew: z.object({
+    roster: z.object({
+      sailor: z.number().int().nonnegative(),
+      gunner: z.number().int().nonnegative(),
+      lookout: z.number().int().nonnegative(),
+    }),
+    morale: z.number().min(0).max(1),
+  }),
+});
+
+// Version 5: the fleet, no escorts
+const saveV5Schema = z.object({
+  version: z.literal(5),
+  savedAt: z.number().int().nonnegative(),
+  progress: z.object({
+    loot: z.number().int().nonnegative(),
+    hullLevel: z.number().int().min(1),
+    cannonLevel: z.number().int().min(1),
+    speedLevel: z.number().int().min(1),
+    unlocks: z.array(z.string()),
+  }),
+  inventoryPowerUps: z.array(inventoryPowerUpSchema),
+  settings: z.object({
+    isMuted: z.boolean(),
+    volume: z.number().min(0).max(1),
+    musicTrack: z.enum(['main', 'alternate']),
+  }),
+  world: z.object({
+    seed: z.number().int().nullable(),
+  }),
+  ammo: z.object({
+    chain: z.number().int().nonnegative(),
+    grape: z.number().int().nonnegative(),
+    heated: z.number().int().nonnegative(),
+  }),
+  crew: z.object({
+    roster: z.object({
+      sailor: z.number().int().nonnegative(),
+      gunner: z.number().int().nonnegative(),
+      lookout: z.number().int().nonnegative(),
+    }),
+    morale: z.number().min(0).max(1),
+  }),
+  fleet: z.array(z.object({
+    id: z.string(),
+    archetype: z.string(),
+  })),
+});
+
+// Version 6: current format
+export const saveGameSchema = z.object({
+  version: z.literal(CURRENT_SAVE_VERSION),
+  savedAt: z.number().int().nonnegative(),
+  progress: z.object({
+    loot: z.number().int().nonnegative(),
+    hullLevel: z.number().int().min(1),
+    cannonLevel: z.number().int().min(1),
+    speedLevel: z.number().int().min(1),
+    unlocks: z.array(z.string()),
+  }),
+  inventoryPowerUps: z.array(inventoryPowerUpSchema),
+  settings: z.object({
+    isMuted: z.boolean(),
+    volume: z.number().min(0).max(1),
+    musicTrack: z.enum(['main', 'alternate']),
+  }),
+  world: z.object({
+    seed: z.number().int().nullable(),
+  }),
+  ammo: z.object({
+    chain: z.number().int().nonnegative(),
+    grape: z.number().int().nonnegative(),
+    heated: z.number().int().nonnegative(),
+  }),
+  crew: z.object({
+    roster: z.object({
+      sailor: z.number().int().nonnegative(),
+      gunner: z.number().int().nonnegative(),
+      lookout: z.number().int().nonnegative(),
+    }),
+    morale: z.number().min(0).max(1),
+  }),
+  fleet: z.array(z.object({
+    id: z.string(),
+    archetype: z.string(),
+    escort: z.boolean(),
+  })),
+});
+
+export type SaveGame = z.infer<typeof saveGameSchema>;
+
+// Each migration parses a document of version N with that version's schema and
+// returns version N + 1, typed against the next version's schema
+const MIGRATIONS: Record<number, (save: unknown) => unknown> = {
+  0: (save): z.infer<typeof saveV1Schema> => {
+    const legacy = saveV0Schema.parse(save);
+    return {
+      loot: Math.max(0, Math.floor(legacy.loot ?? 0)),
+      hullLevel: Math.max(1, Math.floor(legacy.hullLevel ?? 1)),
+      cannonLevel: Math.max(1, Math.floor(legacy.cannonLevel ?? 1)),
+      speedLevel: Math.max(1, Math.floor(legacy.speedLevel ?? 1)),
+      inventoryPowerUps: [],
+      unlocks: [],
+    };
+  },
+  1: (save): z.infer<typeof saveV2Schema> => {
+    const v1 = saveV1Schema.parse(save);
+    return {
+      version: 2,
+      savedAt: 0,
+      progress: {
+        loot: v1.loot,
+        hullLevel: v1.hullLevel,
+        cannonLevel: v1.cannonLevel,
+        speedLevel: v1.speedLevel,
+        unlocks: v1.unlocks,
+      },
+      inventoryPowerUps: v1.inventoryPowerUps,
+      settings: createDefaultSave().settings,
+      world: { seed: null },
+    };
+  },
+  2: (save): z.infer<typeof saveV3Schema> => {
+    const v2 = saveV2Schema.parse(save);
+    return { ...v2, version: 3, ammo: createDefaultSave().ammo };
+  },
+  3: (save): z.infer<typeof saveV4Schema> => {
+    const v3 = saveV3Schema.parse(save);
+    return { ...v3, version: 4, crew: createDefaultSave().crew };
+  },
+  4: (save): z.infer<typeof saveV5Schema> => {
+    const v4 = saveV4Schema.parse(save);
+    return { ...v4, version: 5, fleet: [] };
+  },
+  // Prizes taken before there were escorts wait in port until chosen
+  5: (save): SaveGame => {
+    const v5 = saveV5Schema.parse(save);
+    return { ...v5, version: 6, fleet: v5.fleet.map(ship => ({ ...ship, escort: false })) };
+  },
+};
+
+export type MigrationResult =
+  | { ok: true; save: SaveGame; migratedFrom: number | null }
+  | { ok: false; error: string };
+
+/**
+ * Works out which version a raw document is
+ * Versions before 2 had no version field and are recognised by shape
+ */
+export function detectSaveVersion(raw: unknown): number | null {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return null;
+  
+  const doc = raw as Record<string, unknown>;
+  if (typeof doc.version === 'number') return doc.version;
+  if ('inventoryPowerUps' in doc && 'unlocks' in doc) return 1;
+  if ('loot' in doc || 'hullLevel' in doc || 'cannonLevel' in doc || 'speedLevel' in doc) return 0;
+  
+  return null;
+}
+
+/**
+ * Upgrades a raw save document of any known version to the current format
+ * Never throws - a document that can't be understood is reported as an error
+ * so the caller can quarantine it instead of resetting progress
+ */
+export function migrateSave(raw: unknown): MigrationResult {
+  const version = detectSaveVersion(raw);
+  if (version === null) {
+    return { ok: false, error: "Unrecognised save document" };
+  }
+  if (version > CURRENT_SAVE_VERSION) {
+    return { ok: false, error: `Save version ${version} is newer than this game (${CURRENT_SAVE_VERSION})` };
+  }
+  
+  let doc: unknown = raw;
+  try {
+    for (let v = version; v < CURRENT_SAVE_VERSION; v++) {
+      doc = MIGRATIONS[v](doc);
+    }
+  } catch (error) {
+    const message = error instanceof z.ZodError ? fromZodError(error).message : String(error);
+    return { ok: false, error: `Migration from version ${version} failed: ${message}` };
+  }
+  
+  const parsed = saveGameSchema.safeParse(doc);
+  if (!parsed.success) {
+    return { ok: false, error: fromZodError(parsed.error).message };
+  }
+  
+  return {
+    ok: true,
+    save: parsed.data,
+    migratedFrom: version === CURRENT_SAVE_VERSION ? null : version,
+  };
+}
+
+/**
+ * A fresh save for a new voyage
+ */
+export function createDefaultSave(): SaveGame {
+  return {
+    version: CURRENT_SAVE_VERSION,
+    savedAt: 0,
+    progress: {
+      loot: 0,
+      hullLevel: 1,
+      cannonLevel: 1,
+      speedLevel: 1,
+      unlocks: [],
+    },
+    inventoryPowerUps: [],
+    settings: {
+      isMuted: true,
+      volume: 0.3,
+      musicTrack: 'main',
+    },
+    world: { seed: null },
+    ammo: { chain: 0, grape: 0, heated: 0 },
+    crew: {
+      roster: { sailor: 8, gunner: 8, lookout: 1 },
+      morale: 0.6,
+    },
+    fleet: [],
+  };
+}
@@ -1,6 +1,8 @@
-import { pgTable, text, serial, integer, boolean } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, jsonb, bigint, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import type { SaveGame } from "./saveGame";
+import { GAME_MODES, MULTIPLAYER, type GameMode } from "./multiplayer";
 
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
@@ -15,3 +17,139 @@ export const insertUserSchema = createInsertSchema(users).pick({
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+
+// Player profiles - one per captain, owns any number of named save slots
+// token is the secret handed to the device that created the profile; every
+// request made on the profile's behalf has to carry it
+export const profiles = pgTable("profiles", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(),
+  token: text("token").notNull(),
+  createdAt: bigint("created_at", { mode: "number" }).notNull(),
+});
+
+export const insertProfileSchema = createInsertSchema(profiles, {
+  name: (schema) => schema.trim().min(1).max(32),
+}).pick({
+  name: true,
+});
+
+export type InsertProfile = z.infer<typeof insertProfileSchema>;
+export type Profile = typeof profiles.$inferSelect;
+
+// A profile as anyone may see it - the token only ever goes to its owner
+export type PublicProfile = Omit<Profile, "token">;
+
+// Request header the owner sends the profile token in
+export const PROFILE_TOKEN_HEADER = "x-profile-token";
+
+// Named save slots - data is a versioned SaveGame document (see saveGame.ts)
+// and updatedAt is the client clock at the time of the save, used for
+// last-write-wins reconciliation
+export const saves = pgTable("saves", {
+  id: serial("id").primaryKey(),
+  profileId: integer("profile_id").notNull().references(() => profiles.id),
+  slot: text("slot").notNull(),
+  data: jsonb("data").$type<SaveGame>().notNull(),
+  updatedAt: bigint("updated_at", { mode: "number" }).notNull(),
+}, (table) => ({
+  profileSlotIdx: uniqueIndex("saves_profile_slot_idx").on(table.profileId, table.slot),
+}));
+
+export const saveSlotNameSchema = z.string().regex(/^[a-zA-Z0-9_-]{1,32}$/);
+
+// data is validated by migrateSave so older clients can still upload
+export const insertSaveSchema = z.object({
+  data: z.unknown(),
+  updatedAt: z.number().int().nonnegative(),
+});
+
+export type InsertSave = {
+  profileId: number;
+  slot: string;
+  data: SaveGame;
+  updatedAt: number;
+};
+export type Save = typeof saves.$inferSelect;
+
+// Multiplayer lobby rooms - players gather here, ready up and wait for the host
+// to start. Once started, the game server runs the match under the same id
+export type LobbyStatus = "open" | "started";
+
+export interface LobbyPlayer {
+  profileId: number;
+  memberId: string;  // Stands for the player in everything sent to clients - profile ids stay on the server
+  joinToken: string; // Secret the player's game client joins the started match with
+  name: string;
+  ready: boolean;
+  team: number | null; // Assigned on join in team matches
+}
+
+export const rooms = pgTable("rooms", {
+  id: text("id").primaryKey(),
+  name: text("name").notNull(),
+  hostId: integer("host_id").notNull().references(() => profiles.id),
+  mode: text("mode").$type<GameMode>().notNull(),
+  maxPlayers: integer("max_players").notNull(),
+  seed: bigint("seed", { mode: "number" }).notNull(),
+  passwordHash: text("password_hash"),
+  status: text("status").$type<LobbyStatus>().notNull(),
+  players: jsonb("players").$type<LobbyPlayer[]>().notNull(),
+  createdAt: bigint("created_at", { mode: "number" }).notNull(),
+});
+
+export const createRoomSchema = z.object({
+  profileId: z.number().int().positive(),
+  name: z.string().trim().min(1).max(32),
+  mode: z.enum(GAME_MODES).default("free_for_all"),
+  maxPlayers: z.number().int().min(MULTIPLAYER.MIN_PLAYERS).max(MULTIPLAYER.MAX_PLAYERS).default(MULTIPLAYER.MAX_PLAYERS),
+  seed: z.number().int().nonnegative().max(0xffffffff).optional(), // Picked at random when missing
+  password: z.string().min(1).max(64).optional(),
+});
+
+export const joinRoomSchema = z.object({
+  profileId: z.number().int().positive(),
+  password: z.string().max(64).optional(),
+});
+
+export const readyRoomSchema = z.object({
+  profileId: z.number().int().positive(),
+  ready: z.boolean(),
+});
+
+// Leaving and starting only need to know who is asking
+export const roomMemberSchema = z.object({
+  profileId: z.number().int().positive(),
+});
+
+export type CreateRoom = z.infer<typeof createRoomSchema>;
+export type InsertRoom = Omit<typeof rooms.$inferSelect, "id" | "createdAt">;
+export type Room = typeof rooms.$inferSelect;
+
+// A lobby player as sent to clients
+export type PublicLobbyPlayer = Omit<LobbyPlayer, "profileId" | "joinToken">;
+
+// A room as sent to clients - the password, profile ids and join tokens never leave the server
+export type PublicRoom = Omit<Room, "passwordHash" | "hostId" | "players"> & {
+  hasPassword: boolean;
+  hostMemberId: string;
+  players: PublicLobbyPlayer[];
+};
+
+// What creating or joining a room hands back to the player who did it
+export interface RoomMembership {
+  room: PublicRoom;
+  memberId: string;
+  joinToken: string;
+}
+
+// A row in the room browser
+export interface RoomSummary {
+  id: string;
+  name: string;
+  mode: GameMode;
+  maxPlayers: number;
+  playerCount: number;
+  hasPassword: boolean;
+  hostName: string;
+}